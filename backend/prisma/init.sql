@@ -6,6 +6,9 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pg_trgm";
 CREATE EXTENSION IF NOT EXISTS "unaccent";
 
+-- Search columns and trigram indexes on the drugs table need the tables to
+-- exist, so they live in prisma/search-indexes.sql and run after each schema sync
+
 -- Create a database user for the application (if not exists)
 DO $$
 BEGIN
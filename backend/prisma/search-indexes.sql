@@ -0,0 +1,31 @@
+-- Search columns and indexes Prisma cannot express. Applied after every
+-- `prisma db push` or `prisma migrate dev` (see package.json); safe to re-run.
+
+-- Weighted full-text document for drug search: names (A) outrank indications (B),
+-- which outrank warnings (C) and adverse reactions (D). `db push` creates the
+-- column declared in schema.prisma as a plain tsvector; replace it with the
+-- generated one so Postgres keeps it up to date.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'drugs' AND column_name = 'search_vector' AND is_generated = 'NEVER'
+    ) THEN
+        ALTER TABLE drugs DROP COLUMN search_vector;
+    END IF;
+END
+$$;
+
+ALTER TABLE drugs ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '') || ' ' || coalesce("genericName", '') || ' ' || coalesce("fdaBrandName", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(indications, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(warnings, '') || ' ' || coalesce("boxedWarning", '')), 'C') ||
+    setweight(to_tsvector('english', coalesce("adverseReactions", '')), 'D')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS drugs_search_vector_idx ON drugs USING gin (search_vector);
+
+-- Trigram indexes for typo-tolerant name suggestions (pg_trgm is created by init.sql)
+CREATE INDEX IF NOT EXISTS drugs_name_trgm_idx ON drugs USING gin (lower(name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS drugs_generic_name_trgm_idx ON drugs USING gin (lower("genericName") gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS drugs_fda_brand_name_trgm_idx ON drugs USING gin (lower("fdaBrandName") gin_trgm_ops);
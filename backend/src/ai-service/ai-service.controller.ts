@@ -1,7 +1,9 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import { Controller, Post, Body, MessageEvent } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { IsString, IsOptional, IsArray } from 'class-validator';
+import { from, map, Observable } from 'rxjs';
 import { AiServiceService } from './ai-service.service';
+import { SsePost } from '../common/decorators/sse-post.decorator';
 
 class EnhanceDrugContentDto {
   @IsString()
@@ -137,6 +139,21 @@ export class AiServiceController {
     );
   }
 
+  @SsePost('generate-provider-explanation/stream')
+  @ApiOperation({ summary: 'Stream a provider explanation as server-sent events while it is generated' })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of `token` and `field` events, ending with `done` and the validated explanation',
+  })
+  streamProviderExplanation(@Body() dto: GenerateProviderExplanationDto): Observable<MessageEvent> {
+    const events = this.aiServiceService.streamProviderExplanation(dto.topic, dto.type, {
+      drugName: dto.drugName,
+      indication: dto.indication,
+      targetAudience: dto.targetAudience || 'general_healthcare',
+    });
+    return from(events).pipe(map((event) => ({ type: event.type, data: event })));
+  }
+
   @Post('generate-related-content')
   @ApiOperation({ summary: 'Generate related content suggestions for drugs using AI' })
   @ApiResponse({ status: 200, description: 'Related content suggestions generated successfully' })
@@ -3,9 +3,13 @@ import { AiServiceService } from './ai-service.service';
 import { AiServiceController } from './ai-service.controller';
 import { ContentGeneratorService } from './services/content-generator.service';
 import { MedicalValidatorService } from './services/medical-validator.service';
+import { GroundingValidatorService } from './services/grounding-validator.service';
 import { RetryService } from './services/retry.service';
 import { CacheService } from './services/cache.service';
 import { HuggingFaceProvider } from './providers/huggingface.provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.provider';
+import { TemplateProvider } from './providers/template.provider';
+import { AIProviderRegistryService } from './services/ai-provider-registry.service';
 import { AIErrorHandlerService } from './services/ai-error-handler.service';
 import { CircuitBreakerService } from './services/circuit-breaker.service';
 import { AIHealthController } from './controllers/ai-health.controller';
@@ -18,13 +22,17 @@ import { cacheConfig } from './config/cache.config';
     AiServiceService,
     ContentGeneratorService,
     MedicalValidatorService,
+    GroundingValidatorService,
     RetryService,
     CacheService,
     HuggingFaceProvider,
+    OpenAICompatibleProvider,
+    TemplateProvider,
+    AIProviderRegistryService,
     AIErrorHandlerService,
     CircuitBreakerService,
   ],
-  exports: [AiServiceService, AIErrorHandlerService, CircuitBreakerService],
+  exports: [AiServiceService, MedicalValidatorService, GroundingValidatorService, AIErrorHandlerService, CircuitBreakerService],
 })
 export class AiServiceModule implements OnModuleInit {
   constructor(
@@ -1,14 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ContentGeneratorService } from './services/content-generator.service';
 import { MedicalValidatorService } from './services/medical-validator.service';
-import { DrugContentContext, EnhancedDrugContent } from './interfaces/ai-provider.interface';
+import {
+  AIStreamEvent,
+  DrugContentContext,
+  EnhancedDrugContent,
+  GeneratedFAQ,
+  LabelAnswer,
+} from './interfaces/ai-provider.interface';
+import { CitedSentence, LabelChunk } from '../common/utils/label-retrieval.util';
 
 export interface EnhancedContent {
   title: string;
   description: string;
+  /** Present when the description was grounded in stored label sections. */
+  descriptionSentences?: CitedSentence[];
   seoMetaTitle: string;
   seoMetaDescription: string;
-  faqs: Array<{ question: string; answer: string }>;
+  faqs: GeneratedFAQ[];
 }
 
 export interface ProviderExplanation {
@@ -41,64 +50,113 @@ export class AiServiceService {
     drugContext?: Partial<DrugContentContext>,
   ): Promise<EnhancedContent> {
     try {
-      const context: DrugContentContext = {
-        drugName,
-        genericName: drugContext?.genericName,
-        brandNames: drugContext?.brandNames,
-        indications: drugContext?.indications,
-        contraindications: drugContext?.contraindications,
-        warnings: drugContext?.warnings,
-        dosageInfo: drugContext?.dosageInfo,
-        adverseReactions: drugContext?.adverseReactions,
-        manufacturer: drugContext?.manufacturer,
-      };
+      const context = this.buildContext(drugName, drugContext);
 
       this.logger.log(`Generating enhanced content for ${drugName}`);
 
       const enhancedContent = await this.contentGenerator.generateEnhancedContent(context);
+      return this.toEnhancedContent(enhancedContent, context);
+    } catch (error) {
+      this.logger.error(`Error enhancing content for ${drugName}:`, error);
+      return this.getFallbackContent(drugName);
+    }
+  }
 
-      // Validate the generated content
-      const seoTitleValidation = this.medicalValidator.validateSEOTitle(enhancedContent.seoTitle);
-      const metaDescValidation = this.medicalValidator.validateMetaDescription(enhancedContent.metaDescription);
-      const faqValidation = this.medicalValidator.validateFAQs(enhancedContent.faqs);
+  /**
+   * Streams `enhanceDrugContent`. Fields are reported under the names of
+   * `EnhancedContent` as they are generated; the description repeatedly, as
+   * it is written. Falls back like `enhanceDrugContent` if generation fails.
+   */
+  async *streamEnhancedContent(
+    drugName: string,
+    drugContext?: Partial<DrugContentContext>,
+  ): AsyncGenerator<AIStreamEvent<EnhancedContent>> {
+    const fieldNames: Record<string, Array<keyof EnhancedContent>> = {
+      seoTitle: ['title', 'seoMetaTitle'],
+      metaDescription: ['seoMetaDescription'],
+      patientFriendlyDescription: ['description'],
+      faqs: ['faqs'],
+    };
 
-      if (!seoTitleValidation.isValid) {
-        this.logger.warn(`SEO title validation failed for ${drugName}:`, seoTitleValidation.issues);
-      }
+    try {
+      const context = this.buildContext(drugName, drugContext);
 
-      if (!metaDescValidation.isValid) {
-        this.logger.warn(`Meta description validation failed for ${drugName}:`, metaDescValidation.issues);
-      }
+      this.logger.log(`Streaming enhanced content for ${drugName}`);
 
-      if (!faqValidation.isValid) {
-        this.logger.warn(`FAQ validation failed for ${drugName}:`, faqValidation.issues);
+      for await (const event of this.contentGenerator.streamEnhancedContent(context)) {
+        if (event.type === 'done') {
+          yield { type: 'done', result: this.toEnhancedContent(event.result, context) };
+        } else if (event.type === 'field') {
+          for (const field of fieldNames[event.field] ?? []) {
+            yield { type: 'field', field, value: event.value };
+          }
+        } else {
+          yield event;
+        }
       }
+    } catch (error) {
+      this.logger.error(`Error streaming enhanced content for ${drugName}:`, error);
+      yield { type: 'done', result: this.getFallbackContent(drugName) };
+    }
+  }
 
-      // Validate overall content for medical accuracy
-      const contentValidation = this.medicalValidator.validateContent(
-        enhancedContent.patientFriendlyDescription,
-        context
-      );
+  private buildContext(drugName: string, drugContext?: Partial<DrugContentContext>): DrugContentContext {
+    return {
+      drugName,
+      genericName: drugContext?.genericName,
+      brandNames: drugContext?.brandNames,
+      indications: drugContext?.indications,
+      contraindications: drugContext?.contraindications,
+      warnings: drugContext?.warnings,
+      dosageInfo: drugContext?.dosageInfo,
+      adverseReactions: drugContext?.adverseReactions,
+      manufacturer: drugContext?.manufacturer,
+      labelChunks: drugContext?.labelChunks,
+    };
+  }
 
-      if (!contentValidation.isValid) {
-        this.logger.warn(`Content validation failed for ${drugName}:`, {
-          warnings: contentValidation.warnings,
-          suggestions: contentValidation.suggestions,
-        });
-      }
+  /** Logs validation findings and maps generated content to `EnhancedContent`. */
+  private toEnhancedContent(enhancedContent: EnhancedDrugContent, context: DrugContentContext): EnhancedContent {
+    const { drugName } = context;
 
-      return {
-        title: enhancedContent.seoTitle,
-        description: enhancedContent.patientFriendlyDescription,
-        seoMetaTitle: enhancedContent.seoTitle,
-        seoMetaDescription: enhancedContent.metaDescription,
-        faqs: enhancedContent.faqs,
-      };
+    // Validate the generated content
+    const seoTitleValidation = this.medicalValidator.validateSEOTitle(enhancedContent.seoTitle);
+    const metaDescValidation = this.medicalValidator.validateMetaDescription(enhancedContent.metaDescription);
+    const faqValidation = this.medicalValidator.validateFAQs(enhancedContent.faqs);
 
-    } catch (error) {
-      this.logger.error(`Error enhancing content for ${drugName}:`, error);
-      return this.getFallbackContent(drugName);
+    if (!seoTitleValidation.isValid) {
+      this.logger.warn(`SEO title validation failed for ${drugName}:`, seoTitleValidation.issues);
     }
+
+    if (!metaDescValidation.isValid) {
+      this.logger.warn(`Meta description validation failed for ${drugName}:`, metaDescValidation.issues);
+    }
+
+    if (!faqValidation.isValid) {
+      this.logger.warn(`FAQ validation failed for ${drugName}:`, faqValidation.issues);
+    }
+
+    // Validate overall content for medical accuracy
+    const contentValidation = this.medicalValidator.validateContent(
+      enhancedContent.patientFriendlyDescription,
+      context
+    );
+
+    if (!contentValidation.isValid) {
+      this.logger.warn(`Content validation failed for ${drugName}:`, {
+        warnings: contentValidation.warnings,
+        suggestions: contentValidation.suggestions,
+      });
+    }
+
+    return {
+      title: enhancedContent.seoTitle,
+      description: enhancedContent.patientFriendlyDescription,
+      descriptionSentences: enhancedContent.descriptionSentences,
+      seoMetaTitle: enhancedContent.seoTitle,
+      seoMetaDescription: enhancedContent.metaDescription,
+      faqs: enhancedContent.faqs,
+    };
   }
 
   async generateSEOTitle(context: DrugContentContext): Promise<string> {
@@ -149,7 +207,7 @@ export class AiServiceService {
     }
   }
 
-  async generateFAQs(context: DrugContentContext): Promise<Array<{ question: string; answer: string }>> {
+  async generateFAQs(context: DrugContentContext): Promise<GeneratedFAQ[]> {
     try {
       const faqs = await this.contentGenerator.generateFAQs(context);
       const validation = this.medicalValidator.validateFAQs(faqs);
@@ -165,6 +223,16 @@ export class AiServiceService {
     }
   }
 
+  /** Answers a patient question from the drug's label chunks, or declines it. */
+  async answerLabelQuestion(drugName: string, question: string, chunks: LabelChunk[]): Promise<LabelAnswer> {
+    try {
+      return await this.contentGenerator.answerLabelQuestion(drugName, question, chunks);
+    } catch (error) {
+      this.logger.error(`Error answering label question for ${drugName}:`, error);
+      throw error;
+    }
+  }
+
   async generateProviderExplanation(
     topic: string,
     type: 'medical_condition' | 'drug_mechanism' | 'treatment_approach' | 'pharmacology',
@@ -193,6 +261,35 @@ export class AiServiceService {
     }
   }
 
+  /** Streams `generateProviderExplanation`, with the same validation and fallback. */
+  async *streamProviderExplanation(
+    topic: string,
+    type: 'medical_condition' | 'drug_mechanism' | 'treatment_approach' | 'pharmacology',
+    options: {
+      drugName?: string;
+      indication?: string;
+      targetAudience?: 'primary_care' | 'specialist' | 'pharmacy' | 'general_healthcare';
+    } = {}
+  ): AsyncGenerator<AIStreamEvent<ProviderExplanation>> {
+    try {
+      this.logger.log(`Streaming provider explanation for ${topic} (${type})`);
+
+      for await (const event of this.contentGenerator.streamProviderExplanation(topic, type, options)) {
+        if (event.type === 'done') {
+          const validation = this.medicalValidator.validateProviderContent(event.result.explanation);
+
+          if (!validation.isValid) {
+            this.logger.warn(`Provider explanation validation failed for ${topic}:`, validation.warnings);
+          }
+        }
+        yield event;
+      }
+    } catch (error) {
+      this.logger.error(`Error streaming provider explanation for ${topic}:`, error);
+      yield { type: 'done', result: this.getFallbackProviderExplanation(topic, type, options) };
+    }
+  }
+
   async generateRelatedContentSuggestions(
     drugName: string,
     context?: Partial<DrugContentContext>
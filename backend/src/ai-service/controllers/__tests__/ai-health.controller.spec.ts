@@ -4,6 +4,9 @@ import { AIHealthController } from '../ai-health.controller';
 import { AIErrorHandlerService } from '../../services/ai-error-handler.service';
 import { CircuitBreakerService, CircuitState } from '../../services/circuit-breaker.service';
 import { CacheService } from '../../services/cache.service';
+import { AIProviderRegistryService } from '../../services/ai-provider-registry.service';
+import { JwtAuthGuard } from '../../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../auth/guards/roles.guard';
 
 describe('AIHealthController', () => {
   let controller: AIHealthController;
@@ -39,8 +42,15 @@ describe('AIHealthController', () => {
         { provide: AIErrorHandlerService, useValue: mockErrorHandler },
         { provide: CircuitBreakerService, useValue: mockCircuitBreaker },
         { provide: CacheService, useValue: mockCacheService },
+        { provide: AIProviderRegistryService, useValue: {} },
       ],
-    }).compile();
+    })
+      // Route protection is covered by the auth guard specs
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<AIHealthController>(AIHealthController);
     errorHandler = module.get(AIErrorHandlerService);
@@ -3,6 +3,9 @@ import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
 import { AIErrorHandlerService, AIMetrics } from '../services/ai-error-handler.service';
 import { CircuitBreakerService, CircuitBreakerStats } from '../services/circuit-breaker.service';
 import { CacheService } from '../services/cache.service';
+import { AIProviderRegistryService } from '../services/ai-provider-registry.service';
+import { Auth } from '../../auth/decorators/auth.decorator';
+import { UserRole } from '@prisma/client';
 
 export interface SystemHealthResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -36,7 +39,8 @@ export class AIHealthController {
   constructor(
     private aiErrorHandler: AIErrorHandlerService,
     private circuitBreaker: CircuitBreakerService,
-    private cacheService: CacheService
+    private cacheService: CacheService,
+    private providerRegistry: AIProviderRegistryService
   ) {}
 
   @Get()
@@ -223,6 +227,7 @@ export class AIHealthController {
   }
 
   @Post('circuits/:circuitId/reset')
+  @Auth(UserRole.ADMIN)
   @ApiOperation({ summary: 'Manually reset a circuit breaker' })
   @ApiParam({ name: 'circuitId', description: 'Circuit identifier to reset' })
   @ApiResponse({ 
@@ -252,6 +257,7 @@ export class AIHealthController {
   }
 
   @Post('cache/clear')
+  @Auth(UserRole.ADMIN)
   @ApiOperation({ summary: 'Clear AI service cache' })
   @ApiResponse({ 
     status: 200, 
@@ -287,6 +293,28 @@ export class AIHealthController {
     }
   }
 
+  @Get('providers')
+  @Auth(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get the configured AI provider chains and each provider\'s availability' })
+  @ApiResponse({ 
+    status: 200, 
+    description: 'Provider chains retrieved successfully'
+  })
+  async getProviders(): Promise<Record<string, any>> {
+    const providers = await Promise.all(
+      this.providerRegistry.getProviderIds().map(async (id) => {
+        const provider = this.providerRegistry.getProvider(id)!;
+        return { id, name: provider.getProviderName(), healthy: await provider.isHealthy().catch(() => false) };
+      })
+    );
+
+    return {
+      providers,
+      chains: this.providerRegistry.describeChains(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   @Get('cache/stats')
   @ApiOperation({ summary: 'Get cache statistics' })
   @ApiResponse({ 
@@ -298,6 +326,7 @@ export class AIHealthController {
   }
 
   @Post('metrics/reset')
+  @Auth(UserRole.ADMIN)
   @ApiOperation({ summary: 'Reset all metrics (development/testing only)' })
   @ApiResponse({ 
     status: 200, 
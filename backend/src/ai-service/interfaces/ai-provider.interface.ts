@@ -1,23 +1,72 @@
+import { CitedSentence, LabelChunk, LabelCitation } from '../../common/utils/label-retrieval.util';
+
 export interface AIProvider {
   generateContent(prompt: string, options?: AIGenerationOptions): Promise<string>;
+  /** Yields the generated text in pieces as it arrives; providers without it return the whole text at once. */
+  streamContent?(prompt: string, options?: AIGenerationOptions): AsyncIterable<string>;
   isHealthy(): Promise<boolean>;
   getProviderName(): string;
 }
 
+/**
+ * Progress of a streamed generation. `token` carries raw text from the
+ * provider, `field` the latest value of one output field (partial while it
+ * is being written) and `done` the validated result.
+ */
+export type AIStreamEvent<T> =
+  | { type: 'token'; text: string }
+  | { type: 'field'; field: string; value: unknown }
+  | { type: 'done'; result: T };
+
+/** Kinds of generation, used to pick a provider chain per task. */
+export const AI_TASKS = [
+  'seo-title',
+  'meta-description',
+  'patient-description',
+  'faqs',
+  'provider-explanation',
+  'related-content',
+  'label-question',
+] as const;
+
+export type AITask = (typeof AI_TASKS)[number];
+
 export interface AIGenerationOptions {
   maxTokens?: number;
   temperature?: number;
   model?: string;
+  task?: AITask;
+  /** Structured input behind the prompt, for providers that do not read prompts. */
+  context?: Partial<DrugContentContext>;
+  /** Label excerpts listed in the prompt; `[S1]` cites the first. */
+  sources?: LabelChunk[];
+  /** FAQ questions with the 1-based indexes of their sources. */
+  questions?: Array<{ question: string; sources: number[] }>;
+}
+
+export interface GeneratedFAQ {
+  question: string;
+  answer: string;
+  citations?: LabelCitation[];
+}
+
+/** A patient question answered from the label, or declined when the label does not cover it. */
+export interface LabelAnswer {
+  question: string;
+  answered: boolean;
+  answer: string;
+  sentences: CitedSentence[];
+  citations: LabelCitation[];
+  disclaimer: string;
 }
 
 export interface EnhancedDrugContent {
   seoTitle: string;
   metaDescription: string;
   patientFriendlyDescription: string;
-  faqs: Array<{
-    question: string;
-    answer: string;
-  }>;
+  /** The description sentence by sentence, with the label sections each came from. */
+  descriptionSentences?: CitedSentence[];
+  faqs: GeneratedFAQ[];
 }
 
 export interface DrugContentContext {
@@ -27,8 +76,12 @@ export interface DrugContentContext {
   indications?: string;
   contraindications?: string;
   warnings?: string;
+  boxedWarning?: string;
   dosageInfo?: string;
   adverseReactions?: string;
+  drugInteractions?: string;
   manufacturer?: string;
   route?: string;
+  /** Stored label sections, chunked; when present, generation is grounded in them. */
+  labelChunks?: LabelChunk[];
 }
\ No newline at end of file
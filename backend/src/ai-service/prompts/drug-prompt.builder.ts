@@ -0,0 +1,402 @@
+import { DrugContentContext } from '../interfaces/ai-provider.interface';
+import { LabelChunk, LabelRetriever } from '../../common/utils/label-retrieval.util';
+
+/** Label sections a grounded patient description draws on, in the order it covers them. */
+export const DESCRIPTION_LABEL_KEYS = [
+  'indicationsAndUsage',
+  'boxedWarning',
+  'contraindications',
+  'warningsAndPrecautions',
+  'adverseReactions',
+];
+
+/** The questions every grounded FAQ set answers, and where in the label to look. */
+export const FAQ_TOPICS: Array<{ question: (drugName: string) => string; query: string; labelKeys: string[] }> = [
+  {
+    question: (drugName) => `What is ${drugName} used for?`,
+    query: 'indicated indication treatment use',
+    labelKeys: ['indicationsAndUsage'],
+  },
+  {
+    question: (drugName) => `How should I take ${drugName}?`,
+    query: 'dose dosage dosing administration administer take',
+    labelKeys: ['dosageAndAdministration', 'dosageFormsAndStrengths'],
+  },
+  {
+    question: (drugName) => `What are the possible side effects of ${drugName}?`,
+    query: 'common adverse reactions side effects',
+    labelKeys: ['adverseReactions'],
+  },
+  {
+    question: (drugName) => `Who should not take ${drugName}?`,
+    query: 'contraindicated contraindication hypersensitivity patients',
+    labelKeys: ['contraindications', 'boxedWarning'],
+  },
+  {
+    question: (drugName) => `Can ${drugName} be taken with other medicines?`,
+    query: 'drug interactions concomitant use coadministration',
+    labelKeys: ['drugInteractions'],
+  },
+];
+
+/**
+ * Where in the label to look for a free-form patient question, by what it
+ * mentions. A question can match several topics.
+ */
+export const LABEL_QUESTION_TOPICS: Array<{ pattern: RegExp; labelKeys: string[] }> = [
+  {
+    pattern: /\b(pregnan\w*|breast-?feed\w*|nursing|lactat\w*|child(ren)?|kids?|pediatric|elderly|older|kidney|renal|liver|hepatic)\b/i,
+    labelKeys: ['useInSpecificPopulations'],
+  },
+  {
+    pattern: /\b(dose|dosing|dosage|how (much|often|do i (take|use))|miss(ed)?|inject\w*|take it)\b/i,
+    labelKeys: ['dosageAndAdministration', 'dosageFormsAndStrengths'],
+  },
+  { pattern: /\b(side effects?|adverse|reactions?)\b/i, labelKeys: ['adverseReactions'] },
+  { pattern: /\b(interact\w*|with other|together|alcohol|combine)\b/i, labelKeys: ['drugInteractions'] },
+  { pattern: /\b(should not|shouldn't|allerg\w*|contraindicat\w*)\b/i, labelKeys: ['contraindications', 'boxedWarning'] },
+  { pattern: /\b(safe|risks?|warnings?|danger\w*)\b/i, labelKeys: ['boxedWarning', 'warningsAndPrecautions'] },
+  { pattern: /\b(stor(e|age)|fridge|refrigerat\w*|room temperature)\b/i, labelKeys: ['howSupplied', 'instructionsForUse'] },
+  { pattern: /\b(how does|work|mechanism)\b/i, labelKeys: ['mechanismOfAction', 'clinicalPharmacology'] },
+  { pattern: /\b(used for|treat\w*)\b/i, labelKeys: ['indicationsAndUsage'] },
+];
+
+/** What the model replies when the excerpts do not answer a question. */
+export const NOT_COVERED_REPLY = 'NOT_COVERED';
+
+const CITATION_INSTRUCTIONS = `Use only facts stated in the label excerpts. End every sentence with the marker of the excerpt it is based on, e.g. [S2], or [S1, S3] for several.`;
+
+/**
+ * Prompt text for the AI content generators. Kept free of provider and cache
+ * concerns so the MCP prompts can serve the same instructions to clients.
+ */
+export class DrugPromptBuilder {
+  static seoTitle(context: DrugContentContext): string {
+    const { drugName, genericName, indications } = context;
+    
+    return `Create an SEO-optimized title for the drug "${drugName}" that:
+- Is exactly 50-60 characters long
+- Includes the primary drug name
+- Mentions key use case if available
+- Is compelling for search results
+- Follows medical content guidelines
+
+Drug details:
+- Generic name: ${genericName || 'Not specified'}
+- Primary uses: ${indications || 'General medication'}
+
+Return only the title, no explanation.`;
+  }
+
+  static metaDescription(context: DrugContentContext): string {
+    const { drugName, genericName, indications, warnings } = context;
+    
+    return `Create an SEO-optimized meta description for the drug "${drugName}" that:
+- Is exactly 150-155 characters long
+- Summarizes key drug information
+- Includes primary uses and important safety info
+- Is informative and compelling
+- Encourages clicks while being medically accurate
+
+Drug details:
+- Generic name: ${genericName || 'Not specified'}
+- Primary uses: ${indications || 'General medication'}
+- Key warnings: ${warnings || 'Standard precautions apply'}
+
+Return only the meta description, no explanation.`;
+  }
+
+  /**
+   * With `sources`, the model is given numbered label excerpts instead of the
+   * truncated label columns and asked to cite them sentence by sentence.
+   */
+  static patientDescription(context: DrugContentContext, sources: LabelChunk[] = []): string {
+    const { drugName, genericName, indications, contraindications, warnings, dosageInfo } = context;
+    const requirements = `Create a patient-friendly description for the drug "${drugName}" that:
+- Explains what the drug is and what it's used for in simple terms
+- Mentions key safety information patients should know
+- Is 150-250 words long
+- Uses accessible language (8th grade reading level)
+- Emphasizes the importance of following doctor's instructions
+- Is medically accurate but not overly technical`;
+
+    if (sources.length > 0) {
+      return `${requirements}
+
+Generic name: ${genericName || 'Not specified'}
+
+Label excerpts:
+${LabelRetriever.formatSources(sources)}
+
+${CITATION_INSTRUCTIONS}
+
+Return only the description, no explanation.`;
+    }
+
+    return `${requirements}
+
+Drug details:
+- Generic name: ${genericName || 'Not specified'}
+- Uses: ${indications || 'As prescribed by healthcare provider'}
+- Important warnings: ${warnings || 'Follow healthcare provider instructions'}
+- Contraindications: ${contraindications || 'Discuss with healthcare provider'}
+- Dosage info: ${dosageInfo || 'As prescribed'}
+
+Return only the description, no explanation.`;
+  }
+
+  /**
+   * With `questions`, each question lists the label excerpts (1-based indexes
+   * into `sources`) retrieved for it, and answers must cite them.
+   */
+  static faqs(
+    context: DrugContentContext,
+    sources: LabelChunk[] = [],
+    questions: Array<{ question: string; sources: number[] }> = [],
+  ): string {
+    const { drugName, genericName, indications, contraindications, warnings, adverseReactions, dosageInfo } = context;
+
+    if (questions.length > 0) {
+      const questionList = questions
+        .map(({ question, sources: refs }, index) => {
+          const excerpts = refs.length > 0 ? refs.map((ref) => `S${ref}`).join(', ') : 'none';
+          return `${index + 1}. ${question} (excerpts: ${excerpts})`;
+        })
+        .join('\n');
+
+      return `Answer these frequently asked questions about the drug "${drugName}" (generic name: ${genericName || 'not specified'}):
+${questionList}
+
+Label excerpts:
+${LabelRetriever.formatSources(sources)}
+
+Requirements:
+- Answer each question from the excerpts listed for it
+- If its excerpts do not answer a question, say the label does not cover it and to ask a healthcare provider
+- Each answer should be 50-100 words
+- Use patient-friendly language
+- Emphasize consulting healthcare providers
+- ${CITATION_INSTRUCTIONS}
+
+Format as JSON, keeping the questions as written:
+[
+  {"question": "...", "answer": "... [S1]"}
+]
+
+Return only the JSON array, no explanation.`;
+    }
+    
+    return `Create exactly 5 frequently asked questions and answers about the drug "${drugName}":
+
+Drug details:
+- Generic name: ${genericName || 'Not specified'}
+- Uses: ${indications || 'As prescribed by healthcare provider'}
+- Warnings: ${warnings || 'Follow healthcare provider instructions'}
+- Contraindications: ${contraindications || 'Discuss with healthcare provider'}
+- Side effects: ${adverseReactions || 'May vary by individual'}
+- Dosage: ${dosageInfo || 'As prescribed'}
+
+Requirements:
+- Each question should be 10-15 words
+- Each answer should be 50-100 words
+- Cover common patient concerns (uses, side effects, dosage, interactions, precautions)
+- Use patient-friendly language
+- Emphasize consulting healthcare providers
+- Be medically accurate
+
+Format as JSON:
+[
+  {"question": "...", "answer": "..."},
+  {"question": "...", "answer": "..."},
+  {"question": "...", "answer": "..."},
+  {"question": "...", "answer": "..."},
+  {"question": "...", "answer": "..."}
+]
+
+Return only the JSON array, no explanation.`;
+  }
+
+  static labelQuestion(drugName: string, question: string, sources: LabelChunk[]): string {
+    return `A patient asks about the drug "${drugName}": "${question}"
+
+Label excerpts:
+${LabelRetriever.formatSources(sources)}
+
+Requirements:
+- Answer in 2-5 sentences of patient-friendly language (8th grade reading level)
+- Do not give personal medical advice or tell the patient to start, stop or change a medicine
+- ${CITATION_INSTRUCTIONS}
+- If the excerpts do not answer the question, reply with exactly ${NOT_COVERED_REPLY}
+
+Return only the answer, no explanation.`;
+  }
+
+  static providerExplanation(
+    topic: string,
+    type: string,
+    options: any
+  ): string {
+    const audienceContext = this.audienceContext(options.targetAudience || 'general_healthcare');
+    const drugContext = options.drugName ? `related to ${options.drugName}` : '';
+    const indicationContext = options.indication ? `for ${options.indication}` : '';
+
+    return `Generate a professional healthcare provider explanation about "${topic}" (${type})${drugContext}${indicationContext}.
+
+Target audience: ${audienceContext}
+
+Requirements:
+- Use medical terminology appropriate for healthcare professionals
+- Include clinical context and evidence-based information
+- Provide key clinical points for practice
+- Include practice considerations and monitoring
+- Maintain professional, objective tone
+- Be comprehensive yet concise (500-800 words)
+- Include related clinical information when relevant
+
+Format as JSON:
+{
+  "explanation": "comprehensive explanation text",
+  "keyPoints": ["key point 1", "key point 2", "key point 3", "key point 4"],
+  "clinicalContext": "clinical context and evidence-based considerations",
+  "practiceConsiderations": ["consideration 1", "consideration 2", "consideration 3"],
+  "relatedInformation": ["related info 1", "related info 2", "related info 3"]
+}
+
+Return only the JSON object, no explanation.`;
+  }
+
+  static audienceContext(audience: string): string {
+    switch (audience) {
+      case 'primary_care':
+        return 'Primary care physicians and family medicine practitioners';
+      case 'specialist':
+        return 'Medical specialists and subspecialty physicians';
+      case 'pharmacy':
+        return 'Pharmacists and pharmacy professionals';
+      case 'general_healthcare':
+      default:
+        return 'General healthcare professionals including physicians, nurses, and pharmacists';
+    }
+  }
+
+  static relatedContent(
+    drugName: string, 
+    indication?: string, 
+    drugClass?: string, 
+    mechanism?: string
+  ): string {
+    const contextParts = [];
+    
+    if (indication) contextParts.push(`used for ${indication}`);
+    if (drugClass) contextParts.push(`belongs to ${drugClass} class`);
+    if (mechanism) contextParts.push(`works by ${mechanism}`);
+    
+    const context = contextParts.length > 0 ? ` (${contextParts.join(', ')})` : '';
+
+    return `Generate clinically accurate related content suggestions for the medication ${drugName}${context}.
+
+Based on the drug's pharmacology, therapeutic class, and clinical use, please provide:
+
+1. Related drugs: List 4-5 medications with similar mechanisms, therapeutic class, or indications
+   - Include both generic and brand names when relevant
+   - Focus on clinically appropriate alternatives
+   
+2. Related conditions: List 3-4 medical conditions this drug treats or is associated with
+   - Include primary and secondary indications
+   - Consider off-label uses if clinically relevant
+   
+3. Drug interactions: List 3-4 important drug classes or specific medications that interact
+   - Focus on clinically significant interactions
+   - Include mechanism of interaction when relevant
+   
+4. Related topics: List 3-4 medical topics healthcare providers should understand
+   - Include monitoring requirements, contraindications, or therapeutic considerations
+   - Focus on clinically actionable information
+
+Requirements:
+- Use current medical knowledge and evidence-based information
+- Provide clinically relevant and accurate suggestions
+- Format responses for healthcare professional use
+- Avoid generic or vague recommendations
+
+Format as JSON with this exact structure:
+{
+  "relatedDrugs": [
+    {"name": "Drug Name (Brand)", "reason": "therapeutic relationship", "category": "therapeutic_alternative|mechanism_similar|class_related"},
+    ...
+  ],
+  "relatedConditions": [
+    {"condition": "Medical Condition", "relationship": "primary_indication|secondary_use|contraindication", "severity": "mild|moderate|severe"},
+    ...
+  ],
+  "drugInteractions": [
+    {"drug": "Interacting Drug/Class", "type": "major|moderate|minor", "description": "brief mechanism or effect"},
+    ...
+  ],
+  "relatedTopics": [
+    {"topic": "Clinical Topic", "relevance": "monitoring|contraindication|mechanism|therapeutic", "category": "safety|efficacy|administration"},
+    ...
+  ]
+}
+
+Return only the JSON object.`;
+  }
+
+  static prescriberComparison(
+    first: DrugContentContext,
+    second: DrugContentContext,
+    targetAudience = 'general_healthcare',
+  ): string {
+    const details = (context: DrugContentContext) => `${context.drugName}:
+- Generic name: ${context.genericName || 'Not specified'}
+- Uses: ${context.indications || 'Not specified'}
+- Dosage: ${context.dosageInfo || 'Not specified'}
+- Contraindications: ${context.contraindications || 'Not specified'}
+- Warnings: ${context.warnings || 'Not specified'}
+- Side effects: ${context.adverseReactions || 'Not specified'}
+- Drug interactions: ${context.drugInteractions || 'Not specified'}`;
+
+    return `Compare the drugs "${first.drugName}" and "${second.drugName}" for prescribers.
+
+Target audience: ${this.audienceContext(targetAudience)}
+
+Requirements:
+- Use medical terminology appropriate for healthcare professionals
+- Compare indications, dosing and administration, contraindications, key warnings, common adverse reactions and drug interactions
+- Call out any boxed warning and clinically important differences in monitoring
+- Base every statement on the prescribing information provided; say when it does not cover a point
+- Do not recommend one drug over the other for an individual patient
+- Be concise (300-500 words), using a table for side-by-side points where helpful
+
+Drug details:
+${details(first)}
+
+${details(second)}`;
+  }
+
+  static boxedWarningExplanation(
+    context: DrugContentContext,
+    audience: 'patient' | 'prescriber' = 'patient',
+  ): string {
+    const { drugName, genericName, boxedWarning, indications } = context;
+    const style = audience === 'prescriber'
+      ? `- Use medical terminology appropriate for healthcare professionals
+- Summarize the risk, affected populations, and required monitoring or risk mitigation
+- Note contraindications and counseling points that follow from the warning`
+      : `- Uses accessible language (8th grade reading level)
+- Explains what the risk is, who is most at risk, and which symptoms need urgent medical attention
+- Emphasizes talking with a healthcare provider before starting or stopping the medication`;
+
+    return `Explain the boxed warning for the drug "${drugName}" that:
+${style}
+- Is medically accurate and does not downplay or exaggerate the risk
+- Is 150-250 words long
+
+Drug details:
+- Generic name: ${genericName || 'Not specified'}
+- Uses: ${indications || 'As prescribed by healthcare provider'}
+- Boxed warning: ${boxedWarning || 'Not specified'}
+
+Return only the explanation, no preamble.`;
+  }
+}
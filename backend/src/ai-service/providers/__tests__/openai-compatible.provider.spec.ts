@@ -0,0 +1,82 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OpenAICompatibleProvider } from '../openai-compatible.provider';
+
+describe('OpenAICompatibleProvider', () => {
+  const createProvider = async (env: Record<string, string>) => {
+    const module = await Test.createTestingModule({
+      providers: [OpenAICompatibleProvider, { provide: ConfigService, useValue: { get: (key: string) => env[key] } }],
+    }).compile();
+
+    return module.get(OpenAICompatibleProvider);
+  };
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('should post chat completions to the configured server and model', async () => {
+    const provider = await createProvider({ OPENAI_BASE_URL: 'http://localhost:11434/v1/', OPENAI_MODEL: 'llama3.1' });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: ' Taltz: Uses, Dosage & Side Effects ' } }] }),
+    });
+
+    const content = await provider.generateContent('Create an SEO title', { maxTokens: 100, temperature: 0.5 });
+
+    expect(content).toBe('Taltz: Uses, Dosage & Side Effects');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Create an SEO title' }],
+      max_tokens: 100,
+      temperature: 0.5,
+    });
+  });
+
+  it('should throw on API errors so the next provider in the chain is tried', async () => {
+    const provider = await createProvider({ OPENAI_API_KEY: 'sk-test' });
+    fetchMock.mockResolvedValue({ ok: false, status: 429, statusText: 'Too Many Requests' });
+
+    await expect(provider.generateContent('prompt')).rejects.toThrow('429 Too Many Requests');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('should report unhealthy without configuration and cache health checks', async () => {
+    await expect((await createProvider({})).isHealthy()).resolves.toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const provider = await createProvider({ OPENAI_BASE_URL: 'http://localhost:8000/v1' });
+    fetchMock.mockResolvedValue({ ok: true });
+
+    await expect(provider.isHealthy()).resolves.toBe(true);
+    await expect(provider.isHealthy()).resolves.toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/models');
+  });
+
+  it('should stream completion deltas split across network chunks', async () => {
+    const provider = await createProvider({ OPENAI_BASE_URL: 'http://localhost:11434/v1' });
+    const chunks = [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"content":"{\\"expl"}}]}\n',
+      '\ndata: {"choices":[{"delta":{"content":"anation\\": \\"ACE"}}]}\n\nda',
+      'ta: {"choices":[{"delta":{"content":" inhibitors\\"}"}}]}\n\ndata: [DONE]\n\n',
+    ].map((chunk) => new TextEncoder().encode(chunk));
+    fetchMock.mockResolvedValue({
+      ok: true,
+      body: { getReader: () => ({ read: async () => (chunks.length ? { done: false, value: chunks.shift() } : { done: true }) }) },
+    });
+
+    const tokens: string[] = [];
+    for await (const token of provider.streamContent('Explain ACE inhibitors', { maxTokens: 1000 })) {
+      tokens.push(token);
+    }
+
+    expect(tokens).toEqual(['{"expl', 'anation": "ACE', ' inhibitors"}']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ stream: true, max_tokens: 1000 });
+  });
+});
@@ -12,17 +12,15 @@ export class HuggingFaceProvider implements AIProvider {
     this.apiKey = this.configService.get<string>('HUGGINGFACE_API_KEY') || 'demo';
     
     if (!this.apiKey || this.apiKey === 'demo') {
-      this.logger.warn('Hugging Face API key not configured - using mock responses');
+      this.logger.warn('Hugging Face API key not configured - provider disabled');
     } else {
       this.logger.log('Hugging Face provider initialized');
     }
   }
 
   async generateContent(prompt: string, options: AIGenerationOptions = {}): Promise<string> {
-    // If no API key, return mock response immediately without API calls
     if (!this.apiKey || this.apiKey === 'demo') {
-      this.logger.log('Using mock response for demo mode (HuggingFace)');
-      return this.getMockResponse(prompt, options);
+      throw new Error('Hugging Face API key not configured');
     }
 
     try {
@@ -75,142 +73,13 @@ export class HuggingFaceProvider implements AIProvider {
 
     } catch (error) {
       this.logger.error('Hugging Face API error:', error.message);
-      
-      // Fallback to mock response on error
-      return this.getMockResponse(prompt, options);
+      throw error;
     }
   }
 
-  private getMockResponse(prompt: string, options: AIGenerationOptions): string {
-    // Generate relevant mock responses based on prompt content using the same logic as the content generator
-    if (prompt.includes('related content suggestions') || prompt.includes('relatedDrugs') || prompt.includes('drugInteractions')) {
-      // Extract drug name and context from the prompt
-      const drugMatch = prompt.match(/medication\s+([A-Za-z0-9\-\s]+?)(?:\s*\(|$|,|\.|;|\n)/i);
-      const drugName = drugMatch ? drugMatch[1].trim() : 'Unknown Drug';
-      
-      // Extract contextual information from the prompt
-      const indicationMatch = prompt.match(/used for\s+([^,\n\)]+)/i);
-      const classMatch = prompt.match(/belongs to\s+([^,\n\)]+)/i);
-      const mechanismMatch = prompt.match(/works by\s+([^,\n\)]+)/i);
-      
-      const indication = indicationMatch ? indicationMatch[1].trim() : null;
-      const drugClass = classMatch ? classMatch[1].trim() : null;
-      const mechanism = mechanismMatch ? mechanismMatch[1].trim() : null;
-      
-      // Generate dynamic content based on available context
-      const relatedContent = this.generateDynamicRelatedContent(drugName, indication, drugClass, mechanism);
-      return JSON.stringify(relatedContent);
-      
-    } else if (prompt.includes('SEO title') || prompt.includes('meta title')) {
-      const drugMatch = prompt.match(/drug[:\s"]+([A-Za-z0-9\-\s]+)/i);
-      const drugName = drugMatch ? drugMatch[1].trim() : 'Medicine';
-      return `${drugName} - FDA Approved Medication Information & Usage Guide | Drug Database`;
-      
-    } else if (prompt.includes('meta description') || prompt.includes('SEO description')) {
-      const drugMatch = prompt.match(/drug[:\s"]+([A-Za-z0-9\-\s]+)/i);
-      const drugName = drugMatch ? drugMatch[1].trim() : 'this medication';
-      return `Comprehensive information about ${drugName} including FDA label data, usage instructions, side effects, dosage guidelines, and safety information for patients and healthcare providers.`;
-      
-    } else if (prompt.includes('patient-friendly') || prompt.includes('explanation')) {
-      const drugMatch = prompt.match(/drug[:\s"]+([A-Za-z0-9\-\s]+)/i);
-      const drugName = drugMatch ? drugMatch[1].trim() : 'This medication';
-      return `${drugName} is an FDA-approved prescription medication used to treat specific medical conditions. It works by targeting certain processes in your body to help improve symptoms and overall health outcomes. Always follow your healthcare provider's instructions when taking this medication.`;
-      
-    } else {
-      return 'This is a demonstration response from the mock Hugging Face provider. To use real AI generation, please add your HUGGINGFACE_API_KEY to the environment variables.';
-    }
-  }
-
-  private generateDynamicRelatedContent(drugName: string, indication?: string, drugClass?: string, mechanism?: string): any {
-    // Generate intelligent suggestions based on available context rather than hardcoded patterns
-    const contextInfo = [];
-    if (indication) contextInfo.push(`indication: ${indication}`);
-    if (drugClass) contextInfo.push(`class: ${drugClass}`);
-    if (mechanism) contextInfo.push(`mechanism: ${mechanism}`);
-    
-    // Use a more intelligent approach based on context
-    const suggestions = this.generateContextBasedSuggestions(drugName, indication, drugClass, mechanism);
-    
-    return suggestions;
-  }
-
-  private generateContextBasedSuggestions(drugName: string, indication?: string, drugClass?: string, mechanism?: string): any {
-    // Generate intelligent suggestions based on available context
-    return {
-      relatedDrugs: [
-        { 
-          name: `Alternative therapies for ${indication || 'this indication'}`, 
-          reason: `Other medications with similar therapeutic benefits`, 
-          category: 'therapeutic_alternative' 
-        },
-        { 
-          name: `${drugClass || 'Same class'} alternatives`, 
-          reason: `Similar mechanism and therapeutic profile`, 
-          category: 'class_related' 
-        },
-        { 
-          name: 'Adjunct therapies', 
-          reason: 'Complementary medications for enhanced efficacy', 
-          category: 'combination_therapy' 
-        }
-      ],
-      relatedConditions: [
-        { 
-          condition: indication || 'Primary indication', 
-          relationship: 'primary_indication', 
-          severity: 'moderate' 
-        },
-        { 
-          condition: 'Off-label applications', 
-          relationship: 'secondary_use', 
-          severity: 'mild' 
-        },
-        { 
-          condition: 'Contraindications', 
-          relationship: 'contraindication', 
-          severity: 'major' 
-        }
-      ],
-      drugInteractions: [
-        { 
-          drug: 'CYP enzyme interactions', 
-          type: 'moderate', 
-          description: 'Monitor for metabolic interactions based on cytochrome P450 pathways' 
-        },
-        { 
-          drug: 'Protein binding displacement', 
-          type: 'minor', 
-          description: 'Consider interactions with highly protein-bound medications' 
-        },
-        { 
-          drug: 'Mechanism-based interactions', 
-          type: 'moderate', 
-          description: mechanism ? `Interactions related to ${mechanism}` : 'Monitor for pharmacodynamic interactions' 
-        }
-      ],
-      relatedTopics: [
-        { 
-          topic: `${drugName} dosing optimization`, 
-          relevance: 'therapeutic', 
-          category: 'efficacy' 
-        },
-        { 
-          topic: 'Safety monitoring requirements', 
-          relevance: 'monitoring', 
-          category: 'safety' 
-        },
-        { 
-          topic: 'Patient counseling points', 
-          relevance: 'therapeutic', 
-          category: 'administration' 
-        }
-      ]
-    };
-  }
-
   async isHealthy(): Promise<boolean> {
     if (!this.apiKey || this.apiKey === 'demo') {
-      return true; // Mock is always available
+      return false;
     }
 
     try {
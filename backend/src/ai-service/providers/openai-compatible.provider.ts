@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIProvider, AIGenerationOptions } from '../interfaces/ai-provider.interface';
+
+const HEALTH_CHECK_TTL_MS = 30000;
+
+/**
+ * Chat completions over the OpenAI HTTP API, or any server that speaks it
+ * (vLLM, llama.cpp, Ollama, LM Studio). Point OPENAI_BASE_URL at a local
+ * inference server to generate content without sending label data out.
+ */
+@Injectable()
+export class OpenAICompatibleProvider implements AIProvider {
+  private readonly logger = new Logger(OpenAICompatibleProvider.name);
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly model: string;
+  private readonly timeoutMs: number;
+  private readonly configured: boolean;
+  private lastHealthCheck: { healthy: boolean; checkedAt: number } | null = null;
+
+  constructor(private configService: ConfigService) {
+    const baseUrl = this.configService.get<string>('OPENAI_BASE_URL');
+    this.baseUrl = (baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = this.configService.get<string>('OPENAI_API_KEY') || undefined;
+    this.model = this.configService.get<string>('OPENAI_MODEL') || 'gpt-4o-mini';
+    this.timeoutMs = parseInt(this.configService.get<string>('OPENAI_TIMEOUT_MS') ?? '', 10) || 30000;
+    // Local servers usually need no key; the public API always does
+    this.configured = !!baseUrl || !!this.apiKey;
+
+    if (this.configured) {
+      this.logger.log(`OpenAI-compatible provider using ${this.model} at ${this.baseUrl}`);
+    }
+  }
+
+  async generateContent(prompt: string, options: AIGenerationOptions = {}): Promise<string> {
+    if (!this.configured) {
+      throw new Error('OpenAI-compatible provider is not configured');
+    }
+
+    const response = await this.request('/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify(this.completionBody(prompt, options)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('OpenAI-compatible API returned no content');
+    }
+
+    return content.trim();
+  }
+
+  /**
+   * Streams chat completion deltas. The timeout applies to each wait for the
+   * next chunk rather than to the whole generation.
+   */
+  async *streamContent(prompt: string, options: AIGenerationOptions = {}): AsyncIterable<string> {
+    if (!this.configured) {
+      throw new Error('OpenAI-compatible provider is not configured');
+    }
+
+    const controller = new AbortController();
+    let timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({ ...this.completionBody(prompt, options), stream: true }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+
+          const content = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof content === 'string' && content) {
+            yield content;
+          }
+        }
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /** Lists models at most every 30 seconds rather than on every generation. */
+  async isHealthy(): Promise<boolean> {
+    if (!this.configured) {
+      return false;
+    }
+
+    if (this.lastHealthCheck && Date.now() - this.lastHealthCheck.checkedAt < HEALTH_CHECK_TTL_MS) {
+      return this.lastHealthCheck.healthy;
+    }
+
+    let healthy = false;
+    try {
+      healthy = (await this.request('/models', { method: 'GET' }, 5000)).ok;
+    } catch (error) {
+      this.logger.warn(`OpenAI-compatible health check failed: ${error.message}`);
+    }
+
+    this.lastHealthCheck = { healthy, checkedAt: Date.now() };
+    return healthy;
+  }
+
+  getProviderName(): string {
+    return 'OpenAICompatible';
+  }
+
+  private completionBody(prompt: string, options: AIGenerationOptions) {
+    return {
+      model: options.model || this.model,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: options.maxTokens || 500,
+      temperature: options.temperature ?? 0.7,
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  private async request(path: string, init: RequestInit, timeoutMs = this.timeoutMs): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(`${this.baseUrl}${path}`, {
+        ...init,
+        headers: this.headers(),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
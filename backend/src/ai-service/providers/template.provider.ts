@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AIProvider, AIGenerationOptions, DrugContentContext, GeneratedFAQ } from '../interfaces/ai-provider.interface';
+import { NOT_COVERED_REPLY } from '../prompts/drug-prompt.builder';
+
+type TemplateContext = Partial<DrugContentContext>;
+
+/** Text to fill a template slot with, and the `[S1]` marker of the label excerpt it came from. */
+type SourcedText = { text?: string; marker: string };
+
+/**
+ * Deterministic, offline provider that fills fixed templates from the drug's
+ * label fields instead of calling a model. Output has the same shape the
+ * content generator parses for each task, so it can close any fallback chain
+ * and serve environments without network access. When the prompt lists label
+ * excerpts, templates quote those and cite them the way a model would.
+ */
+@Injectable()
+export class TemplateProvider implements AIProvider {
+  private readonly logger = new Logger(TemplateProvider.name);
+
+  async generateContent(prompt: string, options: AIGenerationOptions = {}): Promise<string> {
+    const context: TemplateContext = options.context ?? {};
+    const drugName = context.drugName || this.drugNameFromPrompt(prompt) || 'This medication';
+
+    this.logger.debug(`Rendering ${options.task ?? 'generic'} template for ${drugName}`);
+
+    switch (options.task) {
+      case 'seo-title':
+        return this.seoTitle(drugName, context);
+      case 'meta-description':
+        return this.metaDescription(drugName, context);
+      case 'patient-description':
+        return this.patientDescription(drugName, context, options);
+      case 'faqs':
+        return JSON.stringify(this.faqs(drugName, context, options));
+      case 'provider-explanation':
+        return JSON.stringify(this.providerExplanation(drugName, context));
+      case 'related-content':
+        return JSON.stringify(this.relatedContent(drugName, context));
+      case 'label-question':
+        return this.labelAnswer(drugName, options);
+      default:
+        return `${drugName} is a prescription medication. Read the FDA label and consult your healthcare provider or pharmacist for advice about your situation.`;
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+
+  getProviderName(): string {
+    return 'Template';
+  }
+
+  private seoTitle(drugName: string, context: TemplateContext): string {
+    const candidates = [
+      context.genericName && `${drugName} (${context.genericName}): Uses, Dosage & Side Effects`,
+      `${drugName}: Uses, Dosage & Side Effects`,
+      `${drugName}: Uses, Dosage, Side Effects & Safety Warnings`,
+      `${drugName}: Uses, Dosage, Side Effects, Warnings & Safety Guide`,
+    ];
+
+    return this.firstWithin(candidates, 30, 60) ?? `${drugName} Drug Information`;
+  }
+
+  private metaDescription(drugName: string, context: TemplateContext): string {
+    const use = this.excerpt(context.indications, 70);
+    const candidates = [
+      use && `${use}. Learn about ${drugName} dosage, side effects and warnings, and ask your doctor.`,
+      `Learn about ${drugName} uses, dosage, side effects and safety warnings from the FDA label. Talk to your doctor or pharmacist before use.`,
+      `Learn about ${drugName} uses, dosage, side effects, drug interactions and safety warnings from the FDA label. Talk to your doctor or pharmacist before use.`,
+      `${drugName}: uses, dosage, side effects and warnings. Ask your doctor.`,
+    ];
+
+    return this.firstWithin(candidates, 120, 155) ?? candidates[candidates.length - 1];
+  }
+
+  private patientDescription(drugName: string, context: TemplateContext, options: AIGenerationOptions): string {
+    const name = context.genericName ? `${drugName} (${context.genericName})` : drugName;
+    const fromLabel = (labelKey: string, fallback?: string) => this.fromSources(options, labelKey, fallback, 240);
+    const use = fromLabel('indicationsAndUsage', context.indications);
+    const boxedWarning = fromLabel('boxedWarning', context.boxedWarning);
+    const warning = fromLabel('warningsAndPrecautions', context.warnings);
+    const sideEffects = fromLabel('adverseReactions', context.adverseReactions);
+
+    return [
+      use.text
+        ? `${name} is a prescription medicine. From its FDA label: ${use.text}.${use.marker}`
+        : `${name} is a prescription medicine. Your healthcare provider can explain what it is used for in your case.`,
+      boxedWarning.text &&
+        `It carries a boxed warning, the FDA's most serious kind of warning: ${boxedWarning.text}.${boxedWarning.marker}`,
+      warning.text && `Important safety information: ${warning.text}.${warning.marker}`,
+      sideEffects.text && `Reported side effects: ${sideEffects.text}.${sideEffects.marker}`,
+      `Take ${drugName} exactly as prescribed, and tell your doctor or pharmacist about all other medicines you take. Consult your healthcare provider if you have questions or notice unusual symptoms.`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private faqs(drugName: string, context: TemplateContext, options: AIGenerationOptions): GeneratedFAQ[] {
+    // Grounded prompts ask the questions in this order, each with its own excerpts
+    const fromQuestion = (index: number, fallback?: string): SourcedText => {
+      const ref = options.questions?.[index]?.sources[0];
+      const source = ref ? options.sources?.[ref - 1] : undefined;
+      return source
+        ? { text: this.excerpt(source.text, 300), marker: ` [S${ref}]` }
+        : { text: this.excerpt(fallback, 300), marker: '' };
+    };
+    const question = (index: number, fallback: string) => options.questions?.[index]?.question ?? fallback;
+    const answer = ({ text, marker }: SourcedText, fallback: string, advice: string) =>
+      `${text ? `The FDA label says: ${text}.${marker}` : fallback} ${advice}`;
+
+    return [
+      {
+        question: question(0, `What is ${drugName} used for?`),
+        answer: answer(
+          fromQuestion(0, context.indications),
+          `${drugName} is prescribed for specific conditions described in its FDA label.`,
+          'Your healthcare provider can tell you why it was prescribed for you.',
+        ),
+      },
+      {
+        question: question(1, `How should I take ${drugName}?`),
+        answer: answer(
+          fromQuestion(1, context.dosageInfo),
+          `Dosing of ${drugName} depends on your condition and is set by your prescriber.`,
+          'Always take it exactly as prescribed by your doctor and do not change the dose on your own.',
+        ),
+      },
+      {
+        question: question(2, `What are the common side effects of ${drugName}?`),
+        answer: answer(
+          fromQuestion(2, context.adverseReactions),
+          'Side effects vary from person to person.',
+          'Contact your healthcare provider if you notice side effects that bother you or do not go away.',
+        ),
+      },
+      {
+        question: question(3, `Who should not take ${drugName}?`),
+        answer: answer(
+          fromQuestion(3, context.contraindications),
+          `Some people should not take ${drugName} because of other conditions or medicines.`,
+          'Tell your doctor about your medical history before starting treatment.',
+        ),
+      },
+      {
+        question: question(4, `Can I take ${drugName} with other medications?`),
+        answer: answer(
+          fromQuestion(4, context.drugInteractions),
+          `${drugName} may interact with other medicines or supplements.`,
+          'Give your doctor or pharmacist a full list of everything you take.',
+        ),
+      },
+    ];
+  }
+
+  /** Quotes the two most relevant excerpts; the generator declines when there are none. */
+  private labelAnswer(drugName: string, options: AIGenerationOptions): string {
+    const quotes = (options.sources ?? [])
+      .slice(0, 2)
+      .map((source, index) => ({ text: this.excerpt(source.text, 300), marker: ` [S${index + 1}]` }))
+      .filter(({ text }) => !!text);
+
+    if (quotes.length === 0) {
+      return NOT_COVERED_REPLY;
+    }
+
+    return [
+      `The FDA label for ${drugName} says: ${quotes[0].text}.${quotes[0].marker}`,
+      quotes[1] && `It also says: ${quotes[1].text}.${quotes[1].marker}`,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private providerExplanation(drugName: string, context: TemplateContext) {
+    const use = this.excerpt(context.indications, 300);
+
+    return {
+      explanation: use
+        ? `Labeled indication for ${drugName}: ${use}. Refer to the full prescribing information for dosing, contraindications and monitoring.`
+        : `Refer to the full prescribing information for ${drugName}, current clinical guidelines and institutional protocols.`,
+      keyPoints: [
+        'Confirm the indication against the FDA-approved labeling',
+        'Review contraindications and boxed warnings before prescribing',
+        'Screen for drug interactions with the current medication list',
+        'Individualize therapy to patient-specific factors',
+      ],
+      clinicalContext:
+        'Consider patient history, comorbidities, concomitant medications and organ function when applying label guidance.',
+      practiceConsiderations: [
+        'Document the clinical rationale for therapy',
+        'Monitor response and adverse effects, adjusting as needed',
+        'Counsel patients on administration and warning signs',
+      ],
+      relatedInformation: [
+        'FDA prescribing information',
+        'Current clinical practice guidelines',
+        'Drug interaction references',
+      ],
+    };
+  }
+
+  private relatedContent(drugName: string, context: TemplateContext) {
+    const indication = this.excerpt(context.indications, 80);
+
+    return {
+      relatedDrugs: [
+        {
+          name: `Alternative therapies for ${indication || 'this indication'}`,
+          reason: 'Other medications with similar therapeutic benefits',
+          category: 'therapeutic_alternative',
+        },
+        { name: 'Same class alternatives', reason: 'Similar mechanism and therapeutic profile', category: 'class_related' },
+        { name: 'Adjunct therapies', reason: 'Complementary medications for enhanced efficacy', category: 'combination_therapy' },
+      ],
+      relatedConditions: [
+        { condition: indication || 'Primary indication', relationship: 'primary_indication', severity: 'moderate' },
+        { condition: 'Contraindications', relationship: 'contraindication', severity: 'major' },
+      ],
+      drugInteractions: [
+        {
+          drug: 'CYP enzyme interactions',
+          type: 'moderate',
+          description: 'Monitor for metabolic interactions based on cytochrome P450 pathways',
+        },
+        {
+          drug: 'Protein binding displacement',
+          type: 'minor',
+          description: 'Consider interactions with highly protein-bound medications',
+        },
+      ],
+      relatedTopics: [
+        { topic: `${drugName} dosing optimization`, relevance: 'therapeutic', category: 'efficacy' },
+        { topic: 'Safety monitoring requirements', relevance: 'monitoring', category: 'safety' },
+        { topic: 'Patient counseling points', relevance: 'therapeutic', category: 'administration' },
+      ],
+    };
+  }
+
+  /**
+   * First sentence of a label section without its numbered heading or final
+   * period, cut at a word boundary when longer than maxLength.
+   */
+  private excerpt(text: string | undefined, maxLength: number): string | undefined {
+    if (!text) return undefined;
+
+    const body = text
+      .replace(/\s+/g, ' ')
+      .replace(/^\s*\d+(\.\d+)*\s+[A-Z][A-Z ,&/-]+(?=\s[A-Z][a-z])/, '')
+      .trim();
+    const sentence = body.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? body;
+
+    if (sentence.length <= maxLength) {
+      return sentence.replace(/[.!?]$/, '') || undefined;
+    }
+
+    const cut = sentence.slice(0, maxLength);
+    return cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : maxLength).replace(/[,;:]$/, '');
+  }
+
+  /** The first listed excerpt from a label section, else the context field with no marker. */
+  private fromSources(
+    options: AIGenerationOptions,
+    labelKey: string,
+    fallback: string | undefined,
+    maxLength: number,
+  ): SourcedText {
+    const index = options.sources?.findIndex((source) => source.labelKey === labelKey) ?? -1;
+
+    return index >= 0
+      ? { text: this.excerpt(options.sources![index].text, maxLength), marker: ` [S${index + 1}]` }
+      : { text: this.excerpt(fallback, maxLength), marker: '' };
+  }
+
+  private firstWithin(candidates: Array<string | undefined | false>, min: number, max: number): string | undefined {
+    return candidates.find((candidate): candidate is string => !!candidate && candidate.length >= min && candidate.length <= max);
+  }
+
+  private drugNameFromPrompt(prompt: string): string | undefined {
+    return prompt.match(/drug "([^"]+)"/)?.[1] ?? prompt.match(/medication\s+([A-Za-z0-9-]+)/)?.[1];
+  }
+}
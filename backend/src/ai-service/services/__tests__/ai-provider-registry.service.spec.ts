@@ -0,0 +1,50 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AIProviderRegistryService } from '../ai-provider-registry.service';
+import { HuggingFaceProvider } from '../../providers/huggingface.provider';
+import { OpenAICompatibleProvider } from '../../providers/openai-compatible.provider';
+import { TemplateProvider } from '../../providers/template.provider';
+
+describe('AIProviderRegistryService', () => {
+  const createRegistry = async (env: Record<string, string> = {}) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AIProviderRegistryService,
+        HuggingFaceProvider,
+        OpenAICompatibleProvider,
+        TemplateProvider,
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+      ],
+    }).compile();
+
+    return {
+      registry: module.get(AIProviderRegistryService),
+      huggingFace: module.get(HuggingFaceProvider),
+      openAICompatible: module.get(OpenAICompatibleProvider),
+      template: module.get(TemplateProvider),
+    };
+  };
+
+  it('should fall back from Hugging Face to templates by default', async () => {
+    const { registry, huggingFace, template } = await createRegistry();
+
+    expect(registry.getChain()).toEqual([huggingFace, template]);
+    expect(registry.getChain('faqs')).toEqual([huggingFace, template]);
+  });
+
+  it('should read the default chain and per-task chains from config, skipping unknown ids', async () => {
+    const { registry, openAICompatible, template } = await createRegistry({
+      AI_PROVIDERS: 'openai-compatible, template',
+      AI_PROVIDERS_SEO_TITLE: 'Template',
+      AI_PROVIDERS_FAQS: 'gpt-5,template',
+    });
+
+    expect(registry.getChain()).toEqual([openAICompatible, template]);
+    expect(registry.getChain('patient-description')).toEqual([openAICompatible, template]);
+    expect(registry.getChain('seo-title')).toEqual([template]);
+    expect(registry.describeChains()).toEqual({
+      default: ['openai-compatible', 'template'],
+      tasks: { 'seo-title': ['template'], faqs: ['template'] },
+    });
+  });
+});
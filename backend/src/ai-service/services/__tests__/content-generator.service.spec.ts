@@ -0,0 +1,207 @@
+import { Test } from '@nestjs/testing';
+import { ContentGeneratorService } from '../content-generator.service';
+import { AIProviderRegistryService } from '../ai-provider-registry.service';
+import { RetryService } from '../retry.service';
+import { CacheService } from '../cache.service';
+import { TemplateProvider } from '../../providers/template.provider';
+import { AIProvider } from '../../interfaces/ai-provider.interface';
+
+describe('ContentGeneratorService', () => {
+  let generator: ContentGeneratorService;
+  let registry: { getChain: jest.Mock };
+  let template: TemplateProvider;
+
+  const stubProvider = (name: string, generateContent: AIProvider['generateContent']): AIProvider => ({
+    isHealthy: async () => true,
+    getProviderName: () => name,
+    generateContent: jest.fn(generateContent),
+  });
+
+  beforeEach(async () => {
+    template = new TemplateProvider();
+    registry = { getChain: jest.fn().mockReturnValue([template]) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ContentGeneratorService,
+        { provide: AIProviderRegistryService, useValue: registry },
+        { provide: RetryService, useValue: { executeWithRetry: (operation: () => Promise<string>) => operation() } },
+        {
+          provide: CacheService,
+          useValue: {
+            generateCacheKey: (prefix: string) => prefix,
+            getOrSet: (_key: string, factory: () => Promise<unknown>) => factory(),
+            get: async () => null,
+            set: async () => undefined,
+          },
+        },
+      ],
+    }).compile();
+
+    generator = module.get(ContentGeneratorService);
+  });
+
+  it('should generate content offline through the template provider', async () => {
+    const content = await generator.generateEnhancedContent({
+      drugName: 'Taltz',
+      genericName: 'ixekizumab',
+      indications: '1 INDICATIONS AND USAGE Taltz is a humanized interleukin-17A antagonist indicated for the treatment of adults with moderate-to-severe plaque psoriasis.',
+    });
+
+    expect(content.seoTitle).toBe('Taltz (ixekizumab): Uses, Dosage & Side Effects');
+    expect(content.metaDescription.length).toBeGreaterThanOrEqual(120);
+    expect(content.metaDescription.length).toBeLessThanOrEqual(155);
+    expect(content.patientFriendlyDescription).toContain('Taltz is a humanized interleukin-17A antagonist');
+    expect(content.faqs).toHaveLength(5);
+  });
+
+  it('should cite the label sections that templates quote when label chunks are given', async () => {
+    const chunk = (section: string, labelKey: string, text: string) => ({ section, title: null, code: 'code', labelKey, text });
+
+    const content = await generator.generateEnhancedContent({
+      drugName: 'Taltz',
+      labelChunks: [
+        chunk('1', 'indicationsAndUsage', 'Taltz is indicated for the treatment of adults with moderate-to-severe plaque psoriasis.'),
+        chunk('2.1', 'dosageAndAdministration', 'The recommended dose is 160 mg by subcutaneous injection at Week 0.'),
+        chunk('6.1', 'adverseReactions', 'The most common adverse reactions were injection site reactions and infections.'),
+      ],
+    });
+
+    expect(content.descriptionSentences?.[1]).toEqual({
+      text: expect.stringContaining('moderate-to-severe plaque psoriasis'),
+      citations: [{ section: '1', title: null, code: 'code', labelKey: 'indicationsAndUsage' }],
+    });
+    expect(content.patientFriendlyDescription).not.toContain('[S');
+    expect(content.faqs.map((faq) => faq.citations?.map((citation) => citation.section))).toEqual([
+      ['1'],
+      ['2.1'],
+      ['6.1'],
+      [],
+      [],
+    ]);
+  });
+
+  describe('answerLabelQuestion', () => {
+    const chunks = [
+      {
+        section: '8.1',
+        title: '8.1 Pregnancy',
+        code: '42228-7',
+        labelKey: 'useInSpecificPopulations',
+        text: 'Available data with Taltz use in pregnant women are insufficient to evaluate for a drug-associated risk of major birth defects.',
+      },
+      {
+        section: '6.1',
+        title: '6.1 Clinical Trials Experience',
+        code: '34084-4',
+        labelKey: 'adverseReactions',
+        text: 'The most common adverse reactions were injection site reactions and upper respiratory tract infections.',
+      },
+    ];
+
+    it('should answer from the sections a question is about, with citations and a disclaimer', async () => {
+      const generate = jest.spyOn(template, 'generateContent');
+
+      const answer = await generator.answerLabelQuestion('Taltz', 'Can I take this while pregnant?', chunks);
+
+      expect(answer.answered).toBe(true);
+      expect(answer.answer).toContain('pregnant women are insufficient');
+      expect(answer.citations[0]).toEqual({ section: '8.1', title: '8.1 Pregnancy', code: '42228-7', labelKey: 'useInSpecificPopulations' });
+      expect(answer.disclaimer).toContain('not medical advice');
+      expect(generate.mock.calls[0][1].task).toBe('label-question');
+    });
+
+    it('should decline questions the label does not cover without calling a provider', async () => {
+      const generate = jest.spyOn(template, 'generateContent');
+
+      const answer = await generator.answerLabelQuestion('Taltz', 'What is the capital of France?', chunks);
+
+      expect(answer).toMatchObject({ answered: false, citations: [] });
+      expect(answer.answer).toContain('does not answer this question');
+      expect(answer.disclaimer).toContain('not medical advice');
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('should decline when the model reports the excerpts do not answer the question', async () => {
+      registry.getChain.mockReturnValue([stubProvider('Stub', async () => 'NOT_COVERED')]);
+
+      const answer = await generator.answerLabelQuestion('Taltz', 'What are the side effects in children?', chunks);
+
+      expect(answer.answered).toBe(false);
+    });
+  });
+
+  describe('streaming', () => {
+    const collect = async <T>(events: AsyncIterable<T>) => {
+      const collected: T[] = [];
+      for await (const event of events) collected.push(event);
+      return collected;
+    };
+
+    const streamingProvider = (tokens: string[], failAfter?: number): AIProvider => ({
+      ...stubProvider('Streaming', async () => {
+        throw new Error('connection reset');
+      }),
+      async *streamContent() {
+        for (const [index, token] of tokens.entries()) {
+          if (index === failAfter) throw new Error('connection reset');
+          yield token;
+        }
+      },
+    });
+
+    it('should report provider explanation fields as their partial values change', async () => {
+      registry.getChain.mockReturnValue([
+        streamingProvider([
+          '{"explanation": "ACE inhibitors',
+          ' lower blood pressure.", "keyPoints": ["Monitor',
+          ' potassium"], "clinicalContext": "First-line therapy."}',
+        ]),
+      ]);
+
+      const events = await collect(generator.streamProviderExplanation('ACE inhibitors', 'drug_mechanism'));
+
+      expect(events.filter((event) => event.type === 'token')).toHaveLength(3);
+      expect(events.filter((event) => event.type === 'field')).toEqual([
+        { type: 'field', field: 'explanation', value: 'ACE inhibitors' },
+        { type: 'field', field: 'explanation', value: 'ACE inhibitors lower blood pressure.' },
+        { type: 'field', field: 'keyPoints', value: ['Monitor'] },
+        { type: 'field', field: 'keyPoints', value: ['Monitor potassium'] },
+        { type: 'field', field: 'clinicalContext', value: 'First-line therapy.' },
+      ]);
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'done',
+        result: { explanation: 'ACE inhibitors lower blood pressure.', keyPoints: ['Monitor potassium'] },
+      });
+    });
+
+    it('should skip a provider that fails before streaming and take whole responses from non-streaming ones', async () => {
+      registry.getChain.mockReturnValue([streamingProvider(['never sent'], 0), template]);
+
+      const events = await collect(
+        generator.streamEnhancedContent({
+          drugName: 'Taltz',
+          genericName: 'ixekizumab',
+          indications: 'Taltz is indicated for the treatment of adults with moderate-to-severe plaque psoriasis.',
+        }),
+      );
+
+      const fields = events.flatMap((event) => (event.type === 'field' ? [event.field] : []));
+      expect(fields).toEqual(expect.arrayContaining(['patientFriendlyDescription', 'seoTitle', 'metaDescription', 'faqs']));
+      expect(events[events.length - 1]).toMatchObject({
+        type: 'done',
+        result: { seoTitle: 'Taltz (ixekizumab): Uses, Dosage & Side Effects' },
+      });
+    });
+
+    it('should end the stream when a provider fails after sending text', async () => {
+      const fallback = stubProvider('Fallback', async () => 'unused');
+      registry.getChain.mockReturnValue([streamingProvider(['{"explanation": "Partial', ' text'], 1), fallback]);
+
+      await expect(collect(generator.streamProviderExplanation('ACE inhibitors', 'drug_mechanism'))).rejects.toThrow(
+        'connection reset',
+      );
+      expect(fallback.generateContent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { GroundingValidatorService } from '../grounding-validator.service';
+import { LabelRetriever, LabelSectionText } from '../../../common/utils/label-retrieval.util';
+import { SplSectionParser } from '../../../common/utils/spl-section-parser.util';
+
+describe('GroundingValidatorService', () => {
+  const validator = new GroundingValidatorService();
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const sections: LabelSectionText[] = [];
+  SplSectionParser.walk(
+    SplSectionParser.parseLabel(labels.find((record) => record.drugName === 'Mounjaro').label),
+    (section) => sections.push(section),
+  );
+  const chunks = LabelRetriever.chunk(sections);
+
+  const claim = (report: ReturnType<GroundingValidatorService['validate']>, text: string) =>
+    report.claims.find((candidate) => candidate.claim === text);
+
+  it('should extract doses, frequencies, indications and side effects sentence by sentence', () => {
+    const claims = validator.extractClaims(
+      'Mounjaro is used with diet and exercise to improve blood sugar control in adults with type 2 diabetes. ' +
+        'The starting dose is 2.5 milligrams injected once a week. ' +
+        'Common side effects include nausea, diarrhea and stomach pain.',
+    );
+
+    expect(claims.map(({ type, claim }) => [type, claim])).toEqual([
+      ['indication', 'blood sugar control in adults with type 2 diabetes'],
+      ['dose', '2.5 mg'],
+      ['frequency', 'once weekly'],
+      ['side-effect', 'nausea'],
+      ['side-effect', 'diarrhea'],
+      ['side-effect', 'stomach pain'],
+    ]);
+  });
+
+  it('should support claims the label states, in plain words, with the sections they appear in', () => {
+    const report = validator.validate(
+      'Mounjaro is used to improve blood sugar control in adults with type 2 diabetes. ' +
+        'The maximum dose is 15 mg injected once weekly. Side effects include nausea, vomiting and indigestion.',
+      chunks,
+    );
+
+    expect(report.issues).toEqual([]);
+    expect(report.isGrounded).toBe(true);
+    expect(claim(report, '15 mg').citations[0]).toMatchObject({ labelKey: 'dosageAndAdministration' });
+    expect(claim(report, 'indigestion').citations[0]).toMatchObject({ labelKey: 'adverseReactions' });
+  });
+
+  it('should flag doses, frequencies, indications and side effects the label does not contain', () => {
+    const report = validator.validate(
+      'Mounjaro is used to treat obesity in teenagers. Take 40 mg every 2 days. It may cause hair loss.',
+      chunks,
+    );
+
+    expect(report.isGrounded).toBe(false);
+    expect(report.issues).toEqual([
+      'Indication "obesity in teenagers" is not supported by the label\'s indications',
+      'Dose "40 mg" does not appear in the label',
+      'Dosing frequency "every 2 days" does not appear in the label',
+      'Side effect "hair loss" does not appear in the label',
+    ]);
+    expect(report.claims.every((candidate) => candidate.citations.length === 0)).toBe(true);
+  });
+
+  it('should not let a limitation of use support an indication', () => {
+    const report = validator.validate('Mounjaro is used to treat type 1 diabetes.', chunks);
+
+    expect(report.issues).toEqual(['Indication "type 1 diabetes" is not supported by the label\'s indications']);
+  });
+});
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AIProvider, AITask, AI_TASKS } from '../interfaces/ai-provider.interface';
+import { HuggingFaceProvider } from '../providers/huggingface.provider';
+import { OpenAICompatibleProvider } from '../providers/openai-compatible.provider';
+import { TemplateProvider } from '../providers/template.provider';
+
+export const DEFAULT_PROVIDER_CHAIN = ['huggingface', 'template'];
+
+/**
+ * Named AI providers and the order to try them in. AI_PROVIDERS sets the
+ * default fallback chain (comma-separated provider ids); AI_PROVIDERS_<TASK>,
+ * e.g. AI_PROVIDERS_FAQS=openai-compatible,template, overrides it for one task.
+ */
+@Injectable()
+export class AIProviderRegistryService {
+  private readonly logger = new Logger(AIProviderRegistryService.name);
+  private readonly providers: Map<string, AIProvider>;
+  private readonly defaultChain: AIProvider[];
+  private readonly taskChains = new Map<AITask, AIProvider[]>();
+
+  constructor(
+    private configService: ConfigService,
+    huggingFaceProvider: HuggingFaceProvider,
+    openAICompatibleProvider: OpenAICompatibleProvider,
+    templateProvider: TemplateProvider,
+  ) {
+    this.providers = new Map<string, AIProvider>([
+      ['huggingface', huggingFaceProvider],
+      ['openai-compatible', openAICompatibleProvider],
+      ['template', templateProvider],
+    ]);
+
+    this.defaultChain = this.resolveChain('AI_PROVIDERS') ?? this.toProviders(DEFAULT_PROVIDER_CHAIN);
+
+    for (const task of AI_TASKS) {
+      const chain = this.resolveChain(this.taskSetting(task));
+      if (chain) {
+        this.taskChains.set(task, chain);
+      }
+    }
+
+    this.logger.log(`AI provider chain: ${this.describe(this.defaultChain)}`);
+    this.taskChains.forEach((chain, task) => this.logger.log(`AI provider chain for ${task}: ${this.describe(chain)}`));
+  }
+
+  /** Providers to try, in order, for a task. */
+  getChain(task?: AITask): AIProvider[] {
+    return (task && this.taskChains.get(task)) || this.defaultChain;
+  }
+
+  getProvider(id: string): AIProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  getProviderIds(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /** The configured chains by task, as provider ids, for health reporting. */
+  describeChains(): { default: string[]; tasks: Partial<Record<AITask, string[]>> } {
+    return {
+      default: this.toIds(this.defaultChain),
+      tasks: Object.fromEntries([...this.taskChains].map(([task, chain]) => [task, this.toIds(chain)])),
+    };
+  }
+
+  private resolveChain(setting: string): AIProvider[] | null {
+    const ids = (this.configService.get<string>(setting) ?? '')
+      .split(',')
+      .map((id) => id.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (ids.length === 0) {
+      return null;
+    }
+
+    const unknown = ids.filter((id) => !this.providers.has(id));
+    if (unknown.length > 0) {
+      this.logger.warn(`${setting} names unknown AI providers: ${unknown.join(', ')}`);
+    }
+
+    const chain = this.toProviders(ids);
+    return chain.length > 0 ? chain : null;
+  }
+
+  private taskSetting(task: AITask): string {
+    return `AI_PROVIDERS_${task.toUpperCase().replace(/-/g, '_')}`;
+  }
+
+  private toProviders(ids: string[]): AIProvider[] {
+    return ids.map((id) => this.providers.get(id)).filter((provider): provider is AIProvider => !!provider);
+  }
+
+  private toIds(chain: AIProvider[]): string[] {
+    return chain.map((provider) => [...this.providers].find(([, candidate]) => candidate === provider)![0]);
+  }
+
+  private describe(chain: AIProvider[]): string {
+    return this.toIds(chain).join(' -> ');
+  }
+}
@@ -1,27 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { HuggingFaceProvider } from '../providers/huggingface.provider';
+import { AIProviderRegistryService } from './ai-provider-registry.service';
 import { RetryService } from './retry.service';
 import { CacheService } from './cache.service';
+import {
+  DESCRIPTION_LABEL_KEYS,
+  DrugPromptBuilder,
+  FAQ_TOPICS,
+  LABEL_QUESTION_TOPICS,
+  NOT_COVERED_REPLY,
+} from '../prompts/drug-prompt.builder';
 import { 
-  AIProvider, 
   EnhancedDrugContent, 
   DrugContentContext,
-  AIGenerationOptions 
+  AIGenerationOptions,
+  AIStreamEvent,
+  GeneratedFAQ,
+  LabelAnswer,
 } from '../interfaces/ai-provider.interface';
+import { CitedText, LabelChunk, LabelRetriever } from '../../common/utils/label-retrieval.util';
+import { PartialJson } from '../../common/utils/partial-json.util';
+
+const FALLBACK_DESCRIPTION = 'This medication is used to treat various conditions as prescribed by healthcare providers. Always follow your doctor\'s instructions and consult them about any questions or concerns.';
 
 @Injectable()
 export class ContentGeneratorService {
   private readonly logger = new Logger(ContentGeneratorService.name);
-  private readonly providers: AIProvider[];
 
   constructor(
-    private huggingFaceProvider: HuggingFaceProvider,
+    private providerRegistry: AIProviderRegistryService,
     private retryService: RetryService,
     private cacheService: CacheService,
-  ) {
-    // Only HuggingFace provider
-    this.providers = [this.huggingFaceProvider];
-  }
+  ) {}
 
   async generateSEOTitle(context: DrugContentContext): Promise<string> {
     const cacheKey = this.cacheService.generateCacheKey('seo-title', context);
@@ -29,10 +38,12 @@ export class ContentGeneratorService {
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildSEOTitlePrompt(context);
+        const prompt = DrugPromptBuilder.seoTitle(context);
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 100,
           temperature: 0.5,
+          task: 'seo-title',
+          context,
         });
         return this.extractAndValidateSEOTitle(content);
       }
@@ -45,10 +56,12 @@ export class ContentGeneratorService {
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildMetaDescriptionPrompt(context);
+        const prompt = DrugPromptBuilder.metaDescription(context);
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 200,
           temperature: 0.5,
+          task: 'meta-description',
+          context,
         });
         return this.extractAndValidateMetaDescription(content);
       }
@@ -56,33 +69,50 @@ export class ContentGeneratorService {
   }
 
   async generatePatientFriendlyDescription(context: DrugContentContext): Promise<string> {
-    const cacheKey = this.cacheService.generateCacheKey('patient-description', context);
+    return (await this.generateCitedDescription(context)).text;
+  }
+
+  /**
+   * The patient description with the label sections each sentence came from.
+   * Grounded in `context.labelChunks` when present; otherwise no citations.
+   */
+  async generateCitedDescription(context: DrugContentContext): Promise<CitedText> {
+    const cacheKey = this.cacheService.generateCacheKey('cited-description', context);
     
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildPatientDescriptionPrompt(context);
+        const sources = this.descriptionSources(context.labelChunks ?? []);
+        const prompt = DrugPromptBuilder.patientDescription(context, sources);
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 500,
           temperature: 0.6,
+          task: 'patient-description',
+          context,
+          sources,
         });
-        return this.extractAndValidateDescription(content);
+        return this.extractAndValidateDescription(content, sources);
       }
     );
   }
 
-  async generateFAQs(context: DrugContentContext): Promise<Array<{ question: string; answer: string }>> {
+  async generateFAQs(context: DrugContentContext): Promise<GeneratedFAQ[]> {
     const cacheKey = this.cacheService.generateCacheKey('faqs', context);
     
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildFAQPrompt(context);
+        const { sources, questions } = this.faqSources(context.drugName, context.labelChunks ?? []);
+        const prompt = DrugPromptBuilder.faqs(context, sources, questions);
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 1500,
           temperature: 0.7,
+          task: 'faqs',
+          context,
+          sources,
+          questions,
         });
-        return this.extractAndValidateFAQs(content);
+        return this.extractAndValidateFAQs(content, sources);
       }
     );
   }
@@ -93,30 +123,161 @@ export class ContentGeneratorService {
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const [seoTitle, metaDescription, patientFriendlyDescription, faqs] = await Promise.all([
+        const [seoTitle, metaDescription, description, faqs] = await Promise.all([
           this.generateSEOTitle(context),
           this.generateMetaDescription(context),
-          this.generatePatientFriendlyDescription(context),
+          this.generateCitedDescription(context),
           this.generateFAQs(context),
         ]);
 
         return {
           seoTitle,
           metaDescription,
-          patientFriendlyDescription,
+          patientFriendlyDescription: description.text,
+          ...(description.citations.length > 0 && { descriptionSentences: description.sentences }),
           faqs,
         };
       }
     );
   }
 
+  /**
+   * Streams the enhanced content: the description as it is written, with
+   * source markers removed, and the SEO title, meta description and FAQs as
+   * each finishes. Those are generated alongside the description as usual.
+   */
+  async *streamEnhancedContent(context: DrugContentContext): AsyncGenerator<AIStreamEvent<EnhancedDrugContent>> {
+    const cacheKey = this.cacheService.generateCacheKey('enhanced-content', context);
+    const cached = await this.cacheService.get<EnhancedDrugContent>(cacheKey);
+    if (cached) {
+      yield { type: 'done', result: cached };
+      return;
+    }
+
+    const finished: Array<AIStreamEvent<EnhancedDrugContent>> = [];
+    const field = <T>(name: string, generation: Promise<T>) =>
+      generation.then((value) => {
+        finished.push({ type: 'field', field: name, value });
+        return value;
+      });
+    const others = Promise.all([
+      field('seoTitle', this.generateSEOTitle(context)),
+      field('metaDescription', this.generateMetaDescription(context)),
+      field('faqs', this.generateFAQs(context)),
+    ]);
+    // Reported when awaited below; this keeps an early failure from going unhandled meanwhile
+    others.catch(() => undefined);
+
+    const sources = this.descriptionSources(context.labelChunks ?? []);
+    const prompt = DrugPromptBuilder.patientDescription(context, sources);
+    let content = '';
+
+    for await (const token of this.streamWithFallback(prompt, {
+      maxTokens: 500,
+      temperature: 0.6,
+      task: 'patient-description',
+      context,
+      sources,
+    })) {
+      content += token;
+      yield { type: 'field', field: 'patientFriendlyDescription', value: this.stripSourceMarkers(content) };
+      yield* finished.splice(0);
+    }
+
+    const description = this.extractAndValidateDescription(content, sources);
+    await this.cacheService.set(this.cacheService.generateCacheKey('cited-description', context), description);
+    yield { type: 'field', field: 'patientFriendlyDescription', value: description.text };
+
+    const [seoTitle, metaDescription, faqs] = await others;
+    yield* finished.splice(0);
+
+    const result: EnhancedDrugContent = {
+      seoTitle,
+      metaDescription,
+      patientFriendlyDescription: description.text,
+      ...(description.citations.length > 0 && { descriptionSentences: description.sentences }),
+      faqs,
+    };
+    await this.cacheService.set(cacheKey, result);
+    yield { type: 'done', result };
+  }
+
+  /**
+   * Answers a patient question from the label chunks most relevant to it. The
+   * question is declined, with the same disclaimer, when no chunk is relevant
+   * (without calling a provider), when the model says the excerpts do not
+   * answer it, or when the answer cites none of them.
+   */
+  async answerLabelQuestion(drugName: string, question: string, chunks: LabelChunk[]): Promise<LabelAnswer> {
+    const labelKeys = [
+      ...new Set(LABEL_QUESTION_TOPICS.filter(({ pattern }) => pattern.test(question)).flatMap((topic) => topic.labelKeys)),
+    ];
+    const sources = LabelRetriever.retrieve(chunks, question, { labelKeys, limit: 4 });
+
+    if (sources.length === 0) {
+      return this.declineLabelQuestion(drugName, question);
+    }
+
+    const cacheKey = this.cacheService.generateCacheKey('label-question', {
+      drugName,
+      question: question.trim().toLowerCase(),
+      sources,
+    });
+
+    return this.cacheService.getOrSet(
+      cacheKey,
+      async () => {
+        const prompt = DrugPromptBuilder.labelQuestion(drugName, question, sources);
+        const content = await this.generateWithFallback(prompt, {
+          maxTokens: 400,
+          temperature: 0.2,
+          task: 'label-question',
+          context: { drugName },
+          sources,
+        });
+        return this.extractAndValidateLabelAnswer(drugName, question, content, sources);
+      }
+    );
+  }
+
+  /** The first chunk of each section a description covers, in label order. */
+  private descriptionSources(chunks: LabelChunk[]): LabelChunk[] {
+    return DESCRIPTION_LABEL_KEYS
+      .map((labelKey) => chunks.find((chunk) => chunk.labelKey === labelKey))
+      .filter((chunk): chunk is LabelChunk => !!chunk);
+  }
+
+  /**
+   * Retrieves the chunks that answer each FAQ question. Sources are shared
+   * across questions, so each question refers to them by 1-based index.
+   */
+  private faqSources(
+    drugName: string,
+    chunks: LabelChunk[],
+  ): { sources: LabelChunk[]; questions: Array<{ question: string; sources: number[] }> } {
+    if (chunks.length === 0) {
+      return { sources: [], questions: [] };
+    }
+
+    const sources: LabelChunk[] = [];
+    const questions = FAQ_TOPICS.map((topic) => ({
+      question: topic.question(drugName),
+      sources: LabelRetriever.retrieve(chunks, topic.query, { labelKeys: topic.labelKeys, limit: 2 }).map((chunk) => {
+        const index = sources.indexOf(chunk);
+        return index >= 0 ? index + 1 : sources.push(chunk);
+      }),
+    }));
+
+    return { sources, questions };
+  }
+
   private async generateWithFallback(
     prompt: string, 
     options: AIGenerationOptions = {}
   ): Promise<string> {
     return this.retryService.executeWithRetry(
       async () => {
-        for (const provider of this.providers) {
+        for (const provider of this.providerRegistry.getChain(options.task)) {
           try {
             if (await provider.isHealthy()) {
               this.logger.debug(`Using ${provider.getProviderName()} for content generation`);
@@ -133,6 +294,37 @@ export class ContentGeneratorService {
     );
   }
 
+  /**
+   * Streams from the first healthy provider, taking whole responses from
+   * providers that cannot stream. A provider that fails before its first
+   * token is skipped like in `generateWithFallback`; once text has been sent
+   * a failure ends the stream, and nothing is retried.
+   */
+  private async *streamWithFallback(prompt: string, options: AIGenerationOptions = {}): AsyncGenerator<string> {
+    for (const provider of this.providerRegistry.getChain(options.task)) {
+      let started = false;
+      try {
+        if (!(await provider.isHealthy())) continue;
+
+        this.logger.debug(`Streaming from ${provider.getProviderName()}`);
+        if (!provider.streamContent) {
+          yield await provider.generateContent(prompt, options);
+          return;
+        }
+
+        for await (const token of provider.streamContent(prompt, options)) {
+          started = true;
+          yield token;
+        }
+        return;
+      } catch (error) {
+        if (started) throw error;
+        this.logger.warn(`${provider.getProviderName()} failed: ${error.message}`);
+      }
+    }
+    throw new Error('All AI providers failed');
+  }
+
   async generateProviderExplanation(
     topic: string,
     type: 'medical_condition' | 'drug_mechanism' | 'treatment_approach' | 'pharmacology',
@@ -147,62 +339,64 @@ export class ContentGeneratorService {
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildProviderExplanationPrompt(topic, type, options);
+        const prompt = DrugPromptBuilder.providerExplanation(topic, type, options);
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 1000,
           temperature: 0.3,
+          task: 'provider-explanation',
+          context: { drugName: options.drugName, indications: options.indication },
         });
         return this.extractAndValidateProviderExplanation(content);
       }
     );
   }
 
-  private buildProviderExplanationPrompt(
+  /**
+   * Streams a provider explanation, reporting each JSON field whenever its
+   * partial value changes. The result is validated and cached as in
+   * `generateProviderExplanation`.
+   */
+  async *streamProviderExplanation(
     topic: string,
-    type: string,
-    options: any
-  ): string {
-    const audienceContext = this.getAudienceContext(options.targetAudience || 'general_healthcare');
-    const drugContext = options.drugName ? `related to ${options.drugName}` : '';
-    const indicationContext = options.indication ? `for ${options.indication}` : '';
-
-    return `Generate a professional healthcare provider explanation about "${topic}" (${type})${drugContext}${indicationContext}.
-
-Target audience: ${audienceContext}
-
-Requirements:
-- Use medical terminology appropriate for healthcare professionals
-- Include clinical context and evidence-based information
-- Provide key clinical points for practice
-- Include practice considerations and monitoring
-- Maintain professional, objective tone
-- Be comprehensive yet concise (500-800 words)
-- Include related clinical information when relevant
-
-Format as JSON:
-{
-  "explanation": "comprehensive explanation text",
-  "keyPoints": ["key point 1", "key point 2", "key point 3", "key point 4"],
-  "clinicalContext": "clinical context and evidence-based considerations",
-  "practiceConsiderations": ["consideration 1", "consideration 2", "consideration 3"],
-  "relatedInformation": ["related info 1", "related info 2", "related info 3"]
-}
-
-Return only the JSON object, no explanation.`;
-  }
+    type: 'medical_condition' | 'drug_mechanism' | 'treatment_approach' | 'pharmacology',
+    options: {
+      drugName?: string;
+      indication?: string;
+      targetAudience?: 'primary_care' | 'specialist' | 'pharmacy' | 'general_healthcare';
+    } = {}
+  ): AsyncGenerator<AIStreamEvent<any>> {
+    const cacheKey = this.cacheService.generateCacheKey('provider-explanation', { topic, type, ...options });
+    const cached = await this.cacheService.get(cacheKey);
+    if (cached) {
+      yield { type: 'done', result: cached };
+      return;
+    }
 
-  private getAudienceContext(audience: string): string {
-    switch (audience) {
-      case 'primary_care':
-        return 'Primary care physicians and family medicine practitioners';
-      case 'specialist':
-        return 'Medical specialists and subspecialty physicians';
-      case 'pharmacy':
-        return 'Pharmacists and pharmacy professionals';
-      case 'general_healthcare':
-      default:
-        return 'General healthcare professionals including physicians, nurses, and pharmacists';
+    const prompt = DrugPromptBuilder.providerExplanation(topic, type, options);
+    const reported = new Map<string, string>();
+    let content = '';
+
+    for await (const token of this.streamWithFallback(prompt, {
+      maxTokens: 1000,
+      temperature: 0.3,
+      task: 'provider-explanation',
+      context: { drugName: options.drugName, indications: options.indication },
+    })) {
+      content += token;
+      yield { type: 'token', text: token };
+
+      for (const [field, value] of Object.entries(PartialJson.parse(content) ?? {})) {
+        const serialized = JSON.stringify(value);
+        if (reported.get(field) !== serialized) {
+          reported.set(field, serialized);
+          yield { type: 'field', field, value };
+        }
+      }
     }
+
+    const result = this.extractAndValidateProviderExplanation(content);
+    await this.cacheService.set(cacheKey, result);
+    yield { type: 'done', result };
   }
 
   private extractAndValidateProviderExplanation(content: string): any {
@@ -252,95 +446,6 @@ Return only the JSON object, no explanation.`;
     };
   }
 
-  private buildSEOTitlePrompt(context: DrugContentContext): string {
-    const { drugName, genericName, indications } = context;
-    
-    return `Create an SEO-optimized title for the drug "${drugName}" that:
-- Is exactly 50-60 characters long
-- Includes the primary drug name
-- Mentions key use case if available
-- Is compelling for search results
-- Follows medical content guidelines
-
-Drug details:
-- Generic name: ${genericName || 'Not specified'}
-- Primary uses: ${indications || 'General medication'}
-
-Return only the title, no explanation.`;
-  }
-
-  private buildMetaDescriptionPrompt(context: DrugContentContext): string {
-    const { drugName, genericName, indications, warnings } = context;
-    
-    return `Create an SEO-optimized meta description for the drug "${drugName}" that:
-- Is exactly 150-155 characters long
-- Summarizes key drug information
-- Includes primary uses and important safety info
-- Is informative and compelling
-- Encourages clicks while being medically accurate
-
-Drug details:
-- Generic name: ${genericName || 'Not specified'}
-- Primary uses: ${indications || 'General medication'}
-- Key warnings: ${warnings || 'Standard precautions apply'}
-
-Return only the meta description, no explanation.`;
-  }
-
-  private buildPatientDescriptionPrompt(context: DrugContentContext): string {
-    const { drugName, genericName, indications, contraindications, warnings, dosageInfo } = context;
-    
-    return `Create a patient-friendly description for the drug "${drugName}" that:
-- Explains what the drug is and what it's used for in simple terms
-- Mentions key safety information patients should know
-- Is 150-250 words long
-- Uses accessible language (8th grade reading level)
-- Emphasizes the importance of following doctor's instructions
-- Is medically accurate but not overly technical
-
-Drug details:
-- Generic name: ${genericName || 'Not specified'}
-- Uses: ${indications || 'As prescribed by healthcare provider'}
-- Important warnings: ${warnings || 'Follow healthcare provider instructions'}
-- Contraindications: ${contraindications || 'Discuss with healthcare provider'}
-- Dosage info: ${dosageInfo || 'As prescribed'}
-
-Return only the description, no explanation.`;
-  }
-
-  private buildFAQPrompt(context: DrugContentContext): string {
-    const { drugName, genericName, indications, contraindications, warnings, adverseReactions, dosageInfo } = context;
-    
-    return `Create exactly 5 frequently asked questions and answers about the drug "${drugName}":
-
-Drug details:
-- Generic name: ${genericName || 'Not specified'}
-- Uses: ${indications || 'As prescribed by healthcare provider'}
-- Warnings: ${warnings || 'Follow healthcare provider instructions'}
-- Contraindications: ${contraindications || 'Discuss with healthcare provider'}
-- Side effects: ${adverseReactions || 'May vary by individual'}
-- Dosage: ${dosageInfo || 'As prescribed'}
-
-Requirements:
-- Each question should be 10-15 words
-- Each answer should be 50-100 words
-- Cover common patient concerns (uses, side effects, dosage, interactions, precautions)
-- Use patient-friendly language
-- Emphasize consulting healthcare providers
-- Be medically accurate
-
-Format as JSON:
-[
-  {"question": "...", "answer": "..."},
-  {"question": "...", "answer": "..."},
-  {"question": "...", "answer": "..."},
-  {"question": "...", "answer": "..."},
-  {"question": "...", "answer": "..."}
-]
-
-Return only the JSON array, no explanation.`;
-  }
-
   private extractAndValidateSEOTitle(content: string): string {
     const title = content.trim().replace(/^"|"$/g, '');
     
@@ -371,22 +476,45 @@ Return only the JSON array, no explanation.`;
     return description;
   }
 
-  private extractAndValidateDescription(content: string): string {
-    const description = content.trim();
-    
+  private extractAndValidateDescription(content: string, sources: LabelChunk[] = []): CitedText {
+    if (sources.length === 0) {
+      return { text: this.truncateDescription(content.trim()), sentences: [], citations: [] };
+    }
+
+    let description = LabelRetriever.cite(content, sources);
+
+    // Drop whole sentences rather than cutting one, so every sentence keeps its citation
+    while (description.text.length > 2000 && description.sentences.length > 1) {
+      description = LabelRetriever.join(description.sentences.slice(0, -1));
+    }
+
+    if (description.text.length < 100) {
+      this.logger.warn('Generated description is too short, using fallback');
+      return { text: FALLBACK_DESCRIPTION, sentences: [], citations: [] };
+    }
+
+    return description;
+  }
+
+  /** Removes `[S1]` markers from text still being written, including a marker cut off at the end. */
+  private stripSourceMarkers(text: string): string {
+    return text.replace(/\s*\[(?:S\d+\s*,?\s*)+\]/g, '').replace(/\s*\[(?:S\d*[\s,]*)*$/, '');
+  }
+
+  private truncateDescription(description: string): string {
     if (description.length > 2000) {
       return description.substring(0, 1997) + '...';
     }
     
     if (description.length < 100) {
       this.logger.warn('Generated description is too short, using fallback');
-      return 'This medication is used to treat various conditions as prescribed by healthcare providers. Always follow your doctor\'s instructions and consult them about any questions or concerns.';
+      return FALLBACK_DESCRIPTION;
     }
     
     return description;
   }
 
-  private extractAndValidateFAQs(content: string): Array<{ question: string; answer: string }> {
+  private extractAndValidateFAQs(content: string, sources: LabelChunk[] = []): GeneratedFAQ[] {
     try {
       const cleanContent = content.trim().replace(/^```json\n?|\n?```$/g, '');
       const faqs = JSON.parse(cleanContent);
@@ -398,10 +526,14 @@ Return only the JSON array, no explanation.`;
       const validFaqs = faqs
         .filter(faq => faq.question && faq.answer)
         .slice(0, 5)
-        .map(faq => ({
-          question: faq.question.trim(),
-          answer: faq.answer.trim(),
-        }));
+        .map((faq): GeneratedFAQ => {
+          if (sources.length === 0) {
+            return { question: faq.question.trim(), answer: faq.answer.trim() };
+          }
+
+          const answer = LabelRetriever.cite(faq.answer, sources);
+          return { question: faq.question.trim(), answer: answer.text, citations: answer.citations };
+        });
       
       if (validFaqs.length < 3) {
         this.logger.warn('Generated FAQs are invalid, using fallback');
@@ -415,7 +547,50 @@ Return only the JSON array, no explanation.`;
     }
   }
 
-  private getFallbackFAQs(): Array<{ question: string; answer: string }> {
+  private extractAndValidateLabelAnswer(
+    drugName: string,
+    question: string,
+    content: string,
+    sources: LabelChunk[],
+  ): LabelAnswer {
+    if (content.includes(NOT_COVERED_REPLY)) {
+      return this.declineLabelQuestion(drugName, question);
+    }
+
+    const answer = LabelRetriever.cite(content, sources);
+    if (answer.citations.length === 0) {
+      this.logger.warn(`Answer about ${drugName} cited no label excerpt, declining`);
+      return this.declineLabelQuestion(drugName, question);
+    }
+
+    return {
+      question,
+      answered: true,
+      answer: answer.text,
+      sentences: answer.sentences,
+      citations: answer.citations,
+      disclaimer: this.labelAnswerDisclaimer(drugName),
+    };
+  }
+
+  private declineLabelQuestion(drugName: string, question: string): LabelAnswer {
+    const answer = `The FDA label for ${drugName} does not answer this question. Please ask your doctor or pharmacist.`;
+
+    return {
+      question,
+      answered: false,
+      answer,
+      sentences: [{ text: answer, citations: [] }],
+      citations: [],
+      disclaimer: this.labelAnswerDisclaimer(drugName),
+    };
+  }
+
+  private labelAnswerDisclaimer(drugName: string): string {
+    return `This answer was generated automatically from the FDA prescribing information for ${drugName} and is not medical advice. Talk to your doctor or pharmacist about your own situation before starting, stopping or changing any medicine.`;
+  }
+
+  private getFallbackFAQs(): GeneratedFAQ[] {
     return [
       {
         question: 'What is this medication used for?',
@@ -456,11 +631,13 @@ Return only the JSON array, no explanation.`;
     return this.cacheService.getOrSet(
       cacheKey,
       async () => {
-        const prompt = this.buildRelatedContentPrompt(drugName, indication, drugClass, mechanism);
+        const prompt = DrugPromptBuilder.relatedContent(drugName, indication, drugClass, mechanism);
         
         const content = await this.generateWithFallback(prompt, {
           maxTokens: 300,
           temperature: 0.7,
+          task: 'related-content',
+          context: { drugName, indications: indication },
         });
 
         return this.parseRelatedContentResponse(content, drugName);
@@ -469,69 +646,6 @@ Return only the JSON array, no explanation.`;
     );
   }
 
-  private buildRelatedContentPrompt(
-    drugName: string, 
-    indication?: string, 
-    drugClass?: string, 
-    mechanism?: string
-  ): string {
-    const contextParts = [];
-    
-    if (indication) contextParts.push(`used for ${indication}`);
-    if (drugClass) contextParts.push(`belongs to ${drugClass} class`);
-    if (mechanism) contextParts.push(`works by ${mechanism}`);
-    
-    const context = contextParts.length > 0 ? ` (${contextParts.join(', ')})` : '';
-
-    return `Generate clinically accurate related content suggestions for the medication ${drugName}${context}.
-
-Based on the drug's pharmacology, therapeutic class, and clinical use, please provide:
-
-1. Related drugs: List 4-5 medications with similar mechanisms, therapeutic class, or indications
-   - Include both generic and brand names when relevant
-   - Focus on clinically appropriate alternatives
-   
-2. Related conditions: List 3-4 medical conditions this drug treats or is associated with
-   - Include primary and secondary indications
-   - Consider off-label uses if clinically relevant
-   
-3. Drug interactions: List 3-4 important drug classes or specific medications that interact
-   - Focus on clinically significant interactions
-   - Include mechanism of interaction when relevant
-   
-4. Related topics: List 3-4 medical topics healthcare providers should understand
-   - Include monitoring requirements, contraindications, or therapeutic considerations
-   - Focus on clinically actionable information
-
-Requirements:
-- Use current medical knowledge and evidence-based information
-- Provide clinically relevant and accurate suggestions
-- Format responses for healthcare professional use
-- Avoid generic or vague recommendations
-
-Format as JSON with this exact structure:
-{
-  "relatedDrugs": [
-    {"name": "Drug Name (Brand)", "reason": "therapeutic relationship", "category": "therapeutic_alternative|mechanism_similar|class_related"},
-    ...
-  ],
-  "relatedConditions": [
-    {"condition": "Medical Condition", "relationship": "primary_indication|secondary_use|contraindication", "severity": "mild|moderate|severe"},
-    ...
-  ],
-  "drugInteractions": [
-    {"drug": "Interacting Drug/Class", "type": "major|moderate|minor", "description": "brief mechanism or effect"},
-    ...
-  ],
-  "relatedTopics": [
-    {"topic": "Clinical Topic", "relevance": "monitoring|contraindication|mechanism|therapeutic", "category": "safety|efficacy|administration"},
-    ...
-  ]
-}
-
-Return only the JSON object.`;
-  }
-
   private parseRelatedContentResponse(content: string, drugName: string): any {
     try {
       // Try to parse as JSON first
@@ -0,0 +1,262 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LabelChunk, LabelCitation, LabelRetriever } from '../../common/utils/label-retrieval.util';
+
+export type ClaimType = 'dose' | 'frequency' | 'indication' | 'side-effect';
+
+export interface GroundedClaim {
+  type: ClaimType;
+  /** The claim as normalized for matching, e.g. "15 mg" or "once weekly". */
+  claim: string;
+  sentence: string;
+  supported: boolean;
+  /** Label sections the claim was found in. */
+  citations: LabelCitation[];
+}
+
+export interface GroundingReport {
+  isGrounded: boolean;
+  claims: GroundedClaim[];
+  issues: string[];
+}
+
+const DOSE_PATTERN =
+  /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(mg\/kg|mg\/m2|mg|mcg|µg|micrograms?|milligrams?|grams?|g|ml|units?|iu)(?![a-z])/gi;
+
+const FREQUENCY_PATTERN =
+  /\b(?:(?:once|twice|\d+ times) (?:daily|weekly|monthly)|every other (?:day|week|month)|every \d+ (?:hour|day|week|month)s|at bedtime)\b/g;
+
+const INDICATION_PATTERNS = [
+  /\b(?:used|indicated|prescribed|approved)\b[^.;]*?\b(?:to treat|for|to (?:improve|lower|reduce|prevent|control|manage|relieve))\s+([^.;]+)/i,
+  /\btreats?\s+([^.;]+)/i,
+];
+
+const SIDE_EFFECT_PATTERNS = [
+  /\b(?:side effects?|adverse reactions?)\b[^.;]*?\b(?:include|includes|included|are|were|such as|like)\s*:?\s+([^.;]+)/i,
+  /\b(?:can|may|might|could) cause\s+([^.;]+)/i,
+];
+
+const UNIT_NAMES: Record<string, string> = {
+  µg: 'mcg',
+  microgram: 'mcg',
+  micrograms: 'mcg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  gram: 'g',
+  grams: 'g',
+  ml: 'mL',
+  unit: 'units',
+  iu: 'units',
+};
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'];
+
+/** Patient wording the label states in clinical terms; either form counts as a match. */
+const LAY_TERMS: Record<string, string[]> = {
+  blood: ['glycemic', 'glucose', 'plasma'],
+  sugar: ['glycemic', 'glucose', 'hypoglycemia', 'hyperglycemia'],
+  pressure: ['hypertension', 'hypotension'],
+  kidney: ['renal'],
+  liver: ['hepatic'],
+  heart: ['cardiac', 'cardiovascular', 'myocardial'],
+  stomach: ['gastric', 'gastrointestinal', 'abdominal'],
+  belly: ['abdominal'],
+  indigestion: ['dyspepsia'],
+  tiredness: ['fatigue'],
+  tired: ['fatigue'],
+  itching: ['pruritu'],
+  itchy: ['pruritu'],
+  sleepiness: ['somnolence'],
+  weight: ['obesity', 'overweight', 'bmi'],
+  throwing: ['vomiting'],
+  pancrea: ['pancreatiti'],
+  inflammation: ['pancreatiti', 'inflammatory'],
+};
+
+/** Words that qualify a claim without being part of what must appear in the label. */
+const QUALIFIER_TERMS = new Set(
+  (
+    'adult patient people person children child certain condition conditions help helps improve mild moderate ' +
+    'severe serious common possible including like feeling some problem problems symptom symptoms known called ' +
+    'type used use treat treatment side effect reaction'
+  ).split(' '),
+);
+
+const MIN_INDICATION_OVERLAP = 0.6;
+
+/**
+ * Checks AI-written text against the drug's own label. Dose amounts, dosing
+ * frequencies, indications and side effects are extracted sentence by
+ * sentence and each is looked up in the label sections; claims the label does
+ * not support are reported as issues for the medical reviewer. Matching is
+ * lexical, so an unsupported claim may be a paraphrase rather than an error.
+ */
+@Injectable()
+export class GroundingValidatorService {
+  private readonly logger = new Logger(GroundingValidatorService.name);
+
+  validate(text: string, chunks: LabelChunk[]): GroundingReport {
+    const claims = this.extractClaims(text).map((claim) => this.verify(claim, chunks));
+    const issues = claims.filter((claim) => !claim.supported).map((claim) => this.describeIssue(claim));
+
+    if (issues.length > 0) {
+      this.logger.debug(`${issues.length} of ${claims.length} claims not found in the label`);
+    }
+
+    return { isGrounded: issues.length === 0, claims, issues };
+  }
+
+  extractClaims(text: string): Array<Pick<GroundedClaim, 'type' | 'claim' | 'sentence'>> {
+    const claims: Array<Pick<GroundedClaim, 'type' | 'claim' | 'sentence'>> = [];
+
+    for (const sentence of LabelRetriever.splitSentences(text.replace(/\s+/g, ' ').trim())) {
+      const add = (type: ClaimType, claim: string) => {
+        if (claim && !claims.some((existing) => existing.type === type && existing.claim === claim)) {
+          claims.push({ type, claim, sentence });
+        }
+      };
+
+      this.doses(sentence).forEach((dose) => add('dose', dose));
+      (this.normalizeFrequency(sentence).match(FREQUENCY_PATTERN) ?? []).forEach((frequency) => add('frequency', frequency));
+
+      const indication = INDICATION_PATTERNS.map((pattern) => sentence.match(pattern)?.[1]).find(Boolean);
+      if (indication) {
+        add('indication', this.firstClause(indication));
+      }
+
+      const sideEffects = SIDE_EFFECT_PATTERNS.map((pattern) => sentence.match(pattern)?.[1]).find(Boolean);
+      if (sideEffects) {
+        this.listItems(sideEffects).forEach((item) => add('side-effect', item));
+      }
+    }
+
+    // Claims with nothing to look up, e.g. "treats it", are dropped
+    return claims.filter((claim) => claim.type === 'dose' || claim.type === 'frequency' || this.claimTerms(claim.claim).length > 0);
+  }
+
+  private verify(claim: Pick<GroundedClaim, 'type' | 'claim' | 'sentence'>, chunks: LabelChunk[]): GroundedClaim {
+    let matches: LabelChunk[];
+
+    switch (claim.type) {
+      case 'dose':
+        matches = chunks.filter((chunk) => this.doses(chunk.text).includes(claim.claim));
+        break;
+      case 'frequency':
+        matches = chunks.filter((chunk) => this.normalizeFrequency(chunk.text).includes(claim.claim));
+        break;
+      case 'indication': {
+        const indications = chunks.filter((chunk) => chunk.labelKey === 'indicationsAndUsage');
+        const section = indications.length > 0 ? indications : chunks;
+        const terms = this.claimTerms(claim.claim);
+        // Limitations of use ("not indicated for type 1 diabetes") must not support a claim
+        const labelTerms = new Set(
+          section
+            .flatMap((chunk) => LabelRetriever.splitSentences(chunk.text))
+            .filter((sentence) => !/\bnot\b/i.test(sentence))
+            .flatMap((sentence) => LabelRetriever.terms(sentence)),
+        );
+        const found = terms.filter((alternatives) => alternatives.some((term) => labelTerms.has(term)));
+        matches = found.length / terms.length >= MIN_INDICATION_OVERLAP ? section : [];
+        break;
+      }
+      case 'side-effect': {
+        const terms = this.claimTerms(claim.claim);
+        matches = chunks.filter((chunk) => {
+          const chunkTerms = new Set(LabelRetriever.terms(chunk.text));
+          return terms.every((alternatives) => alternatives.some((term) => chunkTerms.has(term)));
+        });
+        break;
+      }
+    }
+
+    return {
+      ...claim,
+      supported: matches.length > 0,
+      citations: this.citations(matches, claim.type),
+    };
+  }
+
+  /** Dose amounts in a text, normalized to e.g. "2.5 mg" or "1000 units". */
+  private doses(text: string): string[] {
+    return [...text.matchAll(DOSE_PATTERN)].map(([, amount, unit]) => {
+      const normalizedUnit = UNIT_NAMES[unit.toLowerCase()] ?? unit.toLowerCase();
+      return `${parseFloat(amount.replace(/,/g, ''))} ${normalizedUnit}`;
+    });
+  }
+
+  /** Rewrites frequency wording to one form, e.g. "once a week" and "one time weekly" to "once weekly". */
+  private normalizeFrequency(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/\b(?:one time|1 time)\b/g, 'once')
+      .replace(/\b(?:two times|2 times)\b/g, 'twice')
+      .replace(/\b(three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b/g, (word) => String(NUMBER_WORDS.indexOf(word)))
+      .replace(/\b(?:a|per|each) (day|week|month)\b/g, (_, unit) => (unit === 'day' ? 'daily' : `${unit}ly`))
+      .replace(/\bevery day\b/g, 'daily')
+      .replace(/\bevery (\d+) (hour|day|week|month)s?\b/g, 'every $1 $2s')
+      .replace(/\bq(\d+)h\b/g, 'every $1 hours');
+  }
+
+  private firstClause(phrase: string): string {
+    return phrase
+      .split(/,|\s+(?:but|however|which|because|so|and (?:is|are|may|can|should|it))\b/i)[0]
+      .trim();
+  }
+
+  private listItems(list: string): string[] {
+    return list
+      .split(/,|\s+(?:and|or)\s+/i)
+      .map((item) =>
+        item
+          .replace(/^\s*(?:and|or)\s+/i, '')
+          .split(/\s+(?:that|which|who|when|if|in|during|after)\b/i)[0]
+          .trim(),
+      )
+      .filter(Boolean);
+  }
+
+  /** Content terms of a claim, each with its clinical equivalents. */
+  private claimTerms(claim: string): string[][] {
+    return LabelRetriever.terms(claim)
+      .filter((term) => !QUALIFIER_TERMS.has(term))
+      .map((term) => [term, ...(LAY_TERMS[term] ?? [])]);
+  }
+
+  /** Up to two sections, preferring the ones that usually state this kind of claim. */
+  private citations(chunks: LabelChunk[], type: ClaimType): LabelCitation[] {
+    const preferred: Record<ClaimType, string[]> = {
+      dose: ['dosageAndAdministration', 'dosageFormsAndStrengths'],
+      frequency: ['dosageAndAdministration'],
+      indication: ['indicationsAndUsage'],
+      'side-effect': ['adverseReactions', 'boxedWarning', 'warningsAndPrecautions'],
+    };
+    const rank = (chunk: LabelChunk) => {
+      const index = preferred[type].indexOf(chunk.labelKey ?? '');
+      return index >= 0 ? index : preferred[type].length;
+    };
+
+    const seen = new Set<string>();
+    return [...chunks]
+      .sort((a, b) => rank(a) - rank(b))
+      .map((chunk) => LabelRetriever.toCitation(chunk))
+      .filter((citation) => {
+        const key = `${citation.section}|${citation.code}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, 2);
+  }
+
+  private describeIssue(claim: GroundedClaim): string {
+    switch (claim.type) {
+      case 'dose':
+        return `Dose "${claim.claim}" does not appear in the label`;
+      case 'frequency':
+        return `Dosing frequency "${claim.claim}" does not appear in the label`;
+      case 'indication':
+        return `Indication "${claim.claim}" is not supported by the label's indications`;
+      case 'side-effect':
+        return `Side effect "${claim.claim}" does not appear in the label`;
+    }
+  }
+}
@@ -128,22 +128,33 @@ export class MedicalValidatorService {
     }
 
     faqs.forEach((faq, index) => {
-      if (!faq.question || faq.question.length < 5) {
-        issues.push(`FAQ ${index + 1}: Question too short or missing`);
-      }
+      issues.push(...this.validateFAQ(faq).issues.map((issue) => `FAQ ${index + 1}: ${issue}`));
+    });
 
-      if (!faq.answer || faq.answer.length < 20) {
-        issues.push(`FAQ ${index + 1}: Answer too short or missing`);
-      }
+    return {
+      isValid: issues.length === 0,
+      issues,
+    };
+  }
 
-      if (this.containsDangerousKeywords(faq.answer)) {
-        issues.push(`FAQ ${index + 1}: Contains potentially misleading medical claims`);
-      }
+  validateFAQ(faq: { question: string; answer: string }): { isValid: boolean; issues: string[] } {
+    const issues: string[] = [];
 
-      if (!this.containsMedicalDisclaimer(faq.answer)) {
-        issues.push(`FAQ ${index + 1}: Missing medical disclaimer`);
-      }
-    });
+    if (!faq.question || faq.question.length < 5) {
+      issues.push('Question too short or missing');
+    }
+
+    if (!faq.answer || faq.answer.length < 20) {
+      issues.push('Answer too short or missing');
+    }
+
+    if (faq.answer && this.containsDangerousKeywords(faq.answer)) {
+      issues.push('Contains potentially misleading medical claims');
+    }
+
+    if (!faq.answer || !this.containsMedicalDisclaimer(faq.answer)) {
+      issues.push('Missing medical disclaimer');
+    }
 
     return {
       isValid: issues.length === 0,
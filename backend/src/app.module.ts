@@ -1,6 +1,9 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { PrismaModule } from './prisma/prisma.module';
+import { EventsModule } from './events/events.module';
+import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
 import { RedisModule } from './redis/redis.module';
 import { DrugsModule } from './drugs/drugs.module';
 import { AiServiceModule } from './ai-service/ai-service.module';
@@ -14,6 +17,9 @@ import { HealthModule } from './health/health.module';
     }),
     PrismaModule,
     RedisModule,
+    EventsModule,
+    AuthModule,
+    UsersModule,
     DrugsModule,
     AiServiceModule,
     McpModule,
@@ -0,0 +1,39 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { AuthSession } from './entities/auth-session.entity';
+import { Auth, CurrentUser } from './decorators/auth.decorator';
+import { AuthUser } from './interfaces/auth-user.interface';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { RateLimitGuard, StrictRateLimit } from '../common/guards/rate-limit.guard';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(RateLimitGuard)
+  @StrictRateLimit()
+  @ApiOperation({ summary: 'Sign in with email and password for a JWT access token' })
+  @ApiResponse({ status: 200, description: 'Signed in', type: AuthSession })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  @ApiResponse({ status: 429, description: 'Too many sign-in attempts' })
+  login(@Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto.email, loginDto.password);
+  }
+
+  @Get('me')
+  @Auth()
+  @ApiOperation({ summary: 'Get the signed-in user' })
+  @ApiResponse({ status: 200, description: 'The signed-in user', type: User })
+  me(@CurrentUser() user: AuthUser) {
+    return this.usersService.findOne(user.id);
+  }
+}
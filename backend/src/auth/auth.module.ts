@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { TokenService } from './services/token.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { UsersModule } from '../users/users.module';
+
+/**
+ * Global so any controller can protect routes with `@Auth(...roles)`
+ * without importing this module.
+ */
+@Global()
+@Module({
+  imports: [UsersModule],
+  controllers: [AuthController],
+  providers: [AuthService, TokenService, JwtAuthGuard, RolesGuard],
+  exports: [AuthService, TokenService, JwtAuthGuard, RolesGuard, UsersModule],
+})
+export class AuthModule {}
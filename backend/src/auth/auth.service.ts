@@ -0,0 +1,29 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { TokenService } from './services/token.service';
+import { AuthSession } from './entities/auth-session.entity';
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    private usersService: UsersService,
+    private tokenService: TokenService,
+  ) {}
+
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = await this.usersService.verifyCredentials(email, password);
+    if (!user) {
+      this.logger.warn(`Failed sign-in for ${email}`);
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    return {
+      accessToken: this.tokenService.sign(user),
+      tokenType: 'Bearer',
+      expiresIn: this.tokenService.expiresIn,
+      user,
+    };
+  }
+}
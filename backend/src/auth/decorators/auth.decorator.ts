@@ -0,0 +1,27 @@
+import { applyDecorators, createParamDecorator, ExecutionContext, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest, JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { Roles, RolesGuard } from '../guards/roles.guard';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+/**
+ * Requires a signed-in user with one of the roles (admins always pass), and
+ * documents the bearer token and the 401/403 responses in Swagger.
+ */
+export const Auth = (...roles: UserRole[]) =>
+  applyDecorators(
+    Roles(...roles),
+    UseGuards(JwtAuthGuard, RolesGuard),
+    ApiBearerAuth(),
+    ApiResponse({ status: 401, description: 'Missing, invalid or expired token' }),
+    ...(roles.length > 0
+      ? [ApiResponse({ status: 403, description: `Requires role: ${[...new Set([...roles, UserRole.ADMIN])].join(' or ')}` })]
+      : []),
+  );
+
+/** The user JwtAuthGuard signed in for this request. */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().user,
+);
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { User } from '../../users/entities/user.entity';
+
+export class AuthSession {
+  @ApiProperty({ description: 'Send as `Authorization: Bearer <accessToken>`' })
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: 'Bearer';
+
+  @ApiProperty({ description: 'Seconds until the token expires' })
+  expiresIn: number;
+
+  @ApiProperty({ type: User })
+  user: User;
+}
@@ -0,0 +1,100 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest, JwtAuthGuard } from '../jwt-auth.guard';
+import { RolesGuard } from '../roles.guard';
+import { Auth } from '../../decorators/auth.decorator';
+import { TokenService } from '../../services/token.service';
+import { UsersService } from '../../../users/users.service';
+
+class DrugsTestController {
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  enhance() {}
+
+  @Auth(UserRole.ADMIN)
+  remove() {}
+
+  @Auth()
+  me() {}
+}
+
+describe('auth guards', () => {
+  const usersService = { findActive: jest.fn() };
+  let tokenService: TokenService;
+  let jwtGuard: JwtAuthGuard;
+  let rolesGuard: RolesGuard;
+
+  beforeAll(async () => {
+    const env: Record<string, string> = { JWT_SECRET: 'secret' };
+    const module = await Test.createTestingModule({
+      providers: [
+        JwtAuthGuard,
+        RolesGuard,
+        Reflector,
+        TokenService,
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+        { provide: UsersService, useValue: usersService },
+      ],
+    }).compile();
+
+    tokenService = module.get(TokenService);
+    jwtGuard = module.get(JwtAuthGuard);
+    rolesGuard = module.get(RolesGuard);
+  });
+
+  const user = (role: UserRole) => ({ id: 'user-1', email: 'user@example.com', name: null, role, disabledAt: null });
+
+  const context = (handler: keyof DrugsTestController, authorization?: string) => {
+    const request = { headers: { authorization } } as AuthenticatedRequest;
+    const executionContext = {
+      getHandler: () => DrugsTestController.prototype[handler],
+      getClass: () => DrugsTestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    return { request, executionContext };
+  };
+
+  const authorize = async (handler: keyof DrugsTestController, role: UserRole) => {
+    usersService.findActive.mockResolvedValue(user(role));
+    const { executionContext } = context(handler, `Bearer ${tokenService.sign(user(role))}`);
+
+    return (await jwtGuard.canActivate(executionContext)) && rolesGuard.canActivate(executionContext);
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should attach the signed-in user for a valid bearer token', async () => {
+    usersService.findActive.mockResolvedValue(user(UserRole.EDITOR));
+    const { request, executionContext } = context('me', `Bearer ${tokenService.sign(user(UserRole.EDITOR))}`);
+
+    await expect(jwtGuard.canActivate(executionContext)).resolves.toBe(true);
+    expect(usersService.findActive).toHaveBeenCalledWith('user-1');
+    expect(request.user).toEqual({ id: 'user-1', email: 'user@example.com', name: null, role: 'EDITOR' });
+  });
+
+  it('should reject missing and invalid tokens and disabled users', async () => {
+    await expect(jwtGuard.canActivate(context('me').executionContext)).rejects.toThrow('Sign in required');
+    await expect(jwtGuard.canActivate(context('me', 'Bearer abc.def.ghi').executionContext)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    usersService.findActive.mockResolvedValue(null);
+    const { executionContext } = context('me', `Bearer ${tokenService.sign(user(UserRole.ADMIN))}`);
+    await expect(jwtGuard.canActivate(executionContext)).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should allow the listed roles and admins only', async () => {
+    await expect(authorize('enhance', UserRole.EDITOR)).resolves.toBe(true);
+    await expect(authorize('enhance', UserRole.MEDICAL_REVIEWER)).resolves.toBe(true);
+    await expect(authorize('enhance', UserRole.ADMIN)).resolves.toBe(true);
+    await expect(authorize('enhance', UserRole.VIEWER)).rejects.toThrow(ForbiddenException);
+    await expect(authorize('enhance', UserRole.VIEWER)).rejects.toThrow(
+      'Requires role: EDITOR or MEDICAL_REVIEWER or ADMIN',
+    );
+    await expect(authorize('remove', UserRole.EDITOR)).rejects.toThrow('Requires role: ADMIN');
+    await expect(authorize('me', UserRole.VIEWER)).resolves.toBe(true);
+  });
+});
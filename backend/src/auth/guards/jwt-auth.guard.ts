@@ -0,0 +1,42 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
+import { TokenService } from '../services/token.service';
+import { UsersService } from '../../users/users.service';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+export type AuthenticatedRequest = Request & { user?: AuthUser };
+
+/**
+ * Requires `Authorization: Bearer <token>` from POST /auth/login. The user
+ * is reloaded on every request, so role changes and disabled accounts take
+ * effect before the token expires.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private tokenService: TokenService,
+    private usersService: UsersService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [type, token] = (request.headers.authorization ?? '').split(' ');
+
+    if (type?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedException('Sign in required');
+    }
+
+    const payload = this.tokenService.verify(token);
+    if (!payload) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.usersService.findActive(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    request.user = { id: user.id, email: user.email, name: user.name, role: user.role };
+    return true;
+  }
+}
@@ -0,0 +1,29 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { AuthenticatedRequest } from './jwt-auth.guard';
+
+export const ROLES_KEY = 'roles';
+
+/** Roles allowed on a route, besides admin; none means any signed-in user. */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+/** Runs after JwtAuthGuard. Admins pass every role check. */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [context.getHandler(), context.getClass()]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (user?.role === UserRole.ADMIN || roles.includes(user?.role)) {
+      return true;
+    }
+
+    throw new ForbiddenException(`Requires role: ${[...new Set([...roles, UserRole.ADMIN])].join(' or ')}`);
+  }
+}
@@ -0,0 +1,9 @@
+import { UserRole } from '@prisma/client';
+
+/** The signed-in user attached to a request by JwtAuthGuard. */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}
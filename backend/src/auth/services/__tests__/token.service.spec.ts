@@ -0,0 +1,69 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UserRole } from '@prisma/client';
+import { TokenService } from '../token.service';
+import { PasswordHasher } from '../../utils/password.util';
+
+describe('TokenService', () => {
+  const createService = async (env: Record<string, string>) => {
+    const module = await Test.createTestingModule({
+      providers: [TokenService, { provide: ConfigService, useValue: { get: (key: string) => env[key] } }],
+    }).compile();
+
+    return module.get(TokenService);
+  };
+  const user = { id: 'user-1', email: 'editor@example.com', role: UserRole.EDITOR };
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should verify the tokens it signs', async () => {
+    const service = await createService({ JWT_SECRET: 'secret', JWT_EXPIRES_IN: '60' });
+
+    const token = service.sign(user);
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(service.verify(token)).toMatchObject({ sub: 'user-1', email: 'editor@example.com', role: 'EDITOR' });
+    expect(service.expiresIn).toBe(60);
+  });
+
+  it('should reject tampered tokens and tokens signed with another secret', async () => {
+    const service = await createService({ JWT_SECRET: 'secret' });
+    const [header, , signature] = service.sign(user).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: 'user-1', role: 'ADMIN', exp: 9999999999 })).toString(
+      'base64url',
+    );
+
+    expect(service.verify(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+    const other = await createService({ JWT_SECRET: 'other' });
+    expect(service.verify(other.sign(user))).toBeNull();
+    expect(service.verify('not-a-token')).toBeNull();
+  });
+
+  it('should reject expired tokens', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    const service = await createService({ JWT_SECRET: 'secret', JWT_EXPIRES_IN: '60' });
+    const token = service.sign(user);
+
+    jest.setSystemTime(new Date('2024-01-01T00:01:01Z'));
+
+    expect(service.verify(token)).toBeNull();
+  });
+
+  it('should refuse to start without a secret in production only', async () => {
+    await expect(createService({ NODE_ENV: 'production' })).rejects.toThrow('JWT_SECRET must be set in production');
+    expect((await createService({ NODE_ENV: 'development' })).verify('not-a-token')).toBeNull();
+  });
+});
+
+describe('PasswordHasher', () => {
+  it('should salt each hash and verify only the right password', async () => {
+    const first = await PasswordHasher.hash('correct horse battery');
+    const second = await PasswordHasher.hash('correct horse battery');
+
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toBe(second);
+    expect(await PasswordHasher.verify('correct horse battery', first)).toBe(true);
+    expect(await PasswordHasher.verify('wrong horse battery', first)).toBe(false);
+    expect(await PasswordHasher.verify('correct horse battery', 'plain-text')).toBe(false);
+  });
+});
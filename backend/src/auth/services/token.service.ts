@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { UserRole } from '@prisma/client';
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+/** Default session length: one working day. */
+const DEFAULT_EXPIRES_IN_SECONDS = 8 * 60 * 60;
+
+const HEADER = { alg: 'HS256', typ: 'JWT' };
+
+/**
+ * Signs and verifies HS256 JWT access tokens with JWT_SECRET. Outside
+ * production a missing secret is replaced by a random one, so tokens stop
+ * working when the server restarts; in production the server refuses to start.
+ */
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+  private readonly secret: string;
+  readonly expiresIn: number;
+
+  constructor(configService: ConfigService) {
+    const secret = configService.get<string>('JWT_SECRET');
+    if (!secret && configService.get<string>('NODE_ENV') === 'production') {
+      throw new Error('JWT_SECRET must be set in production');
+    }
+    if (!secret) {
+      this.logger.warn('JWT_SECRET is not set; using a random secret, so sessions end on restart');
+    }
+
+    this.secret = secret || randomBytes(32).toString('hex');
+    this.expiresIn = Number(configService.get<string>('JWT_EXPIRES_IN')) || DEFAULT_EXPIRES_IN_SECONDS;
+  }
+
+  sign(user: { id: string; email: string; role: UserRole }): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: AccessTokenPayload = { sub: user.id, email: user.email, role: user.role, iat, exp: iat + this.expiresIn };
+    const unsigned = `${this.encode(HEADER)}.${this.encode(payload)}`;
+
+    return `${unsigned}.${this.signature(unsigned)}`;
+  }
+
+  /** The payload of a well-formed, correctly signed and unexpired token, else null. */
+  verify(token: string): AccessTokenPayload | null {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    try {
+      if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== HEADER.alg) {
+        return null;
+      }
+
+      const claims: AccessTokenPayload = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      return typeof claims.sub === 'string' && claims.exp > Date.now() / 1000 ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  private signature(unsigned: string): string {
+    return createHmac('sha256', this.secret).update(unsigned).digest('base64url');
+  }
+}
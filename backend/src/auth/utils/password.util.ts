@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export class PasswordHasher {
+  /** Returns `scrypt$<salt>$<hash>`, both base64, so the salt travels with the hash. */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+
+    return ['scrypt', salt.toString('base64'), hash.toString('base64')].join('$');
+  }
+
+  static async verify(password: string, stored: string): Promise<boolean> {
+    const [algorithm, salt, hash] = stored.split('$');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+
+    return timingSafeEqual(actual, expected);
+  }
+}
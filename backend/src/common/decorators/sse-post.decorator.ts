@@ -0,0 +1,10 @@
+import { applyDecorators, Post, Sse } from '@nestjs/common';
+
+/**
+ * A server-sent events route that takes a POST body. `@Sse` always routes
+ * GET, so the method is overridden; the response is still streamed from the
+ * handler's Observable. Browsers read it with `fetch`, not `EventSource`.
+ */
+export function SsePost(path?: string) {
+  return applyDecorators(Sse(path), Post(path));
+}
@@ -13,7 +13,7 @@ import { SetMetadata } from '@nestjs/common';
 export const RATE_LIMIT_KEY = 'rateLimit';
 
 export interface RateLimitOptions {
-  points: number; // Number of requests
+  points: number | ((req: Request) => number); // Number of requests, or per request e.g. per client
   duration: number; // Per duration in seconds
   blockDuration?: number; // Block duration in seconds
   keyGenerator?: (req: Request) => string;
@@ -41,8 +41,12 @@ export class RateLimitGuard implements CanActivate {
 
     const request = context.switchToHttp().getRequest<Request>();
     const key = this.generateKey(request, rateLimitOptions);
+    const points =
+      typeof rateLimitOptions.points === 'function'
+        ? rateLimitOptions.points(request)
+        : rateLimitOptions.points;
 
-    const result = await this.checkRateLimit(key, rateLimitOptions);
+    const result = await this.checkRateLimit(key, { ...rateLimitOptions, points });
 
     if (!result.allowed) {
       throw new HttpException(
@@ -51,7 +55,7 @@ export class RateLimitGuard implements CanActivate {
           error: 'Too Many Requests',
           message: 'Rate limit exceeded',
           retryAfter: result.retryAfter,
-          limit: rateLimitOptions.points,
+          limit: points,
           remaining: 0,
           reset: result.resetTime,
         },
@@ -61,7 +65,7 @@ export class RateLimitGuard implements CanActivate {
 
     // Add rate limit headers to response
     const response = context.switchToHttp().getResponse();
-    response.setHeader('X-RateLimit-Limit', rateLimitOptions.points);
+    response.setHeader('X-RateLimit-Limit', points);
     response.setHeader('X-RateLimit-Remaining', result.remaining);
     response.setHeader('X-RateLimit-Reset', result.resetTime);
 
@@ -94,7 +98,7 @@ export class RateLimitGuard implements CanActivate {
 
   private async checkRateLimit(
     key: string,
-    options: RateLimitOptions,
+    options: RateLimitOptions & { points: number },
   ): Promise<{
     allowed: boolean;
     remaining: number;
@@ -0,0 +1,62 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BoxedWarningDetector } from '../boxed-warning-detector.util';
+
+describe('BoxedWarningDetector', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const labelFor = (drugName: string) => labels.find((record) => record.drugName === drugName).label;
+
+  describe('detect', () => {
+    it('should split the highlights box into title and body', () => {
+      const warning = BoxedWarningDetector.detect(labelFor('Mounjaro'));
+
+      expect(warning.title).toBe('WARNING: RISK OF THYROID C-CELL TUMORS');
+      expect(warning.body).toMatch(/^Tirzepatide causes thyroid C-cell tumors in rats\./);
+      expect(warning.body).not.toContain('See full prescribing information');
+      expect(warning.source).toBe('section');
+    });
+
+    it('should read full prescribing information boxes', () => {
+      const warning = BoxedWarningDetector.detect(labelFor('Trulicity Demo Pen'));
+
+      expect(warning.title).toBe('WARNING: RISK OF THYROID C-CELL TUMORS');
+      expect(warning.body).toMatch(/^In male and female rats, dulaglutide causes/);
+    });
+
+    it('should recognise the SPL boxed warning section code inside other section html', () => {
+      const warning = BoxedWarningDetector.detect({
+        indicationsAndUsage:
+          '<section data-sectioncode="34066-1"><h1>WARNING: SUICIDAL THOUGHTS</h1><p>Monitor patients closely.</p></section>',
+      });
+
+      expect(warning).toEqual({
+        title: 'WARNING: SUICIDAL THOUGHTS',
+        body: 'Monitor patients closely.',
+        source: 'section',
+      });
+    });
+
+    it('should fall back to a highlights block that opens with WARNING', () => {
+      const warning = BoxedWarningDetector.detect({
+        highlights: { boxedWarning: '<p>WARNING: HEPATOTOXICITY Monitor liver tests.</p>' },
+      });
+
+      expect(warning).toEqual({ title: 'WARNING: HEPATOTOXICITY', body: 'Monitor liver tests.', source: 'highlights' });
+    });
+
+    it('should return null for labels without a boxed warning', () => {
+      expect(BoxedWarningDetector.detect(labelFor('Emgality'))).toBeNull();
+      expect(BoxedWarningDetector.detect(null)).toBeNull();
+    });
+  });
+
+  describe('fromText', () => {
+    it('should keep untitled text as the body', () => {
+      expect(BoxedWarningDetector.fromText('Antidepressants increased the risk.')).toEqual({
+        title: null,
+        body: 'Antidepressants increased the risk.',
+        source: 'text',
+      });
+    });
+  });
+});
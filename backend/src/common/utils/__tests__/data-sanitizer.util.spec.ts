@@ -0,0 +1,38 @@
+import { DataSanitizer } from '../data-sanitizer.util';
+
+describe('DataSanitizer', () => {
+  describe('sanitizeHtml', () => {
+    it('should keep SPL markup, section links and relative images', () => {
+      const html =
+        '<p class="First">See <a href="#s5">Warnings (5.1)</a>.</p>' +
+        '<table width="100%"><tbody><tr><td align="left" valign="top" colspan="2">10 mg</td></tr></tbody></table>' +
+        '<img src="figure-1.jpg" alt="Figure 1">';
+
+      expect(DataSanitizer.sanitizeHtml(html)).toBe(
+        '<p class="First">See <a href="#s5">Warnings (5.1)</a>.</p>' +
+          '<table width="100%"><tbody><tr><td align="left" valign="top" colspan="2">10 mg</td></tr></tbody></table>' +
+          '<img src="figure-1.jpg" alt="Figure 1" />',
+      );
+    });
+
+    it('should drop scripts, styles and event handlers', () => {
+      const html = '<p onclick="alert(1)" style="color:red">None.</p><script>alert(2)</script><iframe src="x"></iframe>';
+
+      expect(DataSanitizer.sanitizeHtml(html)).toBe('<p>None.</p>');
+    });
+
+    it('should drop javascript: urls hidden behind entities', () => {
+      expect(DataSanitizer.sanitizeHtml('<a href="jav&#x61;script:alert(1)">link</a>')).toBe('<a>link</a>');
+    });
+
+    it('should not read a slash-separated event handler as an attribute', () => {
+      // Browsers parse the unquoted value as the relative url "x/onerror=alert(1)"
+      expect(DataSanitizer.sanitizeHtml('<img src=x/onerror=alert(1)>')).toBe('<img src="x/onerror=alert(1)" />');
+    });
+
+    it('should return null for empty or non-string input', () => {
+      expect(DataSanitizer.sanitizeHtml('<script>alert(1)</script>')).toBeNull();
+      expect(DataSanitizer.sanitizeHtml(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { DosageFormExtractor } from '../dosage-form-extractor.util';
+
+describe('DosageFormExtractor', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const labelFor = (drugName: string) => labels.find((record) => record.drugName === drugName).label;
+
+  describe('fromLabel', () => {
+    it('should extract injection strengths with their presentation', () => {
+      const extraction = DosageFormExtractor.fromLabel(labelFor('Emgality'));
+
+      expect(extraction.route).toBe('subcutaneous');
+      expect(extraction.dosageForms).toEqual(['injection']);
+      expect(extraction.strengths).toEqual([
+        { form: 'injection', strength: '120 mg/mL', presentation: 'single-dose prefilled pen' },
+        { form: 'injection', strength: '120 mg/mL', presentation: 'single-dose prefilled syringe' },
+        { form: 'injection', strength: '100 mg/mL', presentation: 'single-dose prefilled syringe' },
+      ]);
+    });
+
+    it('should read strength lists that follow a form header', () => {
+      const extraction = DosageFormExtractor.fromLabel(labelFor('Mounjaro'));
+
+      expect(extraction.strengths.map((item) => item.strength)).toEqual([
+        '2.5 mg/0.5 mL',
+        '5 mg/0.5 mL',
+        '7.5 mg/0.5 mL',
+        '10 mg/0.5 mL',
+        '12.5 mg/0.5 mL',
+        '15 mg/0.5 mL',
+      ]);
+    });
+
+    it('should extract tablets named after their strength', () => {
+      const extraction = DosageFormExtractor.fromLabel(labelFor('Verzenio'));
+
+      expect(extraction.routes).toEqual(['oral']);
+      expect(extraction.dosageForms).toEqual(['tablet']);
+      expect(extraction.strengths.map((item) => item.strength)).toEqual(['50 mg', '100 mg', '150 mg', '200 mg']);
+    });
+
+    it('should not mistake co-therapies for routes', () => {
+      expect(DosageFormExtractor.fromLabel(labelFor('Ebglyss')).routes).toEqual(['subcutaneous']);
+    });
+  });
+
+  describe('extract', () => {
+    it('should infer the route from the dosage form when the text names none', () => {
+      const extraction = DosageFormExtractor.extract({ formsAndStrengths: 'Capsules: 25 mg and 50 mg' });
+
+      expect(extraction.route).toBe('oral');
+      expect(extraction.strengths).toEqual([
+        { form: 'capsule', strength: '25 mg', presentation: null },
+        { form: 'capsule', strength: '50 mg', presentation: null },
+      ]);
+    });
+
+    it('should return empty results for missing text', () => {
+      expect(DosageFormExtractor.extract({})).toEqual({ route: null, routes: [], dosageForms: [], strengths: [] });
+    });
+  });
+
+  describe('normalizeRoute', () => {
+    it('should expand abbreviations and route groups', () => {
+      expect(DosageFormExtractor.normalizeRoute('SC')).toEqual(['subcutaneous']);
+      expect(DosageFormExtractor.normalizeRoute('injection')).toEqual(['subcutaneous', 'intravenous', 'intramuscular']);
+      expect(DosageFormExtractor.normalizeRoute('Intravenous')).toEqual(['intravenous']);
+      expect(DosageFormExtractor.normalizeRoute('oral')).toEqual(['oral']);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LabelDiff } from '../label-diff.util';
+
+describe('LabelDiff', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const mounjaro = labels.find((record) => record.drugName === 'Mounjaro');
+
+  describe('snapshot', () => {
+    it('should key numbered sections by number and unnumbered ones by parent and title', () => {
+      const snapshot = LabelDiff.snapshot(mounjaro.label);
+      const keys = snapshot.map((section) => section.key);
+
+      expect(keys).toContain('1');
+      expect(keys).toContain('2.1');
+      expect(keys).toContain('34066-1/WARNING: RISK OF THYROID C-CELL TUMORS');
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  describe('contentHash', () => {
+    it('should be stable for identical labels and differ for revisions', () => {
+      const revised = { ...mounjaro, label: { ...mounjaro.label, effectiveTime: '20260101' } };
+
+      expect(LabelDiff.contentHash(mounjaro)).toBe(LabelDiff.contentHash(JSON.parse(JSON.stringify(mounjaro))));
+      expect(LabelDiff.contentHash(revised)).not.toBe(LabelDiff.contentHash(mounjaro));
+    });
+  });
+
+  describe('diff', () => {
+    it('should report no changes between identical snapshots', () => {
+      const snapshot = LabelDiff.snapshot(mounjaro.label);
+      const changes = LabelDiff.diff(snapshot, snapshot);
+
+      expect(changes.every((change) => change.status === 'unchanged')).toBe(true);
+    });
+
+    it('should report sentence-level changes to a revised boxed warning', () => {
+      const revisedLabel = {
+        ...mounjaro.label,
+        boxedWarning: mounjaro.label.boxedWarning.replace(
+          '</ul>',
+          '<li>Monitor patients for symptoms of thyroid tumors.</li></ul>',
+        ),
+      };
+
+      const changes = LabelDiff.diff(LabelDiff.snapshot(mounjaro.label), LabelDiff.snapshot(revisedLabel));
+      const changed = changes.filter((change) => change.status !== 'unchanged');
+
+      expect(changed).toHaveLength(1);
+      expect(changed[0]).toMatchObject({
+        code: '34066-1',
+        status: 'changed',
+        addedText: ['Monitor patients for symptoms of thyroid tumors.'],
+        removedText: [],
+      });
+    });
+
+    it('should report added and removed sections', () => {
+      const { drugInteractions, ...withoutInteractions } = mounjaro.label;
+      expect(drugInteractions).toBeDefined();
+
+      const removed = LabelDiff.diff(LabelDiff.snapshot(mounjaro.label), LabelDiff.snapshot(withoutInteractions));
+      const added = LabelDiff.diff(LabelDiff.snapshot(withoutInteractions), LabelDiff.snapshot(mounjaro.label));
+
+      expect(removed.find((change) => change.key === '7')?.status).toBe('removed');
+      expect(added.find((change) => change.key === '7')?.status).toBe('added');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LabelFacetExtractor } from '../label-facet-extractor.util';
+
+describe('LabelFacetExtractor', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const labelFor = (drugName: string) => labels.find((record) => record.drugName === drugName).label;
+
+  describe('productType', () => {
+    it('should normalize SPL document types and openFDA product types alike', () => {
+      expect(LabelFacetExtractor.productType('HUMAN PRESCRIPTION DRUG LABEL')).toBe('HUMAN PRESCRIPTION DRUG');
+      expect(LabelFacetExtractor.productType(['human otc drug'])).toBe('HUMAN OTC DRUG');
+      expect(LabelFacetExtractor.productType('  ')).toBeNull();
+    });
+  });
+
+  describe('pediatricUse', () => {
+    it('should read the Pediatric Use subsection from the label', () => {
+      expect(LabelFacetExtractor.pediatricUse(labelFor('Emgality'))).toBe(
+        'Safety and effectiveness in pediatric patients have not been established.',
+      );
+      expect(LabelFacetExtractor.pediatricUse(labelFor('Taltz'))).toMatch(
+        /^The safety and effectiveness of TALTZ have been established in pediatric subjects/,
+      );
+    });
+
+    it('should cut the subsection out of plain specific populations text', () => {
+      const text =
+        '8.3 Females and Males of Reproductive Potential None. 8.4 Pediatric Use Safety and effectiveness ' +
+        'have been established in pediatric patients 6 years and older. 8.5 Geriatric Use No differences.';
+
+      expect(LabelFacetExtractor.pediatricUseFromText(text)).toBe(
+        'Safety and effectiveness have been established in pediatric patients 6 years and older.',
+      );
+    });
+  });
+
+  describe('isPediatricUseEstablished', () => {
+    it('should only flag labels that establish pediatric use', () => {
+      const established = labels
+        .filter((record) => LabelFacetExtractor.isPediatricUseEstablished(LabelFacetExtractor.pediatricUse(record.label)))
+        .map((record) => record.drugName);
+
+      expect(established).toEqual(['Ebglyss', 'Taltz', 'Trulicity Demo Pen']);
+    });
+
+    it('should not treat a negated statement as established', () => {
+      expect(
+        LabelFacetExtractor.isPediatricUseEstablished(
+          'Safety and effectiveness of MOUNJARO have not been established in pediatric patients.',
+        ),
+      ).toBe(false);
+    });
+  });
+});
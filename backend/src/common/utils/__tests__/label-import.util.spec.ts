@@ -0,0 +1,37 @@
+import { LabelImportParser } from '../label-import.util';
+
+describe('LabelImportParser', () => {
+  const records = [
+    { drugName: 'Emgality', setId: 'set-1', label: {} },
+    { drugName: 'Olumiant', setId: 'set-2', label: {} },
+  ];
+
+  it('should accept a parsed array, a records wrapper or a single record', () => {
+    expect(LabelImportParser.parse(records)).toBe(records);
+    expect(LabelImportParser.parse({ records })).toBe(records);
+    expect(LabelImportParser.parse(records[0])).toEqual([records[0]]);
+  });
+
+  it('should parse a JSON array and NDJSON text', () => {
+    const ndjson = records.map((record) => JSON.stringify(record)).join('\n') + '\n\n';
+
+    expect(LabelImportParser.parse(JSON.stringify(records))).toEqual(records);
+    expect(LabelImportParser.parse(ndjson)).toEqual(records);
+    expect(LabelImportParser.parse('  ')).toEqual([]);
+  });
+
+  it('should report the line number of malformed NDJSON', () => {
+    const ndjson = `${JSON.stringify(records[0])}\n{"drugName": `;
+
+    expect(() => LabelImportParser.parse(ndjson)).toThrow('Invalid JSON on line 2');
+  });
+
+  it('should reject empty bodies', () => {
+    expect(() => LabelImportParser.parse({})).toThrow();
+    expect(() => LabelImportParser.parse(undefined)).toThrow();
+  });
+
+  it('should create URL-friendly slugs', () => {
+    expect(LabelImportParser.createSlug('Ozempic® (semaglutide)')).toBe('ozempic-semaglutide');
+  });
+});
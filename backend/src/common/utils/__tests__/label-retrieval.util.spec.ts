@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LabelChunk, LabelRetriever, LabelSectionText } from '../label-retrieval.util';
+import { SplSectionParser } from '../spl-section-parser.util';
+
+describe('LabelRetriever', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const sectionsFor = (drugName: string) => {
+    const sections: LabelSectionText[] = [];
+    const label = labels.find((record) => record.drugName === drugName).label;
+    SplSectionParser.walk(SplSectionParser.parseLabel(label), (section) => sections.push(section));
+    return sections;
+  };
+
+  const chunk = (labelKey: string, section: string, text: string): LabelChunk => ({
+    section,
+    title: `${section} ${labelKey}`,
+    code: 'code',
+    labelKey,
+    text,
+  });
+
+  describe('chunk', () => {
+    it('should split long sections at sentence boundaries and keep section numbers', () => {
+      const chunks = LabelRetriever.chunk(sectionsFor('Mounjaro'), 400);
+
+      expect(chunks.length).toBeGreaterThan(10);
+      const oversized = chunks.filter((candidate) => candidate.text.length > 400);
+      expect(oversized.every((candidate) => LabelRetriever.splitSentences(candidate.text).length === 1)).toBe(true);
+      expect(chunks.find((candidate) => candidate.labelKey === 'dosageAndAdministration')?.section).toMatch(/^2/);
+    });
+
+    it('should number unnumbered subsections after the last numbered one in the same section', () => {
+      const chunks = LabelRetriever.chunk([
+        { code: 'a', labelKey: 'warningsAndPrecautions', number: '5.1', title: '5.1 Hypoglycemia', text: 'Low sugar.' },
+        { code: 'b', labelKey: 'warningsAndPrecautions', number: null, title: 'Risk factors', text: 'Insulin use.' },
+        { code: 'c', labelKey: 'adverseReactions', number: null, title: null, text: 'Nausea.' },
+      ]);
+
+      expect(chunks.map((candidate) => candidate.section)).toEqual(['5.1', '5.1', null]);
+    });
+  });
+
+  describe('retrieve', () => {
+    it('should rank chunks from the preferred sections first', () => {
+      const chunks = LabelRetriever.chunk(sectionsFor('Mounjaro'));
+
+      const [top] = LabelRetriever.retrieve(chunks, 'recommended starting dose injection', {
+        labelKeys: ['dosageAndAdministration'],
+      });
+
+      expect(top.labelKey).toBe('dosageAndAdministration');
+      expect(top.text).toMatch(/2\.5 mg/);
+    });
+
+    it('should leave out chunks that share no terms with the query', () => {
+      const chunks = [chunk('adverseReactions', '6', 'Nausea and diarrhea were common.')];
+
+      expect(LabelRetriever.retrieve(chunks, 'pregnancy lactation')).toEqual([]);
+    });
+  });
+
+  describe('cite', () => {
+    const sources = [
+      chunk('indicationsAndUsage', '1', 'Indicated as an adjunct to diet and exercise to improve glycemic control in adults with type 2 diabetes mellitus.'),
+      chunk('adverseReactions', '6.1', 'The most common adverse reactions were nausea, diarrhea, decreased appetite and vomiting.'),
+    ];
+
+    it('should resolve source markers to section citations and strip them', () => {
+      const cited = LabelRetriever.cite(
+        'It is used with diet and exercise for type 2 diabetes [S1]. Common side effects include nausea. [S2] Ask your doctor [S9].',
+        sources,
+      );
+
+      expect(cited.text).toBe(
+        'It is used with diet and exercise for type 2 diabetes. Common side effects include nausea. Ask your doctor.',
+      );
+      expect(cited.sentences.map((sentence) => sentence.citations.map((citation) => citation.section))).toEqual([
+        ['1'],
+        ['6.1'],
+        [],
+      ]);
+      expect(cited.citations).toEqual([
+        { section: '1', title: '1 indicationsAndUsage', code: 'code', labelKey: 'indicationsAndUsage' },
+        { section: '6.1', title: '6.1 adverseReactions', code: 'code', labelKey: 'adverseReactions' },
+      ]);
+    });
+
+    it('should attribute unmarked sentences to the source they closely follow', () => {
+      const cited = LabelRetriever.cite(
+        'Common adverse reactions were nausea, diarrhea and vomiting. Always take your medicine.',
+        sources,
+      );
+
+      expect(cited.sentences[0].citations.map((citation) => citation.section)).toEqual(['6.1']);
+      expect(cited.sentences[1].citations).toEqual([]);
+    });
+  });
+
+  it('should number sources for prompts', () => {
+    expect(LabelRetriever.formatSources([chunk('adverseReactions', '6.1', 'Nausea.')])).toBe(
+      '[S1] (6.1 adverseReactions) Nausea.',
+    );
+  });
+});
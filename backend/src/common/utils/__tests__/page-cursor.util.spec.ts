@@ -0,0 +1,23 @@
+import { PageCursor } from '../page-cursor.util';
+
+describe('PageCursor', () => {
+  it('should round-trip a position through an opaque url-safe string', () => {
+    const position = { sort: 'name', order: 'asc' as const, value: 'Émgality/+?', id: 'clx1' };
+    const cursor = PageCursor.encode(position);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(PageCursor.decode(cursor)).toEqual(position);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => PageCursor.decode('not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => PageCursor.decode(Buffer.from('["name","up",null,"x"]').toString('base64url'))).toThrow(
+      'Invalid cursor',
+    );
+  });
+
+  it('should store dates as ISO strings', () => {
+    expect(PageCursor.valueOf(new Date('2024-03-01T00:00:00Z'))).toBe('2024-03-01T00:00:00.000Z');
+    expect(PageCursor.valueOf(null)).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { PartialJson } from '../partial-json.util';
+
+describe('PartialJson', () => {
+  it('should close open strings, arrays and objects', () => {
+    expect(PartialJson.parse('```json\n{"explanation": "ACE inhibitors block the conv')).toEqual({
+      explanation: 'ACE inhibitors block the conv',
+    });
+    expect(PartialJson.parse('{"explanation": "Done.", "keyPoints": ["Monitor potassium", "Check cre')).toEqual({
+      explanation: 'Done.',
+      keyPoints: ['Monitor potassium', 'Check cre'],
+    });
+  });
+
+  it('should drop a trailing member that cannot be completed yet', () => {
+    expect(PartialJson.parse('{"explanation": "Done.", "keyPo')).toEqual({ explanation: 'Done.' });
+    expect(PartialJson.parse('{"explanation": "Done.", "keyPoints":')).toEqual({ explanation: 'Done.' });
+    expect(PartialJson.parse('{"a": {"b": 1.')).toEqual({ a: {} });
+    expect(PartialJson.parse('{"text": "a quote \\')).toEqual({ text: 'a quote ' });
+  });
+
+  it('should parse complete objects and ignore text around them', () => {
+    expect(PartialJson.parse('Here it is: {"keyPoints": ["a", "b"]} Hope this helps')).toEqual({ keyPoints: ['a', 'b'] });
+    expect(PartialJson.parse('{"brackets": "[not {structure}", "n": 2}')).toEqual({ brackets: '[not {structure}', n: 2 });
+  });
+
+  it('should return null before an object starts', () => {
+    expect(PartialJson.parse('Sure, here is')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SplSectionParser } from '../spl-section-parser.util';
+
+describe('SplSectionParser', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const emgality = labels.find((record) => record.drugName === 'Emgality');
+  const olumiant = labels.find((record) => record.drugName === 'Olumiant');
+
+  describe('parseSectionHtml', () => {
+    it('should nest subsections and split numbers from titles', () => {
+      const [indications] = SplSectionParser.parseSectionHtml(
+        emgality.label.indicationsAndUsage,
+        'indicationsAndUsage',
+      );
+
+      expect(indications).toMatchObject({
+        code: '34067-9',
+        labelKey: 'indicationsAndUsage',
+        number: '1',
+        title: 'INDICATIONS AND USAGE',
+        anchor: 's2',
+      });
+      expect(indications.children.map((child) => [child.number, child.title])).toEqual([
+        ['1.1', 'Migraine'],
+        ['1.2', 'Episodic Cluster Headache'],
+      ]);
+      expect(indications.children[0].text).toBe(
+        'EMGALITY is indicated for the preventive treatment of migraine in adults.',
+      );
+    });
+
+    it('should keep subsection content out of the parent html', () => {
+      const [dosage] = SplSectionParser.parseSectionHtml(emgality.label.dosageAndAdministration);
+
+      expect(dosage.html).toBeNull();
+      expect(dosage.children).toHaveLength(3);
+      expect(dosage.children[2].html).toContain('for subcutaneous use only');
+    });
+
+    it('should fall back to the label key section code when no section markup exists', () => {
+      const [boxedWarning] = SplSectionParser.parseSectionHtml(
+        olumiant.label.boxedWarning,
+        'boxedWarning',
+      );
+
+      expect(boxedWarning.code).toBe('34066-1');
+      expect(boxedWarning.number).toBeNull();
+      expect(boxedWarning.title).toMatch(/^WARNING: SERIOUS INFECTIONS/);
+    });
+
+    it('should strip scripts and event handlers from section html', () => {
+      const [section] = SplSectionParser.parseSectionHtml(
+        '<section data-sectioncode="34070-3"><h1>4 CONTRAINDICATIONS</h1>' +
+          '<p onclick="alert(1)">None.</p><script>alert(2)</script></section>',
+      );
+
+      expect(section.html).toBe('<p>None.</p>');
+    });
+  });
+
+  describe('parseLabel', () => {
+    it('should return top-level sections in label order', () => {
+      const sections = SplSectionParser.parseLabel(olumiant.label);
+
+      expect(sections[0].code).toBe('34066-1');
+      expect(sections.slice(1, 4).map((section) => section.number)).toEqual(['1', '2', '3']);
+    });
+
+    it('should not duplicate subsections that also have their own label key', () => {
+      const sections = SplSectionParser.parseLabel(emgality.label);
+      const numbers: string[] = [];
+      SplSectionParser.walk(sections, (section) => {
+        if (section.number) numbers.push(section.number);
+      });
+
+      expect(numbers.filter((number) => number === '12.1')).toHaveLength(1);
+      expect(sections.some((section) => section.labelKey === 'mechanismOfAction')).toBe(false);
+    });
+
+    it('should return an empty tree for missing labels', () => {
+      expect(SplSectionParser.parseLabel(null)).toEqual([]);
+    });
+  });
+
+  describe('extractTextFields', () => {
+    it('should extract plain text for every label section column', () => {
+      const fields = SplSectionParser.extractTextFields(emgality.label);
+
+      expect(fields.contraindications).toMatch(/^4 CONTRAINDICATIONS EMGALITY is contraindicated/);
+      expect(fields.mechanismOfAction).toContain('calcitonin gene-related peptide');
+      expect(fields.dosageInfo).toContain('3 DOSAGE FORMS AND STRENGTHS');
+      expect(fields.drugInteractions).toBeNull();
+    });
+
+    it('should extract highlights by block', () => {
+      const highlights = SplSectionParser.extractHighlights(emgality.label);
+
+      expect(Object.keys(highlights)).toEqual(['dosageAndAdministration']);
+      expect(highlights.dosageAndAdministration).toMatch(/^For subcutaneous use only/);
+    });
+  });
+});
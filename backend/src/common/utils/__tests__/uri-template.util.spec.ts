@@ -0,0 +1,23 @@
+import { UriTemplate } from '../uri-template.util';
+
+describe('UriTemplate', () => {
+  it('should extract decoded variables from a matching uri', () => {
+    expect(UriTemplate.match('drugs://{slug}/sections/{section}', 'drugs://emgality-33a147b/sections/8.4')).toEqual({
+      slug: 'emgality-33a147b',
+      section: '8.4',
+    });
+    expect(UriTemplate.match('drugs://{slug}', 'drugs://taltz%20pen')).toEqual({ slug: 'taltz pen' });
+  });
+
+  it('should not match across path segments or literal parts', () => {
+    expect(UriTemplate.match('drugs://{slug}', 'drugs://emgality/faqs')).toBeNull();
+    expect(UriTemplate.match('drugs://{slug}/faqs', 'drugs://emgality/faq')).toBeNull();
+    expect(UriTemplate.match('drugs://{slug}', 'drugs://%E0%A4%A')).toBeNull();
+  });
+
+  it('should expand templates with encoded values', () => {
+    expect(UriTemplate.expand('drugs://{slug}/sections/{section}', { slug: 'taltz', section: 'a/b' })).toBe(
+      'drugs://taltz/sections/a%2Fb',
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { DataSanitizer } from './data-sanitizer.util';
+import { ParsedLabelSection, SPL_SECTION_CODES, SplSectionParser } from './spl-section-parser.util';
+
+export interface BoxedWarning {
+  title: string | null;
+  body: string;
+  source: 'section' | 'highlights' | 'text';
+}
+
+const BOXED_WARNING_CODE = SPL_SECTION_CODES.boxedWarning;
+
+const SEE_FULL_PI = /See full prescribing information for complete boxed warning\.?/gi;
+
+/** Upper-case "WARNING: ..." heading at the start of plain boxed warning text. */
+const TEXT_TITLE = /^(?:BOXED WARNING\s*)?(WARNINGS?:?\s+[A-Z0-9][A-Z0-9\s,;:()\-/&'’]*?)(?=\s+(?:[A-Z][a-z]|$))/;
+
+export class BoxedWarningDetector {
+  /**
+   * Finds a label's boxed warning: first a section carrying the SPL boxed
+   * warning code (the Labels.json `boxedWarning` box or any section marked
+   * 34066-1), then a highlights block that opens with "WARNING:".
+   */
+  static detect(label: any): BoxedWarning | null {
+    if (!label || typeof label !== 'object') return null;
+
+    const boxedSections: ParsedLabelSection[] = [];
+    SplSectionParser.walk(SplSectionParser.parseLabel(label), (node) => {
+      if (node.code === BOXED_WARNING_CODE) boxedSections.push(node);
+    });
+
+    const fromSection = boxedSections.length > 0 ? this.fromSection(boxedSections[0]) : null;
+
+    return fromSection ?? this.fromHighlights(label.highlights);
+  }
+
+  /**
+   * Splits plain boxed warning text, such as openFDA's `boxed_warning`, into
+   * its upper-case title and the body that follows.
+   */
+  static fromText(text: string | null | undefined): BoxedWarning | null {
+    const normalized = this.clean(text);
+    if (!normalized) return null;
+
+    const title = normalized.match(TEXT_TITLE)?.[1]?.trim() ?? null;
+    const body = title ? this.clean(normalized.slice(normalized.indexOf(title) + title.length)) : normalized;
+
+    return { title, body: body ?? normalized, source: 'text' };
+  }
+
+  private static fromSection(section: ParsedLabelSection): BoxedWarning | null {
+    const texts: string[] = [];
+    SplSectionParser.walk([section], (node) => {
+      if (node !== section && node.title) texts.push(node.title);
+      if (node.text) texts.push(node.text);
+    });
+
+    const body = this.clean(texts.join(' '));
+    if (!body) return null;
+
+    return { title: section.title, body, source: 'section' };
+  }
+
+  private static fromHighlights(highlights: any): BoxedWarning | null {
+    if (!highlights || typeof highlights !== 'object') return null;
+
+    for (const value of Object.values(highlights)) {
+      const text = DataSanitizer.htmlToText(value);
+      if (text && /^WARNINGS?:/i.test(text)) {
+        const warning = this.fromText(text);
+        if (warning) return { ...warning, source: 'highlights' };
+      }
+    }
+
+    return null;
+  }
+
+  private static clean(text: string | null | undefined): string | null {
+    if (!text) return null;
+
+    const cleaned = text.replace(SEE_FULL_PI, ' ').replace(/\s+/g, ' ').trim();
+    return cleaned.length > 0 ? cleaned : null;
+  }
+}
@@ -1,3 +1,30 @@
+import * as sanitize from 'sanitize-html';
+
+const TABLE_CELL_ATTRIBUTES = ['align', 'valign', 'colspan', 'rowspan'];
+
+/**
+ * Markup that FDA SPL label sections use. Anything else, including every
+ * event handler, style and non-http(s) URL, is removed.
+ */
+const SPL_HTML_OPTIONS: sanitize.IOptions = {
+  allowedTags: [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'div', 'span', 'br', 'a', 'img',
+    'b', 'i', 'u', 'em', 'strong', 'sub', 'sup',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+    'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  ],
+  allowedAttributes: {
+    '*': ['class'],
+    a: ['href', 'name'],
+    img: ['src', 'alt', 'width', 'height'],
+    table: ['width'],
+    col: ['align', 'width'],
+    th: TABLE_CELL_ATTRIBUTES,
+    td: TABLE_CELL_ATTRIBUTES,
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+};
+
 export class DataSanitizer {
   static sanitizeString(value: any): string | null {
     if (value === null || value === undefined) return null;
@@ -106,6 +133,33 @@ export class DataSanitizer {
     return null;
   }
 
+  static sanitizeHtml(html: any): string | null {
+    if (typeof html !== 'string') return null;
+
+    const cleaned = sanitize(html, SPL_HTML_OPTIONS).trim();
+
+    return cleaned.length > 0 ? cleaned : null;
+  }
+
+  static htmlToText(html: any): string | null {
+    if (typeof html !== 'string') return null;
+
+    const text = html
+      .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/&nbsp;|&#160;/gi, ' ')
+      .replace(/&lt;/gi, '<')
+      .replace(/&gt;/gi, '>')
+      .replace(/&quot;/gi, '"')
+      .replace(/&#39;|&apos;/gi, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&amp;/gi, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return text.length > 0 ? text : null;
+  }
+
   static validateAndCleanFDALabel(fdaLabel: any): any {
     if (!fdaLabel || typeof fdaLabel !== 'object') {
       return null;
@@ -117,11 +171,21 @@ export class DataSanitizer {
       brand_name_suffix: this.sanitizeArray(fdaLabel.brand_name_suffix),
       manufacturer: this.sanitizeString(fdaLabel.manufacturer),
       route: this.sanitizeString(fdaLabel.route),
+      product_type: this.sanitizeString(fdaLabel.product_type),
       indications: this.sanitizeObject(fdaLabel.indications),
       contraindications: this.sanitizeObject(fdaLabel.contraindications),
       warnings: this.sanitizeObject(fdaLabel.warnings),
       dosage: this.sanitizeObject(fdaLabel.dosage),
       adverse_reactions: this.sanitizeObject(fdaLabel.adverse_reactions),
+      drug_interactions: this.sanitizeObject(fdaLabel.drug_interactions),
+      use_in_specific_populations: this.sanitizeObject(fdaLabel.use_in_specific_populations),
+      description: this.sanitizeObject(fdaLabel.description),
+      clinical_pharmacology: this.sanitizeObject(fdaLabel.clinical_pharmacology),
+      mechanism_of_action: this.sanitizeObject(fdaLabel.mechanism_of_action),
+      nonclinical_toxicology: this.sanitizeObject(fdaLabel.nonclinical_toxicology),
+      clinical_studies: this.sanitizeObject(fdaLabel.clinical_studies),
+      how_supplied: this.sanitizeObject(fdaLabel.how_supplied),
+      instructions_for_use: this.sanitizeObject(fdaLabel.instructions_for_use),
       raw_data: fdaLabel.raw_data || fdaLabel,
     };
 
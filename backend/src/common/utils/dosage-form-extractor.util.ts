@@ -0,0 +1,224 @@
+import { DataSanitizer } from './data-sanitizer.util';
+
+export interface DosageFormStrength {
+  form: string;
+  strength: string;
+  presentation: string | null;
+}
+
+export interface DosageFormExtraction {
+  route: string | null;
+  routes: string[];
+  dosageForms: string[];
+  strengths: DosageFormStrength[];
+}
+
+/**
+ * Normalized routes and the phrases that indicate them in label text.
+ * Order matters for ties: the first route listed wins.
+ */
+const ROUTE_PATTERNS: Record<string, RegExp> = {
+  subcutaneous: /\bsubcutaneous(?:ly)?\b|\bsub-?q\b/gi,
+  intravenous: /\bintravenous(?:ly)?\b|\bIV (?:infusion|injection|push)\b/gi,
+  intramuscular: /\bintramuscular(?:ly)?\b/gi,
+  oral: /\borally\b|\bby mouth\b|\bswallow(?:ed)? whole\b|\boral (?:tablets?|capsules?|solution|suspension|use)\b/gi,
+  sublingual: /\bsublingual(?:ly)?\b/gi,
+  topical: /\b(?:for|applied) topical(?:ly)?\b|\btopical (?:use|application)\b|\bapply (?:a thin layer|to the (?:skin|affected))/gi,
+  transdermal: /\btransdermal(?:ly)?\b/gi,
+  ophthalmic: /\bophthalmic\b|\binto the eyes?\b/gi,
+  intravitreal: /\bintravitreal(?:ly)?\b/gi,
+  intranasal: /\bintranasal(?:ly)?\b|\bnasal spray\b/gi,
+  inhalation: /\binhal(?:ation|ed)\b|\boral inhalation\b/gi,
+  rectal: /\brectal(?:ly)?\b/gi,
+  vaginal: /\bvaginal(?:ly)?\b/gi,
+  intrathecal: /\bintrathecal(?:ly)?\b/gi,
+};
+
+/** Abbreviations and route groups accepted by the search filter. */
+const ROUTE_ALIASES: Record<string, string[]> = {
+  sc: ['subcutaneous'],
+  subq: ['subcutaneous'],
+  iv: ['intravenous'],
+  im: ['intramuscular'],
+  po: ['oral'],
+  'by mouth': ['oral'],
+  nasal: ['intranasal'],
+  injection: ['subcutaneous', 'intravenous', 'intramuscular'],
+};
+
+/** Forms whose presence implies a route when the text never states one. */
+const FORM_ROUTES: Record<string, string> = {
+  tablet: 'oral',
+  capsule: 'oral',
+  cream: 'topical',
+  ointment: 'topical',
+  patch: 'transdermal',
+  suppository: 'rectal',
+};
+
+const FORM_WORDS: Record<string, string> = {
+  injection: 'injection',
+  injections: 'injection',
+  'for injection': 'injection',
+  tablet: 'tablet',
+  tablets: 'tablet',
+  capsule: 'capsule',
+  capsules: 'capsule',
+  'oral solution': 'oral solution',
+  'oral suspension': 'oral suspension',
+  'for oral suspension': 'oral suspension',
+  cream: 'cream',
+  ointment: 'ointment',
+  gel: 'gel',
+  lotion: 'lotion',
+  patch: 'patch',
+  'transdermal system': 'patch',
+  suppository: 'suppository',
+  suppositories: 'suppository',
+  'inhalation powder': 'inhalation powder',
+  'inhalation aerosol': 'inhalation aerosol',
+  'nasal spray': 'nasal spray',
+  'ophthalmic solution': 'ophthalmic solution',
+  film: 'film',
+  films: 'film',
+};
+
+/** Forms that can be named right after a strength ("50 mg tablets"). */
+const UNIT_DOSE_FORMS = new Set(['tablet', 'capsule', 'patch', 'suppository', 'film']);
+
+const FORM_PATTERN = Object.keys(FORM_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .map((word) => word.replace(/ /g, '\\s+'))
+  .join('|');
+
+const STRENGTH_PATTERN =
+  '(\\d+(?:\\.\\d+)?)\\s*(mg|mcg|g|units?|mL|%)' +
+  '(?:\\s*\\/\\s*(\\d+(?:\\.\\d+)?)?\\s*(mL|L|g|actuation|spray))?(?![a-z])';
+
+const PRESENTATION_PATTERN =
+  '(?:single-dose|multiple-dose|multi-dose|prefilled|pre-filled)[a-z\\s-]*?' +
+  '(?:autoinjector|pen|syringe|vial|cartridge|kit)(?:\\s+with\\s+needle\\s+shield)?';
+
+export class DosageFormExtractor {
+  /**
+   * Extracts routes, dosage forms and strengths from a Labels.json label using
+   * the Dosage and Administration section (and its highlights) and the Dosage
+   * Forms and Strengths section.
+   */
+  static fromLabel(label: any): DosageFormExtraction {
+    return this.extract({
+      administration: [
+        DataSanitizer.htmlToText(label?.highlights?.dosageAndAdministration),
+        DataSanitizer.htmlToText(label?.dosageAndAdministration),
+      ]
+        .filter(Boolean)
+        .join(' '),
+      formsAndStrengths: DataSanitizer.htmlToText(label?.dosageFormsAndStrengths),
+    });
+  }
+
+  static extract(text: { administration?: string | null; formsAndStrengths?: string | null }): DosageFormExtraction {
+    const strengths = this.extractStrengths(text.formsAndStrengths ?? '');
+    const dosageForms = [...new Set(strengths.map((item) => item.form))];
+
+    if (dosageForms.length === 0 && text.formsAndStrengths) {
+      dosageForms.push(...this.findForms(text.formsAndStrengths));
+    }
+
+    const routes = this.extractRoutes([text.administration, text.formsAndStrengths].filter(Boolean).join(' '));
+
+    if (routes.length === 0) {
+      dosageForms
+        .map((form) => FORM_ROUTES[form])
+        .filter((route) => route && !routes.includes(route))
+        .forEach((route) => routes.push(route));
+    }
+
+    return { route: routes[0] ?? null, routes, dosageForms, strengths };
+  }
+
+  /** Routes mentioned in the text, most frequently mentioned first. */
+  static extractRoutes(text: string): string[] {
+    if (!text) return [];
+
+    return Object.entries(ROUTE_PATTERNS)
+      .map(([route, pattern], order) => ({ route, order, count: text.match(pattern)?.length ?? 0 }))
+      .filter((entry) => entry.count > 0)
+      .sort((a, b) => b.count - a.count || a.order - b.order)
+      .map((entry) => entry.route);
+  }
+
+  /**
+   * Maps a user-supplied route (abbreviation, group or normalized name) to the
+   * normalized routes it covers.
+   */
+  static normalizeRoute(value: string): string[] {
+    const key = value.trim().toLowerCase();
+    if (!key) return [];
+    if (ROUTE_ALIASES[key]) return ROUTE_ALIASES[key];
+
+    const routes = this.extractRoutes(key);
+    return routes.length > 0 ? routes : [key];
+  }
+
+  /**
+   * Walks the Dosage Forms and Strengths text in order. A form header such as
+   * "Injection:" or "Tablets:" sets the form for the strengths that follow; a
+   * unit-dose form named right after a strength ("50 mg tablets") overrides it.
+   */
+  private static extractStrengths(text: string): DosageFormStrength[] {
+    const token = new RegExp(
+      `\\b(${FORM_PATTERN})\\s*:|${STRENGTH_PATTERN}(?:\\s+(${FORM_PATTERN})\\b)?` +
+        `(?:[^:.\\d]*?\\bin\\s+(?:a|an)?\\s*(${PRESENTATION_PATTERN}))?`,
+      'gi',
+    );
+    const results: DosageFormStrength[] = [];
+    const seen = new Set<string>();
+    let currentForm: string | null = null;
+    let match: RegExpExecArray | null;
+
+    while ((match = token.exec(text))) {
+      const [, header, amount, unit, perAmount, perUnit, trailingForm, presentation] = match;
+
+      if (header) {
+        currentForm = this.normalizeForm(header);
+        continue;
+      }
+
+      const adjacentForm = trailingForm ? this.normalizeForm(trailingForm) : null;
+      const form = adjacentForm && (UNIT_DOSE_FORMS.has(adjacentForm) || !currentForm) ? adjacentForm : currentForm;
+      if (!form) continue;
+
+      const strength = `${amount} ${unit}${perUnit ? `/${perAmount ? `${perAmount} ` : ''}${perUnit}` : ''}`;
+      const entry = {
+        form,
+        strength,
+        presentation: presentation ? presentation.replace(/\s+/g, ' ').toLowerCase() : null,
+      };
+      const key = `${entry.form}|${entry.strength}|${entry.presentation}`;
+
+      if (!seen.has(key)) {
+        seen.add(key);
+        results.push(entry);
+      }
+    }
+
+    return results;
+  }
+
+  private static findForms(text: string): string[] {
+    const forms = new Set<string>();
+    const pattern = new RegExp(`\\b(${FORM_PATTERN})\\b`, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text))) {
+      forms.add(this.normalizeForm(match[1]));
+    }
+
+    return [...forms];
+  }
+
+  private static normalizeForm(word: string): string {
+    return FORM_WORDS[word.toLowerCase().replace(/\s+/g, ' ')] ?? word.toLowerCase();
+  }
+}
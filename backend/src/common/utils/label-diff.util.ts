@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import { ParsedLabelSection, SplSectionParser } from './spl-section-parser.util';
+
+export interface LabelSectionSnapshot {
+  key: string;
+  code: string;
+  number: string | null;
+  title: string | null;
+  text: string | null;
+}
+
+export type SectionChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SectionChange {
+  key: string;
+  code: string;
+  number: string | null;
+  title: string | null;
+  status: SectionChangeStatus;
+  addedText: string[];
+  removedText: string[];
+}
+
+export class LabelDiff {
+  /**
+   * Flattens a label into one entry per section with a key that stays stable
+   * across revisions: the section number where there is one, otherwise the
+   * parent key plus the section title.
+   */
+  static snapshot(label: any): LabelSectionSnapshot[] {
+    const snapshots: LabelSectionSnapshot[] = [];
+    const usedKeys = new Map<string, number>();
+
+    const visit = (sections: ParsedLabelSection[], parentKey: string | null) => {
+      for (const section of sections) {
+        let key = section.number ?? `${parentKey ?? section.code}/${section.title ?? section.code}`;
+        const occurrences = (usedKeys.get(key) ?? 0) + 1;
+        usedKeys.set(key, occurrences);
+        if (occurrences > 1) key = `${key}~${occurrences}`;
+
+        snapshots.push({
+          key,
+          code: section.code,
+          number: section.number,
+          title: section.title,
+          text: section.text,
+        });
+
+        visit(section.children, key);
+      }
+    };
+
+    visit(SplSectionParser.parseLabel(label), null);
+    return snapshots;
+  }
+
+  static contentHash(label: any): string {
+    return createHash('sha256')
+      .update(JSON.stringify(label ?? null))
+      .digest('hex');
+  }
+
+  /**
+   * Section-level comparison of two snapshots. Changed sections list the
+   * sentences that were added and removed rather than a character diff, which
+   * is what reviewers read when a label is revised.
+   */
+  static diff(from: LabelSectionSnapshot[], to: LabelSectionSnapshot[]): SectionChange[] {
+    const fromByKey = new Map(from.map((section) => [section.key, section]));
+    const toKeys = new Set(to.map((section) => section.key));
+    const changes: SectionChange[] = [];
+
+    for (const section of to) {
+      const previous = fromByKey.get(section.key);
+
+      if (!previous) {
+        changes.push(this.toChange(section, 'added', this.splitSentences(section.text), []));
+        continue;
+      }
+
+      const before = this.splitSentences(previous.text);
+      const after = this.splitSentences(section.text);
+      const beforeSet = new Set(before);
+      const afterSet = new Set(after);
+      const addedText = after.filter((sentence) => !beforeSet.has(sentence));
+      const removedText = before.filter((sentence) => !afterSet.has(sentence));
+      const titleChanged = previous.title !== section.title;
+
+      changes.push(
+        this.toChange(
+          section,
+          addedText.length > 0 || removedText.length > 0 || titleChanged ? 'changed' : 'unchanged',
+          addedText,
+          removedText,
+        ),
+      );
+    }
+
+    for (const section of from) {
+      if (!toKeys.has(section.key)) {
+        changes.push(this.toChange(section, 'removed', [], this.splitSentences(section.text)));
+      }
+    }
+
+    return changes;
+  }
+
+  private static toChange(
+    section: LabelSectionSnapshot,
+    status: SectionChangeStatus,
+    addedText: string[],
+    removedText: string[],
+  ): SectionChange {
+    return {
+      key: section.key,
+      code: section.code,
+      number: section.number,
+      title: section.title,
+      status,
+      addedText,
+      removedText,
+    };
+  }
+
+  private static splitSentences(text: string | null): string[] {
+    if (!text) return [];
+
+    return text
+      .split(/(?<=[.!?])\s+(?=[A-Z0-9(])/)
+      .map((sentence) => sentence.trim())
+      .filter((sentence) => sentence.length > 0);
+  }
+}
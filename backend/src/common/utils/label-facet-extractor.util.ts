@@ -0,0 +1,77 @@
+import { DataSanitizer } from './data-sanitizer.util';
+import { ParsedLabelSection, SplSectionParser } from './spl-section-parser.util';
+
+/** SPL section code for 8.4 Pediatric Use. */
+export const PEDIATRIC_USE_CODE = '34081-0';
+
+/** "have been established"; the negated "have not been established" does not match. */
+const ESTABLISHED = /\b(?:has|have)\s+been\s+established\b/i;
+
+/** "8.4 Pediatric Use" up to the next numbered 8.x subsection or the end. */
+const PEDIATRIC_USE_TEXT = /\b8\.4\s+Pediatric Use\s+([\s\S]+?)(?=\s+8\.\d+\s+[A-Z]|$)/i;
+
+export class LabelFacetExtractor {
+  /**
+   * Normalizes SPL document types ("HUMAN PRESCRIPTION DRUG LABEL") and
+   * openFDA `product_type` values ("HUMAN PRESCRIPTION DRUG") to one name.
+   */
+  static productType(value: any): string | null {
+    const raw = Array.isArray(value) ? value[0] : value;
+    const text = DataSanitizer.sanitizeString(raw);
+    if (!text) return null;
+
+    const normalized = text
+      .replace(/\s+LABEL$/i, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toUpperCase();
+    return normalized.length > 0 ? normalized : null;
+  }
+
+  /**
+   * Text of the label's Pediatric Use subsection, found by its SPL section
+   * code or, failing that, by its heading.
+   */
+  static pediatricUse(label: any): string | null {
+    const matches: ParsedLabelSection[] = [];
+    SplSectionParser.walk(SplSectionParser.parseLabel(label), (node) => {
+      if (node.code === PEDIATRIC_USE_CODE || /^pediatric use$/i.test(node.title ?? '')) matches.push(node);
+    });
+    if (matches.length === 0) return null;
+
+    const texts: string[] = [];
+    SplSectionParser.walk([matches[0]], (node) => {
+      if (node !== matches[0] && node.title) texts.push(node.title);
+      if (node.text) texts.push(node.text);
+    });
+
+    return this.clean(texts.join(' '));
+  }
+
+  /**
+   * Pediatric Use subsection cut out of plain "Use in Specific Populations"
+   * text, for drugs stored without a Labels.json label.
+   */
+  static pediatricUseFromText(text: string | null | undefined): string | null {
+    const match = text?.match(PEDIATRIC_USE_TEXT);
+    return match ? this.clean(match[1]) : null;
+  }
+
+  /**
+   * Whether pediatric use is supported: the Pediatric Use text states that
+   * safety and effectiveness have been established in pediatric patients,
+   * even if only for some ages or indications.
+   */
+  static isPediatricUseEstablished(pediatricUse: string | null | undefined): boolean {
+    if (!pediatricUse) return false;
+
+    return pediatricUse
+      .split(/(?<=\.)\s+/)
+      .some((sentence) => /pediatric/i.test(sentence) && ESTABLISHED.test(sentence));
+  }
+
+  private static clean(text: string): string | null {
+    const cleaned = text.replace(/\s+/g, ' ').trim();
+    return cleaned.length > 0 ? cleaned : null;
+  }
+}
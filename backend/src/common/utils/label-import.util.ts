@@ -0,0 +1,48 @@
+export class LabelImportParser {
+  /**
+   * Accepts a Labels.json-style array, an `{ records: [...] }` wrapper, a single
+   * record, or NDJSON text (one record per line) and returns the records.
+   */
+  static parse(input: any): any[] {
+    if (Array.isArray(input)) return input;
+
+    if (typeof input === 'string') {
+      return this.parseText(input);
+    }
+
+    if (input && typeof input === 'object') {
+      if (Array.isArray(input.records)) return input.records;
+      if (Object.keys(input).length > 0) return [input];
+    }
+
+    throw new Error('Expected a JSON array of label records or NDJSON');
+  }
+
+  static createSlug(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+  }
+
+  private static parseText(text: string): any[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+
+    if (trimmed.startsWith('[')) {
+      return this.parse(JSON.parse(trimmed));
+    }
+
+    return trimmed
+      .split(/\r?\n/)
+      .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+      .filter(({ line }) => line.length > 0)
+      .map(({ line, lineNumber }) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${lineNumber}`);
+        }
+      });
+  }
+}
@@ -0,0 +1,223 @@
+/** A stored label section, as read for retrieval. */
+export interface LabelSectionText {
+  code: string;
+  labelKey: string | null;
+  number: string | null;
+  title: string | null;
+  text: string | null;
+}
+
+/** A passage of one label section, small enough to quote in a prompt. */
+export interface LabelChunk {
+  section: string | null;
+  title: string | null;
+  code: string;
+  labelKey: string | null;
+  text: string;
+}
+
+/** Where a generated statement came from in the label. */
+export interface LabelCitation {
+  section: string | null;
+  title: string | null;
+  code: string;
+  labelKey: string | null;
+}
+
+export interface CitedSentence {
+  text: string;
+  citations: LabelCitation[];
+}
+
+export interface CitedText {
+  text: string;
+  sentences: CitedSentence[];
+  citations: LabelCitation[];
+}
+
+const DEFAULT_CHUNK_LENGTH = 900;
+
+/** Share of a sentence's terms a chunk must contain to be cited without a marker. */
+const MIN_ATTRIBUTION_OVERLAP = 0.5;
+
+const STOP_WORDS = new Set(
+  (
+    'the and for are was were with that this from have has had not but can may any all its into than then them ' +
+    'they their there these those been being such also other which who whom what when where while your you ' +
+    'should would could will about after before over under more most some each only both very per'
+  ).split(' '),
+);
+
+/**
+ * Chunking, lexical retrieval and citation parsing over stored label
+ * sections. Generated text cites sources with `[S1]` markers, which refer to
+ * the chunks the prompt listed in order.
+ */
+export class LabelRetriever {
+  /**
+   * Splits sections into passages at sentence boundaries. Unnumbered
+   * subsections take the last section number seen under the same label key.
+   */
+  static chunk(sections: LabelSectionText[], maxLength = DEFAULT_CHUNK_LENGTH): LabelChunk[] {
+    const chunks: LabelChunk[] = [];
+    const lastNumbers = new Map<string | null, string>();
+
+    for (const section of sections) {
+      if (section.number) lastNumbers.set(section.labelKey, section.number);
+      const number = section.number ?? lastNumbers.get(section.labelKey) ?? null;
+      const text = section.text?.replace(/\s+/g, ' ').trim();
+      if (!text) continue;
+
+      let passage = '';
+      for (const sentence of this.splitSentences(text)) {
+        if (passage && passage.length + sentence.length + 1 > maxLength) {
+          chunks.push(this.toChunk(section, number, passage));
+          passage = '';
+        }
+        passage = passage ? `${passage} ${sentence}` : sentence;
+      }
+      if (passage) {
+        chunks.push(this.toChunk(section, number, passage));
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Chunks ranked by TF-IDF overlap with the query. Chunks from the preferred
+   * label keys get a boost, so a question about dosing favors section 2 even
+   * when other sections mention doses.
+   */
+  static retrieve(
+    chunks: LabelChunk[],
+    query: string,
+    options: { labelKeys?: string[]; limit?: number } = {},
+  ): LabelChunk[] {
+    const queryTerms = [...new Set(this.terms(query))];
+    const chunkTerms = chunks.map((chunk) => this.terms(`${chunk.title ?? ''} ${chunk.text}`));
+    const documentFrequency = new Map<string, number>();
+
+    for (const terms of chunkTerms) {
+      for (const term of new Set(terms)) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    return chunks
+      .map((chunk, index) => {
+        const counts = new Map<string, number>();
+        chunkTerms[index].forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+
+        let score = queryTerms.reduce((sum, term) => {
+          const count = counts.get(term);
+          if (!count) return sum;
+          const idf = Math.log(1 + chunks.length / (documentFrequency.get(term) ?? 1));
+          return sum + idf * (1 + Math.log(count));
+        }, 0);
+
+        if (options.labelKeys?.includes(chunk.labelKey ?? '')) {
+          score = score * 1.5 + 1;
+        }
+
+        return { chunk, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 3)
+      .map(({ chunk }) => chunk);
+  }
+
+  /** Numbered source list for a prompt; `[S1]` refers to the first chunk. */
+  static formatSources(chunks: LabelChunk[]): string {
+    return chunks
+      .map((chunk, index) => `[S${index + 1}] (${this.describe(chunk)}) ${chunk.text}`)
+      .join('\n');
+  }
+
+  /**
+   * Splits generated text into sentences and resolves their `[S1]` markers
+   * to label citations, removing the markers. Sentences without a valid
+   * marker are attributed to the source they overlap most, if any.
+   */
+  static cite(text: string, sources: LabelChunk[]): CitedText {
+    const sentences = this.splitSentences(text.replace(/\s+/g, ' ').trim()).map((sentence) => {
+      const referenced = [...sentence.matchAll(/\[((?:S\d+\s*,?\s*)+)\]/g)]
+        .flatMap((match) => match[1].split(/[\s,]+/))
+        .map((ref) => sources[parseInt(ref.slice(1), 10) - 1])
+        .filter((chunk): chunk is LabelChunk => !!chunk);
+
+      const clean = sentence
+        .replace(/\s*\[(?:S\d+\s*,?\s*)+\]/g, '')
+        .replace(/\s+([.!?])$/, '$1')
+        .trim();
+      const chunks = referenced.length > 0 ? referenced : [this.attribute(clean, sources)].filter(Boolean);
+
+      return { text: clean, citations: this.uniqueCitations(chunks) };
+    });
+
+    return this.join(sentences);
+  }
+
+  /** Reassembles cited sentences, e.g. after dropping some. */
+  static join(sentences: CitedSentence[]): CitedText {
+    return {
+      text: sentences.map((sentence) => sentence.text).join(' '),
+      sentences,
+      citations: this.uniqueCitations(sentences.flatMap((sentence) => sentence.citations)),
+    };
+  }
+
+  static toCitation(chunk: LabelChunk | LabelCitation): LabelCitation {
+    return { section: chunk.section, title: chunk.title, code: chunk.code, labelKey: chunk.labelKey };
+  }
+
+  static splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?](?:\s*\[(?:S\d+\s*,?\s*)+\])?)\s+(?=[A-Z0-9(])/)
+      .map((sentence) => sentence.trim())
+      .filter((sentence) => sentence.length > 0);
+  }
+
+  private static attribute(sentence: string, sources: LabelChunk[]): LabelChunk | null {
+    const terms = [...new Set(this.terms(sentence))];
+    if (terms.length < 3) return null;
+
+    let best: { chunk: LabelChunk; overlap: number } | null = null;
+    for (const chunk of sources) {
+      const chunkTerms = new Set(this.terms(chunk.text));
+      const overlap = terms.filter((term) => chunkTerms.has(term)).length / terms.length;
+      if (overlap >= MIN_ATTRIBUTION_OVERLAP && (!best || overlap > best.overlap)) {
+        best = { chunk, overlap };
+      }
+    }
+
+    return best?.chunk ?? null;
+  }
+
+  private static uniqueCitations(chunks: Array<LabelChunk | LabelCitation>): LabelCitation[] {
+    const seen = new Set<string>();
+    return chunks.map((chunk) => this.toCitation(chunk)).filter((citation) => {
+      const key = `${citation.section}|${citation.code}|${citation.title}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private static describe(chunk: LabelChunk): string {
+    const title = chunk.title ?? 'Label';
+    return chunk.section && !title.startsWith(chunk.section) ? `Section ${chunk.section} ${title}` : title;
+  }
+
+  /** Lowercased content words, without stop words and simple plurals. */
+  static terms(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?/g) ?? [])
+      .filter((word) => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word))
+      .map((word) => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  }
+
+  private static toChunk(section: LabelSectionText, number: string | null, text: string): LabelChunk {
+    return { section: number, title: section.title, code: section.code, labelKey: section.labelKey, text };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Position after the last row of a page: the sort it was taken under, that
+ * row's sort value and its id as the tie-breaker.
+ */
+export interface CursorPosition {
+  sort: string;
+  order: 'asc' | 'desc';
+  value: string | null;
+  id: string;
+}
+
+export class PageCursor {
+  /**
+   * Opaque, URL-safe cursor for keyset pagination. Dates are stored as ISO
+   * strings.
+   */
+  static encode(position: CursorPosition): string {
+    const { sort, order, value, id } = position;
+    return Buffer.from(JSON.stringify([sort, order, value, id]), 'utf8').toString('base64url');
+  }
+
+  static decode(cursor: string): CursorPosition {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor');
+    }
+
+    if (!Array.isArray(parsed) || parsed.length !== 4) {
+      throw new Error('Invalid cursor');
+    }
+
+    const [sort, order, value, id] = parsed;
+    if (
+      typeof sort !== 'string' ||
+      (order !== 'asc' && order !== 'desc') ||
+      (value !== null && typeof value !== 'string') ||
+      typeof id !== 'string' ||
+      !id
+    ) {
+      throw new Error('Invalid cursor');
+    }
+
+    return { sort, order, value, id };
+  }
+
+  /** Cursor value for a row's sort column. */
+  static valueOf(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
@@ -0,0 +1,72 @@
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Best-effort parsing of a JSON object that is still being generated. Open
+ * strings, arrays and objects are closed, and a trailing member that cannot
+ * be completed (a key without a value, a half-written number) is dropped, so
+ * the fields written so far can be shown while the rest streams in.
+ */
+export class PartialJson {
+  /** The object parsed so far, or null before its first complete member. */
+  static parse(text: string): Record<string, unknown> | null {
+    const start = text.indexOf('{');
+    if (start < 0) return null;
+
+    const json = text.slice(start).replace(/\s*`{3}\s*$/, '');
+    const stack: string[] = [];
+    // Points where the text can be cut and closed: after an opening bracket or before a comma
+    const cuts: Array<{ index: number; closers: string }> = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let index = 0; index < json.length; index++) {
+      const char = json[index];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        stack.push(CLOSERS[char]);
+        cuts.push({ index: index + 1, closers: this.closers(stack) });
+      } else if (char === '}' || char === ']') {
+        stack.pop();
+        if (stack.length === 0) {
+          return this.tryParse(json.slice(0, index + 1));
+        }
+      } else if (char === ',') {
+        cuts.push({ index, closers: this.closers(stack) });
+      }
+    }
+
+    // A trailing backslash would escape the closing quote
+    const body = inString ? `${escaped ? json.slice(0, -1) : json}"` : json;
+    const complete = this.tryParse(body.replace(/[\s,]*$/, '') + this.closers(stack));
+    if (complete) return complete;
+
+    for (let index = cuts.length - 1; index >= 0; index--) {
+      const parsed = this.tryParse(json.slice(0, cuts[index].index) + cuts[index].closers);
+      if (parsed) return parsed;
+    }
+
+    return null;
+  }
+
+  private static closers(stack: string[]): string {
+    return [...stack].reverse().join('');
+  }
+
+  private static tryParse(json: string): Record<string, unknown> | null {
+    try {
+      const value = JSON.parse(json);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { DataSanitizer } from './data-sanitizer.util';
+
+/**
+ * LOINC section codes for the top-level Labels.json label keys. Used as the
+ * section code when a key's HTML carries no `data-sectioncode` attribute
+ * (e.g. the highlights boxed warning box).
+ */
+export const SPL_SECTION_CODES: Record<string, string> = {
+  boxedWarning: '34066-1',
+  indicationsAndUsage: '34067-9',
+  dosageAndAdministration: '34068-7',
+  dosageFormsAndStrengths: '43678-2',
+  contraindications: '34070-3',
+  warningsAndPrecautions: '43685-7',
+  adverseReactions: '34084-4',
+  drugInteractions: '34073-7',
+  useInSpecificPopulations: '43684-0',
+  description: '34089-3',
+  clinicalPharmacology: '34090-1',
+  mechanismOfAction: '43679-0',
+  nonclinicalToxicology: '43680-8',
+  clinicalStudies: '34092-7',
+  howSupplied: '34069-5',
+  instructionsForUse: '59845-8',
+};
+
+/**
+ * Labels.json keys that feed each plain-text label column on `Drug`. Columns
+ * built from several keys join them in the order listed.
+ */
+export const SPL_TEXT_FIELDS = {
+  indications: ['indicationsAndUsage'],
+  contraindications: ['contraindications'],
+  warnings: ['warningsAndPrecautions'],
+  dosageInfo: ['dosageAndAdministration', 'dosageFormsAndStrengths'],
+  adverseReactions: ['adverseReactions'],
+  drugInteractions: ['drugInteractions'],
+  useInSpecificPopulations: ['useInSpecificPopulations'],
+  description: ['description'],
+  clinicalPharmacology: ['clinicalPharmacology'],
+  mechanismOfAction: ['mechanismOfAction'],
+  nonclinicalToxicology: ['nonclinicalToxicology'],
+  clinicalStudies: ['clinicalStudies'],
+  howSupplied: ['howSupplied'],
+  instructionsForUse: ['instructionsForUse'],
+} as const;
+
+export type SplTextField = keyof typeof SPL_TEXT_FIELDS;
+
+export interface ParsedLabelSection {
+  code: string;
+  labelKey: string | null;
+  number: string | null;
+  title: string | null;
+  anchor: string | null;
+  html: string | null;
+  text: string | null;
+  children: ParsedLabelSection[];
+}
+
+interface OpenElement {
+  code: string | null;
+  openStart: number;
+  contentStart: number;
+  children: ParsedLabelSection[];
+  childSpans: Array<{ start: number; end: number }>;
+}
+
+export class SplSectionParser {
+  /**
+   * Returns the Labels.json `label` object from either a Labels.json record or
+   * a process-fda-label payload that carries one in `raw_data`.
+   */
+  static resolveLabel(fdaLabel: any): any {
+    if (!fdaLabel || typeof fdaLabel !== 'object') return null;
+
+    return fdaLabel.label || fdaLabel.raw_data?.label || null;
+  }
+
+  /**
+   * The SPL set id that identifies a label across revisions (`setId` in
+   * Labels.json, `set_id` in openFDA results).
+   */
+  static resolveSetId(fdaLabel: any): string | null {
+    if (!fdaLabel || typeof fdaLabel !== 'object') return null;
+
+    const setId = fdaLabel.setId ?? fdaLabel.set_id ?? fdaLabel.raw_data?.setId ?? fdaLabel.raw_data?.set_id;
+    return typeof setId === 'string' && setId.trim() ? setId.trim() : null;
+  }
+
+  /**
+   * Converts an SPL `effectiveTime` (YYYYMMDD) to a UTC date.
+   */
+  static parseEffectiveTime(value: any): Date | null {
+    const match = typeof value === 'string' ? value.trim().match(/^(\d{4})(\d{2})(\d{2})/) : null;
+    if (!match) return null;
+
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Plain-text content for each `Drug` label column, or null where the label
+   * has no such section.
+   */
+  static extractTextFields(label: any): Record<SplTextField, string | null> {
+    const fields = {} as Record<SplTextField, string | null>;
+
+    for (const [field, labelKeys] of Object.entries(SPL_TEXT_FIELDS)) {
+      const texts = labelKeys
+        .map((labelKey) => DataSanitizer.htmlToText(label?.[labelKey]))
+        .filter((text) => text !== null);
+
+      fields[field] = texts.length > 0 ? texts.join('. ') : null;
+    }
+
+    return fields;
+  }
+
+  /**
+   * Plain text of each Highlights of Prescribing Information block, keyed as
+   * in the label (e.g. `dosageAndAdministration`).
+   */
+  static extractHighlights(label: any): Record<string, string> | null {
+    const highlights = label?.highlights;
+    if (!highlights || typeof highlights !== 'object') return null;
+
+    const result: Record<string, string> = {};
+    for (const [key, html] of Object.entries(highlights)) {
+      const text = DataSanitizer.htmlToText(html);
+      if (text) result[key] = text;
+    }
+
+    return Object.keys(result).length > 0 ? result : null;
+  }
+
+  /**
+   * Parses every known section of a Labels.json `label` object into a section
+   * tree, in label order. Subsections that a label repeats under their own key
+   * (mechanismOfAction is also 12.1 inside clinicalPharmacology) are only kept
+   * once.
+   */
+  static parseLabel(label: any): ParsedLabelSection[] {
+    if (!label || typeof label !== 'object') return [];
+
+    const sections: ParsedLabelSection[] = [];
+    const seenNumbers = new Set<string>();
+
+    for (const labelKey of Object.keys(SPL_SECTION_CODES)) {
+      const html = label[labelKey];
+      if (typeof html !== 'string' || !html.trim()) continue;
+
+      for (const section of this.parseSectionHtml(html, labelKey)) {
+        if (section.number && seenNumbers.has(section.number)) continue;
+
+        this.walk([section], (node) => {
+          if (node.number) seenNumbers.add(node.number);
+        });
+        sections.push(section);
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * Parses one SPL HTML fragment into its section tree. Nesting follows the
+   * `data-sectioncode` elements; fragments without any are returned as a
+   * single section using the code registered for `labelKey`.
+   */
+  static parseSectionHtml(html: string, labelKey: string | null = null): ParsedLabelSection[] {
+    const roots: ParsedLabelSection[] = [];
+    const stack: OpenElement[] = [];
+    const tagPattern = /<(\/?)(section|div)\b([^>]*)>/gi;
+
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(html)) !== null) {
+      const [tag, closing, , attributes] = match;
+
+      if (!closing) {
+        if (tag.endsWith('/>')) continue;
+
+        const codeMatch = attributes.match(/data-sectioncode\s*=\s*"([^"]+)"/i);
+        stack.push({
+          code: codeMatch ? codeMatch[1] : null,
+          openStart: match.index,
+          contentStart: match.index + tag.length,
+          children: [],
+          childSpans: [],
+        });
+        continue;
+      }
+
+      const element = stack.pop();
+      if (!element?.code) continue;
+
+      const end = match.index + tag.length;
+      const ownHtml = this.removeSpans(html, element.contentStart, match.index, element.childSpans);
+      const section = this.buildSection(element.code, labelKey, ownHtml, element.children);
+
+      const parent = [...stack].reverse().find((open) => open.code);
+      if (parent) {
+        parent.children.push(section);
+        parent.childSpans.push({ start: element.openStart, end });
+      } else {
+        roots.push(section);
+      }
+    }
+
+    if (roots.length === 0) {
+      const code = labelKey ? SPL_SECTION_CODES[labelKey] : null;
+      if (!code) return [];
+
+      return [this.buildSection(code, labelKey, html, [])];
+    }
+
+    return this.hoistMisnested(roots);
+  }
+
+  static walk(
+    sections: ParsedLabelSection[],
+    visit: (section: ParsedLabelSection, parent: ParsedLabelSection | null) => void,
+    parent: ParsedLabelSection | null = null,
+  ): void {
+    for (const section of sections) {
+      visit(section, parent);
+      this.walk(section.children, visit, section);
+    }
+  }
+
+  private static buildSection(
+    code: string,
+    labelKey: string | null,
+    ownHtml: string,
+    children: ParsedLabelSection[],
+  ): ParsedLabelSection {
+    const headingMatch = ownHtml.match(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/i);
+    const anchorMatch = ownHtml.match(/<a\s+name\s*=\s*"([^"]+)"/i);
+    const { number, title } = this.parseHeading(headingMatch ? headingMatch[2] : null);
+
+    const body = (headingMatch ? ownHtml.replace(headingMatch[0], '') : ownHtml)
+      .replace(/<a\s+name\s*=\s*"[^"]*"\s*>\s*<\/a>/gi, '')
+      .replace(/<p\b[^>]*>\s*<\/p>/gi, '');
+
+    return {
+      code,
+      labelKey,
+      number,
+      title,
+      anchor: anchorMatch ? anchorMatch[1] : null,
+      html: DataSanitizer.sanitizeHtml(body),
+      text: DataSanitizer.htmlToText(body),
+      children,
+    };
+  }
+
+  /**
+   * Some labels leave a section element unclosed, which nests the next
+   * numbered section (e.g. "3") inside the previous one ("2"). Moves such
+   * children back up next to their parent.
+   */
+  private static hoistMisnested(sections: ParsedLabelSection[]): ParsedLabelSection[] {
+    const result: ParsedLabelSection[] = [];
+
+    for (const section of sections) {
+      const children = this.hoistMisnested(section.children);
+      const misnested = section.number
+        ? children.filter((child) => child.number && !child.number.startsWith(`${section.number}.`))
+        : [];
+
+      section.children = children.filter((child) => !misnested.includes(child));
+      result.push(section, ...misnested);
+    }
+
+    return result;
+  }
+
+  private static parseHeading(headingHtml: string | null): { number: string | null; title: string | null } {
+    const heading = DataSanitizer.htmlToText(headingHtml);
+    if (!heading) return { number: null, title: null };
+
+    const numbered = heading.match(/^(\d+(?:\.\d+)*)\.?\s+(.+)$/);
+    if (numbered) {
+      return { number: numbered[1], title: numbered[2] };
+    }
+
+    return { number: null, title: heading };
+  }
+
+  private static removeSpans(
+    html: string,
+    start: number,
+    end: number,
+    spans: Array<{ start: number; end: number }>,
+  ): string {
+    let result = '';
+    let cursor = start;
+
+    for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+      result += html.slice(cursor, span.start);
+      cursor = span.end;
+    }
+
+    return result + html.slice(cursor, end);
+  }
+}
@@ -0,0 +1,36 @@
+const VARIABLE = /\{(\w+)\}/g;
+
+export class UriTemplate {
+  /**
+   * Matches a URI against a simple RFC 6570 template such as
+   * `drugs://{slug}/faqs`. Each variable matches one path segment. Returns
+   * the decoded variables, or null when the URI does not fit the template.
+   */
+  static match(template: string, uri: string): Record<string, string> | null {
+    const names: string[] = [];
+    const pattern = template
+      .split(VARIABLE)
+      .map((part, index) => {
+        if (index % 2 === 1) {
+          names.push(part);
+          return '([^/?#]+)';
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    const match = uri.match(new RegExp(`^${pattern}$`));
+    if (!match) return null;
+
+    try {
+      return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Fills in a template's variables, percent-encoding each value. */
+  static expand(template: string, params: Record<string, string>): string {
+    return template.replace(VARIABLE, (_, name) => encodeURIComponent(params[name] ?? ''));
+  }
+}
@@ -3,11 +3,17 @@ import { INestApplication } from '@nestjs/common'
 import * as request from 'supertest'
 import { AppModule } from '../app.module'
 import { PrismaService } from '../prisma/prisma.service'
+import { UsersService } from '../users/users.service'
+import { AuthService } from '../auth/auth.service'
 import { Drug } from '@prisma/client'
 
 describe('DrugsController (Integration)', () => {
   let app: INestApplication
   let prisma: PrismaService
+  let adminToken: string
+
+  const admin = { email: 'integration-admin@example.com', password: 'integration-password' }
+  const auth = () => ({ Authorization: `Bearer ${adminToken}` })
 
   const testDrug = {
     name: 'Test Drug',
@@ -54,6 +60,11 @@ describe('DrugsController (Integration)', () => {
     prisma = moduleFixture.get<PrismaService>(PrismaService)
     
     await app.init()
+
+    // Write endpoints need a signed-in editor or admin
+    await prisma.user.deleteMany({ where: { email: admin.email } })
+    await moduleFixture.get(UsersService).create({ ...admin, role: 'ADMIN' })
+    adminToken = (await moduleFixture.get(AuthService).login(admin.email, admin.password)).accessToken
   })
 
   beforeEach(async () => {
@@ -66,14 +77,23 @@ describe('DrugsController (Integration)', () => {
     // Final cleanup
     await prisma.drugFAQ.deleteMany({})
     await prisma.drug.deleteMany({})
+    await prisma.user.deleteMany({ where: { email: admin.email } })
     await prisma.$disconnect()
     await app.close()
   })
 
   describe('POST /drugs', () => {
+    it('should reject requests without an editor or admin token', async () => {
+      await request(app.getHttpServer())
+        .post('/drugs')
+        .send(testDrug)
+        .expect(401)
+    })
+
     it('should create a new drug', async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
         .expect(201)
 
@@ -93,6 +113,7 @@ describe('DrugsController (Integration)', () => {
 
       await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(invalidDrug)
         .expect(400)
     })
@@ -101,12 +122,14 @@ describe('DrugsController (Integration)', () => {
       // Create first drug
       await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
         .expect(201)
 
       // Try to create second drug with same slug
       await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send({ ...testDrug, name: 'Different Name' })
         .expect(409) // Conflict
     })
@@ -118,6 +141,7 @@ describe('DrugsController (Integration)', () => {
     beforeEach(async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
 
       createdDrug = response.body
@@ -128,8 +152,10 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs')
         .expect(200)
 
-      expect(response.body).toHaveLength(1)
-      expect(response.body[0]).toMatchObject({
+      expect(response.body.drugs).toHaveLength(1)
+      expect(response.body.total).toBe(1)
+      expect(response.body.nextCursor).toBeNull()
+      expect(response.body.drugs[0]).toMatchObject({
         id: createdDrug.id,
         name: testDrug.name,
         slug: testDrug.slug
@@ -140,14 +166,15 @@ describe('DrugsController (Integration)', () => {
       // Create unpublished drug
       await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send({ ...testDrug, name: 'Unpublished Drug', slug: 'unpublished', published: false })
 
       const response = await request(app.getHttpServer())
         .get('/drugs?published=true')
         .expect(200)
 
-      expect(response.body).toHaveLength(1)
-      expect(response.body[0].published).toBe(true)
+      expect(response.body.drugs).toHaveLength(1)
+      expect(response.body.drugs[0].published).toBe(true)
     })
 
     it('should limit results', async () => {
@@ -155,6 +182,7 @@ describe('DrugsController (Integration)', () => {
       for (let i = 1; i <= 5; i++) {
         await request(app.getHttpServer())
           .post('/drugs')
+          .set(auth())
           .send({ 
             ...testDrug, 
             name: `Test Drug ${i}`, 
@@ -166,7 +194,49 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs?limit=3')
         .expect(200)
 
-      expect(response.body).toHaveLength(3)
+      expect(response.body.drugs).toHaveLength(3)
+      expect(response.body.total).toBe(6)
+      expect(response.body.nextCursor).toEqual(expect.any(String))
+    })
+
+    it('should page through drugs with the next cursor', async () => {
+      for (let i = 1; i <= 4; i++) {
+        await request(app.getHttpServer())
+          .post('/drugs')
+          .set(auth())
+          .send({ ...testDrug, name: `Test Drug ${i}`, slug: `test-drug-${i}` })
+      }
+
+      const names: string[] = []
+      let cursor: string | null = null
+      do {
+        const response = await request(app.getHttpServer())
+          .get('/drugs')
+          .query({ limit: 2, fields: 'name,slug', ...(cursor ? { cursor } : {}) })
+          .expect(200)
+
+        names.push(...response.body.drugs.map((drug) => drug.name))
+        cursor = response.body.nextCursor
+      } while (cursor)
+
+      expect(names).toEqual([testDrug.name, 'Test Drug 1', 'Test Drug 2', 'Test Drug 3', 'Test Drug 4'].sort())
+    })
+
+    it('should omit heavy columns unless requested', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/drugs?fields=slug,fdaLabelData')
+        .expect(200)
+
+      expect(Object.keys(response.body.drugs[0]).sort()).toEqual(['fdaLabelData', 'id', 'name', 'slug'])
+
+      const defaults = await request(app.getHttpServer()).get('/drugs').expect(200)
+      expect(defaults.body.drugs[0]).not.toHaveProperty('fdaLabelData')
+    })
+
+    it('should reject unknown sort fields', async () => {
+      await request(app.getHttpServer())
+        .get('/drugs?sort=manufacturer')
+        .expect(400)
     })
   })
 
@@ -176,6 +246,7 @@ describe('DrugsController (Integration)', () => {
     beforeEach(async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
 
       createdDrug = response.body
@@ -218,6 +289,7 @@ describe('DrugsController (Integration)', () => {
     beforeEach(async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
 
       createdDrug = response.body
@@ -248,6 +320,7 @@ describe('DrugsController (Integration)', () => {
     beforeEach(async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
 
       createdDrug = response.body
@@ -286,6 +359,7 @@ describe('DrugsController (Integration)', () => {
     beforeEach(async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send(testDrug)
 
       createdDrug = response.body
@@ -302,6 +376,7 @@ describe('DrugsController (Integration)', () => {
 
       await request(app.getHttpServer())
         .delete(`/drugs/${createdDrug.id}`)
+        .set(auth())
         .expect(200)
 
       // Verify drug is deleted
@@ -319,6 +394,7 @@ describe('DrugsController (Integration)', () => {
     it('should return 404 for non-existent drug', async () => {
       await request(app.getHttpServer())
         .delete('/drugs/non-existent-id')
+        .set(auth())
         .expect(404)
     })
   })
@@ -340,6 +416,7 @@ describe('DrugsController (Integration)', () => {
     it('should process FDA label data successfully', async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs/process-fda-label')
+        .set(auth())
         .send(fdaLabelData)
         .expect(201)
 
@@ -359,6 +436,7 @@ describe('DrugsController (Integration)', () => {
 
       await request(app.getHttpServer())
         .post('/drugs/process-fda-label')
+        .set(auth())
         .send(invalidLabel)
         .expect(400)
     })
@@ -376,6 +454,7 @@ describe('DrugsController (Integration)', () => {
       for (const drug of drugs) {
         await request(app.getHttpServer())
           .post('/drugs')
+          .set(auth())
           .send(drug)
       }
     })
@@ -385,8 +464,9 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs/search?query=aspirin')
         .expect(200)
 
-      expect(response.body).toHaveLength(1)
-      expect(response.body[0].name).toBe('Aspirin')
+      expect(response.body.drugs).toHaveLength(1)
+      expect(response.body.drugs[0].name).toBe('Aspirin')
+      expect(response.body.total).toBe(1)
     })
 
     it('should search drugs by generic name', async () => {
@@ -394,8 +474,8 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs/search?query=acetylsalicylic')
         .expect(200)
 
-      expect(response.body).toHaveLength(1)
-      expect(response.body[0].genericName).toBe('acetylsalicylic acid')
+      expect(response.body.drugs).toHaveLength(1)
+      expect(response.body.drugs[0].genericName).toBe('acetylsalicylic acid')
     })
 
     it('should return empty array for no matches', async () => {
@@ -403,7 +483,8 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs/search?query=nonexistentdrug')
         .expect(200)
 
-      expect(response.body).toHaveLength(0)
+      expect(response.body.drugs).toHaveLength(0)
+      expect(response.body.total).toBe(0)
     })
 
     it('should require query parameter', async () => {
@@ -417,7 +498,8 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs/search?query=a&limit=2')
         .expect(200)
 
-      expect(response.body.length).toBeLessThanOrEqual(2)
+      expect(response.body.drugs.length).toBeLessThanOrEqual(2)
+      expect(response.body.limit).toBe(2)
     })
   })
 
@@ -428,6 +510,7 @@ describe('DrugsController (Integration)', () => {
       
       await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send({
           name: 'Test Drug',
           // Invalid foreign key reference that would cause DB error
@@ -439,6 +522,7 @@ describe('DrugsController (Integration)', () => {
     it('should handle validation errors with proper error messages', async () => {
       const response = await request(app.getHttpServer())
         .post('/drugs')
+        .set(auth())
         .send({
           // Missing required name field
           genericName: 'test'
@@ -458,6 +542,7 @@ describe('DrugsController (Integration)', () => {
         promises.push(
           request(app.getHttpServer())
             .post('/drugs')
+            .set(auth())
             .send({
               ...testDrug,
               name: `Bulk Drug ${i}`,
@@ -476,7 +561,7 @@ describe('DrugsController (Integration)', () => {
         .get('/drugs')
         .expect(200)
 
-      expect(response.body).toHaveLength(10)
+      expect(response.body.total).toBe(10)
     })
 
     it('should handle large search queries efficiently', async () => {
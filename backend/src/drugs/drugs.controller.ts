@@ -1,20 +1,65 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
-import { DrugsService } from './drugs.service';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  MessageEvent,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBody, ApiConsumes } from '@nestjs/swagger';
+import { from, map, Observable } from 'rxjs';
+import { DrugsService, DRUG_SORT_FIELDS } from './drugs.service';
 import { CreateDrugDto } from './dto/create-drug.dto';
 import { UpdateDrugDto } from './dto/update-drug.dto';
 import { ProcessFDALabelDto } from './dto/fda-label.dto';
+import { ReviewContentRevisionDto } from './dto/review-content-revision.dto';
+import { AskLabelQuestionDto } from './dto/ask-label-question.dto';
 import { Drug } from './entities/drug.entity';
+import { LabelSection } from './entities/label-section.entity';
+import { DrugLabelVersion, LabelVersionDiff } from './entities/drug-label-version.entity';
+import { LabelImportReport } from './entities/label-import-report.entity';
+import { ContentRevision } from './entities/content-revision.entity';
+import { DrugQuestion, LabelAnswer } from './entities/label-answer.entity';
+import { DrugSearchResponse } from './entities/drug-search-response.entity';
+import { DrugPage } from './entities/drug-page.entity';
+import { DrugSuggestResponse } from './entities/drug-suggestion.entity';
+import { LabelSectionsService } from './services/label-sections.service';
+import { LabelVersionsService } from './services/label-versions.service';
+import { LabelImportService } from './services/label-import.service';
+import { DrugSearchService } from './services/drug-search.service';
+import { DrugSuggestService } from './services/drug-suggest.service';
+import { ContentRevisionsService } from './services/content-revisions.service';
+import { LabelQuestionsService } from './services/label-questions.service';
+import { SsePost } from '../common/decorators/sse-post.decorator';
 import { RateLimitGuard, StandardRateLimit, AIRateLimit, SearchRateLimit } from '../common/guards/rate-limit.guard';
+import { Auth, CurrentUser } from '../auth/decorators/auth.decorator';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { UserRole } from '@prisma/client';
 
 @ApiTags('drugs')
 @Controller('drugs')
 // @UseGuards(RateLimitGuard)
 // @StandardRateLimit()
 export class DrugsController {
-  constructor(private readonly drugsService: DrugsService) {}
+  constructor(
+    private readonly drugsService: DrugsService,
+    private readonly labelSectionsService: LabelSectionsService,
+    private readonly labelVersionsService: LabelVersionsService,
+    private readonly labelImportService: LabelImportService,
+    private readonly drugSearchService: DrugSearchService,
+    private readonly drugSuggestService: DrugSuggestService,
+    private readonly contentRevisionsService: ContentRevisionsService,
+    private readonly labelQuestionsService: LabelQuestionsService,
+  ) {}
 
   @Post()
+  @Auth(UserRole.EDITOR)
   @ApiOperation({ summary: 'Create a new drug' })
   @ApiResponse({ status: 201, description: 'Drug created successfully', type: Drug })
   create(@Body() createDrugDto: CreateDrugDto) {
@@ -22,35 +67,85 @@ export class DrugsController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all drugs' })
+  @ApiOperation({ summary: 'List drugs one page at a time' })
   @ApiQuery({ name: 'published', required: false, type: Boolean })
-  @ApiResponse({ status: 200, description: 'Drugs retrieved successfully', type: [Drug] })
-  findAll(@Query('published') published?: string) {
-    const publishedBool = published === 'true' ? true : published === 'false' ? false : undefined;
-    return this.drugsService.findAll(publishedBool);
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Page size (default 50, max 200)' })
+  @ApiQuery({ name: 'cursor', required: false, type: String, description: 'nextCursor from the previous page' })
+  @ApiQuery({ name: 'sort', required: false, enum: DRUG_SORT_FIELDS, description: 'Sort field (default name)' })
+  @ApiQuery({ name: 'order', required: false, enum: ['asc', 'desc'], description: 'Defaults to asc for name, desc for dates' })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    type: String,
+    description: 'Comma-separated fields to return, e.g. slug,name,updatedAt; faqs includes FAQs. Defaults to all but fdaLabelData',
+  })
+  @ApiResponse({ status: 200, description: 'Page of drugs with the next cursor', type: DrugPage })
+  @ApiResponse({ status: 400, description: 'Invalid sort, order, cursor or fields' })
+  findAll(
+    @Query('published') published?: string,
+    @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
+    @Query('sort') sort?: string,
+    @Query('order') order?: string,
+    @Query('fields') fields?: string,
+  ) {
+    return this.drugsService.findAll({
+      published: published === 'true' ? true : published === 'false' ? false : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      cursor,
+      sort,
+      order,
+      fields: fields
+        ?.split(',')
+        .map((field) => field.trim())
+        .filter(Boolean),
+    });
   }
 
   @Get('search')
-  @ApiOperation({ summary: 'Search drugs by name or generic name' })
-  @ApiQuery({ name: 'query', required: true, type: String, description: 'Search query' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum number of results' })
+  @ApiOperation({ summary: 'Full-text search over drug names and label content' })
+  @ApiQuery({ name: 'query', required: true, type: String, description: 'Search query; supports "quoted phrases", OR and -exclusions' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum number of results (default 20, max 100)' })
+  @ApiQuery({ name: 'offset', required: false, type: Number, description: 'Number of results to skip' })
   @ApiQuery({ name: 'manufacturer', required: false, type: String, description: 'Filter by manufacturer' })
   @ApiQuery({ name: 'route', required: false, type: String, description: 'Filter by administration route' })
-  @ApiResponse({ status: 200, description: 'Drugs found', type: [Drug] })
+  @ApiQuery({ name: 'productType', required: false, type: String, description: 'Filter by product type, e.g. HUMAN PRESCRIPTION DRUG' })
+  @ApiQuery({ name: 'hasBoxedWarning', required: false, type: Boolean, description: 'Filter by presence of a boxed warning' })
+  @ApiQuery({ name: 'hasPediatricUse', required: false, type: Boolean, description: 'Filter by established pediatric use' })
+  @ApiResponse({ status: 200, description: 'Ranked drugs with highlighted snippets and facet counts', type: DrugSearchResponse })
+  @ApiResponse({ status: 400, description: 'Missing search query' })
   // @SearchRateLimit()
   search(
     @Query('query') query: string,
     @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
     @Query('manufacturer') manufacturer?: string,
     @Query('route') route?: string,
+    @Query('productType') productType?: string,
+    @Query('hasBoxedWarning') hasBoxedWarning?: string,
+    @Query('hasPediatricUse') hasPediatricUse?: string,
   ) {
-    return this.drugsService.search(query, {
+    return this.drugSearchService.search(query, {
       limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
       manufacturer,
       route,
+      productType,
+      hasBoxedWarning: hasBoxedWarning === 'true' ? true : hasBoxedWarning === 'false' ? false : undefined,
+      hasPediatricUse: hasPediatricUse === 'true' ? true : hasPediatricUse === 'false' ? false : undefined,
     });
   }
 
+  @Get('suggest')
+  @ApiOperation({ summary: 'Typo-tolerant autocomplete over brand, generic and FDA brand names' })
+  @ApiQuery({ name: 'query', required: true, type: String, description: 'Partial or misspelled drug name' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum number of suggestions (default 8, max 20)' })
+  @ApiResponse({ status: 200, description: 'Ranked name suggestions', type: DrugSuggestResponse })
+  @ApiResponse({ status: 400, description: 'Missing query' })
+  suggest(@Query('query') query: string, @Query('limit') limit?: string) {
+    return this.drugSuggestService.suggest(query, limit ? parseInt(limit, 10) : undefined);
+  }
+
   @Post('compare')
   @ApiOperation({ summary: 'Compare multiple drugs by IDs' })
   @ApiResponse({ status: 200, description: 'Drugs comparison data retrieved', type: [Drug] })
@@ -59,6 +154,70 @@ export class DrugsController {
     return this.drugsService.compareByIds(drugIds.ids);
   }
 
+  @Get('content-revisions')
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Review queue of AI-generated content revisions, oldest first' })
+  @ApiQuery({ name: 'status', required: false, enum: ['pending', 'approved', 'partially_approved', 'rejected', 'superseded'], description: 'Defaults to pending' })
+  @ApiQuery({ name: 'flagged', required: false, type: Boolean, description: 'Only revisions with (or without) validator issues' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum number of revisions (default 50, max 200)' })
+  @ApiResponse({ status: 200, description: 'Content revisions retrieved', type: [ContentRevision] })
+  @ApiResponse({ status: 400, description: 'Unknown status' })
+  getReviewQueue(
+    @Query('status') status?: string,
+    @Query('flagged') flagged?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.contentRevisionsService.listQueue({
+      status,
+      flagged: flagged === 'true' ? true : flagged === 'false' ? false : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
+  @Get('content-revisions/:revisionId')
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Get a content revision with its validator findings' })
+  @ApiResponse({ status: 200, description: 'Content revision found', type: ContentRevision })
+  @ApiResponse({ status: 404, description: 'Content revision not found' })
+  getContentRevision(@Param('revisionId') revisionId: string) {
+    return this.contentRevisionsService.findOne(revisionId);
+  }
+
+  @Post('content-revisions/:revisionId/review')
+  @Auth(UserRole.MEDICAL_REVIEWER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve, edit or reject the fields of a content revision' })
+  @ApiResponse({ status: 200, description: 'Decisions recorded and approved fields published to the drug', type: ContentRevision })
+  @ApiResponse({ status: 400, description: 'Unknown field, field already reviewed or edit without a value' })
+  @ApiResponse({ status: 404, description: 'Content revision not found' })
+  @ApiResponse({ status: 409, description: 'Revision is no longer pending' })
+  reviewContentRevision(
+    @Param('revisionId') revisionId: string,
+    @Body() reviewDto: ReviewContentRevisionDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.contentRevisionsService.review(revisionId, reviewDto, user);
+  }
+
+  @Get('questions')
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Questions patients asked about drug labels, newest first, for FAQ curation' })
+  @ApiQuery({ name: 'drugId', required: false, type: String })
+  @ApiQuery({ name: 'answered', required: false, type: Boolean, description: 'Only answered (or declined) questions' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Maximum number of questions (default 50, max 200)' })
+  @ApiResponse({ status: 200, description: 'Questions retrieved', type: [DrugQuestion] })
+  getQuestions(
+    @Query('drugId') drugId?: string,
+    @Query('answered') answered?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.labelQuestionsService.listQuestions({
+      drugId,
+      answered: answered === 'true' ? true : answered === 'false' ? false : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  }
+
   @Get('slug/:slug')
   @ApiOperation({ summary: 'Get drug by slug' })
   @ApiResponse({ status: 200, description: 'Drug found', type: Drug })
@@ -67,6 +226,14 @@ export class DrugsController {
     return this.drugsService.findBySlug(slug);
   }
 
+  @Get('slug/:slug/sections')
+  @ApiOperation({ summary: 'Get the label section tree for a drug by slug' })
+  @ApiResponse({ status: 200, description: 'Label sections retrieved', type: [LabelSection] })
+  @ApiResponse({ status: 404, description: 'Drug not found' })
+  getSectionsBySlug(@Param('slug') slug: string) {
+    return this.labelSectionsService.getTreeBySlug(slug);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get drug by ID' })
   @ApiResponse({ status: 200, description: 'Drug found', type: Drug })
@@ -75,7 +242,54 @@ export class DrugsController {
     return this.drugsService.findOne(id);
   }
 
+  @Get(':id/sections')
+  @ApiOperation({ summary: 'Get the label section tree for a drug' })
+  @ApiResponse({ status: 200, description: 'Label sections retrieved', type: [LabelSection] })
+  @ApiResponse({ status: 404, description: 'Drug not found' })
+  getSections(@Param('id') id: string) {
+    return this.labelSectionsService.getTreeByDrugId(id);
+  }
+
+  @Get(':id/content-revisions')
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'List every AI content revision for a drug, newest first' })
+  @ApiResponse({ status: 200, description: 'Content revisions retrieved', type: [ContentRevision] })
+  @ApiResponse({ status: 404, description: 'Drug not found' })
+  getDrugContentRevisions(@Param('id') id: string) {
+    return this.contentRevisionsService.listForDrug(id);
+  }
+
+  @Get(':id/label-versions')
+  @ApiOperation({ summary: 'List every ingested version of a drug label' })
+  @ApiResponse({ status: 200, description: 'Label versions retrieved', type: [DrugLabelVersion] })
+  @ApiResponse({ status: 404, description: 'Drug not found' })
+  getLabelVersions(@Param('id') id: string) {
+    return this.labelVersionsService.listVersions(id);
+  }
+
+  @Get(':id/label-versions/diff')
+  @ApiOperation({ summary: 'Section-level diff between two label versions' })
+  @ApiQuery({ name: 'from', required: false, type: Number, description: 'Older version number (default: the one before "to")' })
+  @ApiQuery({ name: 'to', required: false, type: Number, description: 'Newer version number (default: latest)' })
+  @ApiQuery({ name: 'includeUnchanged', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Label diff computed', type: LabelVersionDiff })
+  @ApiResponse({ status: 400, description: 'Fewer than two versions or invalid version numbers' })
+  @ApiResponse({ status: 404, description: 'Drug or version not found' })
+  diffLabelVersions(
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('includeUnchanged') includeUnchanged?: string,
+  ) {
+    return this.labelVersionsService.diffVersions(id, {
+      from: from ? parseInt(from, 10) : undefined,
+      to: to ? parseInt(to, 10) : undefined,
+      includeUnchanged: includeUnchanged === 'true',
+    });
+  }
+
   @Patch(':id')
+  @Auth(UserRole.EDITOR)
   @ApiOperation({ summary: 'Update a drug' })
   @ApiResponse({ status: 200, description: 'Drug updated successfully', type: Drug })
   @ApiResponse({ status: 404, description: 'Drug not found' })
@@ -84,6 +298,7 @@ export class DrugsController {
   }
 
   @Delete(':id')
+  @Auth(UserRole.ADMIN)
   @ApiOperation({ summary: 'Delete a drug' })
   @ApiResponse({ status: 200, description: 'Drug deleted successfully' })
   @ApiResponse({ status: 404, description: 'Drug not found' })
@@ -91,7 +306,25 @@ export class DrugsController {
     return this.drugsService.remove(id);
   }
 
+  @Post('import')
+  @Auth(UserRole.EDITOR)
+  @ApiOperation({ summary: 'Bulk import Labels.json records, upserting drugs by SPL set ID' })
+  @ApiConsumes('application/json', 'application/x-ndjson')
+  @ApiBody({
+    description: 'Labels.json-format array of records, or NDJSON with one record per line',
+    schema: { type: 'array', items: { type: 'object' } },
+  })
+  @ApiQuery({ name: 'dryRun', required: false, type: Boolean, description: 'Report what would change without writing' })
+  @ApiResponse({ status: 201, description: 'Per-record import results', type: LabelImportReport })
+  @ApiResponse({ status: 400, description: 'Malformed JSON or NDJSON body' })
+  importLabels(@Body() body: any, @Query('dryRun') dryRun?: string) {
+    return this.labelImportService.importLabels(this.labelImportService.parseRecords(body), {
+      dryRun: dryRun === 'true',
+    });
+  }
+
   @Post('process-fda-label')
+  @Auth(UserRole.EDITOR)
   @ApiOperation({ summary: 'Process FDA label data for a drug' })
   @ApiResponse({ status: 200, description: 'FDA label processed successfully', type: Drug })
   @ApiResponse({ status: 404, description: 'Drug not found' })
@@ -104,6 +337,7 @@ export class DrugsController {
   }
 
   @Post(':id/process-fda-label')
+  @Auth(UserRole.EDITOR)
   @ApiOperation({ summary: 'Process FDA label data for a specific drug by ID' })
   @ApiResponse({ status: 200, description: 'FDA label processed successfully', type: Drug })
   @ApiResponse({ status: 404, description: 'Drug not found' })
@@ -112,23 +346,51 @@ export class DrugsController {
     return this.drugsService.processFDALabel(id, fdaLabel);
   }
 
+  @Post(':slug/ask')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(RateLimitGuard)
+  @AIRateLimit()
+  @ApiOperation({ summary: "Answer a patient's question from the drug's FDA label, with section citations" })
+  @ApiBody({ type: AskLabelQuestionDto })
+  @ApiResponse({ status: 200, description: 'Answer, or a decline when the label does not cover the question', type: LabelAnswer })
+  @ApiResponse({ status: 400, description: 'Missing or too long question' })
+  @ApiResponse({ status: 404, description: 'Drug not found' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  askLabelQuestion(@Param('slug') slug: string, @Body() askDto: AskLabelQuestionDto) {
+    return this.labelQuestionsService.ask(slug, askDto.question);
+  }
+
   @Post(':id/enhance-with-ai')
-  @ApiOperation({ summary: 'Enhance drug with AI-generated content' })
-  @ApiResponse({ status: 200, description: 'Drug enhanced successfully', type: Drug })
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Generate AI content for a drug as a draft revision for medical review' })
+  @ApiResponse({ status: 201, description: 'Draft revision created', type: ContentRevision })
   @ApiResponse({ status: 404, description: 'Drug not found' })
   @ApiResponse({ status: 400, description: 'AI enhancement failed' })
   // @AIRateLimit()
-  enhanceDrugWithAI(@Param('id') id: string) {
-    return this.drugsService.enhanceDrugWithAI(id);
+  enhanceDrugWithAI(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.drugsService.enhanceDrugWithAI(id, user.id);
+  }
+
+  @SsePost(':id/enhance-with-ai/stream')
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Stream AI content for a drug as server-sent events, ending with the draft revision' })
+  @ApiResponse({
+    status: 200,
+    description: 'text/event-stream of `field` events as content is generated, ending with `done` and the draft revision',
+  })
+  streamEnhanceDrugWithAI(@Param('id') id: string, @CurrentUser() user: AuthUser): Observable<MessageEvent> {
+    const events = this.drugsService.streamEnhanceDrugWithAI(id, user.id);
+    return from(events).pipe(map((event) => ({ type: event.type, data: event })));
   }
 
   @Post(':id/generate-seo')
-  @ApiOperation({ summary: 'Generate SEO content for drug' })
-  @ApiResponse({ status: 200, description: 'SEO content generated successfully' })
+  @Auth(UserRole.EDITOR, UserRole.MEDICAL_REVIEWER)
+  @ApiOperation({ summary: 'Generate an SEO title and meta description as a draft revision for review' })
+  @ApiResponse({ status: 201, description: 'Draft revision created' })
   @ApiResponse({ status: 404, description: 'Drug not found' })
   @ApiResponse({ status: 400, description: 'SEO generation failed' })
   // @AIRateLimit()
-  generateSEOContent(@Param('id') id: string) {
-    return this.drugsService.generateSEOContent(id);
+  generateSEOContent(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    return this.drugsService.generateSEOContent(id, user.id);
   }
 }
\ No newline at end of file
@@ -1,12 +1,37 @@
 import { Module } from '@nestjs/common';
 import { DrugsService } from './drugs.service';
 import { DrugsController } from './drugs.controller';
+import { LabelSectionsService } from './services/label-sections.service';
+import { LabelVersionsService } from './services/label-versions.service';
+import { LabelImportService } from './services/label-import.service';
+import { DrugSearchService } from './services/drug-search.service';
+import { DrugSuggestService } from './services/drug-suggest.service';
+import { ContentRevisionsService } from './services/content-revisions.service';
+import { LabelQuestionsService } from './services/label-questions.service';
 import { AiServiceModule } from '../ai-service/ai-service.module';
 
 @Module({
   imports: [AiServiceModule],
   controllers: [DrugsController],
-  providers: [DrugsService],
-  exports: [DrugsService],
+  providers: [
+    DrugsService,
+    LabelSectionsService,
+    LabelVersionsService,
+    LabelImportService,
+    DrugSearchService,
+    DrugSuggestService,
+    ContentRevisionsService,
+    LabelQuestionsService,
+  ],
+  exports: [
+    DrugsService,
+    LabelSectionsService,
+    LabelVersionsService,
+    LabelImportService,
+    DrugSearchService,
+    DrugSuggestService,
+    ContentRevisionsService,
+    LabelQuestionsService,
+  ],
 })
 export class DrugsModule {}
\ No newline at end of file
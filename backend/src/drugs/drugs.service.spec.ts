@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DrugsService } from './drugs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AiServiceService } from '../ai-service/ai-service.service';
+import { LabelSectionsService } from './services/label-sections.service';
+import { LabelVersionsService } from './services/label-versions.service';
+import { ContentRevisionsService } from './services/content-revisions.service';
+import { DrugEventsService } from '../events/drug-events.service';
+import { PageCursor } from '../common/utils/page-cursor.util';
+
+describe('DrugsService', () => {
+  let service: DrugsService;
+  let prisma: { drug: { findMany: jest.Mock; count: jest.Mock; findUnique: jest.Mock; update: jest.Mock } };
+  let drugEvents: DrugEventsService;
+  let aiService: { enhanceDrugContent: jest.Mock; streamEnhancedContent: jest.Mock };
+  let labelSections: { getChunks: jest.Mock };
+  let contentRevisions: { createDraft: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      drug: {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+    drugEvents = new DrugEventsService();
+    aiService = { enhanceDrugContent: jest.fn(), streamEnhancedContent: jest.fn() };
+    labelSections = { getChunks: jest.fn().mockResolvedValue([]) };
+    contentRevisions = { createDraft: jest.fn().mockResolvedValue({ id: 'revision-1', status: 'PENDING' }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DrugsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AiServiceService, useValue: aiService },
+        { provide: LabelSectionsService, useValue: labelSections },
+        { provide: LabelVersionsService, useValue: {} },
+        { provide: ContentRevisionsService, useValue: contentRevisions },
+        { provide: DrugEventsService, useValue: drugEvents },
+      ],
+    }).compile();
+
+    service = module.get<DrugsService>(DrugsService);
+  });
+
+  describe('findAll', () => {
+    it('should return a page with a cursor after its last row when more rows exist', async () => {
+      prisma.drug.findMany.mockResolvedValue([
+        { id: 'a', name: 'Emgality' },
+        { id: 'b', name: 'Mounjaro' },
+        { id: 'c', name: 'Taltz' },
+      ]);
+      prisma.drug.count.mockResolvedValue(8);
+
+      const page = await service.findAll({ published: true, limit: 2 });
+
+      expect(page.drugs.map((drug) => drug.id)).toEqual(['a', 'b']);
+      expect(page).toMatchObject({ total: 8, limit: 2 });
+      expect(PageCursor.decode(page.nextCursor)).toEqual({ sort: 'name', order: 'asc', value: 'Mounjaro', id: 'b' });
+      expect(prisma.drug.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { published: true },
+          orderBy: [{ name: 'asc' }, { id: 'asc' }],
+          take: 3,
+        }),
+      );
+    });
+
+    it('should continue after the cursor, keeping drugs without an effective time last', async () => {
+      const cursor = PageCursor.encode({
+        sort: 'effectiveTime',
+        order: 'desc',
+        value: '2024-01-01T00:00:00.000Z',
+        id: 'b',
+      });
+
+      const page = await service.findAll({ sort: 'effectiveTime', cursor });
+
+      expect(page.nextCursor).toBeNull();
+      expect(prisma.drug.findMany.mock.calls[0][0]).toMatchObject({
+        where: {
+          AND: [
+            {},
+            {
+              OR: [
+                { effectiveTime: { lt: new Date('2024-01-01T00:00:00.000Z') } },
+                { effectiveTime: new Date('2024-01-01T00:00:00.000Z'), id: { gt: 'b' } },
+                { effectiveTime: null },
+              ],
+            },
+          ],
+        },
+        orderBy: [{ effectiveTime: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+      });
+    });
+
+    it('should select requested fields plus the id and sort column', async () => {
+      await service.findAll({ sort: 'updatedAt', fields: ['slug', 'faqs'] });
+
+      expect(prisma.drug.findMany.mock.calls[0][0].select).toEqual({
+        id: true,
+        updatedAt: true,
+        slug: true,
+        faqs: true,
+      });
+    });
+
+    it('should leave out fdaLabelData by default', async () => {
+      await service.findAll();
+
+      const select = prisma.drug.findMany.mock.calls[0][0].select;
+      expect(select.fdaLabelData).toBeUndefined();
+      expect(select).toMatchObject({ name: true, indications: true, faqs: true });
+    });
+
+    it('should reject unknown fields, sorts and cursors from another sort', async () => {
+      await expect(service.findAll({ fields: ['secret'] })).rejects.toThrow('Unknown fields: secret');
+      await expect(service.findAll({ sort: 'manufacturer' })).rejects.toThrow(BadRequestException);
+
+      const cursor = PageCursor.encode({ sort: 'name', order: 'asc', value: 'Taltz', id: 'c' });
+      await expect(service.findAll({ sort: 'updatedAt', cursor })).rejects.toThrow(
+        'Cursor was issued for a different sort order',
+      );
+      await expect(service.findAll({ cursor: 'garbage' })).rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('update', () => {
+    it('should emit an update and a publish event when the drug is published', async () => {
+      const events = [];
+      drugEvents.changes$.subscribe((event) => events.push(event.type));
+      prisma.drug.findUnique.mockResolvedValue({ id: 'a', slug: 'taltz', published: false });
+      prisma.drug.update.mockResolvedValue({ id: 'a', slug: 'taltz', published: true, faqs: [] });
+
+      await service.update('a', { published: true });
+
+      expect(events).toEqual(['updated', 'published']);
+    });
+  });
+
+  describe('enhanceDrugWithAI', () => {
+    it('should store generated content as a draft revision without touching the drug', async () => {
+      const events = [];
+      drugEvents.changes$.subscribe((event) => events.push(event.type));
+      const labelChunks = [
+        { section: '1', title: '1 INDICATIONS AND USAGE', code: '34067-9', labelKey: 'indicationsAndUsage', text: 'Plaque psoriasis.' },
+      ];
+      prisma.drug.findUnique.mockResolvedValue({ id: 'a', name: 'Taltz', brandNames: [], faqs: [] });
+      labelSections.getChunks.mockResolvedValue(labelChunks);
+      aiService.enhanceDrugContent.mockResolvedValue({
+        title: 'Taltz (ixekizumab) Uses, Dosage and Side Effects',
+        description: 'Taltz treats plaque psoriasis.',
+        seoMetaTitle: 'Taltz (ixekizumab) Uses, Dosage and Side Effects',
+        seoMetaDescription: 'Learn about Taltz.',
+        faqs: [{ question: 'What is Taltz?', answer: 'An injectable biologic.' }],
+      });
+
+      const revision = await service.enhanceDrugWithAI('a', 'user-1');
+
+      expect(revision).toEqual({ id: 'revision-1', status: 'PENDING' });
+      expect(contentRevisions.createDraft).toHaveBeenCalledWith(
+        'a',
+        'enhance-with-ai',
+        expect.objectContaining({
+          aiEnhancedDescription: 'Taltz treats plaque psoriasis.',
+          faqs: [{ question: 'What is Taltz?', answer: 'An injectable biologic.' }],
+        }),
+        expect.objectContaining({ drugName: 'Taltz', labelChunks }),
+        'user-1',
+      );
+      expect(prisma.drug.update).not.toHaveBeenCalled();
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('streamEnhanceDrugWithAI', () => {
+    it('should pass generated fields through and finish with the draft revision', async () => {
+      prisma.drug.findUnique.mockResolvedValue({ id: 'a', name: 'Taltz', brandNames: [], faqs: [] });
+      aiService.streamEnhancedContent.mockImplementation(async function* () {
+        yield { type: 'field', field: 'description', value: 'Taltz treats' };
+        yield { type: 'field', field: 'description', value: 'Taltz treats plaque psoriasis.' };
+        yield {
+          type: 'done',
+          result: {
+            title: 'Taltz Uses',
+            description: 'Taltz treats plaque psoriasis.',
+            seoMetaTitle: 'Taltz Uses',
+            seoMetaDescription: 'Learn about Taltz.',
+            faqs: [],
+          },
+        };
+      });
+
+      const events = [];
+      for await (const event of service.streamEnhanceDrugWithAI('a', 'user-1')) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        { type: 'field', field: 'description', value: 'Taltz treats' },
+        { type: 'field', field: 'description', value: 'Taltz treats plaque psoriasis.' },
+        { type: 'done', result: { id: 'revision-1', status: 'PENDING' } },
+      ]);
+      expect(contentRevisions.createDraft).toHaveBeenCalledWith(
+        'a',
+        'enhance-with-ai',
+        expect.objectContaining({ aiEnhancedDescription: 'Taltz treats plaque psoriasis.' }),
+        expect.objectContaining({ drugName: 'Taltz' }),
+        'user-1',
+      );
+    });
+  });
+});
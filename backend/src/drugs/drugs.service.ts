@@ -1,11 +1,45 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { Drug, DrugContentRevision, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateDrugDto } from './dto/create-drug.dto';
 import { UpdateDrugDto } from './dto/update-drug.dto';
 import { FDALabelDto } from './dto/fda-label.dto';
 import { DataSanitizer } from '../common/utils/data-sanitizer.util';
-import { AiServiceService } from '../ai-service/ai-service.service';
-import { DrugContentContext } from '../ai-service/interfaces/ai-provider.interface';
+import { SplSectionParser } from '../common/utils/spl-section-parser.util';
+import { DosageFormExtractor } from '../common/utils/dosage-form-extractor.util';
+import { BoxedWarningDetector } from '../common/utils/boxed-warning-detector.util';
+import { LabelFacetExtractor } from '../common/utils/label-facet-extractor.util';
+import { CursorPosition, PageCursor } from '../common/utils/page-cursor.util';
+import { LabelSectionsService } from './services/label-sections.service';
+import { LabelVersionsService } from './services/label-versions.service';
+import { ContentRevisionsService } from './services/content-revisions.service';
+import { AiServiceService, EnhancedContent } from '../ai-service/ai-service.service';
+import { DrugChangeType, DrugEventsService } from '../events/drug-events.service';
+import { AIStreamEvent, DrugContentContext } from '../ai-service/interfaces/ai-provider.interface';
+
+export const DRUG_SORT_FIELDS = ['name', 'updatedAt', 'effectiveTime'] as const;
+
+export type DrugSortField = (typeof DRUG_SORT_FIELDS)[number];
+
+export interface DrugListOptions {
+  published?: boolean;
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+  order?: string;
+  fields?: string[];
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/** Columns left out of list responses unless requested through `fields`. */
+const HEAVY_FIELDS: string[] = [Prisma.DrugScalarFieldEnum.fdaLabelData];
+
+const SELECTABLE_FIELDS: string[] = [...Object.values(Prisma.DrugScalarFieldEnum), 'faqs'];
+
+/** Storing a label writes the drug, up to a few hundred sections and a version snapshot. */
+const LABEL_TRANSACTION_TIMEOUT_MS = 15000;
 
 @Injectable()
 export class DrugsService {
@@ -14,65 +48,66 @@ export class DrugsService {
   constructor(
     private prisma: PrismaService,
     private aiService: AiServiceService,
+    private labelSectionsService: LabelSectionsService,
+    private labelVersionsService: LabelVersionsService,
+    private contentRevisionsService: ContentRevisionsService,
+    private drugEvents: DrugEventsService,
   ) {}
 
   async create(createDrugDto: CreateDrugDto) {
-    return this.prisma.drug.create({
+    const drug = await this.prisma.drug.create({
       data: createDrugDto,
       include: {
         faqs: true,
       },
     });
-  }
 
-  async findAll(published?: boolean) {
-    return this.prisma.drug.findMany({
-      where: published !== undefined ? { published } : undefined,
-      include: {
-        faqs: true,
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-    });
+    this.drugEvents.emit('created', drug);
+    return drug;
   }
 
-  async search(query: string, options?: {
-    limit?: number;
-    manufacturer?: string;
-    route?: string;
-  }) {
-    const { limit = 20, manufacturer, route } = options || {};
-    
-    const whereClause: any = {
-      published: true,
-      OR: [
-        { name: { contains: query, mode: 'insensitive' } },
-        { genericName: { contains: query, mode: 'insensitive' } },
-        { fdaBrandName: { contains: query, mode: 'insensitive' } },
-        { manufacturer: { contains: query, mode: 'insensitive' } },
-      ],
-    };
-
-    if (manufacturer) {
-      whereClause.manufacturer = { contains: manufacturer, mode: 'insensitive' };
+  /**
+   * One page of drugs in keyset order. The cursor is the last row's sort
+   * value plus its id, so pages stay stable while drugs are added or updated.
+   * Names sort ascending by default; dates sort newest first, with drugs
+   * lacking an effective time last.
+   */
+  async findAll(options: DrugListOptions = {}) {
+    const sort = (options.sort ?? 'name') as DrugSortField;
+    if (!DRUG_SORT_FIELDS.includes(sort)) {
+      throw new BadRequestException(`sort must be one of: ${DRUG_SORT_FIELDS.join(', ')}`);
     }
 
-    if (route) {
-      whereClause.route = { contains: route, mode: 'insensitive' };
+    const order = options.order ?? (sort === 'name' ? 'asc' : 'desc');
+    if (order !== 'asc' && order !== 'desc') {
+      throw new BadRequestException('order must be asc or desc');
     }
 
-    return this.prisma.drug.findMany({
-      where: whereClause,
-      include: {
-        faqs: true,
-      },
-      take: limit,
-      orderBy: [
-        { name: 'asc' },
-        { createdAt: 'desc' },
-      ],
-    });
+    const limit = Math.min(Math.max(options.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const where: Prisma.DrugWhereInput = options.published !== undefined ? { published: options.published } : {};
+    const position = options.cursor ? this.decodeCursor(options.cursor, sort, order) : null;
+
+    const [rows, total] = await Promise.all([
+      this.prisma.drug.findMany({
+        where: position ? { AND: [where, this.afterCursor(position)] } : where,
+        select: this.buildListSelect(options.fields, sort),
+        orderBy: [
+          { [sort]: sort === 'effectiveTime' ? { sort: order, nulls: 'last' } : order },
+          { id: 'asc' },
+        ],
+        take: limit + 1,
+      }),
+      this.prisma.drug.count({ where }),
+    ]);
+
+    const drugs = rows.slice(0, limit);
+    const last = drugs[drugs.length - 1];
+    const nextCursor =
+      rows.length > limit
+        ? PageCursor.encode({ sort, order, value: PageCursor.valueOf(last[sort]), id: last.id })
+        : null;
+
+    return { drugs, total, limit, nextCursor };
   }
 
   async compareByIds(drugIds: string[]) {
@@ -148,13 +183,16 @@ export class DrugsService {
       throw new NotFoundException(`Drug with ID ${id} not found`);
     }
 
-    return this.prisma.drug.update({
+    const updatedDrug = await this.prisma.drug.update({
       where: { id },
       data: updateDrugDto,
       include: {
         faqs: true,
       },
     });
+
+    this.drugEvents.emitUpdate(drug, updatedDrug);
+    return updatedDrug;
   }
 
   async remove(id: string) {
@@ -166,12 +204,23 @@ export class DrugsService {
       throw new NotFoundException(`Drug with ID ${id} not found`);
     }
 
-    return this.prisma.drug.delete({
+    const deletedDrug = await this.prisma.drug.delete({
       where: { id },
     });
+
+    this.drugEvents.emit('deleted', deletedDrug);
+    return deletedDrug;
   }
 
-  async processFDALabel(drugId: string, fdaLabel: FDALabelDto | any) {
+  /**
+   * Stores a label on the drug. Emits `label_processed` unless the caller
+   * names the event, e.g. `created` for a drug an import just added.
+   */
+  async processFDALabel(
+    drugId: string,
+    fdaLabel: FDALabelDto | any,
+    options: { event?: DrugChangeType } = {},
+  ) {
     try {
       const drug = await this.findOne(drugId);
       
@@ -186,20 +235,31 @@ export class DrugsService {
         throw new BadRequestException('No valid FDA label data provided');
       }
 
-      const parsedData = this.parseFDALabelData(sanitizedLabel);
+      const splLabel = SplSectionParser.resolveLabel(sanitizedLabel.raw_data);
+      const setId = SplSectionParser.resolveSetId(sanitizedLabel.raw_data);
+      const parsedData = this.parseFDALabelData(sanitizedLabel, splLabel);
+
+      if (setId) {
+        const setOwner = await this.prisma.drug.findUnique({
+          where: { setId },
+          select: { id: true },
+        });
+
+        if (setOwner && setOwner.id !== drugId) {
+          throw new ConflictException(`Label set ${setId} is already assigned to drug ${setOwner.id}`);
+        }
+      }
       
       const updateData = {
         fdaLabelData: sanitizedLabel.raw_data || sanitizedLabel,
-        fdaGenericName: DataSanitizer.sanitizeString(sanitizedLabel.generic_name),
-        fdaBrandName: DataSanitizer.sanitizeString(sanitizedLabel.brand_name),
-        manufacturer: DataSanitizer.sanitizeString(sanitizedLabel.manufacturer),
-        route: DataSanitizer.sanitizeString(sanitizedLabel.route),
-        indications: parsedData.indications,
-        contraindications: parsedData.contraindications,
-        warnings: parsedData.warnings,
-        boxedWarning: parsedData.boxedWarning,
-        dosageInfo: parsedData.dosageInfo,
-        adverseReactions: parsedData.adverseReactions,
+        setId: setId ?? drug.setId,
+        effectiveTime: SplSectionParser.parseEffectiveTime(splLabel?.effectiveTime) ?? drug.effectiveTime,
+        fdaGenericName: DataSanitizer.sanitizeString(sanitizedLabel.generic_name ?? splLabel?.genericName),
+        fdaBrandName: DataSanitizer.sanitizeString(sanitizedLabel.brand_name ?? sanitizedLabel.raw_data?.drugName),
+        manufacturer: DataSanitizer.sanitizeString(sanitizedLabel.manufacturer ?? sanitizedLabel.raw_data?.labeler),
+        productType: LabelFacetExtractor.productType(sanitizedLabel.product_type ?? splLabel?.productType),
+        ...this.extractRouteAndForms(sanitizedLabel.route, splLabel, parsedData.dosageInfo),
+        ...parsedData,
       };
 
       this.logger.log(`Processing FDA label for drug ${drugId}`, {
@@ -208,15 +268,34 @@ export class DrugsService {
         hasContraindications: !!updateData.contraindications,
       });
 
-      return await this.prisma.drug.update({
-        where: { id: drugId },
-        data: updateData,
-        include: {
-          faqs: true,
+      // The drug, its section tree and its version history change together or not at all
+      const updatedDrug = await this.prisma.$transaction(
+        async (tx) => {
+          const updated = await tx.drug.update({
+            where: { id: drugId },
+            data: updateData,
+            include: {
+              faqs: true,
+            },
+          });
+
+          // Without an SPL label this clears the tree, so sections from an older label are not served
+          await this.labelSectionsService.replaceForDrug(drugId, splLabel, tx);
+
+          await this.labelVersionsService.recordVersion(drugId, updateData.fdaLabelData, tx);
+          return updated;
         },
-      });
+        { timeout: LABEL_TRANSACTION_TIMEOUT_MS },
+      );
+
+      this.drugEvents.emit(options.event ?? 'label_processed', updatedDrug);
+      return updatedDrug;
     } catch (error) {
-      if (error instanceof NotFoundException || error instanceof BadRequestException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
         throw error;
       }
       
@@ -225,17 +304,133 @@ export class DrugsService {
     }
   }
 
-  private parseFDALabelData(fdaLabel: FDALabelDto) {
+  /**
+   * Structured openFDA-style fields take precedence; sections they don't
+   * cover are filled from the Labels.json label HTML when one is attached.
+   */
+  private parseFDALabelData(fdaLabel: FDALabelDto, splLabel?: any) {
+    const splText = SplSectionParser.extractTextFields(splLabel);
+    const boxedWarning =
+      BoxedWarningDetector.detect(splLabel) ??
+      BoxedWarningDetector.fromText(this.extractBoxedWarning(fdaLabel.warnings));
+    const useInSpecificPopulations =
+      this.extractSection(fdaLabel.use_in_specific_populations, 'use in specific populations') ??
+      splText.useInSpecificPopulations;
+    const pediatricUse =
+      LabelFacetExtractor.pediatricUse(splLabel) ?? LabelFacetExtractor.pediatricUseFromText(useInSpecificPopulations);
+
+    return {
+      indications: this.extractIndications(fdaLabel.indications) ?? splText.indications,
+      contraindications: this.extractContraindications(fdaLabel.contraindications) ?? splText.contraindications,
+      warnings: this.extractWarnings(fdaLabel.warnings) ?? splText.warnings,
+      boxedWarning: boxedWarning?.body ?? null,
+      boxedWarningTitle: boxedWarning?.title ?? null,
+      hasBoxedWarning: !!boxedWarning,
+      dosageInfo: this.extractDosageInfo(fdaLabel.dosage) ?? splText.dosageInfo,
+      adverseReactions: this.extractAdverseReactions(fdaLabel.adverse_reactions) ?? splText.adverseReactions,
+      drugInteractions: this.extractSection(fdaLabel.drug_interactions, 'drug interactions') ?? splText.drugInteractions,
+      useInSpecificPopulations,
+      pediatricUse,
+      hasPediatricUse: LabelFacetExtractor.isPediatricUseEstablished(pediatricUse),
+      description: this.extractSection(fdaLabel.description, 'description') ?? splText.description,
+      clinicalPharmacology:
+        this.extractSection(fdaLabel.clinical_pharmacology, 'clinical pharmacology') ?? splText.clinicalPharmacology,
+      mechanismOfAction:
+        this.extractSection(fdaLabel.mechanism_of_action, 'mechanism of action') ?? splText.mechanismOfAction,
+      nonclinicalToxicology:
+        this.extractSection(fdaLabel.nonclinical_toxicology, 'nonclinical toxicology') ?? splText.nonclinicalToxicology,
+      clinicalStudies: this.extractSection(fdaLabel.clinical_studies, 'clinical studies') ?? splText.clinicalStudies,
+      howSupplied: this.extractSection(fdaLabel.how_supplied, 'how supplied') ?? splText.howSupplied,
+      instructionsForUse:
+        this.extractSection(fdaLabel.instructions_for_use, 'instructions for use') ?? splText.instructionsForUse,
+      highlights: SplSectionParser.extractHighlights(splLabel) ?? Prisma.JsonNull,
+    };
+  }
+
+  /**
+   * An explicit openFDA route wins for the primary route; the label text
+   * supplies the full route list and the dosage forms and strengths.
+   */
+  private extractRouteAndForms(explicitRoute: string | null, splLabel: any, dosageInfo: string | null) {
+    const extraction = splLabel
+      ? DosageFormExtractor.fromLabel(splLabel)
+      : DosageFormExtractor.extract({ administration: dosageInfo });
+    const declaredRoutes = explicitRoute ? DosageFormExtractor.normalizeRoute(explicitRoute) : [];
+    const routes = [...new Set([...declaredRoutes, ...extraction.routes])];
+
     return {
-      indications: this.extractIndications(fdaLabel.indications),
-      contraindications: this.extractContraindications(fdaLabel.contraindications),
-      warnings: this.extractWarnings(fdaLabel.warnings),
-      boxedWarning: this.extractBoxedWarning(fdaLabel.warnings),
-      dosageInfo: this.extractDosageInfo(fdaLabel.dosage),
-      adverseReactions: this.extractAdverseReactions(fdaLabel.adverse_reactions),
+      route: routes[0] ?? null,
+      routes,
+      dosageForms: extraction.dosageForms,
+      strengths: extraction.strengths as unknown as Prisma.InputJsonValue,
     };
   }
 
+  private decodeCursor(cursor: string, sort: DrugSortField, order: string): CursorPosition {
+    let position: CursorPosition;
+    try {
+      position = PageCursor.decode(cursor);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    if (position.sort !== sort || position.order !== order) {
+      throw new BadRequestException('Cursor was issued for a different sort order');
+    }
+
+    return position;
+  }
+
+  /** Rows after the cursor under `sort` then `id`, with null sort values last. */
+  private afterCursor({ sort, order, value, id }: CursorPosition): Prisma.DrugWhereInput {
+    if (value === null) {
+      return { [sort]: null, id: { gt: id } };
+    }
+
+    const typedValue = sort === 'name' ? value : new Date(value);
+    const conditions: Prisma.DrugWhereInput[] = [
+      { [sort]: { [order === 'asc' ? 'gt' : 'lt']: typedValue } },
+      { [sort]: typedValue, id: { gt: id } },
+    ];
+
+    if (sort === 'effectiveTime') {
+      conditions.push({ effectiveTime: null });
+    }
+
+    return { OR: conditions };
+  }
+
+  /**
+   * Selects the requested fields, or everything but the heavy columns. The id
+   * and sort column are always selected because the cursor is built from them.
+   */
+  private buildListSelect(fields: string[] | undefined, sort: DrugSortField): Prisma.DrugSelect {
+    const requested = fields?.length ? fields : SELECTABLE_FIELDS.filter((field) => !HEAVY_FIELDS.includes(field));
+
+    const unknown = requested.filter((field) => !SELECTABLE_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown fields: ${unknown.join(', ')}`);
+    }
+
+    const select: Prisma.DrugSelect = { id: true, [sort]: true };
+    for (const field of requested) {
+      select[field] = true;
+    }
+
+    return select;
+  }
+
+  private extractSection(section: any, sectionName: string): string | null {
+    if (!section) return null;
+
+    try {
+      return DataSanitizer.extractTextContent(section);
+    } catch (error) {
+      this.logger.warn(`Error extracting ${sectionName}:`, error);
+      return null;
+    }
+  }
+
   private extractIndications(indications: any): string | null {
     if (!indications) return null;
     
@@ -318,27 +513,19 @@ export class DrugsService {
     }
   }
 
-  async enhanceDrugWithAI(drugId: string) {
+  /**
+   * Generates AI content for a drug and stores it as a draft revision for
+   * medical review. The drug itself is unchanged until fields are approved.
+   */
+  async enhanceDrugWithAI(drugId: string, createdById?: string) {
     try {
       const drug = await this.findOne(drugId);
-      
-      if (!drug) {
-        throw new NotFoundException(`Drug with ID ${drugId} not found`);
-      }
+      const context = this.buildContentContext(drug);
+      context.labelChunks = await this.labelSectionsService.getChunks(drugId);
 
-      const context: DrugContentContext = {
-        drugName: drug.name,
-        genericName: drug.genericName || drug.fdaGenericName || undefined,
-        brandNames: drug.brandNames || (drug.fdaBrandName ? [drug.fdaBrandName] : undefined),
-        indications: drug.indications || undefined,
-        contraindications: drug.contraindications || undefined,
-        warnings: drug.warnings || undefined,
-        dosageInfo: drug.dosageInfo || undefined,
-        adverseReactions: drug.adverseReactions || undefined,
-        manufacturer: drug.manufacturer || undefined,
-      };
-
-      this.logger.log(`Enhancing drug ${drugId} with AI-generated content`);
+      this.logger.log(
+        `Enhancing drug ${drugId} with AI-generated content from ${context.labelChunks.length} label chunks`,
+      );
 
       const enhancedContent = await this.aiService.enhanceDrugContent(
         drug.name,
@@ -346,33 +533,23 @@ export class DrugsService {
         context
       );
 
-      // Create FAQs if they were generated
-      const faqsToCreate = enhancedContent.faqs.map(faq => ({
-        question: faq.question,
-        answer: faq.answer,
-        drugId: drugId,
-      }));
-
-      // Update drug with AI-enhanced content
-      const updatedDrug = await this.prisma.drug.update({
-        where: { id: drugId },
-        data: {
+      const revision = await this.contentRevisionsService.createDraft(
+        drugId,
+        'enhance-with-ai',
+        {
           aiEnhancedTitle: enhancedContent.title,
           aiEnhancedDescription: enhancedContent.description,
+          descriptionSentences: enhancedContent.descriptionSentences,
           seoMetaTitle: enhancedContent.seoMetaTitle,
           seoMetaDescription: enhancedContent.seoMetaDescription,
-          faqs: {
-            deleteMany: {},
-            create: faqsToCreate,
-          },
+          faqs: enhancedContent.faqs,
         },
-        include: {
-          faqs: true,
-        },
-      });
+        context,
+        createdById,
+      );
 
-      this.logger.log(`Successfully enhanced drug ${drugId} with AI content`);
-      return updatedDrug;
+      this.logger.log(`Stored AI content for drug ${drugId} as revision ${revision.id} pending review`);
+      return revision;
 
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -384,44 +561,71 @@ export class DrugsService {
     }
   }
 
-  async generateSEOContent(drugId: string) {
-    try {
-      const drug = await this.findOne(drugId);
-      
-      if (!drug) {
-        throw new NotFoundException(`Drug with ID ${drugId} not found`);
+  /**
+   * Streams `enhanceDrugWithAI`: generated fields as they arrive, then the
+   * draft revision. Errors end the stream with an SSE `error` event.
+   */
+  async *streamEnhanceDrugWithAI(drugId: string, createdById?: string): AsyncGenerator<AIStreamEvent<DrugContentRevision>> {
+    const drug = await this.findOne(drugId);
+    const context = this.buildContentContext(drug);
+    context.labelChunks = await this.labelSectionsService.getChunks(drugId);
+
+    this.logger.log(`Streaming AI content for drug ${drugId} from ${context.labelChunks.length} label chunks`);
+
+    let enhancedContent: EnhancedContent | undefined;
+    for await (const event of this.aiService.streamEnhancedContent(drug.name, context)) {
+      if (event.type === 'done') {
+        enhancedContent = event.result;
+      } else {
+        yield event;
       }
+    }
 
-      const context: DrugContentContext = {
-        drugName: drug.name,
-        genericName: drug.genericName || drug.fdaGenericName || undefined,
-        brandNames: drug.brandNames || (drug.fdaBrandName ? [drug.fdaBrandName] : undefined),
-        indications: drug.indications || undefined,
-        contraindications: drug.contraindications || undefined,
-        warnings: drug.warnings || undefined,
-        dosageInfo: drug.dosageInfo || undefined,
-        adverseReactions: drug.adverseReactions || undefined,
-        manufacturer: drug.manufacturer || undefined,
-      };
+    try {
+      const revision = await this.contentRevisionsService.createDraft(
+        drugId,
+        'enhance-with-ai',
+        {
+          aiEnhancedTitle: enhancedContent.title,
+          aiEnhancedDescription: enhancedContent.description,
+          descriptionSentences: enhancedContent.descriptionSentences,
+          seoMetaTitle: enhancedContent.seoMetaTitle,
+          seoMetaDescription: enhancedContent.seoMetaDescription,
+          faqs: enhancedContent.faqs,
+        },
+        context,
+        createdById,
+      );
+
+      this.logger.log(`Stored streamed AI content for drug ${drugId} as revision ${revision.id} pending review`);
+      yield { type: 'done', result: revision };
+    } catch (error) {
+      this.logger.error(`Error storing streamed AI content for drug ${drugId}:`, error);
+      throw new BadRequestException('Failed to enhance drug with AI content');
+    }
+  }
+
+  /** Generates an SEO title and meta description as a draft revision for review. */
+  async generateSEOContent(drugId: string, createdById?: string) {
+    try {
+      const drug = await this.findOne(drugId);
+      const context = this.buildContentContext(drug);
 
       const [seoTitle, metaDescription] = await Promise.all([
         this.aiService.generateSEOTitle(context),
         this.aiService.generateMetaDescription(context),
       ]);
 
-      const updatedDrug = await this.prisma.drug.update({
-        where: { id: drugId },
-        data: {
-          seoMetaTitle: seoTitle,
-          seoMetaDescription: metaDescription,
-        },
-        include: {
-          faqs: true,
-        },
-      });
+      const revision = await this.contentRevisionsService.createDraft(
+        drugId,
+        'generate-seo',
+        { seoMetaTitle: seoTitle, seoMetaDescription: metaDescription },
+        context,
+        createdById,
+      );
 
       return {
-        drug: updatedDrug,
+        revision,
         seoContent: {
           title: seoTitle,
           metaDescription: metaDescription,
@@ -437,4 +641,18 @@ export class DrugsService {
       throw new BadRequestException('Failed to generate SEO content');
     }
   }
-}
\ No newline at end of file
+
+  private buildContentContext(drug: Drug): DrugContentContext {
+    return {
+      drugName: drug.name,
+      genericName: drug.genericName || drug.fdaGenericName || undefined,
+      brandNames: drug.brandNames || (drug.fdaBrandName ? [drug.fdaBrandName] : undefined),
+      indications: drug.indications || undefined,
+      contraindications: drug.contraindications || undefined,
+      warnings: drug.warnings || undefined,
+      dosageInfo: drug.dosageInfo || undefined,
+      adverseReactions: drug.adverseReactions || undefined,
+      manufacturer: drug.manufacturer || undefined,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AskLabelQuestionDto {
+  @ApiProperty({ example: 'Can I take this while pregnant?', maxLength: 500 })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(500)
+  question: string;
+}
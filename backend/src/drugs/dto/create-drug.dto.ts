@@ -22,6 +22,148 @@ export class CreateDrugDto {
   @IsOptional()
   fdaLabelData?: any;
 
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  fdaGenericName?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  fdaBrandName?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  manufacturer?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  productType?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  route?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  routes?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  dosageForms?: string[];
+
+  @ApiPropertyOptional()
+  @IsArray()
+  @IsOptional()
+  strengths?: { form: string; strength: string; presentation: string | null }[];
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  indications?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  contraindications?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  warnings?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  boxedWarning?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  boxedWarningTitle?: string;
+
+  @ApiPropertyOptional()
+  @IsBoolean()
+  @IsOptional()
+  hasBoxedWarning?: boolean;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  dosageInfo?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  adverseReactions?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  drugInteractions?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  useInSpecificPopulations?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  pediatricUse?: string;
+
+  @ApiPropertyOptional()
+  @IsBoolean()
+  @IsOptional()
+  hasPediatricUse?: boolean;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  clinicalPharmacology?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  mechanismOfAction?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  nonclinicalToxicology?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  clinicalStudies?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  howSupplied?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  instructionsForUse?: string;
+
+  @ApiPropertyOptional()
+  @IsObject()
+  @IsOptional()
+  highlights?: Record<string, string>;
+
   @ApiProperty()
   @IsString()
   slug: string;
@@ -100,6 +100,11 @@ export class FDALabelDto {
   @IsOptional()
   route?: string;
 
+  @ApiPropertyOptional({ example: 'HUMAN PRESCRIPTION DRUG' })
+  @IsString()
+  @IsOptional()
+  product_type?: string;
+
   @ApiPropertyOptional()
   @IsString()
   @IsOptional()
@@ -135,6 +140,60 @@ export class FDALabelDto {
   @IsOptional()
   adverse_reactions?: FDALabelAdverseReactionsDto;
 
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  drug_interactions?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  use_in_specific_populations?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  description?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  clinical_pharmacology?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  mechanism_of_action?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  nonclinical_toxicology?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  clinical_studies?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  how_supplied?: FDALabelSectionDto;
+
+  @ApiPropertyOptional({ type: FDALabelSectionDto })
+  @ValidateNested()
+  @Type(() => FDALabelSectionDto)
+  @IsOptional()
+  instructions_for_use?: FDALabelSectionDto;
+
   @ApiPropertyOptional()
   @IsObject()
   @IsOptional()
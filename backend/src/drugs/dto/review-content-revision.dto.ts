@@ -0,0 +1,48 @@
+import { ArrayMinSize, IsArray, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ContentFieldDecision } from '../interfaces/content-revision.interface';
+
+export class ContentFieldDecisionDto {
+  @ApiProperty({ description: 'Field key from the revision, e.g. seoMetaTitle or faqs.2' })
+  @IsString()
+  @IsNotEmpty()
+  key: string;
+
+  @ApiProperty({ enum: ['approve', 'edit', 'reject'] })
+  @IsIn(['approve', 'edit', 'reject'])
+  decision: ContentFieldDecision;
+
+  @ApiPropertyOptional({ description: 'Replacement text when editing a text field' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  value?: string;
+
+  @ApiPropertyOptional({ description: 'Replacement question when editing an FAQ' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  question?: string;
+
+  @ApiPropertyOptional({ description: 'Replacement answer when editing an FAQ' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  answer?: string;
+}
+
+export class ReviewContentRevisionDto {
+  @ApiProperty({ type: [ContentFieldDecisionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ContentFieldDecisionDto)
+  fields: ContentFieldDecisionDto[];
+
+  @ApiPropertyOptional({ description: 'Reviewer notes kept on the revision' })
+  @IsString()
+  @MaxLength(2000)
+  @IsOptional()
+  notes?: string;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ContentRevisionStatus } from '@prisma/client';
+
+export class ContentRevisionField {
+  @ApiProperty({ description: 'Drug column, or faqs.<index> for a proposed FAQ' })
+  key: string;
+
+  @ApiProperty({ description: 'Generated text, or { question, answer } for an FAQ' })
+  proposed: string | { question: string; answer: string };
+
+  @ApiPropertyOptional({ description: 'Value written to the drug once approved or edited' })
+  approved?: string | { question: string; answer: string };
+
+  @ApiProperty({ enum: ['pending', 'approved', 'edited', 'rejected'] })
+  status: string;
+
+  @ApiProperty({ type: [String], description: 'Medical validator findings' })
+  issues: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  suggestions?: string[];
+
+  @ApiPropertyOptional({ description: 'Proposed description sentences with the label sections each cites' })
+  sentences?: Array<{ text: string; citations: Array<Record<string, string | null>> }>;
+
+  @ApiPropertyOptional({
+    description:
+      'Doses, frequencies, indications and side effects found in the text, each with whether and where the label states it',
+  })
+  grounding?: {
+    isGrounded: boolean;
+    claims: Array<{ type: string; claim: string; sentence: string; supported: boolean; citations: Array<Record<string, string | null>> }>;
+    issues: string[];
+  };
+}
+
+export class ContentRevision {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ['enhance-with-ai', 'generate-seo'] })
+  source: string;
+
+  @ApiProperty({ enum: ContentRevisionStatus })
+  status: ContentRevisionStatus;
+
+  @ApiProperty({ type: [ContentRevisionField] })
+  fields: ContentRevisionField[];
+
+  @ApiProperty({ description: 'Whether the medical validator flagged any proposed field' })
+  flagged: boolean;
+
+  @ApiProperty()
+  drug: { id: string; name: string; slug: string; published: boolean };
+
+  @ApiPropertyOptional({ nullable: true })
+  createdBy: { id: string; email: string; name: string | null } | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedBy: { id: string; email: string; name: string | null } | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewedAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true })
+  reviewNotes: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DrugLabelVersion {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Sequential version number per drug, starting at 1' })
+  version: number;
+
+  @ApiProperty({ required: false, description: 'SPL set id shared by all revisions of the label' })
+  setId?: string;
+
+  @ApiProperty({ required: false, description: 'Label effective date from the SPL effectiveTime' })
+  effectiveTime?: Date;
+
+  @ApiProperty()
+  contentHash: string;
+
+  @ApiProperty()
+  sectionCount: number;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class LabelSectionChange {
+  @ApiProperty({ description: 'Section number, or parent key and title for unnumbered subsections' })
+  key: string;
+
+  @ApiProperty({ description: 'LOINC section code' })
+  code: string;
+
+  @ApiProperty({ required: false })
+  number?: string;
+
+  @ApiProperty({ required: false })
+  title?: string;
+
+  @ApiProperty({ enum: ['added', 'removed', 'changed', 'unchanged'] })
+  status: string;
+
+  @ApiProperty({ type: [String], description: 'Sentences present only in the newer version' })
+  addedText: string[];
+
+  @ApiProperty({ type: [String], description: 'Sentences present only in the older version' })
+  removedText: string[];
+}
+
+export class LabelVersionDiff {
+  @ApiProperty()
+  drugId: string;
+
+  @ApiProperty()
+  from: { version: number; setId?: string; effectiveTime?: Date };
+
+  @ApiProperty()
+  to: { version: number; setId?: string; effectiveTime?: Date };
+
+  @ApiProperty()
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+
+  @ApiProperty({ type: [LabelSectionChange] })
+  sections: LabelSectionChange[];
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Drug } from './drug.entity';
+
+export class DrugPage {
+  @ApiProperty({ type: [Drug], description: 'Drugs on this page, limited to the selected fields' })
+  drugs: Drug[];
+
+  @ApiProperty({ description: 'Total number of drugs matching the filters' })
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty({ nullable: true, description: 'Pass as `cursor` to fetch the next page; null on the last page' })
+  nextCursor: string | null;
+}
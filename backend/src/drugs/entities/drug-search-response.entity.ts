@@ -0,0 +1,69 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Drug } from './drug.entity';
+
+export class DrugSearchSnippets {
+  @ApiProperty({ required: false, description: 'Matching indications text with <mark> around matched terms' })
+  indications?: string;
+
+  @ApiProperty({ required: false, description: 'Matching warnings text with <mark> around matched terms' })
+  warnings?: string;
+
+  @ApiProperty({ required: false, description: 'Matching adverse reactions text with <mark> around matched terms' })
+  adverseReactions?: string;
+}
+
+export class DrugSearchHit extends Drug {
+  @ApiProperty({ description: 'Relevance score; higher is better' })
+  searchRank: number;
+
+  @ApiProperty({ type: DrugSearchSnippets })
+  snippets: DrugSearchSnippets;
+}
+
+export class DrugSearchFacetBucket {
+  @ApiProperty({ oneOf: [{ type: 'string' }, { type: 'boolean' }], description: 'Facet value to pass back as a filter' })
+  value: string | boolean;
+
+  @ApiProperty({ description: 'Matching drugs with this value' })
+  count: number;
+}
+
+export class DrugSearchFacets {
+  @ApiProperty({ type: [DrugSearchFacetBucket] })
+  manufacturer: DrugSearchFacetBucket[];
+
+  @ApiProperty({ type: [DrugSearchFacetBucket] })
+  route: DrugSearchFacetBucket[];
+
+  @ApiProperty({ type: [DrugSearchFacetBucket] })
+  productType: DrugSearchFacetBucket[];
+
+  @ApiProperty({ type: [DrugSearchFacetBucket] })
+  hasBoxedWarning: DrugSearchFacetBucket[];
+
+  @ApiProperty({ type: [DrugSearchFacetBucket] })
+  hasPediatricUse: DrugSearchFacetBucket[];
+}
+
+export class DrugSearchResponse {
+  @ApiProperty({ type: [DrugSearchHit] })
+  drugs: DrugSearchHit[];
+
+  @ApiProperty({ description: 'Total number of matching drugs' })
+  total: number;
+
+  @ApiProperty()
+  offset: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  query: string;
+
+  @ApiProperty({
+    type: DrugSearchFacets,
+    description: "Counts per facet value over the query's matches, ignoring that facet's own filter",
+  })
+  facets: DrugSearchFacets;
+}
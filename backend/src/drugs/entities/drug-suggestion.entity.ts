@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DrugSuggestion {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  slug: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  genericName: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  fdaBrandName: string | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  manufacturer: string | null;
+
+  @ApiProperty({
+    enum: ['name', 'brandNames', 'genericName', 'fdaBrandName'],
+    description: 'Drug field whose value matched the query',
+  })
+  matchedField: string;
+
+  @ApiProperty({ description: 'The matching name, e.g. the generic name when that scored best' })
+  matchedValue: string;
+
+  @ApiProperty({ description: 'Trigram similarity plus 1 for prefix matches; higher is better' })
+  score: number;
+}
+
+export class DrugSuggestResponse {
+  @ApiProperty({ description: 'Normalized query' })
+  query: string;
+
+  @ApiProperty({ type: [DrugSuggestion] })
+  suggestions: DrugSuggestion[];
+}
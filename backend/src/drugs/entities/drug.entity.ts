@@ -22,12 +22,106 @@ export class Drug {
   @ApiProperty({ required: false })
   fdaLabelData?: any;
 
+  @ApiProperty({ required: false })
+  fdaGenericName?: string;
+
+  @ApiProperty({ required: false })
+  fdaBrandName?: string;
+
+  @ApiProperty({ required: false })
+  manufacturer?: string;
+
+  @ApiProperty({ required: false, description: 'Normalized product type, e.g. HUMAN PRESCRIPTION DRUG' })
+  productType?: string;
+
+  @ApiProperty({ required: false, description: 'Primary normalized route of administration, e.g. subcutaneous' })
+  route?: string;
+
+  @ApiProperty({ type: [String], description: 'Every normalized route named in the label, most frequent first' })
+  routes: string[];
+
+  @ApiProperty({ type: [String], description: 'Normalized dosage forms, e.g. injection, tablet' })
+  dosageForms: string[];
+
+  @ApiProperty({
+    required: false,
+    description: 'Strengths per dosage form from Dosage Forms and Strengths',
+    example: [{ form: 'injection', strength: '120 mg/mL', presentation: 'single-dose prefilled pen' }],
+  })
+  strengths?: { form: string; strength: string; presentation: string | null }[];
+
+  @ApiProperty({ required: false })
+  indications?: string;
+
+  @ApiProperty({ required: false })
+  contraindications?: string;
+
+  @ApiProperty({ required: false })
+  warnings?: string;
+
+  @ApiProperty({ required: false, description: 'Boxed warning body text' })
+  boxedWarning?: string;
+
+  @ApiProperty({ required: false, description: 'Boxed warning heading, e.g. "WARNING: RISK OF THYROID C-CELL TUMORS"' })
+  boxedWarningTitle?: string;
+
+  @ApiProperty({ description: 'Whether the label carries a boxed warning' })
+  hasBoxedWarning: boolean;
+
+  @ApiProperty({ required: false })
+  dosageInfo?: string;
+
+  @ApiProperty({ required: false })
+  adverseReactions?: string;
+
+  @ApiProperty({ required: false })
+  drugInteractions?: string;
+
+  @ApiProperty({ required: false })
+  useInSpecificPopulations?: string;
+
+  @ApiProperty({ required: false, description: 'Pediatric Use subsection (8.4) text' })
+  pediatricUse?: string;
+
+  @ApiProperty({ description: 'Whether the label establishes safety and effectiveness in pediatric patients' })
+  hasPediatricUse: boolean;
+
+  @ApiProperty({ required: false, description: 'Label description section (11), not the AI overview' })
+  description?: string;
+
+  @ApiProperty({ required: false })
+  clinicalPharmacology?: string;
+
+  @ApiProperty({ required: false })
+  mechanismOfAction?: string;
+
+  @ApiProperty({ required: false })
+  nonclinicalToxicology?: string;
+
+  @ApiProperty({ required: false })
+  clinicalStudies?: string;
+
+  @ApiProperty({ required: false })
+  howSupplied?: string;
+
+  @ApiProperty({ required: false })
+  instructionsForUse?: string;
+
+  @ApiProperty({ required: false, description: 'Plain-text Highlights of Prescribing Information, keyed by highlight block' })
+  highlights?: Record<string, string>;
+
   @ApiProperty({ required: false })
   aiEnhancedTitle?: string;
 
   @ApiProperty({ required: false })
   aiEnhancedDescription?: string;
 
+  @ApiProperty({
+    required: false,
+    description: 'Sentences of aiEnhancedDescription with the label sections each was generated from',
+  })
+  aiDescriptionCitations?: Array<{ text: string; citations: Array<Record<string, string | null>> }>;
+
   @ApiProperty({ required: false })
   seoMetaTitle?: string;
 
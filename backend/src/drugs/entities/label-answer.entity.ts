@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LabelCitation {
+  @ApiProperty({ nullable: true, example: '8.1' })
+  section: string | null;
+
+  @ApiProperty({ nullable: true, example: '8.1 Pregnancy' })
+  title: string | null;
+
+  @ApiProperty({ description: 'LOINC section code', example: '42228-7' })
+  code: string;
+
+  @ApiProperty({ nullable: true, example: 'useInSpecificPopulations' })
+  labelKey: string | null;
+}
+
+export class CitedSentence {
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty({ type: [LabelCitation] })
+  citations: LabelCitation[];
+}
+
+export class LabelAnswer {
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty({ description: 'False when the label does not cover the question and it was declined' })
+  answered: boolean;
+
+  @ApiProperty()
+  answer: string;
+
+  @ApiProperty({ type: [CitedSentence], description: 'The answer sentence by sentence, with the label sections each cites' })
+  sentences: CitedSentence[];
+
+  @ApiProperty({ type: [LabelCitation] })
+  citations: LabelCitation[];
+
+  @ApiProperty({ description: 'Shown with every answer, including declined ones' })
+  disclaimer: string;
+}
+
+export class DrugQuestion {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  question: string;
+
+  @ApiProperty()
+  answered: boolean;
+
+  @ApiProperty()
+  answer: string;
+
+  @ApiProperty({ type: [LabelCitation], nullable: true })
+  citations: LabelCitation[] | null;
+
+  @ApiProperty()
+  drug: { id: string; name: string; slug: string };
+
+  @ApiProperty()
+  createdAt: Date;
+}
@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LabelImportResult {
+  @ApiProperty({ description: 'Position of the record in the imported file' })
+  index: number;
+
+  @ApiProperty({ required: false })
+  setId?: string;
+
+  @ApiProperty({ required: false })
+  drugName?: string;
+
+  @ApiProperty({ required: false })
+  slug?: string;
+
+  @ApiProperty({ enum: ['created', 'updated', 'skipped', 'failed'] })
+  status: string;
+
+  @ApiProperty({ required: false })
+  drugId?: string;
+
+  @ApiProperty({ required: false, description: 'Why the record failed' })
+  error?: string;
+}
+
+export class LabelImportSummary {
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  created: number;
+
+  @ApiProperty()
+  updated: number;
+
+  @ApiProperty({ description: 'Records identical to the latest stored label version' })
+  skipped: number;
+
+  @ApiProperty()
+  failed: number;
+}
+
+export class LabelImportReport {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty({ type: LabelImportSummary })
+  summary: LabelImportSummary;
+
+  @ApiProperty({ type: [LabelImportResult] })
+  results: LabelImportResult[];
+}
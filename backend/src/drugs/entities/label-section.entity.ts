@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class LabelSection {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'LOINC section code', example: '34067-9' })
+  code: string;
+
+  @ApiProperty({ required: false, description: 'Labels.json key the section was parsed from' })
+  labelKey?: string;
+
+  @ApiProperty({ required: false, example: '1.1' })
+  number?: string;
+
+  @ApiProperty({ required: false, example: 'Migraine' })
+  title?: string;
+
+  @ApiProperty({ required: false, description: 'SPL anchor name used by cross-references' })
+  anchor?: string;
+
+  @ApiProperty({ required: false, description: 'Sanitized HTML of the section body, excluding subsections' })
+  html?: string;
+
+  @ApiProperty({ type: () => [LabelSection] })
+  children: LabelSection[];
+}
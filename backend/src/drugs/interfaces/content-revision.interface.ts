@@ -0,0 +1,53 @@
+import { CitedSentence, LabelCitation } from '../../common/utils/label-retrieval.util';
+import { GroundingReport } from '../../ai-service/services/grounding-validator.service';
+
+/** Drug columns that AI drafts may propose values for. */
+export const REVISION_TEXT_FIELDS = [
+  'aiEnhancedTitle',
+  'aiEnhancedDescription',
+  'seoMetaTitle',
+  'seoMetaDescription',
+] as const;
+
+export type RevisionTextField = (typeof REVISION_TEXT_FIELDS)[number];
+
+export type ContentRevisionSource = 'enhance-with-ai' | 'generate-seo';
+
+export type ContentFieldStatus = 'pending' | 'approved' | 'edited' | 'rejected';
+
+export type ContentFieldDecision = 'approve' | 'edit' | 'reject';
+
+export interface FaqContent {
+  question: string;
+  answer: string;
+  /** Label sections the answer was generated from. */
+  citations?: LabelCitation[];
+}
+
+/**
+ * One proposed value in a draft revision. Text fields are keyed by their Drug
+ * column; FAQs are keyed `faqs.<index>` and reviewed one by one.
+ */
+export interface ContentRevisionField {
+  key: string;
+  proposed: string | FaqContent;
+  /** What was written to the drug: the proposal, or the reviewer's edit. */
+  approved?: string | FaqContent;
+  status: ContentFieldStatus;
+  /** Medical validator findings on the proposal, or on the edit once approved. */
+  issues: string[];
+  suggestions?: string[];
+  /** Each dose, frequency, indication and side effect claim checked against the label. */
+  grounding?: GroundingReport;
+  /** The proposed description sentence by sentence, with label citations. */
+  sentences?: CitedSentence[];
+}
+
+export interface ContentDraft {
+  aiEnhancedTitle?: string;
+  aiEnhancedDescription?: string;
+  descriptionSentences?: CitedSentence[];
+  seoMetaTitle?: string;
+  seoMetaDescription?: string;
+  faqs?: FaqContent[];
+}
@@ -0,0 +1,260 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { ContentRevisionsService } from '../content-revisions.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { MedicalValidatorService } from '../../../ai-service/services/medical-validator.service';
+import { GroundingValidatorService } from '../../../ai-service/services/grounding-validator.service';
+import { LabelSectionsService } from '../label-sections.service';
+import { DrugEventsService } from '../../../events/drug-events.service';
+
+describe('ContentRevisionsService', () => {
+  let service: ContentRevisionsService;
+  let prisma: any;
+  let drugEvents: { emit: jest.Mock };
+  let labelSections: { getChunks: jest.Mock };
+
+  const labelChunks = [
+    {
+      section: '2.1',
+      title: '2.1 Dosage',
+      code: '42229-5',
+      labelKey: 'dosageAndAdministration',
+      text: 'The recommended starting dosage of Taltz is 160 mg by subcutaneous injection at Week 0.',
+    },
+  ];
+
+  const reviewer = { id: 'reviewer-1', email: 'reviewer@example.com', name: null, role: UserRole.MEDICAL_REVIEWER };
+  const drug = { id: 'drug-1', name: 'Taltz', slug: 'taltz', published: true };
+
+  const pendingRevision = (fields: any[]) => ({
+    id: 'revision-1',
+    drugId: 'drug-1',
+    status: 'PENDING',
+    fields,
+    drug: { name: 'Taltz' },
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      drug: { update: jest.fn() },
+      drugFAQ: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+      drugContentRevision: {
+        findUnique: jest.fn(),
+        updateMany: jest.fn(),
+        create: jest.fn().mockImplementation(({ data }) => ({ id: 'revision-1', status: 'PENDING', ...data, drug })),
+        update: jest.fn().mockImplementation(({ data }) => ({ id: 'revision-1', ...data, drug })),
+      },
+    };
+    prisma.$transaction = jest.fn().mockImplementation((callback) => callback(prisma));
+    drugEvents = { emit: jest.fn() };
+    labelSections = { getChunks: jest.fn().mockResolvedValue(labelChunks) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContentRevisionsService,
+        MedicalValidatorService,
+        GroundingValidatorService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LabelSectionsService, useValue: labelSections },
+        { provide: DrugEventsService, useValue: drugEvents },
+      ],
+    }).compile();
+
+    service = module.get<ContentRevisionsService>(ContentRevisionsService);
+  });
+
+  describe('createDraft', () => {
+    it('should attach validator findings to each field and supersede older drafts', async () => {
+      const revision = await service.createDraft(
+        'drug-1',
+        'enhance-with-ai',
+        {
+          seoMetaTitle: 'Taltz: a miracle cure',
+          faqs: [
+            {
+              question: 'What is Taltz used for?',
+              answer: 'Taltz treats plaque psoriasis. Ask your healthcare provider whether it suits you.',
+            },
+          ],
+        },
+        { drugName: 'Taltz' },
+        'editor-1',
+      );
+
+      expect(prisma.drugContentRevision.updateMany).toHaveBeenCalledWith({
+        where: { drugId: 'drug-1', source: 'enhance-with-ai', status: 'PENDING' },
+        data: { status: 'SUPERSEDED' },
+      });
+      expect(revision.flagged).toBe(true);
+      expect(revision.createdById).toBe('editor-1');
+      expect(revision.fields).toEqual([
+        expect.objectContaining({
+          key: 'seoMetaTitle',
+          status: 'pending',
+          issues: expect.arrayContaining(['Contains potentially misleading medical claims']),
+        }),
+        expect.objectContaining({ key: 'faqs.0', status: 'pending', issues: [] }),
+      ]);
+      expect(prisma.drug.update).not.toHaveBeenCalled();
+    });
+
+    it('should flag claims the label does not support when label chunks are given', async () => {
+      const revision = await service.createDraft(
+        'drug-1',
+        'enhance-with-ai',
+        {
+          faqs: [
+            {
+              question: 'How much Taltz do I take?',
+              answer: 'The first dose is 80 mg, then 160 mg. Ask your healthcare provider about your dosing.',
+            },
+          ],
+        },
+        { drugName: 'Taltz', labelChunks },
+      );
+
+      const [faq] = revision.fields as any[];
+      expect(faq.issues).toEqual(['Dose "80 mg" does not appear in the label']);
+      expect(faq.grounding.claims).toEqual([
+        expect.objectContaining({ type: 'dose', claim: '80 mg', supported: false, citations: [] }),
+        expect.objectContaining({
+          type: 'dose',
+          claim: '160 mg',
+          supported: true,
+          citations: [expect.objectContaining({ section: '2.1' })],
+        }),
+      ]);
+      expect(revision.flagged).toBe(true);
+    });
+  });
+
+  describe('review', () => {
+    const fields = () => [
+      { key: 'seoMetaTitle', proposed: 'Taltz (ixekizumab): Uses and Side Effects', status: 'pending', issues: [] },
+      { key: 'aiEnhancedDescription', proposed: 'Taltz is a miracle cure.', status: 'pending', issues: ['x'] },
+      {
+        key: 'faqs.0',
+        proposed: { question: 'What is Taltz?', answer: 'A biologic. Consult your doctor.' },
+        status: 'pending',
+        issues: [],
+      },
+    ];
+
+    it('should publish approved and edited fields and keep rejected ones off the drug', async () => {
+      prisma.drugContentRevision.findUnique.mockResolvedValue(pendingRevision(fields()));
+      prisma.drugFAQ.findFirst.mockResolvedValue({ id: 'faq-1' });
+
+      const revision = await service.review(
+        'revision-1',
+        {
+          fields: [
+            { key: 'seoMetaTitle', decision: 'approve' },
+            { key: 'aiEnhancedDescription', decision: 'reject' },
+            { key: 'faqs.0', decision: 'edit', answer: 'A biologic injection. Consult your doctor.' },
+          ],
+          notes: 'Description overstates efficacy',
+        },
+        reviewer,
+      );
+
+      expect(prisma.drug.update).toHaveBeenCalledWith({
+        where: { id: 'drug-1' },
+        data: { seoMetaTitle: 'Taltz (ixekizumab): Uses and Side Effects' },
+      });
+      expect(prisma.drugFAQ.update).toHaveBeenCalledWith({
+        where: { id: 'faq-1' },
+        data: { answer: 'A biologic injection. Consult your doctor.', citations: Prisma.DbNull },
+      });
+      expect(prisma.drugFAQ.create).not.toHaveBeenCalled();
+      expect(revision.status).toBe('PARTIALLY_APPROVED');
+      expect(revision.reviewedById).toBe('reviewer-1');
+      expect(revision.reviewNotes).toBe('Description overstates efficacy');
+      expect(drugEvents.emit).toHaveBeenCalledWith('updated', drug);
+    });
+
+    it('should persist label citations with approved content and drop them when text is edited', async () => {
+      const citation = { section: '1', title: '1 INDICATIONS AND USAGE', code: '34067-9', labelKey: 'indicationsAndUsage' };
+      const sentences = [{ text: 'Taltz treats plaque psoriasis.', citations: [citation] }];
+      prisma.drugContentRevision.findUnique.mockResolvedValue(
+        pendingRevision([
+          { key: 'aiEnhancedDescription', proposed: sentences[0].text, sentences, status: 'pending', issues: [] },
+          {
+            key: 'faqs.0',
+            proposed: { question: 'What is Taltz used for?', answer: 'Plaque psoriasis.', citations: [citation] },
+            status: 'pending',
+            issues: [],
+          },
+          {
+            key: 'faqs.1',
+            proposed: { question: 'How is Taltz given?', answer: 'By injection.', citations: [citation] },
+            status: 'pending',
+            issues: [],
+          },
+        ]),
+      );
+
+      await service.review(
+        'revision-1',
+        {
+          fields: [
+            { key: 'aiEnhancedDescription', decision: 'approve' },
+            { key: 'faqs.0', decision: 'edit', question: 'What does Taltz treat?' },
+            { key: 'faqs.1', decision: 'edit', answer: 'As a subcutaneous injection.' },
+          ],
+        },
+        reviewer,
+      );
+
+      expect(prisma.drug.update).toHaveBeenCalledWith({
+        where: { id: 'drug-1' },
+        data: { aiEnhancedDescription: sentences[0].text, aiDescriptionCitations: sentences },
+      });
+      expect(prisma.drugFAQ.create).toHaveBeenCalledWith({
+        data: { drugId: 'drug-1', question: 'What does Taltz treat?', answer: 'Plaque psoriasis.', citations: [citation] },
+      });
+      expect(prisma.drugFAQ.create).toHaveBeenCalledWith({
+        data: {
+          drugId: 'drug-1',
+          question: 'How is Taltz given?',
+          answer: 'As a subcutaneous injection.',
+          citations: Prisma.DbNull,
+        },
+      });
+    });
+
+    it('should stay pending until every field has a decision', async () => {
+      prisma.drugContentRevision.findUnique.mockResolvedValue(pendingRevision(fields()));
+
+      const revision = await service.review(
+        'revision-1',
+        { fields: [{ key: 'aiEnhancedDescription', decision: 'reject' }] },
+        reviewer,
+      );
+
+      expect(revision.status).toBe('PENDING');
+      expect(prisma.drug.update).not.toHaveBeenCalled();
+      expect(drugEvents.emit).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown fields, edits without a value and finished revisions', async () => {
+      prisma.drugContentRevision.findUnique.mockResolvedValue(pendingRevision(fields()));
+
+      await expect(
+        service.review('revision-1', { fields: [{ key: 'name', decision: 'approve' }] }, reviewer),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.review('revision-1', { fields: [{ key: 'seoMetaTitle', decision: 'edit' }] }, reviewer),
+      ).rejects.toThrow('Editing seoMetaTitle requires a value');
+
+      prisma.drugContentRevision.findUnique.mockResolvedValue({ ...pendingRevision(fields()), status: 'APPROVED' });
+      await expect(
+        service.review('revision-1', { fields: [{ key: 'seoMetaTitle', decision: 'approve' }] }, reviewer),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { DrugSearchService } from '../drug-search.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('DrugSearchService', () => {
+  let service: DrugSearchService;
+  let prisma: { $queryRaw: jest.Mock; drug: { findMany: jest.Mock } };
+
+  const row = (id: string, rank: number, overrides = {}) => ({
+    id,
+    rank,
+    total: BigInt(2),
+    indications: '',
+    warnings: '',
+    adverseReactions: '',
+    ...overrides,
+  });
+
+  // Answers the search, facet and count queries by their SQL text
+  const respond = ({ search = [], facets = [], count = [] }: { search?: any[]; facets?: any[]; count?: any[] }) =>
+    prisma.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+      const sql = strings.join('?');
+      if (sql.includes('AS facet')) return facets;
+      if (sql.includes('AS count')) return count;
+      return search;
+    });
+
+  beforeEach(async () => {
+    prisma = {
+      $queryRaw: jest.fn(),
+      drug: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'taltz', name: 'Taltz', faqs: [] },
+          { id: 'emgality', name: 'Emgality', faqs: [] },
+        ]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DrugSearchService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<DrugSearchService>(DrugSearchService);
+  });
+
+  it('should return ranked drugs with pagination metadata', async () => {
+    respond({ search: [row('emgality', 0.9), row('taltz', 0.1)] });
+
+    const response = await service.search('  migraine ', { limit: 10, offset: 0 });
+
+    expect(response).toMatchObject({ total: 2, offset: 0, limit: 10, query: 'migraine' });
+    expect(response.drugs.map((drug) => [drug.id, drug.searchRank])).toEqual([
+      ['emgality', 0.9],
+      ['taltz', 0.1],
+    ]);
+  });
+
+  it('should return only matching snippets with escaped text and marked terms', async () => {
+    respond({
+      search: [
+        row('emgality', 0.9, {
+          indications: 'preventive treatment of {{mark}}migraine{{/mark}} in adults',
+          warnings: 'Hypersensitivity reactions',
+          adverseReactions: 'hemoglobin <8 g/dL with {{mark}}migraine{{/mark}}',
+        }),
+      ],
+    });
+
+    const [drug] = (await service.search('migraine')).drugs;
+
+    expect(drug.snippets).toEqual({
+      indications: 'preventive treatment of <mark>migraine</mark> in adults',
+      adverseReactions: 'hemoglobin &lt;8 g/dL with <mark>migraine</mark>',
+    });
+  });
+
+  it('should clamp the page size', async () => {
+    respond({});
+
+    expect((await service.search('migraine', { limit: 500 })).limit).toBe(100);
+    expect((await service.search('migraine', { limit: -1 })).limit).toBe(1);
+  });
+
+  it('should count matches separately when the offset is past the last result', async () => {
+    respond({ count: [{ count: BigInt(7) }] });
+
+    const response = await service.search('migraine', { offset: 40 });
+
+    expect(response.total).toBe(7);
+    expect(response.drugs).toEqual([]);
+  });
+
+  it('should group facet buckets by count and convert boolean facets', async () => {
+    respond({
+      search: [row('emgality', 0.9), row('taltz', 0.1)],
+      facets: [
+        { facet: 'route', value: 'oral', count: BigInt(1) },
+        { facet: 'route', value: 'subcutaneous', count: BigInt(2) },
+        { facet: 'manufacturer', value: 'Eli Lilly and Company', count: BigInt(2) },
+        { facet: 'hasBoxedWarning', value: 'false', count: BigInt(2) },
+        { facet: 'hasPediatricUse', value: 'true', count: BigInt(1) },
+        { facet: 'hasPediatricUse', value: 'false', count: BigInt(1) },
+      ],
+    });
+
+    const { facets } = await service.search('lilly', { route: 'sc' });
+
+    expect(facets).toEqual({
+      manufacturer: [{ value: 'Eli Lilly and Company', count: 2 }],
+      route: [
+        { value: 'subcutaneous', count: 2 },
+        { value: 'oral', count: 1 },
+      ],
+      productType: [],
+      hasBoxedWarning: [{ value: false, count: 2 }],
+      hasPediatricUse: [
+        { value: false, count: 1 },
+        { value: true, count: 1 },
+      ],
+    });
+  });
+
+  it('should leave each facet\'s own filter out of its counts', async () => {
+    respond({});
+
+    await service.search('lilly', { manufacturer: 'Lilly', hasPediatricUse: true });
+
+    const facetCall = prisma.$queryRaw.mock.calls.find(([strings]) => strings.join('?').includes('AS facet'));
+    const sql = Prisma.sql(facetCall[0], ...facetCall.slice(1)).sql;
+    const branches = sql.split('UNION ALL');
+
+    expect(branches[0]).not.toContain('AND d.manufacturer ILIKE');
+    expect(branches[0]).toContain('AND d."hasPediatricUse" =');
+    expect(branches[4]).toContain('AND d.manufacturer ILIKE');
+    expect(branches[4]).not.toContain('AND d."hasPediatricUse" =');
+  });
+
+  it('should reject an empty query', async () => {
+    await expect(service.search('   ')).rejects.toThrow(BadRequestException);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { DrugSuggestService } from '../drug-suggest.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { RedisService } from '../../../redis/redis.service';
+import { DrugEventsService } from '../../../events/drug-events.service';
+
+describe('DrugSuggestService', () => {
+  let service: DrugSuggestService;
+  let prisma: { $queryRaw: jest.Mock };
+  let redis: { get: jest.Mock; set: jest.Mock; incr: jest.Mock };
+  let drugEvents: DrugEventsService;
+
+  const emgality = {
+    id: 'emgality',
+    name: 'Emgality',
+    slug: 'emgality',
+    genericName: 'galcanezumab-gnlm',
+    fdaBrandName: 'Emgality',
+    manufacturer: 'Eli Lilly and Company',
+    matchedField: 'name',
+    matchedValue: 'Emgality',
+    score: 0.47,
+  };
+
+  beforeEach(async () => {
+    prisma = { $queryRaw: jest.fn().mockResolvedValue([emgality]) };
+    redis = {
+      get: jest.fn().mockResolvedValue(null),
+      set: jest.fn().mockResolvedValue('OK'),
+      incr: jest.fn().mockResolvedValue(1),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DrugSuggestService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RedisService, useValue: redis },
+        DrugEventsService,
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<DrugSuggestService>(DrugSuggestService);
+    drugEvents = module.get<DrugEventsService>(DrugEventsService);
+  });
+
+  it('should return ranked suggestions and cache them under the normalized query', async () => {
+    const response = await service.suggest('  EmGalitty ');
+
+    expect(response).toEqual({ query: 'emgalitty', suggestions: [emgality] });
+    expect(redis.set).toHaveBeenCalledWith('drugs:suggest:0:8:emgalitty', JSON.stringify(response), 300);
+  });
+
+  it('should serve cached suggestions without querying the database', async () => {
+    const cached = { query: 'galcan', suggestions: [{ ...emgality, matchedField: 'genericName' }] };
+    redis.get.mockImplementation(async (key: string) =>
+      key === 'drugs:suggest:generation' ? '3' : JSON.stringify(cached),
+    );
+
+    expect(await service.suggest('galcan', 5)).toEqual(cached);
+    expect(redis.get).toHaveBeenCalledWith('drugs:suggest:3:5:galcan');
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should skip the lookup for single-character queries', async () => {
+    expect(await service.suggest('e')).toEqual({ query: 'e', suggestions: [] });
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('should reject an empty query', async () => {
+    await expect(service.suggest('  ')).rejects.toThrow(BadRequestException);
+  });
+
+  it('should move to a new cache generation when a drug changes', async () => {
+    drugEvents.emit('unpublished', { id: 'emgality', slug: 'emgality', published: false });
+
+    await new Promise(process.nextTick);
+    expect(redis.incr).toHaveBeenCalledWith('drugs:suggest:generation');
+  });
+});
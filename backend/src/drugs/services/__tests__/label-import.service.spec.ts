@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { LabelImportService } from '../label-import.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { DrugsService } from '../../drugs.service';
+import { LabelDiff } from '../../../common/utils/label-diff.util';
+
+describe('LabelImportService', () => {
+  let service: LabelImportService;
+  let prisma: any;
+  let drugsService: { processFDALabel: jest.Mock };
+
+  const record = {
+    drugName: 'Emgality',
+    setId: '33a147be-233a-40e8-a55e-e40936e28db0',
+    slug: 'emgality-d3a2f5a',
+    label: { genericName: 'galcanezumab-gnlm', effectiveTime: '20250101' },
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      drug: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockResolvedValue({ id: 'drug-new' }),
+        delete: jest.fn(),
+      },
+      drugLabelVersion: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+    };
+    drugsService = { processFDALabel: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LabelImportService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DrugsService, useValue: drugsService },
+      ],
+    }).compile();
+
+    service = module.get<LabelImportService>(LabelImportService);
+  });
+
+  it('should create drugs for new label sets', async () => {
+    const report = await service.importLabels([record]);
+
+    expect(prisma.drug.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: 'Emgality', slug: 'emgality-d3a2f5a', published: false }),
+    });
+    expect(drugsService.processFDALabel).toHaveBeenCalledWith('drug-new', record, { event: 'created' });
+    expect(report.results[0]).toMatchObject({ status: 'created', drugId: 'drug-new' });
+    expect(report.summary).toEqual({ total: 1, created: 1, updated: 0, skipped: 0, failed: 0 });
+  });
+
+  it('should update existing drugs whose label changed', async () => {
+    prisma.drug.findUnique.mockResolvedValue({ id: 'drug-1', setId: record.setId });
+    prisma.drugLabelVersion.findFirst.mockResolvedValue({ contentHash: 'older' });
+
+    const report = await service.importLabels([record]);
+
+    expect(drugsService.processFDALabel).toHaveBeenCalledWith('drug-1', record);
+    expect(report.results[0]).toMatchObject({ status: 'updated', drugId: 'drug-1' });
+  });
+
+  it('should skip records identical to the latest label version', async () => {
+    prisma.drug.findUnique.mockResolvedValue({ id: 'drug-1', setId: record.setId });
+    prisma.drugLabelVersion.findFirst.mockResolvedValue({ contentHash: LabelDiff.contentHash(record) });
+
+    const report = await service.importLabels([record]);
+
+    expect(drugsService.processFDALabel).not.toHaveBeenCalled();
+    expect(report.results[0].status).toBe('skipped');
+  });
+
+  it('should not write anything in dry-run mode', async () => {
+    prisma.drug.findUnique.mockImplementation(({ where }) =>
+      where.setId === 'existing-set' ? { id: 'drug-1', setId: 'existing-set' } : null,
+    );
+
+    const existing = { ...record, drugName: 'Olumiant', slug: 'olumiant', setId: 'existing-set' };
+    const report = await service.importLabels([record, existing], { dryRun: true });
+
+    expect(prisma.drug.create).not.toHaveBeenCalled();
+    expect(drugsService.processFDALabel).not.toHaveBeenCalled();
+    expect(report.dryRun).toBe(true);
+    expect(report.results.map((result) => result.status)).toEqual(['created', 'updated']);
+  });
+
+  it('should report invalid, duplicate and conflicting records as failed', async () => {
+    prisma.drug.findFirst.mockResolvedValue({ id: 'drug-2', setId: 'another-set' });
+
+    const report = await service.importLabels([{ drugName: 'No Set', label: {} }, record, record]);
+
+    expect(report.results.map((result) => result.error)).toEqual([
+      'Record has no setId',
+      expect.stringContaining('belongs to label set another-set'),
+      expect.stringContaining('Duplicate setId'),
+    ]);
+    expect(report.summary.failed).toBe(3);
+  });
+
+  it('should remove a newly created drug when label processing fails', async () => {
+    drugsService.processFDALabel.mockRejectedValue(new Error('Failed to process FDA label data'));
+
+    const report = await service.importLabels([record]);
+
+    expect(prisma.drug.delete).toHaveBeenCalledWith({ where: { id: 'drug-new' } });
+    expect(report.results[0]).toMatchObject({ status: 'failed', error: 'Failed to process FDA label data' });
+  });
+
+  it('should reject malformed input as a bad request', () => {
+    expect(() => service.parseRecords('{"drugName": ')).toThrow(BadRequestException);
+  });
+});
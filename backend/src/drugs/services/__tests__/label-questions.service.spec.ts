@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { LabelQuestionsService } from '../label-questions.service';
+import { LabelSectionsService } from '../label-sections.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AiServiceService } from '../../../ai-service/ai-service.service';
+
+describe('LabelQuestionsService', () => {
+  let service: LabelQuestionsService;
+  let prisma: any;
+  let aiService: { answerLabelQuestion: jest.Mock };
+
+  const citation = { section: '8.1', title: '8.1 Pregnancy', code: '42228-7', labelKey: 'useInSpecificPopulations' };
+  const chunks = [{ ...citation, text: 'Available data in pregnant women are insufficient.' }];
+
+  beforeEach(async () => {
+    prisma = {
+      drug: { findUnique: jest.fn().mockResolvedValue({ id: 'drug-1', name: 'Taltz' }) },
+      drugQuestion: { create: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+    };
+    aiService = { answerLabelQuestion: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LabelQuestionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AiServiceService, useValue: aiService },
+        { provide: LabelSectionsService, useValue: { getChunks: jest.fn().mockResolvedValue(chunks) } },
+      ],
+    }).compile();
+
+    service = module.get<LabelQuestionsService>(LabelQuestionsService);
+  });
+
+  it('should answer from the label chunks and log the question with its citations', async () => {
+    const answer = {
+      question: 'Can I take Taltz while pregnant?',
+      answered: true,
+      answer: 'Data in pregnant women are insufficient.',
+      sentences: [],
+      citations: [citation],
+      disclaimer: 'Not medical advice.',
+    };
+    aiService.answerLabelQuestion.mockResolvedValue(answer);
+
+    await expect(service.ask('taltz', '  Can I take Taltz while pregnant? ')).resolves.toBe(answer);
+
+    expect(aiService.answerLabelQuestion).toHaveBeenCalledWith('Taltz', 'Can I take Taltz while pregnant?', chunks);
+    expect(prisma.drugQuestion.create).toHaveBeenCalledWith({
+      data: {
+        drugId: 'drug-1',
+        question: 'Can I take Taltz while pregnant?',
+        answered: true,
+        answer: 'Data in pregnant women are insufficient.',
+        citations: [citation],
+      },
+    });
+  });
+
+  it('should log declined questions and still answer when logging fails', async () => {
+    aiService.answerLabelQuestion.mockResolvedValue({
+      question: 'Is it vegan?',
+      answered: false,
+      answer: 'The FDA label for Taltz does not answer this question.',
+      sentences: [],
+      citations: [],
+      disclaimer: 'Not medical advice.',
+    });
+    prisma.drugQuestion.create.mockRejectedValue(new Error('connection lost'));
+
+    const answer = await service.ask('taltz', 'Is it vegan?');
+
+    expect(answer.answered).toBe(false);
+    expect(prisma.drugQuestion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ answered: false, citations: Prisma.DbNull }),
+    });
+  });
+
+  it('should reject unknown drugs', async () => {
+    prisma.drug.findUnique.mockResolvedValue(null);
+
+    await expect(service.ask('missing', 'Is it safe?')).rejects.toThrow(NotFoundException);
+    expect(aiService.answerLabelQuestion).not.toHaveBeenCalled();
+  });
+});
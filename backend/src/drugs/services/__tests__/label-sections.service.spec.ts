@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Prisma } from '@prisma/client';
+import { LabelSectionsService } from '../label-sections.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('LabelSectionsService', () => {
+  const labels = JSON.parse(readFileSync(join(__dirname, '../../../../Labels.json'), 'utf8'));
+  const emgality = labels.find((record) => record.drugName === 'Emgality');
+
+  let service: LabelSectionsService;
+  let tx: { labelSection: { deleteMany: jest.Mock; createMany: jest.Mock } };
+  let prisma: { $transaction: jest.Mock };
+
+  beforeEach(async () => {
+    tx = { labelSection: { deleteMany: jest.fn(), createMany: jest.fn() } };
+    prisma = { $transaction: jest.fn((callback) => callback(tx)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LabelSectionsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<LabelSectionsService>(LabelSectionsService);
+  });
+
+  describe('replaceForDrug', () => {
+    it('should insert the section tree one level at a time, parents first', async () => {
+      const count = await service.replaceForDrug('drug-1', emgality.label);
+
+      expect(tx.labelSection.deleteMany).toHaveBeenCalledWith({ where: { drugId: 'drug-1' } });
+      expect(tx.labelSection.createMany.mock.calls.length).toBeGreaterThan(1);
+
+      const levels = tx.labelSection.createMany.mock.calls.map(([{ data }]) => data);
+      const rows = levels.flat();
+      expect(rows).toHaveLength(count);
+      expect(levels[0].every((row) => row.parentId === null)).toBe(true);
+
+      const inserted = new Set<string>();
+      for (const level of levels) {
+        for (const row of level) {
+          if (row.parentId) expect(inserted.has(row.parentId)).toBe(true);
+        }
+        level.forEach((row) => inserted.add(row.id));
+      }
+
+      const positions = rows.map((row) => row.position).sort((a, b) => a - b);
+      expect(positions).toEqual(rows.map((_, index) => index));
+    });
+
+    it('should only clear the stored sections when there is no label', async () => {
+      await expect(service.replaceForDrug('drug-1', null)).resolves.toBe(0);
+
+      expect(tx.labelSection.deleteMany).toHaveBeenCalledWith({ where: { drugId: 'drug-1' } });
+      expect(tx.labelSection.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should write through a caller-provided transaction', async () => {
+      await service.replaceForDrug('drug-1', emgality.label, tx as unknown as Prisma.TransactionClient);
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(tx.labelSection.createMany).toHaveBeenCalled();
+    });
+  });
+});
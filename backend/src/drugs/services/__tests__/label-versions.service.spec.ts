@@ -0,0 +1,52 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LabelVersionsService } from '../label-versions.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('LabelVersionsService', () => {
+  let service: LabelVersionsService;
+  let tx: {
+    $queryRaw: jest.Mock;
+    drugLabelVersion: { findFirst: jest.Mock; create: jest.Mock };
+  };
+
+  const labelData = { setId: 'set-1', label: { effectiveTime: '20240115', indications: '<p>Migraine.</p>' } };
+
+  beforeEach(async () => {
+    tx = {
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 'drug-1' }]),
+      drugLabelVersion: {
+        findFirst: jest.fn().mockResolvedValue({ version: 2, contentHash: 'older' }),
+        create: jest.fn(({ data }) => Promise.resolve(data)),
+      },
+    };
+    const prisma = { $transaction: jest.fn((callback) => callback(tx)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LabelVersionsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<LabelVersionsService>(LabelVersionsService);
+  });
+
+  describe('recordVersion', () => {
+    it('should lock the drug row before reading the latest version', async () => {
+      const version = await service.recordVersion('drug-1', labelData);
+
+      expect(tx.$queryRaw).toHaveBeenCalled();
+      expect(tx.$queryRaw.mock.calls[0][0].join('?')).toMatch(/FOR UPDATE/);
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.drugLabelVersion.findFirst.mock.invocationCallOrder[0],
+      );
+      expect(version.version).toBe(3);
+    });
+
+    it('should not record an unchanged label again', async () => {
+      await service.recordVersion('drug-1', labelData);
+      const [{ data }] = tx.drugLabelVersion.create.mock.calls[0];
+      tx.drugLabelVersion.findFirst.mockResolvedValue({ version: 3, contentHash: data.contentHash });
+
+      await expect(service.recordVersion('drug-1', labelData)).resolves.toMatchObject({ version: 3 });
+      expect(tx.drugLabelVersion.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
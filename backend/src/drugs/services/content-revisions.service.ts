@@ -0,0 +1,340 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ContentRevisionStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MedicalValidatorService } from '../../ai-service/services/medical-validator.service';
+import { GroundingReport, GroundingValidatorService } from '../../ai-service/services/grounding-validator.service';
+import { DrugContentContext } from '../../ai-service/interfaces/ai-provider.interface';
+import { DrugEventsService } from '../../events/drug-events.service';
+import { LabelSectionsService } from './label-sections.service';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { ContentFieldDecisionDto, ReviewContentRevisionDto } from '../dto/review-content-revision.dto';
+import {
+  ContentDraft,
+  ContentRevisionField,
+  ContentRevisionSource,
+  FaqContent,
+  REVISION_TEXT_FIELDS,
+  RevisionTextField,
+} from '../interfaces/content-revision.interface';
+
+export interface ContentRevisionQueueOptions {
+  status?: string;
+  flagged?: boolean;
+  limit?: number;
+}
+
+const DEFAULT_QUEUE_SIZE = 50;
+const MAX_QUEUE_SIZE = 200;
+
+const REVISION_INCLUDE = {
+  drug: { select: { id: true, name: true, slug: true, published: true } },
+  createdBy: { select: { id: true, email: true, name: true } },
+  reviewedBy: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.DrugContentRevisionInclude;
+
+/**
+ * AI-generated drug content is held here as draft revisions until a medical
+ * reviewer approves it. Nothing reaches the Drug row, and so the public pages,
+ * before a field has been approved or edited.
+ */
+@Injectable()
+export class ContentRevisionsService {
+  private readonly logger = new Logger(ContentRevisionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private medicalValidator: MedicalValidatorService,
+    private groundingValidator: GroundingValidatorService,
+    private labelSectionsService: LabelSectionsService,
+    private drugEvents: DrugEventsService,
+  ) {}
+
+  /**
+   * Stores generated content as a pending revision with the validator's
+   * findings on each field, and a grounding report when the context carries
+   * label chunks. Pending drafts from the same source for the drug are
+   * superseded, so the queue only holds the latest.
+   */
+  async createDraft(
+    drugId: string,
+    source: ContentRevisionSource,
+    draft: ContentDraft,
+    context: DrugContentContext,
+    createdById?: string,
+  ) {
+    const fields: ContentRevisionField[] = [
+      ...REVISION_TEXT_FIELDS.filter((key) => draft[key] !== undefined).map((key) => ({
+        key,
+        proposed: draft[key] as string,
+        status: 'pending' as const,
+        ...this.validateText(key, draft[key] as string, context),
+        ...(key === 'aiEnhancedDescription' && draft.descriptionSentences && { sentences: draft.descriptionSentences }),
+      })),
+      ...(draft.faqs ?? []).map((faq, index) => ({
+        key: `faqs.${index}`,
+        proposed: faq,
+        status: 'pending' as const,
+        ...this.validateFaq(faq, context),
+      })),
+    ];
+
+    const flagged = fields.some((field) => field.issues.length > 0);
+
+    const revision = await this.prisma.$transaction(async (tx) => {
+      await tx.drugContentRevision.updateMany({
+        where: { drugId, source, status: ContentRevisionStatus.PENDING },
+        data: { status: ContentRevisionStatus.SUPERSEDED },
+      });
+
+      return tx.drugContentRevision.create({
+        data: {
+          drugId,
+          source,
+          fields: fields as unknown as Prisma.InputJsonValue,
+          flagged,
+          createdById,
+        },
+        include: REVISION_INCLUDE,
+      });
+    });
+
+    this.logger.log(
+      `Stored ${source} draft ${revision.id} for drug ${drugId}${flagged ? ' with validation issues' : ''}`,
+    );
+    return revision;
+  }
+
+  /** Revisions awaiting review, oldest first. */
+  async listQueue(options: ContentRevisionQueueOptions = {}) {
+    const status = (options.status?.toUpperCase() ?? ContentRevisionStatus.PENDING) as ContentRevisionStatus;
+    if (!(status in ContentRevisionStatus)) {
+      throw new BadRequestException(`status must be one of: ${Object.keys(ContentRevisionStatus).join(', ')}`);
+    }
+
+    return this.prisma.drugContentRevision.findMany({
+      where: {
+        status,
+        ...(options.flagged !== undefined && { flagged: options.flagged }),
+      },
+      include: REVISION_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+      take: Math.min(Math.max(options.limit ?? DEFAULT_QUEUE_SIZE, 1), MAX_QUEUE_SIZE),
+    });
+  }
+
+  async listForDrug(drugId: string) {
+    const drug = await this.prisma.drug.findUnique({ where: { id: drugId }, select: { id: true } });
+    if (!drug) {
+      throw new NotFoundException(`Drug with ID ${drugId} not found`);
+    }
+
+    return this.prisma.drugContentRevision.findMany({
+      where: { drugId },
+      include: REVISION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(revisionId: string) {
+    const revision = await this.prisma.drugContentRevision.findUnique({
+      where: { id: revisionId },
+      include: REVISION_INCLUDE,
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Content revision ${revisionId} not found`);
+    }
+
+    return revision;
+  }
+
+  /**
+   * Applies a reviewer's per-field decisions. Approved and edited fields are
+   * written to the drug straight away; FAQs are added, or replace the answer
+   * of an existing FAQ with the same question. The revision stays pending
+   * until every field has a decision, so a review can span several calls.
+   */
+  async review(revisionId: string, dto: ReviewContentRevisionDto, reviewer: AuthUser) {
+    const { revision, changed } = await this.prisma.$transaction(async (tx) => {
+      const current = await tx.drugContentRevision.findUnique({
+        where: { id: revisionId },
+        include: { drug: { select: { name: true } } },
+      });
+
+      if (!current) {
+        throw new NotFoundException(`Content revision ${revisionId} not found`);
+      }
+
+      if (current.status !== ContentRevisionStatus.PENDING) {
+        throw new ConflictException(`Content revision ${revisionId} is already ${current.status.toLowerCase()}`);
+      }
+
+      const fields = current.fields as unknown as ContentRevisionField[];
+      const context: DrugContentContext = { drugName: current.drug.name };
+
+      // Edits are checked against the label like the proposals were
+      if (dto.fields.some((decision) => decision.decision === 'edit')) {
+        context.labelChunks = await this.labelSectionsService.getChunks(current.drugId);
+      }
+      const drugData: Prisma.DrugUpdateInput = {};
+      const approvedFaqs: FaqContent[] = [];
+
+      for (const decision of dto.fields) {
+        const field = fields.find((candidate) => candidate.key === decision.key);
+
+        if (!field) {
+          throw new BadRequestException(`Revision ${revisionId} has no field ${decision.key}`);
+        }
+
+        if (field.status !== 'pending') {
+          throw new BadRequestException(`Field ${decision.key} has already been ${field.status}`);
+        }
+
+        this.applyDecision(field, decision, context);
+
+        if (field.approved === undefined) continue;
+
+        if (typeof field.approved === 'string') {
+          drugData[field.key as RevisionTextField] = field.approved;
+
+          // Citations describe the proposed sentences, so an edit drops them
+          if (field.key === 'aiEnhancedDescription') {
+            drugData.aiDescriptionCitations =
+              decision.decision === 'approve' && field.sentences
+                ? (field.sentences as unknown as Prisma.InputJsonValue)
+                : Prisma.DbNull;
+          }
+        } else {
+          approvedFaqs.push(field.approved);
+        }
+      }
+
+      if (Object.keys(drugData).length > 0) {
+        await tx.drug.update({ where: { id: current.drugId }, data: drugData });
+      }
+
+      for (const faq of approvedFaqs) {
+        await this.upsertFaq(tx, current.drugId, faq);
+      }
+
+      const updated = await tx.drugContentRevision.update({
+        where: { id: revisionId },
+        data: {
+          fields: fields as unknown as Prisma.InputJsonValue,
+          status: this.resolveStatus(fields),
+          reviewedById: reviewer.id,
+          reviewedAt: new Date(),
+          ...(dto.notes !== undefined && { reviewNotes: dto.notes }),
+        },
+        include: REVISION_INCLUDE,
+      });
+
+      return { revision: updated, changed: Object.keys(drugData).length > 0 || approvedFaqs.length > 0 };
+    });
+
+    this.logger.log(`${reviewer.email} reviewed ${dto.fields.length} fields of revision ${revisionId}: ${revision.status}`);
+
+    if (changed) {
+      this.drugEvents.emit('updated', revision.drug);
+    }
+
+    return revision;
+  }
+
+  private applyDecision(field: ContentRevisionField, decision: ContentFieldDecisionDto, context: DrugContentContext) {
+    if (decision.decision === 'reject') {
+      field.status = 'rejected';
+      return;
+    }
+
+    if (decision.decision === 'approve') {
+      field.status = 'approved';
+      field.approved = field.proposed;
+      return;
+    }
+
+    if (typeof field.proposed === 'string') {
+      if (decision.value === undefined) {
+        throw new BadRequestException(`Editing ${field.key} requires a value`);
+      }
+
+      field.approved = decision.value;
+      Object.assign(field, this.validateText(field.key as RevisionTextField, decision.value, context));
+    } else {
+      if (decision.question === undefined && decision.answer === undefined) {
+        throw new BadRequestException(`Editing ${field.key} requires a question or answer`);
+      }
+
+      const answer = decision.answer ?? field.proposed.answer;
+      const faq: FaqContent = {
+        question: decision.question ?? field.proposed.question,
+        answer,
+        ...(answer === field.proposed.answer && field.proposed.citations && { citations: field.proposed.citations }),
+      };
+      field.approved = faq;
+      Object.assign(field, this.validateFaq(faq, context));
+    }
+
+    field.status = 'edited';
+  }
+
+  private validateText(key: RevisionTextField, value: string, context: DrugContentContext) {
+    switch (key) {
+      case 'aiEnhancedDescription': {
+        const { warnings, suggestions } = this.medicalValidator.validateContent(value, context);
+        return this.withGrounding({ issues: warnings, suggestions }, value, context);
+      }
+      case 'seoMetaDescription':
+        return this.withGrounding({ issues: this.medicalValidator.validateMetaDescription(value).issues }, value, context);
+      default:
+        return this.withGrounding({ issues: this.medicalValidator.validateSEOTitle(value).issues }, value, context);
+    }
+  }
+
+  private validateFaq(faq: FaqContent, context: DrugContentContext) {
+    return this.withGrounding({ issues: this.medicalValidator.validateFAQ(faq).issues }, faq.answer, context);
+  }
+
+  /** Adds unsupported label claims to the findings, when label chunks are available. */
+  private withGrounding<T extends { issues: string[] }>(
+    findings: T,
+    text: string,
+    context: DrugContentContext,
+  ): T & { grounding?: GroundingReport } {
+    if (!context.labelChunks?.length) {
+      return findings;
+    }
+
+    const grounding = this.groundingValidator.validate(text, context.labelChunks);
+    return { ...findings, issues: [...findings.issues, ...grounding.issues], grounding };
+  }
+
+  private async upsertFaq(tx: Prisma.TransactionClient, drugId: string, faq: FaqContent) {
+    const existing = await tx.drugFAQ.findFirst({
+      where: { drugId, question: { equals: faq.question, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    const citations = faq.citations ? (faq.citations as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+
+    if (existing) {
+      await tx.drugFAQ.update({ where: { id: existing.id }, data: { answer: faq.answer, citations } });
+    } else {
+      await tx.drugFAQ.create({ data: { drugId, question: faq.question, answer: faq.answer, citations } });
+    }
+  }
+
+  private resolveStatus(fields: ContentRevisionField[]): ContentRevisionStatus {
+    if (fields.some((field) => field.status === 'pending')) {
+      return ContentRevisionStatus.PENDING;
+    }
+
+    if (fields.every((field) => field.status === 'rejected')) {
+      return ContentRevisionStatus.REJECTED;
+    }
+
+    return fields.some((field) => field.status === 'rejected')
+      ? ContentRevisionStatus.PARTIALLY_APPROVED
+      : ContentRevisionStatus.APPROVED;
+  }
+}
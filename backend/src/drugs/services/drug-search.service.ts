@@ -0,0 +1,292 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DosageFormExtractor } from '../../common/utils/dosage-form-extractor.util';
+import { LabelFacetExtractor } from '../../common/utils/label-facet-extractor.util';
+
+export interface DrugSearchOptions {
+  limit?: number;
+  offset?: number;
+  manufacturer?: string;
+  route?: string;
+  productType?: string;
+  hasBoxedWarning?: boolean;
+  hasPediatricUse?: boolean;
+}
+
+/** Facets returned with every search, each also usable as a filter. */
+export const FACET_FIELDS = ['manufacturer', 'route', 'productType', 'hasBoxedWarning', 'hasPediatricUse'] as const;
+
+export type FacetField = (typeof FACET_FIELDS)[number];
+
+export interface FacetBucket {
+  value: string | boolean;
+  count: number;
+}
+
+export type DrugSearchFacets = Record<FacetField, FacetBucket[]>;
+
+/** Label fields returned as highlighted snippets, keyed by Drug field name. */
+export const SNIPPET_FIELDS = ['indications', 'warnings', 'adverseReactions'] as const;
+
+export type SnippetField = (typeof SNIPPET_FIELDS)[number];
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_FACET_BUCKETS = 20;
+
+const BOOLEAN_FACETS: FacetField[] = ['hasBoxedWarning', 'hasPediatricUse'];
+
+const MARK_START = '{{mark}}';
+const MARK_END = '{{/mark}}';
+
+const HEADLINE_OPTIONS =
+  `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxFragments=2, MaxWords=30, MinWords=10, ` +
+  'FragmentDelimiter=" … "';
+
+/**
+ * Weighted document for a drug: names (A) outrank indications (B), which
+ * outrank warnings (C) and adverse reactions (D). Stored as a generated,
+ * GIN-indexed column; see prisma/search-indexes.sql.
+ */
+const SEARCH_VECTOR = Prisma.sql`d.search_vector`;
+
+interface SearchRow {
+  id: string;
+  rank: number;
+  total: bigint;
+  indications: string | null;
+  warnings: string | null;
+  adverseReactions: string | null;
+}
+
+interface FacetRow {
+  facet: FacetField;
+  value: string;
+  count: bigint;
+}
+
+@Injectable()
+export class DrugSearchService {
+  private readonly logger = new Logger(DrugSearchService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Full-text search over names and label content. Matches are ranked by the
+   * weighted document, with a boost for exact and prefix name matches, and
+   * each hit carries `<mark>`-highlighted snippets from the label fields.
+   * Facet counts cover every match for the query under the other filters.
+   */
+  async search(query: string, options: DrugSearchOptions = {}) {
+    const term = query?.trim();
+    if (!term) {
+      throw new BadRequestException('Search query is required');
+    }
+
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(options.offset || 0, 0);
+    const filters = this.buildFilters(options);
+    const contains = `%${this.escapeLike(term)}%`;
+    const prefix = `${this.escapeLike(term)}%`;
+
+    const rowsQuery = this.prisma.$queryRaw<SearchRow[]>`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${term}) AS tsq),
+      matches AS (
+        SELECT
+          d.id,
+          d.name,
+          ts_rank(${SEARCH_VECTOR}, q.tsq)
+            + CASE WHEN lower(d.name) = lower(${term}::text) THEN 1 WHEN d.name ILIKE ${prefix} THEN 0.5 ELSE 0 END AS rank
+        FROM drugs d, q
+        WHERE d.published = true
+          AND ${this.matchCondition(contains)}
+          ${filters}
+      ),
+      page AS (
+        SELECT m.id, m.name, m.rank, COUNT(*) OVER () AS total
+        FROM matches m
+        ORDER BY m.rank DESC, m.name ASC
+        LIMIT ${limit} OFFSET ${offset}
+      )
+      SELECT
+        p.id,
+        p.rank::float8 AS rank,
+        p.total,
+        ts_headline('english', coalesce(d.indications, ''), q.tsq, ${HEADLINE_OPTIONS}) AS indications,
+        ts_headline('english', coalesce(d.warnings, ''), q.tsq, ${HEADLINE_OPTIONS}) AS warnings,
+        ts_headline('english', coalesce(d."adverseReactions", ''), q.tsq, ${HEADLINE_OPTIONS}) AS "adverseReactions"
+      FROM page p
+      JOIN drugs d ON d.id = p.id
+      CROSS JOIN q
+      ORDER BY p.rank DESC, p.name ASC
+    `;
+
+    const [rows, facets] = await Promise.all([rowsQuery, this.facets(term, contains, options)]);
+
+    const total = rows.length > 0 ? Number(rows[0].total) : await this.countPastEnd(offset, term, contains, filters);
+
+    const drugs = await this.prisma.drug.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: { faqs: true },
+    });
+    const drugsById = new Map(drugs.map((drug) => [drug.id, drug]));
+
+    this.logger.debug(`Search "${term}" matched ${total} drugs`);
+
+    return {
+      drugs: rows
+        .filter((row) => drugsById.has(row.id))
+        .map((row) => ({
+          ...drugsById.get(row.id),
+          searchRank: Number(row.rank),
+          snippets: this.toSnippets(row),
+        })),
+      total,
+      offset,
+      limit,
+      query: term,
+      facets,
+    };
+  }
+
+  /**
+   * Buckets for each facet over the query's matches. A facet's own filter is
+   * left out of its counts so the other values stay selectable.
+   */
+  private async facets(term: string, contains: string, options: DrugSearchOptions): Promise<DrugSearchFacets> {
+    const rows = await this.prisma.$queryRaw<FacetRow[]>`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${term}) AS tsq),
+      matches AS (
+        SELECT d.id, d.manufacturer, d.route, d.routes, d."productType", d."hasBoxedWarning", d."hasPediatricUse"
+        FROM drugs d, q
+        WHERE d.published = true
+          AND ${this.matchCondition(contains)}
+      )
+      SELECT 'manufacturer' AS facet, d.manufacturer AS value, COUNT(*) AS count
+      FROM matches d
+      WHERE d.manufacturer IS NOT NULL ${this.buildFilters(options, 'manufacturer')}
+      GROUP BY d.manufacturer
+      UNION ALL
+      SELECT 'route', r.value, COUNT(*)
+      FROM matches d
+      CROSS JOIN LATERAL unnest(d.routes) AS r(value)
+      WHERE true ${this.buildFilters(options, 'route')}
+      GROUP BY r.value
+      UNION ALL
+      SELECT 'productType', d."productType", COUNT(*)
+      FROM matches d
+      WHERE d."productType" IS NOT NULL ${this.buildFilters(options, 'productType')}
+      GROUP BY d."productType"
+      UNION ALL
+      SELECT 'hasBoxedWarning', d."hasBoxedWarning"::text, COUNT(*)
+      FROM matches d
+      WHERE true ${this.buildFilters(options, 'hasBoxedWarning')}
+      GROUP BY d."hasBoxedWarning"
+      UNION ALL
+      SELECT 'hasPediatricUse', d."hasPediatricUse"::text, COUNT(*)
+      FROM matches d
+      WHERE true ${this.buildFilters(options, 'hasPediatricUse')}
+      GROUP BY d."hasPediatricUse"
+    `;
+
+    const facets = Object.fromEntries(FACET_FIELDS.map((field) => [field, []])) as DrugSearchFacets;
+
+    for (const row of rows) {
+      if (!facets[row.facet]) continue;
+
+      const value = BOOLEAN_FACETS.includes(row.facet) ? row.value === 'true' : row.value;
+      facets[row.facet].push({ value, count: Number(row.count) });
+    }
+
+    for (const field of FACET_FIELDS) {
+      facets[field].sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+      if (!BOOLEAN_FACETS.includes(field)) {
+        facets[field] = facets[field].slice(0, MAX_FACET_BUCKETS);
+      }
+    }
+
+    return facets;
+  }
+
+  /** A drug matches on the full-text document or a substring of its names. */
+  private matchCondition(contains: string): Prisma.Sql {
+    return Prisma.sql`(
+      ${SEARCH_VECTOR} @@ q.tsq
+      OR d.name ILIKE ${contains}
+      OR d."genericName" ILIKE ${contains}
+      OR d."fdaBrandName" ILIKE ${contains}
+      OR d.manufacturer ILIKE ${contains}
+    )`;
+  }
+
+  private buildFilters(options: DrugSearchOptions, except?: FacetField): Prisma.Sql {
+    const filters: Prisma.Sql[] = [];
+
+    if (options.manufacturer && except !== 'manufacturer') {
+      filters.push(Prisma.sql`AND d.manufacturer ILIKE ${`%${this.escapeLike(options.manufacturer)}%`}`);
+    }
+
+    if (options.route && except !== 'route') {
+      const routes = DosageFormExtractor.normalizeRoute(options.route);
+      filters.push(
+        Prisma.sql`AND (d.routes && ${routes}::text[] OR d.route ILIKE ${`%${this.escapeLike(options.route)}%`})`,
+      );
+    }
+
+    const productType = LabelFacetExtractor.productType(options.productType);
+    if (productType && except !== 'productType') {
+      filters.push(Prisma.sql`AND d."productType" = ${productType}`);
+    }
+
+    if (options.hasBoxedWarning !== undefined && except !== 'hasBoxedWarning') {
+      filters.push(Prisma.sql`AND d."hasBoxedWarning" = ${options.hasBoxedWarning}`);
+    }
+
+    if (options.hasPediatricUse !== undefined && except !== 'hasPediatricUse') {
+      filters.push(Prisma.sql`AND d."hasPediatricUse" = ${options.hasPediatricUse}`);
+    }
+
+    return filters.length > 0 ? Prisma.join(filters, ' ') : Prisma.empty;
+  }
+
+  /** The windowed total is unavailable when the offset is past the last match. */
+  private async countPastEnd(offset: number, term: string, contains: string, filters: Prisma.Sql) {
+    if (offset === 0) return 0;
+
+    const [{ count }] = await this.prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS count
+      FROM drugs d, (SELECT websearch_to_tsquery('english', ${term}) AS tsq) q
+      WHERE d.published = true
+        AND ${this.matchCondition(contains)}
+        ${filters}
+    `;
+
+    return Number(count);
+  }
+
+  private toSnippets(row: SearchRow): Partial<Record<SnippetField, string>> {
+    const snippets: Partial<Record<SnippetField, string>> = {};
+
+    for (const field of SNIPPET_FIELDS) {
+      const headline = row[field];
+      if (headline?.includes(MARK_START)) {
+        snippets[field] = this.escapeHtml(headline)
+          .split(MARK_START)
+          .join('<mark>')
+          .split(MARK_END)
+          .join('</mark>');
+      }
+    }
+
+    return snippets;
+  }
+
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+}
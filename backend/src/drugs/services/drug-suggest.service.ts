@@ -0,0 +1,148 @@
+import { BadRequestException, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { PrismaService } from '../../prisma/prisma.service';
+import { RedisService } from '../../redis/redis.service';
+import { DrugEventsService } from '../../events/drug-events.service';
+
+/** Name fields a suggestion can match on, keyed as they appear on Drug. */
+export type SuggestMatchField = 'name' | 'brandNames' | 'genericName' | 'fdaBrandName';
+
+export interface DrugSuggestion {
+  id: string;
+  name: string;
+  slug: string;
+  genericName: string | null;
+  fdaBrandName: string | null;
+  manufacturer: string | null;
+  matchedField: SuggestMatchField;
+  matchedValue: string;
+  score: number;
+}
+
+export interface DrugSuggestResponse {
+  query: string;
+  suggestions: DrugSuggestion[];
+}
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const MIN_QUERY_LENGTH = 2;
+
+const CACHE_PREFIX = 'drugs:suggest:';
+const CACHE_TTL_SECONDS = 300;
+/**
+ * Part of every cache key. Bumping it on a drug change orphans all cached
+ * responses at once, without scanning Redis; they expire with their TTL.
+ */
+const CACHE_GENERATION_KEY = `${CACHE_PREFIX}generation`;
+
+/**
+ * Trigram thresholds: whole-name similarity catches misspellings
+ * ("emgalitty"), word similarity catches partial words ("galcanez").
+ */
+const SIMILARITY_THRESHOLD = 0.3;
+const WORD_SIMILARITY_THRESHOLD = 0.5;
+
+@Injectable()
+export class DrugSuggestService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(DrugSuggestService.name);
+  private changes: Subscription;
+
+  constructor(
+    private prisma: PrismaService,
+    private redisService: RedisService,
+    private drugEvents: DrugEventsService,
+  ) {}
+
+  onModuleInit() {
+    // Any change can add, rename or hide a suggestion, and cached entries are keyed by query
+    this.changes = this.drugEvents.changes$.subscribe(() => this.invalidateCache());
+  }
+
+  onModuleDestroy() {
+    this.changes?.unsubscribe();
+  }
+
+  /**
+   * Typo-tolerant name autocomplete. Each published drug is scored by its
+   * best-matching brand, generic or FDA brand name using pg_trgm similarity,
+   * with prefix matches ranked first. Results are cached per query.
+   */
+  async suggest(query: string, limit = DEFAULT_LIMIT): Promise<DrugSuggestResponse> {
+    const term = query?.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!term) {
+      throw new BadRequestException('Suggest query is required');
+    }
+
+    const size = Math.min(Math.max(limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    if (term.length < MIN_QUERY_LENGTH) {
+      return { query: term, suggestions: [] };
+    }
+
+    const generation = (await this.redisService.get(CACHE_GENERATION_KEY)) ?? '0';
+    const cacheKey = `${CACHE_PREFIX}${generation}:${size}:${term}`;
+    const cached = await this.redisService.get(cacheKey);
+    if (cached) {
+      try {
+        return JSON.parse(cached);
+      } catch (error) {
+        this.logger.warn(`Ignoring unreadable suggest cache entry ${cacheKey}: ${error.message}`);
+      }
+    }
+
+    const prefix = `${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+    const rows = await this.prisma.$queryRaw<DrugSuggestion[]>`
+      WITH candidates AS (
+        SELECT
+          d.id,
+          d.name,
+          d.slug,
+          d."genericName",
+          d."fdaBrandName",
+          d.manufacturer,
+          f.field AS "matchedField",
+          f.value AS "matchedValue",
+          GREATEST(similarity(lower(f.value), ${term}), word_similarity(${term}, lower(f.value)))
+            + CASE WHEN f.value ILIKE ${prefix} THEN 1 ELSE 0 END AS score
+        FROM drugs d
+        CROSS JOIN LATERAL (
+          SELECT 'name' AS field, d.name AS value
+          UNION ALL SELECT 'brandNames', b FROM unnest(d."brandNames") AS b
+          UNION ALL SELECT 'genericName', d."genericName"
+          UNION ALL SELECT 'fdaBrandName', d."fdaBrandName"
+        ) f
+        WHERE d.published = true
+          AND f.value IS NOT NULL
+          AND (
+            f.value ILIKE ${prefix}
+            OR similarity(lower(f.value), ${term}) >= ${SIMILARITY_THRESHOLD}
+            OR word_similarity(${term}, lower(f.value)) >= ${WORD_SIMILARITY_THRESHOLD}
+          )
+      ),
+      best AS (
+        SELECT DISTINCT ON (c.id) c.*
+        FROM candidates c
+        ORDER BY c.id, c.score DESC, length(c."matchedValue") ASC
+      )
+      SELECT *
+      FROM best
+      ORDER BY score DESC, name ASC
+      LIMIT ${size}
+    `;
+
+    const response: DrugSuggestResponse = {
+      query: term,
+      suggestions: rows.map((row) => ({ ...row, score: Number(row.score) })),
+    };
+
+    await this.redisService.set(cacheKey, JSON.stringify(response), CACHE_TTL_SECONDS);
+
+    return response;
+  }
+
+  /** Makes every cached suggest response unreachable. */
+  async invalidateCache(): Promise<void> {
+    await this.redisService.incr(CACHE_GENERATION_KEY);
+  }
+}
@@ -0,0 +1,170 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DrugsService } from '../drugs.service';
+import { SplSectionParser } from '../../common/utils/spl-section-parser.util';
+import { LabelDiff } from '../../common/utils/label-diff.util';
+import { DataSanitizer } from '../../common/utils/data-sanitizer.util';
+import { LabelImportParser } from '../../common/utils/label-import.util';
+
+export type LabelImportStatus = 'created' | 'updated' | 'skipped' | 'failed';
+
+export interface LabelImportResult {
+  index: number;
+  setId: string | null;
+  drugName: string | null;
+  slug: string | null;
+  status: LabelImportStatus;
+  drugId?: string;
+  error?: string;
+}
+
+export interface LabelImportReport {
+  dryRun: boolean;
+  summary: Record<LabelImportStatus, number> & { total: number };
+  results: LabelImportResult[];
+}
+
+@Injectable()
+export class LabelImportService {
+  private readonly logger = new Logger(LabelImportService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private drugsService: DrugsService,
+  ) {}
+
+  /**
+   * Upserts Labels.json-format records by SPL set ID. Records whose label is
+   * identical to the drug's latest label version are skipped, so re-running
+   * the same import is a no-op. In dry-run mode nothing is written and each
+   * result reports what would have happened.
+   */
+  async importLabels(records: any[], options: { dryRun?: boolean } = {}): Promise<LabelImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const seenSetIds = new Set<string>();
+    const results: LabelImportResult[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const result = await this.importRecord(record, index, seenSetIds, dryRun);
+      results.push(result);
+
+      if (result.status === 'failed') {
+        this.logger.warn(`Label import record ${index} failed: ${result.error}`);
+      }
+    }
+
+    const summary = { total: results.length, created: 0, updated: 0, skipped: 0, failed: 0 };
+    results.forEach((result) => summary[result.status]++);
+
+    this.logger.log(
+      `Label import${dryRun ? ' (dry run)' : ''}: ${summary.created} created, ${summary.updated} updated, ` +
+        `${summary.skipped} skipped, ${summary.failed} failed`,
+    );
+
+    return { dryRun, summary, results };
+  }
+
+  parseRecords(input: any): any[] {
+    try {
+      return LabelImportParser.parse(input);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  private async importRecord(
+    record: any,
+    index: number,
+    seenSetIds: Set<string>,
+    dryRun: boolean,
+  ): Promise<LabelImportResult> {
+    const setId = record && typeof record === 'object' ? SplSectionParser.resolveSetId(record) : null;
+    const drugName = typeof record?.drugName === 'string' ? record.drugName.trim() || null : null;
+    const slug = typeof record?.slug === 'string' && record.slug.trim()
+      ? record.slug.trim()
+      : drugName ? LabelImportParser.createSlug(drugName) : null;
+
+    const result: LabelImportResult = { index, setId, drugName, slug, status: 'failed' };
+
+    if (!setId) return { ...result, error: 'Record has no setId' };
+    if (!drugName || !slug) return { ...result, error: 'Record has no drugName' };
+    if (!SplSectionParser.resolveLabel(record)) return { ...result, error: 'Record has no label' };
+
+    if (seenSetIds.has(setId)) {
+      return { ...result, error: `Duplicate setId ${setId} in import` };
+    }
+    seenSetIds.add(setId);
+
+    try {
+      const existing = await this.findExistingDrug(setId, drugName, slug);
+
+      if (existing?.setId && existing.setId !== setId) {
+        return {
+          ...result,
+          drugId: existing.id,
+          error: `Drug ${existing.id} with the same name or slug belongs to label set ${existing.setId}`,
+        };
+      }
+
+      if (existing) {
+        const latest = await this.prisma.drugLabelVersion.findFirst({
+          where: { drugId: existing.id },
+          select: { contentHash: true },
+          orderBy: { version: 'desc' },
+        });
+
+        if (latest?.contentHash === LabelDiff.contentHash(record)) {
+          return { ...result, status: 'skipped', drugId: existing.id };
+        }
+
+        if (!dryRun) {
+          await this.drugsService.processFDALabel(existing.id, record);
+        }
+
+        return { ...result, status: 'updated', drugId: existing.id };
+      }
+
+      if (dryRun) {
+        return { ...result, status: 'created' };
+      }
+
+      const label = SplSectionParser.resolveLabel(record);
+      const drug = await this.prisma.drug.create({
+        data: {
+          name: drugName,
+          slug,
+          genericName: DataSanitizer.sanitizeString(label.genericName),
+          brandNames: [drugName],
+          // Imported drugs stay off the public site until an editor publishes them
+          published: false,
+        },
+      });
+
+      try {
+        // One event per record: the drug is announced once its label is stored
+        await this.drugsService.processFDALabel(drug.id, record, { event: 'created' });
+      } catch (error) {
+        // Leave no half-imported drug behind so the record can be retried
+        await this.prisma.drug.delete({ where: { id: drug.id } });
+        throw error;
+      }
+
+      return { ...result, status: 'created', drugId: drug.id };
+    } catch (error) {
+      return { ...result, error: error?.message || 'Import failed' };
+    }
+  }
+
+  private async findExistingDrug(setId: string, name: string, slug: string) {
+    const select = { id: true, setId: true };
+
+    const bySetId = await this.prisma.drug.findUnique({ where: { setId }, select });
+    if (bySetId) return bySetId;
+
+    // Drugs created before set IDs were tracked are matched by name or slug
+    return this.prisma.drug.findFirst({
+      where: { OR: [{ slug }, { name }] },
+      select,
+    });
+  }
+}
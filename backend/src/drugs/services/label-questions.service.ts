@@ -0,0 +1,82 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AiServiceService } from '../../ai-service/ai-service.service';
+import { LabelAnswer } from '../../ai-service/interfaces/ai-provider.interface';
+import { LabelSectionsService } from './label-sections.service';
+
+export interface LabelQuestionLogOptions {
+  drugId?: string;
+  answered?: boolean;
+  limit?: number;
+}
+
+const DEFAULT_LOG_SIZE = 50;
+const MAX_LOG_SIZE = 200;
+
+/**
+ * Answers patients' free-form questions from a drug's stored label sections
+ * and keeps every question, answered or declined, so editors can turn common
+ * ones into FAQs.
+ */
+@Injectable()
+export class LabelQuestionsService {
+  private readonly logger = new Logger(LabelQuestionsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private aiService: AiServiceService,
+    private labelSectionsService: LabelSectionsService,
+  ) {}
+
+  async ask(slug: string, question: string): Promise<LabelAnswer> {
+    const drug = await this.prisma.drug.findUnique({
+      where: { slug },
+      select: { id: true, name: true },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${slug} not found`);
+    }
+
+    const text = question.trim();
+    if (text.length < 3) {
+      throw new BadRequestException('question must be at least 3 characters');
+    }
+
+    const chunks = await this.labelSectionsService.getChunks(drug.id);
+    const answer = await this.aiService.answerLabelQuestion(drug.name, text, chunks);
+
+    // The answer still goes out if the log write fails
+    try {
+      await this.prisma.drugQuestion.create({
+        data: {
+          drugId: drug.id,
+          question: text,
+          answered: answer.answered,
+          answer: answer.answer,
+          citations:
+            answer.citations.length > 0 ? (answer.citations as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to log question about ${slug}: ${error.message}`);
+    }
+
+    this.logger.log(`Question about ${slug} ${answer.answered ? 'answered' : 'declined'} from ${chunks.length} label chunks`);
+    return answer;
+  }
+
+  /** Logged questions, newest first, for FAQ curation. */
+  async listQuestions(options: LabelQuestionLogOptions = {}) {
+    return this.prisma.drugQuestion.findMany({
+      where: {
+        ...(options.drugId && { drugId: options.drugId }),
+        ...(options.answered !== undefined && { answered: options.answered }),
+      },
+      include: { drug: { select: { id: true, name: true, slug: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(options.limit ?? DEFAULT_LOG_SIZE, 1), MAX_LOG_SIZE),
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ParsedLabelSection, SplSectionParser } from '../../common/utils/spl-section-parser.util';
+import { LabelChunk, LabelRetriever } from '../../common/utils/label-retrieval.util';
+
+export interface LabelSectionNode {
+  id: string;
+  code: string;
+  labelKey: string | null;
+  number: string | null;
+  title: string | null;
+  anchor: string | null;
+  html: string | null;
+  children: LabelSectionNode[];
+}
+
+@Injectable()
+export class LabelSectionsService {
+  private readonly logger = new Logger(LabelSectionsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Replaces the drug's stored section tree with the sections of `splLabel`.
+   * Pass `tx` to make the replacement part of a larger transaction.
+   */
+  async replaceForDrug(drugId: string, splLabel: any, tx?: Prisma.TransactionClient): Promise<number> {
+    const levels = this.toRows(drugId, SplSectionParser.parseLabel(splLabel));
+    const count = levels.reduce((total, rows) => total + rows.length, 0);
+
+    // Ids are assigned up front so each tree level is one insert, parents first
+    const replace = async (client: Prisma.TransactionClient) => {
+      await client.labelSection.deleteMany({ where: { drugId } });
+
+      for (const rows of levels) {
+        await client.labelSection.createMany({ data: rows });
+      }
+    };
+
+    await (tx ? replace(tx) : this.prisma.$transaction(replace));
+
+    this.logger.log(`Stored ${count} label sections for drug ${drugId}`);
+    return count;
+  }
+
+  async getTreeByDrugId(drugId: string): Promise<LabelSectionNode[]> {
+    const drug = await this.prisma.drug.findUnique({
+      where: { id: drugId },
+      select: { id: true },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with ID ${drugId} not found`);
+    }
+
+    return this.getTree({ drugId });
+  }
+
+  async getTreeBySlug(slug: string): Promise<LabelSectionNode[]> {
+    const drug = await this.prisma.drug.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${slug} not found`);
+    }
+
+    return this.getTree({ drugId: drug.id });
+  }
+
+  /** The drug's stored sections as retrieval chunks, in label order. */
+  async getChunks(drugId: string): Promise<LabelChunk[]> {
+    const sections = await this.prisma.labelSection.findMany({
+      where: { drugId },
+      select: { code: true, labelKey: true, number: true, title: true, text: true },
+      orderBy: { position: 'asc' },
+    });
+
+    return LabelRetriever.chunk(sections);
+  }
+
+  /** Flattens the parsed tree into rows grouped by depth, keeping document order in `position`. */
+  private toRows(drugId: string, sections: ParsedLabelSection[]): Prisma.LabelSectionCreateManyInput[][] {
+    const levels: Prisma.LabelSectionCreateManyInput[][] = [];
+    let position = 0;
+
+    const visit = (nodes: ParsedLabelSection[], parentId: string | null, depth: number) => {
+      for (const node of nodes) {
+        const id = randomUUID();
+        (levels[depth] ??= []).push({
+          id,
+          drugId,
+          parentId,
+          position: position++,
+          code: node.code,
+          labelKey: node.labelKey,
+          number: node.number,
+          title: node.title,
+          anchor: node.anchor,
+          html: node.html,
+          text: node.text,
+        });
+
+        visit(node.children, id, depth + 1);
+      }
+    };
+
+    visit(sections, null, 0);
+    return levels;
+  }
+
+  private async getTree(where: Prisma.LabelSectionWhereInput): Promise<LabelSectionNode[]> {
+    const sections = await this.prisma.labelSection.findMany({
+      where,
+      orderBy: { position: 'asc' },
+    });
+
+    const nodes = new Map<string, LabelSectionNode>();
+    const roots: LabelSectionNode[] = [];
+
+    for (const section of sections) {
+      nodes.set(section.id, {
+        id: section.id,
+        code: section.code,
+        labelKey: section.labelKey,
+        number: section.number,
+        title: section.title,
+        anchor: section.anchor,
+        html: section.html,
+        children: [],
+      });
+    }
+
+    for (const section of sections) {
+      const node = nodes.get(section.id);
+      const parent = section.parentId ? nodes.get(section.parentId) : null;
+
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+}
@@ -0,0 +1,149 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SplSectionParser } from '../../common/utils/spl-section-parser.util';
+import { LabelDiff, LabelSectionSnapshot } from '../../common/utils/label-diff.util';
+
+@Injectable()
+export class LabelVersionsService {
+  private readonly logger = new Logger(LabelVersionsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Stores an ingested label as the drug's next version. Re-processing a label
+   * identical to the latest version does not create a new one. Pass `tx` to
+   * record the version as part of a larger transaction.
+   */
+  async recordVersion(drugId: string, labelData: any, tx?: Prisma.TransactionClient) {
+    const splLabel = SplSectionParser.resolveLabel(labelData);
+    const contentHash = LabelDiff.contentHash(labelData);
+
+    const record = async (client: Prisma.TransactionClient) => {
+      // Serializes concurrent ingests of the same drug so they cannot both claim the next version number
+      await client.$queryRaw`SELECT id FROM drugs WHERE id = ${drugId} FOR UPDATE`;
+
+      const latest = await client.drugLabelVersion.findFirst({
+        where: { drugId },
+        orderBy: { version: 'desc' },
+      });
+
+      if (latest?.contentHash === contentHash) {
+        this.logger.debug(`Label for drug ${drugId} unchanged since version ${latest.version}`);
+        return latest;
+      }
+
+      const version = await client.drugLabelVersion.create({
+        data: {
+          drugId,
+          version: (latest?.version ?? 0) + 1,
+          setId: SplSectionParser.resolveSetId(labelData),
+          effectiveTime: SplSectionParser.parseEffectiveTime(splLabel?.effectiveTime),
+          contentHash,
+          labelData,
+          sections: LabelDiff.snapshot(splLabel) as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      this.logger.log(`Recorded label version ${version.version} for drug ${drugId}`);
+      return version;
+    };
+
+    return tx ? record(tx) : this.prisma.$transaction(record);
+  }
+
+  async listVersions(drugId: string) {
+    await this.ensureDrugExists(drugId);
+
+    const versions = await this.prisma.drugLabelVersion.findMany({
+      where: { drugId },
+      select: {
+        id: true,
+        version: true,
+        setId: true,
+        effectiveTime: true,
+        contentHash: true,
+        sections: true,
+        createdAt: true,
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return versions.map(({ sections, ...version }) => ({
+      ...version,
+      sectionCount: Array.isArray(sections) ? sections.length : 0,
+    }));
+  }
+
+  /**
+   * Diffs two versions of a drug's label section by section. Defaults to the
+   * latest version against the one before it.
+   */
+  async diffVersions(
+    drugId: string,
+    options: { from?: number; to?: number; includeUnchanged?: boolean } = {},
+  ) {
+    await this.ensureDrugExists(drugId);
+
+    const latest = await this.prisma.drugLabelVersion.findFirst({
+      where: { drugId },
+      select: { version: true },
+      orderBy: { version: 'desc' },
+    });
+
+    const toVersion = options.to ?? latest?.version;
+    const fromVersion = options.from ?? (toVersion !== undefined ? toVersion - 1 : undefined);
+
+    if (!toVersion || !fromVersion || fromVersion < 1) {
+      throw new BadRequestException('At least two label versions are required to compute a diff');
+    }
+
+    if (fromVersion === toVersion) {
+      throw new BadRequestException('Cannot diff a label version against itself');
+    }
+
+    const [from, to] = await Promise.all([
+      this.findVersion(drugId, fromVersion),
+      this.findVersion(drugId, toVersion),
+    ]);
+
+    const changes = LabelDiff.diff(
+      from.sections as unknown as LabelSectionSnapshot[],
+      to.sections as unknown as LabelSectionSnapshot[],
+    );
+
+    const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    changes.forEach((change) => summary[change.status]++);
+
+    return {
+      drugId,
+      from: { version: from.version, setId: from.setId, effectiveTime: from.effectiveTime },
+      to: { version: to.version, setId: to.setId, effectiveTime: to.effectiveTime },
+      summary,
+      sections: options.includeUnchanged ? changes : changes.filter((change) => change.status !== 'unchanged'),
+    };
+  }
+
+  private async findVersion(drugId: string, version: number) {
+    const labelVersion = await this.prisma.drugLabelVersion.findUnique({
+      where: { drugId_version: { drugId, version } },
+    });
+
+    if (!labelVersion) {
+      throw new NotFoundException(`Label version ${version} not found for drug ${drugId}`);
+    }
+
+    return labelVersion;
+  }
+
+  private async ensureDrugExists(drugId: string) {
+    const drug = await this.prisma.drug.findUnique({
+      where: { id: drugId },
+      select: { id: true },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with ID ${drugId} not found`);
+    }
+  }
+}
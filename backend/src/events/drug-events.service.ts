@@ -0,0 +1,47 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+
+export type DrugChangeType = 'created' | 'updated' | 'published' | 'unpublished' | 'label_processed' | 'deleted';
+
+export interface DrugChangeEvent {
+  type: DrugChangeType;
+  drugId: string;
+  slug: string;
+  /** Whether the drug is published after the change. */
+  published: boolean;
+  occurredAt: Date;
+}
+
+/**
+ * In-process feed of drug changes, so consumers such as the MCP server can
+ * invalidate what they serve without DrugsService knowing about them.
+ */
+@Injectable()
+export class DrugEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(DrugEventsService.name);
+  private readonly changes = new Subject<DrugChangeEvent>();
+
+  get changes$(): Observable<DrugChangeEvent> {
+    return this.changes.asObservable();
+  }
+
+  emit(type: DrugChangeType, drug: { id: string; slug: string; published: boolean }): void {
+    this.logger.debug(`Drug ${drug.slug} ${type}`);
+    this.changes.next({ type, drugId: drug.id, slug: drug.slug, published: drug.published, occurredAt: new Date() });
+  }
+
+  /**
+   * Emits an update for a drug whose row was just written, adding a publish
+   * or unpublish event when its published flag flipped.
+   */
+  emitUpdate(before: { published: boolean }, after: { id: string; slug: string; published: boolean }): void {
+    this.emit('updated', after);
+    if (before.published !== after.published) {
+      this.emit(after.published ? 'published' : 'unpublished', after);
+    }
+  }
+
+  onModuleDestroy() {
+    this.changes.complete();
+  }
+}
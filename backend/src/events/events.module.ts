@@ -0,0 +1,9 @@
+import { Global, Module } from '@nestjs/common';
+import { DrugEventsService } from './drug-events.service';
+
+@Global()
+@Module({
+  providers: [DrugEventsService],
+  exports: [DrugEventsService],
+})
+export class EventsModule {}
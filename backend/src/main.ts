@@ -1,12 +1,24 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { json, text, urlencoded } from 'express';
 import { AppModule } from './app.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Body parsers are registered below so the import route can have its own limits
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { bodyParser: false });
+
+  // Bulk label imports post whole Labels.json files, as JSON or NDJSON. Every
+  // other route keeps the default 100kb limit; parsers skip already-parsed bodies.
+  app.use(
+    '/drugs/import',
+    json({ limit: '50mb' }),
+    text({ type: 'application/x-ndjson', limit: '50mb' }),
+  );
+  app.use(json(), urlencoded({ extended: true }));
 
   app.useGlobalFilters(new AllExceptionsFilter());
   app.useGlobalInterceptors(new LoggingInterceptor());
@@ -17,12 +29,15 @@ async function bootstrap() {
     transform: true,
   }));
 
-  app.enableCors();
+  // MCP clients read the session id from initialize responses
+  app.enableCors({ exposedHeaders: ['Mcp-Session-Id'] });
 
   const config = new DocumentBuilder()
     .setTitle('Drug Information API')
     .setDescription('API for AI-enhanced drug information platform')
     .setVersion('1.0')
+    .addBearerAuth()
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'mcp-api-key')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api', app, document);
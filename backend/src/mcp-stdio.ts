@@ -0,0 +1,26 @@
+import { NestFactory } from '@nestjs/core';
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { McpStdioModule } from './mcp/mcp-stdio.module';
+import { McpStdioTransport } from './mcp/transports/mcp-stdio.transport';
+
+// stdout carries the JSON-RPC stream, so every log level is written to stderr
+class StderrLogger extends ConsoleLogger {
+  protected printMessages(messages: unknown[], context?: string, logLevel?: LogLevel): void {
+    super.printMessages(messages, context, logLevel, 'stderr');
+  }
+}
+
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(McpStdioModule, {
+    logger: new StderrLogger(),
+  });
+  app.enableShutdownHooks();
+
+  await app.get(McpStdioTransport).listen();
+  await app.close();
+}
+
+bootstrap().catch((error) => {
+  console.error('MCP stdio server failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { McpAuthGuard, McpAuthenticatedRequest, McpPublic, McpRequireScope } from '../mcp-auth.guard';
+import { McpClientService } from '../../services/mcp-client.service';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ANONYMOUS_MCP_CLIENT, MCP_SCOPES } from '../../interfaces/mcp-auth.interface';
+
+class TestController {
+  handle() {}
+
+  @McpPublic()
+  health() {}
+
+  @McpRequireScope(MCP_SCOPES.ADMIN)
+  execute() {}
+}
+
+describe('McpAuthGuard', () => {
+  const rows = new Map<string, any>();
+  const prisma = {
+    mcpClient: {
+      create: jest.fn(async ({ data }) => {
+        const row = { id: `client-${rows.size + 1}`, revokedAt: null, ...data };
+        rows.set(row.keyHash, row);
+        return row;
+      }),
+      findUnique: jest.fn(async ({ where }) => rows.get(where.keyHash) ?? null),
+      update: jest.fn().mockResolvedValue({}),
+    },
+  };
+  let clientService: McpClientService;
+
+  const createGuard = async (env: Record<string, string> = {}) => {
+    const module = await Test.createTestingModule({
+      providers: [
+        McpAuthGuard,
+        Reflector,
+        { provide: McpClientService, useValue: clientService },
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+      ],
+    }).compile();
+
+    return module.get(McpAuthGuard);
+  };
+
+  const context = (headers: Record<string, string>, handler: keyof TestController = 'handle') => {
+    const request = { headers } as McpAuthenticatedRequest;
+    const executionContext = {
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+
+    return { request, executionContext };
+  };
+
+  beforeEach(async () => {
+    rows.clear();
+    jest.clearAllMocks();
+
+    const module = await Test.createTestingModule({
+      providers: [McpClientService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+    clientService = module.get(McpClientService);
+  });
+
+  it('should store only a hash of the generated key', async () => {
+    const { client, apiKey } = await clientService.createClient('search-bot', [MCP_SCOPES.READ], 60);
+
+    expect(apiKey).toMatch(/^mcp_[\w-]{43}$/);
+    expect(client.keyPrefix).toBe(apiKey.slice(0, 12));
+    expect(JSON.stringify(prisma.mcpClient.create.mock.calls)).not.toContain(apiKey);
+  });
+
+  it('should attach the client for a bearer token or an X-API-Key header', async () => {
+    const { apiKey } = await clientService.createClient('search-bot', [MCP_SCOPES.READ], 60);
+    const guard = await createGuard();
+
+    for (const headers of [{ authorization: `Bearer ${apiKey}` }, { 'x-api-key': apiKey }]) {
+      const { request, executionContext } = context(headers);
+
+      await expect(guard.canActivate(executionContext)).resolves.toBe(true);
+      expect(request.mcpClient).toEqual({ id: 'client-1', name: 'search-bot', scopes: ['mcp:read'], rateLimit: 60 });
+    }
+    expect(prisma.mcpClient.update).toHaveBeenCalledWith({
+      where: { id: 'client-1' },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+  });
+
+  it('should reject missing, unknown and revoked keys', async () => {
+    const { client, apiKey } = await clientService.createClient('old-bot', [MCP_SCOPES.READ]);
+    rows.get(client.keyHash).revokedAt = new Date();
+    const guard = await createGuard();
+
+    await expect(guard.canActivate(context({}).executionContext)).rejects.toThrow('MCP API key required');
+    await expect(
+      guard.canActivate(context({ authorization: 'Bearer mcp_unknown' }).executionContext),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(guard.canActivate(context({ 'x-api-key': apiKey }).executionContext)).rejects.toThrow(
+      'Invalid or revoked MCP API key',
+    );
+  });
+
+  it('should let public routes through and everything in when auth is disabled', async () => {
+    const { request: health, executionContext: healthContext } = context({}, 'health');
+    await expect((await createGuard()).canActivate(healthContext)).resolves.toBe(true);
+    expect(health.mcpClient).toBeUndefined();
+
+    const { request, executionContext } = context({});
+    await expect((await createGuard({ MCP_AUTH_DISABLED: 'true' })).canActivate(executionContext)).resolves.toBe(true);
+    expect(request.mcpClient).toBe(ANONYMOUS_MCP_CLIENT);
+  });
+
+  it('should only let clients with the required scope into scoped routes', async () => {
+    const { apiKey: readKey } = await clientService.createClient('search-bot', [MCP_SCOPES.READ]);
+    const { apiKey: adminKey } = await clientService.createClient('ops', [MCP_SCOPES.ADMIN]);
+    const guard = await createGuard();
+
+    await expect(guard.canActivate(context({ 'x-api-key': readKey }, 'execute').executionContext)).rejects.toThrow(
+      ForbiddenException,
+    );
+    await expect(guard.canActivate(context({ 'x-api-key': adminKey }, 'execute').executionContext)).resolves.toBe(
+      true,
+    );
+  });
+});
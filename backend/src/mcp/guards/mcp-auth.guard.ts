@@ -0,0 +1,100 @@
+import {
+  CanActivate,
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  SetMetadata,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { McpClientService } from '../services/mcp-client.service';
+import { ANONYMOUS_MCP_CLIENT, hasMcpScope, McpClientContext, McpScope } from '../interfaces/mcp-auth.interface';
+
+export const MCP_PUBLIC_KEY = 'mcp:public';
+
+/** Lets a route through without an MCP API key, e.g. health checks. */
+export const McpPublic = () => SetMetadata(MCP_PUBLIC_KEY, true);
+
+export const MCP_REQUIRED_SCOPE_KEY = 'mcp:required-scope';
+
+/** Limits a route to clients holding `scope`; others get 403. */
+export const McpRequireScope = (scope: McpScope) => SetMetadata(MCP_REQUIRED_SCOPE_KEY, scope);
+
+export type McpAuthenticatedRequest = Request & { mcpClient?: McpClientContext };
+
+/** The client {@link McpAuthGuard} authenticated for this request. */
+export const CurrentMcpClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): McpClientContext =>
+    context.switchToHttp().getRequest<McpAuthenticatedRequest>().mcpClient,
+);
+
+/**
+ * Authenticates MCP clients by API key, sent as `Authorization: Bearer <key>`
+ * or `X-API-Key: <key>`, and attaches the client to the request. Setting
+ * MCP_AUTH_DISABLED=true lets every request in as an anonymous admin, for
+ * local development only.
+ */
+@Injectable()
+export class McpAuthGuard implements CanActivate {
+  private readonly authDisabled: boolean;
+
+  constructor(
+    private reflector: Reflector,
+    private clientService: McpClientService,
+    configService: ConfigService,
+  ) {
+    this.authDisabled = configService.get<string>('MCP_AUTH_DISABLED') === 'true';
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(MCP_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<McpAuthenticatedRequest>();
+
+    const client = this.authDisabled ? ANONYMOUS_MCP_CLIENT : await this.authenticate(request);
+    request.mcpClient = client;
+
+    const requiredScope = this.reflector.getAllAndOverride<McpScope>(MCP_REQUIRED_SCOPE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (requiredScope && !hasMcpScope(client, requiredScope)) {
+      throw new ForbiddenException(`Client ${client.name} needs scope: ${requiredScope}`);
+    }
+
+    return true;
+  }
+
+  private async authenticate(request: Request): Promise<McpClientContext> {
+    const apiKey = this.extractApiKey(request);
+    if (!apiKey) {
+      throw new UnauthorizedException('MCP API key required');
+    }
+
+    const client = await this.clientService.authenticate(apiKey);
+    if (!client) {
+      throw new UnauthorizedException('Invalid or revoked MCP API key');
+    }
+
+    return client;
+  }
+
+  private extractApiKey(request: Request): string | null {
+    const [type, token] = (request.headers.authorization ?? '').split(' ');
+    if (type?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+
+    const apiKey = request.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : null;
+  }
+}
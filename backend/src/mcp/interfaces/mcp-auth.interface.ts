@@ -0,0 +1,47 @@
+/**
+ * Scopes an MCP client can be granted. Admin implies every other scope.
+ */
+export const MCP_SCOPES = {
+  /** Search and read drugs, sections, FAQs and prompts. */
+  READ: 'mcp:read',
+  /** Include the raw openFDA label JSON in tool results. */
+  RAW_FDA_DATA: 'mcp:fda-raw',
+  /** Administrative tools. */
+  ADMIN: 'mcp:admin',
+} as const;
+
+export type McpScope = typeof MCP_SCOPES[keyof typeof MCP_SCOPES];
+
+export const ALL_MCP_SCOPES: McpScope[] = Object.values(MCP_SCOPES);
+
+/** The authenticated caller of an MCP request. */
+export interface McpClientContext {
+  /** McpClient row id; null for the built-in stdio and anonymous clients. */
+  id: string | null;
+  name: string;
+  scopes: McpScope[];
+  /** Requests per minute; the server default when unset. */
+  rateLimit?: number | null;
+}
+
+/** The stdio transport is a local process started by its user, so it is trusted. */
+export const STDIO_MCP_CLIENT: McpClientContext = {
+  id: null,
+  name: 'stdio',
+  scopes: [MCP_SCOPES.ADMIN],
+};
+
+/** Used for every HTTP request when MCP_AUTH_DISABLED is set. */
+export const ANONYMOUS_MCP_CLIENT: McpClientContext = {
+  id: null,
+  name: 'anonymous',
+  scopes: [MCP_SCOPES.ADMIN],
+};
+
+export function hasMcpScope(client: McpClientContext, scope: McpScope): boolean {
+  return client.scopes.includes(MCP_SCOPES.ADMIN) || client.scopes.includes(scope);
+}
+
+export function isMcpScope(value: string): value is McpScope {
+  return (ALL_MCP_SCOPES as string[]).includes(value);
+}
@@ -24,6 +24,9 @@ export interface McpNotification {
   params?: any;
 }
 
+/** Several requests and notifications sent as one JSON-RPC array. */
+export type McpBatchRequest = Array<McpRequest | McpNotification>;
+
 export interface McpCapabilities {
   tools?: {
     listChanged?: boolean;
@@ -53,6 +56,12 @@ export interface McpToolDefinition {
     properties: Record<string, any>;
     required?: string[];
   };
+  /** JSON schema of the result's `structuredContent`. */
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
 }
 
 export interface McpToolCallRequest {
@@ -67,6 +76,8 @@ export interface McpToolResult {
     data?: string;
     mimeType?: string;
   }>;
+  /** Machine-readable result matching the tool's `outputSchema`; the text content carries the same data. */
+  structuredContent?: Record<string, any>;
   isError?: boolean;
 }
 
@@ -77,6 +88,14 @@ export interface McpResourceDefinition {
   mimeType?: string;
 }
 
+/** RFC 6570 URI template for a family of resources, e.g. `drugs://{slug}`. */
+export interface McpResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
 export interface McpResourceContent {
   uri: string;
   mimeType?: string;
@@ -94,17 +113,20 @@ export interface McpPromptDefinition {
   }>;
 }
 
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text' | 'image' | 'resource';
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    resource?: McpResourceContent;
+  };
+}
+
 export interface McpPromptResult {
   description?: string;
-  messages: Array<{
-    role: 'user' | 'assistant';
-    content: {
-      type: 'text' | 'image';
-      text?: string;
-      data?: string;
-      mimeType?: string;
-    };
-  }>;
+  messages: McpPromptMessage[];
 }
 
 export const MCP_ERROR_CODES = {
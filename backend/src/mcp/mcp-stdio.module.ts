@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EventsModule } from '../events/events.module';
+import { RedisModule } from '../redis/redis.module';
+import { McpModule } from './mcp.module';
+
+/** Just what the MCP tools and resources need, for the standalone stdio server. */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+    }),
+    PrismaModule,
+    EventsModule,
+    // RateLimitGuard on McpController needs RedisService even though stdio never routes through it
+    RedisModule,
+    McpModule,
+  ],
+})
+export class McpStdioModule {}
@@ -1,55 +1,149 @@
-import { Controller, Get, Post, Body, Param, Headers, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Sse,
+  Body,
+  Param,
+  Headers,
+  Query,
+  Logger,
+  Res,
+  HttpCode,
+  HttpStatus,
+  MessageEvent,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiQuery, ApiBearerAuth, ApiSecurity } from '@nestjs/swagger';
+import { Response } from 'express';
+import { map, Observable } from 'rxjs';
 import { McpService } from './mcp.service';
-import { McpRequest, McpResponse } from './interfaces/mcp-protocol.interface';
+import { McpSession, McpSessionService } from './services/mcp-session.service';
+import { McpBatchRequest, McpNotification, McpRequest, McpResponse } from './interfaces/mcp-protocol.interface';
+import { MCP_SCOPES, McpClientContext } from './interfaces/mcp-auth.interface';
+import { CurrentMcpClient, McpAuthenticatedRequest, McpAuthGuard, McpPublic, McpRequireScope } from './guards/mcp-auth.guard';
+import { RateLimit, RateLimitGuard } from '../common/guards/rate-limit.guard';
+
+export const MCP_SESSION_HEADER = 'mcp-session-id';
+
+/** Requests per minute for clients without their own limit. */
+const DEFAULT_MCP_RATE_LIMIT = 120;
 
 @ApiTags('mcp')
+@ApiBearerAuth()
+@ApiSecurity('mcp-api-key')
 @Controller('mcp')
+@UseGuards(McpAuthGuard, RateLimitGuard)
+@RateLimit({
+  points: (req: McpAuthenticatedRequest) => req.mcpClient?.rateLimit ?? DEFAULT_MCP_RATE_LIMIT,
+  duration: 60,
+  keyGenerator: (req: McpAuthenticatedRequest) => `rate_limit:mcp:${req.mcpClient?.name ?? req.ip}`,
+})
 export class McpController {
   private readonly logger = new Logger(McpController.name);
 
-  constructor(private readonly mcpService: McpService) {}
+  constructor(
+    private readonly mcpService: McpService,
+    private readonly sessionService: McpSessionService,
+  ) {}
 
   @Post()
-  @ApiOperation({ summary: 'Handle MCP JSON-RPC requests' })
+  @ApiOperation({ summary: 'Handle MCP JSON-RPC requests, notifications and batches' })
   @ApiHeader({ name: 'Content-Type', required: true, description: 'Must be application/json' })
-  @ApiResponse({ status: 200, description: 'MCP response' })
+  @ApiHeader({
+    name: 'Mcp-Session-Id',
+    required: false,
+    description: 'Session returned by initialize; needed for resource subscriptions',
+  })
+  @ApiResponse({ status: 200, description: 'MCP response, or an array of responses for a batch' })
+  @ApiResponse({ status: 202, description: 'Only notifications were sent; there is no response body' })
   @ApiResponse({ status: 400, description: 'Invalid MCP request' })
+  @ApiResponse({ status: 401, description: 'Missing, invalid or revoked API key' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired session' })
+  @ApiResponse({ status: 429, description: 'Client rate limit exceeded' })
   async handleMcpRequest(
-    @Body() request: McpRequest,
+    @Body() message: McpRequest | McpNotification | McpBatchRequest,
     @Headers() headers: Record<string, string>,
-  ): Promise<McpResponse> {
-    this.logger.debug(`MCP Request: ${request.method}`, {
-      id: request.id,
-      method: request.method,
-      hasParams: !!request.params,
-    });
-
-    const response = await this.mcpService.handleMcpRequest(request);
-
-    if (response.error) {
-      this.logger.warn(`MCP Error Response:`, {
-        requestId: request.id,
-        method: request.method,
-        errorCode: response.error.code,
-        errorMessage: response.error.message,
-      });
-    } else {
-      this.logger.debug(`MCP Success Response:`, {
-        requestId: request.id,
-        method: request.method,
+    @CurrentMcpClient() client: McpClientContext,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<McpResponse | McpResponse[] | void> {
+    const requests = Array.isArray(message) ? message : [message];
+    for (const request of requests as McpRequest[]) {
+      this.logger.debug(`MCP Request: ${request?.method}`, {
+        id: request?.id,
+        method: request?.method,
+        hasParams: !!request?.params,
       });
     }
 
+    const session = this.resolveSession(requests as McpRequest[], client, headers[MCP_SESSION_HEADER]);
+    if (session) {
+      res.setHeader('Mcp-Session-Id', session.id);
+    }
+
+    const response = await this.mcpService.handleMessage(message, { client, session });
+
+    if (response === null) {
+      res.status(HttpStatus.ACCEPTED);
+      return;
+    }
+
+    for (const entry of Array.isArray(response) ? response : [response]) {
+      if (entry.error) {
+        this.logger.warn(`MCP Error Response:`, {
+          requestId: entry.id,
+          errorCode: entry.error.code,
+          errorMessage: entry.error.message,
+        });
+      } else {
+        this.logger.debug(`MCP Success Response:`, {
+          requestId: entry.id,
+        });
+      }
+    }
+
     return response;
   }
 
+  @Sse()
+  @ApiOperation({ summary: 'Stream MCP server notifications for a session as server-sent events' })
+  @ApiHeader({ name: 'Mcp-Session-Id', required: false, description: 'Session returned by initialize' })
+  @ApiQuery({ name: 'sessionId', required: false, description: 'Session id, for clients that cannot set headers' })
+  @ApiResponse({ status: 200, description: 'text/event-stream of JSON-RPC notifications' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired session' })
+  streamNotifications(
+    @Headers(MCP_SESSION_HEADER) sessionHeader: string,
+    @Query('sessionId') sessionId: string,
+    @CurrentMcpClient() client: McpClientContext,
+  ): Observable<MessageEvent> {
+    const session = this.sessionService.getSession(sessionHeader || sessionId, client.id);
+    if (!session) {
+      throw new NotFoundException('MCP session not found');
+    }
+
+    return this.sessionService.stream(session).pipe(map((notification) => ({ data: notification })));
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'End an MCP session and its subscriptions' })
+  @ApiHeader({ name: 'Mcp-Session-Id', required: true })
+  @ApiResponse({ status: 204, description: 'Session ended' })
+  @ApiResponse({ status: 404, description: 'Unknown or expired session' })
+  endSession(@Headers(MCP_SESSION_HEADER) sessionId: string, @CurrentMcpClient() client: McpClientContext) {
+    if (!this.sessionService.closeSession(sessionId, client.id)) {
+      throw new NotFoundException('MCP session not found');
+    }
+  }
+
   @Get('tools')
   @ApiOperation({ summary: 'Get available MCP tools (legacy endpoint)' })
   @ApiResponse({ status: 200, description: 'List of available tools' })
-  getTools() {
+  getTools(@CurrentMcpClient() client: McpClientContext) {
     return {
-      tools: this.mcpService.getTools(),
+      tools: this.mcpService.getTools(client),
     };
   }
 
@@ -63,11 +157,13 @@ export class McpController {
   }
 
   @Post('tools/execute')
-  @ApiOperation({ summary: 'Execute an MCP tool (legacy endpoint)' })
+  @McpRequireScope(MCP_SCOPES.ADMIN)
+  @ApiOperation({ summary: 'Execute an MCP tool (legacy endpoint, admin clients only)' })
   @ApiResponse({ status: 200, description: 'Tool execution result' })
-  async executeTool(@Body() body: { toolName: string; args: any }) {
+  @ApiResponse({ status: 403, description: 'Client lacks the mcp:admin scope' })
+  async executeTool(@Body() body: { toolName: string; args: any }, @CurrentMcpClient() client: McpClientContext) {
     try {
-      const result = await this.mcpService.executeTool(body.toolName, body.args);
+      const result = await this.mcpService.executeTool(body.toolName, body.args, client);
       return {
         success: true,
         result,
@@ -84,10 +180,10 @@ export class McpController {
   @Get('resources/:uri')
   @ApiOperation({ summary: 'Get MCP resource by URI (legacy endpoint)' })
   @ApiResponse({ status: 200, description: 'Resource content' })
-  async getResource(@Param('uri') uri: string) {
+  async getResource(@Param('uri') uri: string, @CurrentMcpClient() client: McpClientContext) {
     try {
       const decodedUri = decodeURIComponent(uri);
-      const content = await this.mcpService.getResource(decodedUri);
+      const content = await this.mcpService.getResource(decodedUri, client);
       return {
         success: true,
         content,
@@ -102,43 +198,51 @@ export class McpController {
   }
 
   @Get('health')
+  @McpPublic()
   @ApiOperation({ summary: 'MCP server health check' })
   @ApiResponse({ status: 200, description: 'Server health status' })
   getHealth() {
+    const { serverInfo } = this.mcpService.getServerDescription();
+
     return {
       status: 'healthy',
       timestamp: new Date().toISOString(),
-      server: 'Drug Information MCP Server',
-      version: '1.0.0',
-      capabilities: {
-        tools: ['search_drugs', 'get_drug_details', 'get_drug_categories'],
-        resources: ['drugs://list', 'drugs://schema'],
-      },
+      server: serverInfo.name,
+      version: serverInfo.version,
+      capabilities: this.mcpService.getRegistrySummary(),
     };
   }
 
   @Get('capabilities')
+  @McpPublic()
   @ApiOperation({ summary: 'Get MCP server capabilities' })
   @ApiResponse({ status: 200, description: 'Server capabilities' })
   getCapabilities() {
-    return {
-      protocolVersion: '2024-11-05',
-      capabilities: {
-        tools: {
-          listChanged: true,
-        },
-        resources: {
-          subscribe: false,
-          listChanged: true,
-        },
-        logging: {
-          level: 'info',
-        },
-      },
-      serverInfo: {
-        name: 'Drug Information MCP Server',
-        version: '1.0.0',
-      },
-    };
+    return this.mcpService.getServerDescription();
+  }
+
+  /**
+   * The session named by the Mcp-Session-Id header, or a new one when the
+   * message initializes a connection without one. Sessions belong to the
+   * client that opened them; to any other client they do not exist.
+   */
+  private resolveSession(
+    requests: McpRequest[],
+    client: McpClientContext,
+    sessionId?: string,
+  ): McpSession | undefined {
+    if (sessionId) {
+      const session = this.sessionService.getSession(sessionId, client.id);
+      if (!session) {
+        throw new NotFoundException('MCP session not found');
+      }
+      return session;
+    }
+
+    if (requests.some((request) => request?.method === 'initialize')) {
+      return this.sessionService.createSession(client.id);
+    }
+
+    return undefined;
   }
-}
\ No newline at end of file
+}
@@ -1,26 +1,61 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { McpService } from './mcp.service';
 import { McpController } from './mcp.controller';
 import { McpProtocolService } from './services/mcp-protocol.service';
 import { McpErrorHandlerService } from './services/mcp-error-handler.service';
+import { McpRegistryService } from './services/mcp-registry.service';
 import { DrugSearchTool } from './tools/drug-search.tool';
 import { DrugDetailsTool } from './tools/drug-details.tool';
 import { DrugCategoriesTool } from './tools/drug-categories.tool';
+import { CompareDrugsTool } from './tools/compare-drugs.tool';
+import { FindLabelMentionsTool } from './tools/find-label-mentions.tool';
 import { DrugListResource } from './resources/drug-list.resource';
 import { DrugSchemaResource } from './resources/drug-schema.resource';
+import { DrugResource } from './resources/drug.resource';
+import { DrugSectionResource } from './resources/drug-section.resource';
+import { DrugFaqsResource } from './resources/drug-faqs.resource';
+import { DrugPromptContextService } from './services/drug-prompt-context.service';
+import { PatientLabelSummaryPrompt } from './prompts/patient-label-summary.prompt';
+import { PrescriberComparisonPrompt } from './prompts/prescriber-comparison.prompt';
+import { BoxedWarningPrompt } from './prompts/boxed-warning.prompt';
+import { McpSessionService } from './services/mcp-session.service';
+import { McpStdioTransport } from './transports/mcp-stdio.transport';
+import { McpClientService } from './services/mcp-client.service';
+import { McpAuditService } from './services/mcp-audit.service';
 
+/**
+ * Tools, resources and prompts register themselves with `@McpTool()`,
+ * `@McpResource()` or `@McpPrompt()`; adding one only means listing it in
+ * the providers below.
+ */
 @Module({
+  imports: [DiscoveryModule],
   controllers: [McpController],
   providers: [
     McpService,
     McpProtocolService,
     McpErrorHandlerService,
+    McpRegistryService,
     DrugSearchTool,
     DrugDetailsTool,
     DrugCategoriesTool,
+    CompareDrugsTool,
+    FindLabelMentionsTool,
     DrugListResource,
     DrugSchemaResource,
+    DrugResource,
+    DrugSectionResource,
+    DrugFaqsResource,
+    DrugPromptContextService,
+    PatientLabelSummaryPrompt,
+    PrescriberComparisonPrompt,
+    BoxedWarningPrompt,
+    McpSessionService,
+    McpStdioTransport,
+    McpClientService,
+    McpAuditService,
   ],
-  exports: [McpService],
+  exports: [McpService, McpStdioTransport, McpClientService],
 })
 export class McpModule {}
\ No newline at end of file
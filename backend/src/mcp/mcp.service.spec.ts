@@ -0,0 +1,372 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DiscoveryModule } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { McpService } from './mcp.service';
+import { McpProtocolService } from './services/mcp-protocol.service';
+import { McpErrorHandlerService } from './services/mcp-error-handler.service';
+import { McpRegistryService } from './services/mcp-registry.service';
+import { McpSession, McpSessionService } from './services/mcp-session.service';
+import { McpAuditService } from './services/mcp-audit.service';
+import { DrugEventsService } from '../events/drug-events.service';
+import { MCP_ERROR_CODES } from './interfaces/mcp-protocol.interface';
+import { MCP_SCOPES, McpClientContext } from './interfaces/mcp-auth.interface';
+
+describe('McpService', () => {
+  let service: McpService;
+  let sessionService: McpSessionService;
+  let registry: McpRegistryService;
+  let drugSearchTool: { getDefinition: jest.Mock; execute: jest.Mock };
+  let drugSectionResource: { getTemplate: jest.Mock; getContent: jest.Mock };
+  let boxedWarningPrompt: { getDefinition: jest.Mock; getPrompt: jest.Mock };
+  let drugDetailsTool: { getDefinition: jest.Mock; execute: jest.Mock };
+  let auditService: { record: jest.Mock };
+
+  const readClient: McpClientContext = { id: 'client-1', name: 'search-bot', scopes: [MCP_SCOPES.READ] };
+
+  const handle = (message: any, session?: McpSession, client = readClient) =>
+    service.handleMessage(message, { client, session });
+
+  const tool = (name: string) => ({
+    getDefinition: jest.fn().mockReturnValue({ name, description: name, inputSchema: { type: 'object', properties: {} } }),
+    execute: jest.fn().mockResolvedValue({ content: [{ type: 'text', text: name }] }),
+  });
+
+  const template = (uriTemplate: string) => ({
+    getTemplate: jest.fn().mockReturnValue({ uriTemplate, name: uriTemplate }),
+    getContent: jest.fn(async (uri: string) => ({ uri, mimeType: 'text/markdown', text: uri })),
+  });
+
+  const prompt = (name: string, args: Array<{ name: string; required?: boolean }>) => ({
+    getDefinition: jest.fn().mockReturnValue({ name, arguments: args }),
+    getPrompt: jest.fn().mockResolvedValue({ messages: [{ role: 'user', content: { type: 'text', text: name } }] }),
+  });
+
+  beforeEach(async () => {
+    drugSearchTool = tool('search_drugs');
+    boxedWarningPrompt = prompt('explain_boxed_warning', [{ name: 'slug', required: true }, { name: 'audience' }]);
+    drugSectionResource = template('drugs://{slug}/sections/{section}');
+    drugDetailsTool = tool('get_drug_details');
+    auditService = { record: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        McpService,
+        McpProtocolService,
+        McpErrorHandlerService,
+        McpRegistryService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        McpSessionService,
+        DrugEventsService,
+        { provide: McpAuditService, useValue: auditService },
+      ],
+    }).compile();
+
+    registry = module.get<McpRegistryService>(McpRegistryService);
+    registry.registerTool(drugDetailsTool, { argumentScopes: { includeRawFDAData: MCP_SCOPES.RAW_FDA_DATA } });
+    for (const name of ['get_drug_categories', 'compare_drugs', 'find_label_mentions']) {
+      registry.registerTool(tool(name));
+    }
+    registry.registerTool(drugSearchTool);
+    registry.registerResource({ getDefinition: () => ({ uri: 'drugs://list', name: 'Drug List' }), getContent: jest.fn() });
+    registry.registerResource({ getDefinition: () => ({ uri: 'drugs://schema', name: 'Drug Schema' }), getContent: jest.fn() });
+    registry.registerResource(template('drugs://{slug}'));
+    registry.registerResource(drugSectionResource);
+    registry.registerResource(template('drugs://{slug}/faqs'));
+    registry.registerPrompt(prompt('summarize_label_for_patient', []));
+    registry.registerPrompt(prompt('compare_drugs_for_prescriber', []));
+    registry.registerPrompt(boxedWarningPrompt);
+
+    service = module.get<McpService>(McpService);
+    sessionService = module.get<McpSessionService>(McpSessionService);
+  });
+
+  describe('handleMessage', () => {
+    it('should answer a single request', async () => {
+      const response = await handle({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      expect(response).toMatchObject({ jsonrpc: '2.0', id: 1, result: { tools: expect.any(Array) } });
+    });
+
+    it('should answer each request in a batch and skip notifications', async () => {
+      const response = await handle([
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 'a', method: 'tools/list' },
+        { jsonrpc: '2.0', id: 'b', method: 'unknown/method' },
+      ]);
+
+      expect(response).toEqual([
+        expect.objectContaining({ id: 'a', result: expect.any(Object) }),
+        expect.objectContaining({ id: 'b', error: expect.objectContaining({ code: MCP_ERROR_CODES.METHOD_NOT_FOUND }) }),
+      ]);
+    });
+
+    it('should run a method sent as a notification without responding', async () => {
+      const response = await handle({
+        jsonrpc: '2.0',
+        method: 'tools/call',
+        params: { name: 'search_drugs', arguments: { query: 'taltz' } },
+      });
+
+      expect(response).toBeNull();
+      expect(drugSearchTool.execute).toHaveBeenCalledWith({ query: 'taltz' });
+    });
+
+    it('should return null when a batch holds only notifications', async () => {
+      const response = await handle([
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } },
+      ]);
+
+      expect(response).toBeNull();
+    });
+
+    it('should reject an empty batch and invalid batch entries', async () => {
+      expect(await handle([])).toMatchObject({
+        id: null,
+        error: { code: MCP_ERROR_CODES.INVALID_REQUEST },
+      });
+      expect(await handle([1, null] as any)).toEqual([
+        expect.objectContaining({ id: null, error: expect.objectContaining({ code: MCP_ERROR_CODES.INVALID_REQUEST }) }),
+        expect.objectContaining({ id: null, error: expect.objectContaining({ code: MCP_ERROR_CODES.INVALID_REQUEST }) }),
+      ]);
+    });
+  });
+
+  describe('registry', () => {
+    it('should derive health and capabilities from what is registered', async () => {
+      const response = await handle({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+
+      expect(Object.keys((response as any).result.capabilities)).toEqual(
+        expect.arrayContaining(['tools', 'resources', 'prompts']),
+      );
+      expect(service.getRegistrySummary()).toEqual({
+        tools: ['get_drug_details', 'get_drug_categories', 'compare_drugs', 'find_label_mentions', 'search_drugs'],
+        disabledTools: [],
+        resources: ['drugs://list', 'drugs://schema'],
+        resourceTemplates: ['drugs://{slug}', 'drugs://{slug}/sections/{section}', 'drugs://{slug}/faqs'],
+        prompts: ['summarize_label_for_patient', 'compare_drugs_for_prescriber', 'explain_boxed_warning'],
+      });
+    });
+
+    it('should list registered tools when a tool is not found', async () => {
+      const response = await handle({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'delete_drug', arguments: {} },
+      });
+
+      expect(response).toMatchObject({
+        error: { code: MCP_ERROR_CODES.METHOD_NOT_FOUND, data: { availableTools: expect.arrayContaining(['compare_drugs']) } },
+      });
+    });
+  });
+
+  describe('resource templates', () => {
+    it('should list the per-drug templates', async () => {
+      const response = await handle({ jsonrpc: '2.0', id: 1, method: 'resources/templates/list' });
+
+      expect((response as any).result.resourceTemplates.map((entry) => entry.uriTemplate)).toEqual([
+        'drugs://{slug}',
+        'drugs://{slug}/sections/{section}',
+        'drugs://{slug}/faqs',
+      ]);
+    });
+
+    it('should read a templated uri with its decoded parameters', async () => {
+      const response = await handle({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'resources/read',
+        params: { uri: 'drugs://emgality/sections/boxedWarning' },
+      });
+
+      expect(drugSectionResource.getContent).toHaveBeenCalledWith('drugs://emgality/sections/boxedWarning', {
+        slug: 'emgality',
+        section: 'boxedWarning',
+      });
+      expect((response as any).result.contents[0].uri).toBe('drugs://emgality/sections/boxedWarning');
+    });
+
+    it('should report unknown uris as not found', async () => {
+      const response = await handle({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'resources/read',
+        params: { uri: 'labels://emgality' },
+      });
+
+      expect(response).toMatchObject({
+        error: { code: MCP_ERROR_CODES.APPLICATION_ERROR, data: { errorType: 'not_found' } },
+      });
+    });
+  });
+
+  describe('prompts', () => {
+    it('should list the prompts', async () => {
+      const response = await handle({ jsonrpc: '2.0', id: 1, method: 'prompts/list' });
+
+      expect((response as any).result.prompts.map((entry) => entry.name)).toEqual([
+        'summarize_label_for_patient',
+        'compare_drugs_for_prescriber',
+        'explain_boxed_warning',
+      ]);
+    });
+
+    it('should pass the arguments to the named prompt', async () => {
+      const response = await handle({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'prompts/get',
+        params: { name: 'explain_boxed_warning', arguments: { slug: 'mounjaro', audience: 'prescriber' } },
+      });
+
+      expect(boxedWarningPrompt.getPrompt).toHaveBeenCalledWith({ slug: 'mounjaro', audience: 'prescriber' });
+      expect(response).toMatchObject({ id: 2, result: { messages: [{ role: 'user' }] } });
+    });
+
+    it('should reject missing required arguments and unknown prompts', async () => {
+      const missing = await handle({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'prompts/get',
+        params: { name: 'explain_boxed_warning', arguments: {} },
+      });
+      const unknown = await handle({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'prompts/get',
+        params: { name: 'write_a_poem' },
+      });
+
+      expect(missing).toMatchObject({ error: { code: MCP_ERROR_CODES.INVALID_PARAMS, data: { missingArguments: ['slug'] } } });
+      expect(unknown).toMatchObject({ error: { code: MCP_ERROR_CODES.INVALID_PARAMS, message: 'Prompt not found: write_a_poem' } });
+      expect(boxedWarningPrompt.getPrompt).not.toHaveBeenCalled();
+    });
+
+    it('should report a failing prompt as invalid params', async () => {
+      boxedWarningPrompt.getPrompt.mockRejectedValue(Object.assign(new Error('Drug Taltz has no boxed warning'), { status: 400 }));
+
+      const response = await handle({
+        jsonrpc: '2.0',
+        id: 5,
+        method: 'prompts/get',
+        params: { name: 'explain_boxed_warning', arguments: { slug: 'taltz' } },
+      });
+
+      expect(response).toMatchObject({ error: { code: MCP_ERROR_CODES.INVALID_PARAMS } });
+    });
+  });
+
+  describe('resource subscriptions', () => {
+    const subscribe = (uri: string, session?: McpSession) =>
+      handle({ jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri } }, session);
+
+    it('should record subscriptions to known resources on the session', async () => {
+      const session = sessionService.createSession();
+
+      expect(await subscribe('drugs://taltz/sections/2', session)).toMatchObject({ result: {} });
+      expect(await subscribe('drugs://list', session)).toMatchObject({ result: {} });
+      await handle(
+        { jsonrpc: '2.0', id: 2, method: 'resources/unsubscribe', params: { uri: 'drugs://list' } },
+        session,
+      );
+
+      expect([...session.subscriptions]).toEqual(['drugs://taltz/sections/2']);
+    });
+
+    it('should reject subscriptions without a session or to unknown resources', async () => {
+      const session = sessionService.createSession();
+
+      expect(await subscribe('drugs://list')).toMatchObject({ error: { code: MCP_ERROR_CODES.INVALID_REQUEST } });
+      expect(await subscribe('labels://taltz', session)).toMatchObject({
+        error: { code: MCP_ERROR_CODES.APPLICATION_ERROR },
+      });
+      expect(session.subscriptions.size).toBe(0);
+    });
+  });
+
+  describe('scopes', () => {
+    const adminClient: McpClientContext = { id: 'client-2', name: 'ops', scopes: [MCP_SCOPES.ADMIN] };
+    const call = (name: string, args: Record<string, any>, client = readClient) =>
+      handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, undefined, client);
+
+    it('should only list tools the client may call', async () => {
+      const purgeCache = tool('purge_cache');
+      registry.registerTool(purgeCache, { scope: MCP_SCOPES.ADMIN });
+
+      const listed = async (client: McpClientContext) =>
+        ((await handle({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, undefined, client)) as any).result.tools.map(
+          (entry) => entry.name,
+        );
+
+      expect(await listed(readClient)).not.toContain('purge_cache');
+      expect(await listed(adminClient)).toContain('purge_cache');
+      expect(await call('purge_cache', {})).toMatchObject({
+        error: { code: MCP_ERROR_CODES.APPLICATION_ERROR, data: { errorType: 'forbidden', requiredScopes: ['mcp:admin'] } },
+      });
+      expect(purgeCache.execute).not.toHaveBeenCalled();
+    });
+
+    it('should require the raw FDA scope only when raw data is requested', async () => {
+      const denied = await call('get_drug_details', { drugId: 'drug-1', includeRawFDAData: true });
+      const allowed = await call('get_drug_details', { drugId: 'drug-1', includeRawFDAData: false });
+      const raw = await call(
+        'get_drug_details',
+        { drugId: 'drug-1', includeRawFDAData: true },
+        { ...readClient, scopes: [MCP_SCOPES.READ, MCP_SCOPES.RAW_FDA_DATA] },
+      );
+
+      expect(denied).toMatchObject({ error: { data: { requiredScopes: ['mcp:fda-raw'] } } });
+      expect(allowed).toMatchObject({ result: expect.any(Object) });
+      expect(raw).toMatchObject({ result: expect.any(Object) });
+      expect(drugDetailsTool.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep resources and prompts from clients without the read scope', async () => {
+      const noRead: McpClientContext = { id: 'client-3', name: 'raw-only', scopes: [MCP_SCOPES.RAW_FDA_DATA] };
+
+      const read = await handle(
+        { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'drugs://taltz/sections/2' } },
+        undefined,
+        noRead,
+      );
+      const prompts = await handle({ jsonrpc: '2.0', id: 2, method: 'prompts/list' }, undefined, noRead);
+
+      expect(read).toMatchObject({ error: { data: { errorType: 'forbidden' } } });
+      expect(prompts).toMatchObject({ error: { data: { errorType: 'forbidden' } } });
+      expect(drugSectionResource.getContent).not.toHaveBeenCalled();
+    });
+
+    it('should audit every tool call with its client, arguments and outcome', async () => {
+      drugSearchTool.execute.mockResolvedValueOnce({ content: [{ type: 'text', text: 'None found' }], isError: true });
+
+      await call('search_drugs', { query: 'taltz' });
+      await call('get_drug_details', { drugId: 'drug-1', includeRawFDAData: true });
+
+      expect(auditService.record).toHaveBeenCalledWith({
+        client: readClient,
+        method: 'tools/call',
+        toolName: 'search_drugs',
+        arguments: { query: 'taltz' },
+        outcome: 'error',
+        durationMs: expect.any(Number),
+        error: 'None found',
+      });
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: 'get_drug_details', outcome: 'denied' }),
+      );
+    });
+
+    it('should apply the same checks to the legacy execute endpoint', async () => {
+      await expect(
+        service.executeTool('get_drug_details', { drugId: 'drug-1', includeRawFDAData: true }, readClient),
+      ).rejects.toThrow('needs scopes: mcp:fda-raw');
+      expect(await service.executeTool('search_drugs', { query: 'taltz' }, readClient)).toBe('search_drugs');
+      expect(auditService.record).toHaveBeenLastCalledWith(
+        expect.objectContaining({ method: 'tools/execute', toolName: 'search_drugs', outcome: 'success' }),
+      );
+    });
+  });
+});
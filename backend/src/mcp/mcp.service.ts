@@ -1,20 +1,24 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { McpProtocolService } from './services/mcp-protocol.service';
 import { McpErrorHandlerService } from './services/mcp-error-handler.service';
-import { DrugSearchTool } from './tools/drug-search.tool';
-import { DrugDetailsTool } from './tools/drug-details.tool';
-import { DrugCategoriesTool } from './tools/drug-categories.tool';
-import { DrugListResource } from './resources/drug-list.resource';
-import { DrugSchemaResource } from './resources/drug-schema.resource';
+import { McpRegistryService, McpToolHandler } from './services/mcp-registry.service';
+import { McpSession, McpSessionService } from './services/mcp-session.service';
+import { McpAuditOutcome, McpAuditService } from './services/mcp-audit.service';
+import { hasMcpScope, MCP_SCOPES, McpClientContext, McpScope } from './interfaces/mcp-auth.interface';
+import { UriTemplate } from '../common/utils/uri-template.util';
 import {
   McpRequest,
+  McpNotification,
+  McpBatchRequest,
   McpResponse,
   McpToolDefinition,
   McpResourceDefinition,
   McpCapabilities,
   McpServerInfo,
   McpErrorCode,
+  McpToolResult,
+  MCP_ERROR_CODES,
 } from './interfaces/mcp-protocol.interface';
 
 export interface McpTool {
@@ -30,6 +34,12 @@ export interface McpResource {
   mimeType?: string;
 }
 
+/** Who is calling, and over which session if the transport has one. */
+export interface McpRequestContext {
+  client: McpClientContext;
+  session?: McpSession;
+}
+
 @Injectable()
 export class McpService {
   private readonly logger = new Logger(McpService.name);
@@ -38,36 +48,79 @@ export class McpService {
     private configService: ConfigService,
     private protocolService: McpProtocolService,
     private errorHandler: McpErrorHandlerService,
-    private drugSearchTool: DrugSearchTool,
-    private drugDetailsTool: DrugDetailsTool,
-    private drugCategoriesTool: DrugCategoriesTool,
-    private drugListResource: DrugListResource,
-    private drugSchemaResource: DrugSchemaResource,
+    private registry: McpRegistryService,
+    private sessionService: McpSessionService,
+    private auditService: McpAuditService,
   ) {}
 
-  async handleMcpRequest(request: McpRequest): Promise<McpResponse> {
+  /**
+   * Entry point for both the HTTP and stdio transports. Takes a single
+   * JSON-RPC message or a batch; notifications are processed but answered
+   * with nothing, so this resolves to null when there is no response to send.
+   * Tools, resources and prompts are limited to the client's scopes, and
+   * resource subscriptions need the transport's session.
+   */
+  async handleMessage(
+    message: McpRequest | McpNotification | McpBatchRequest,
+    context: McpRequestContext,
+  ): Promise<McpResponse | McpResponse[] | null> {
+    if (!Array.isArray(message)) {
+      return this.handleSingleMessage(message, context);
+    }
+
+    if (message.length === 0) {
+      return this.protocolService.createErrorResponse(
+        null,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        'Batch must contain at least one request',
+      );
+    }
+
+    const responses = await Promise.all(message.map((entry) => this.handleSingleMessage(entry, context)));
+    const sent = responses.filter((response) => response !== null);
+    return sent.length > 0 ? sent : null;
+  }
+
+  async handleMcpRequest(request: McpRequest, context: McpRequestContext): Promise<McpResponse> {
     const validation = this.protocolService.validateRequest(request);
     if (!validation.isValid) {
       return this.protocolService.createErrorResponse(
-        request.id || null,
+        request?.id ?? null,
         validation.error.code as McpErrorCode,
         validation.error.message,
         validation.error.data,
       );
     }
 
+    const denied = this.checkMethodScope(request, context.client);
+    if (denied) {
+      return denied;
+    }
+
     try {
       switch (request.method) {
         case 'initialize':
           return this.handleInitialize(request);
+        case 'ping':
+          return this.protocolService.createResponse(request.id, {});
         case 'tools/list':
-          return this.handleToolsList(request);
+          return this.handleToolsList(request, context.client);
         case 'tools/call':
-          return this.handleToolCall(request);
+          return this.handleToolCall(request, context.client);
         case 'resources/list':
           return this.handleResourcesList(request);
         case 'resources/read':
           return this.handleResourceRead(request);
+        case 'resources/templates/list':
+          return this.handleResourceTemplatesList(request);
+        case 'resources/subscribe':
+          return this.handleResourceSubscription(request, context.session, true);
+        case 'resources/unsubscribe':
+          return this.handleResourceSubscription(request, context.session, false);
+        case 'prompts/list':
+          return this.handlePromptsList(request);
+        case 'prompts/get':
+          return this.handlePromptGet(request);
         default:
           return this.errorHandler.createMethodNotFoundError(request.method, request.id);
       }
@@ -76,23 +129,51 @@ export class McpService {
     }
   }
 
+  private async handleSingleMessage(
+    message: McpRequest | McpNotification,
+    context: McpRequestContext,
+  ): Promise<McpResponse | null> {
+    if (!this.protocolService.isNotification(message)) {
+      return this.handleMcpRequest(message as McpRequest, context);
+    }
+
+    // Client lifecycle notifications (initialized, cancelled) need no handling
+    if (message.method.startsWith('notifications/')) {
+      this.logger.debug(`MCP notification: ${message.method}`);
+      return null;
+    }
+
+    const response = await this.handleMcpRequest(message as McpRequest, context);
+    if (response.error) {
+      this.logger.warn(`MCP notification ${message.method} failed: ${response.error.message}`);
+    }
+    return null;
+  }
+
   private async handleInitialize(request: McpRequest): Promise<McpResponse> {
-    const capabilities = this.protocolService.getServerCapabilities();
-    const serverInfo = this.protocolService.getServerInfo();
+    return this.protocolService.createResponse(request.id, this.getServerDescription());
+  }
 
-    return this.protocolService.createResponse(request.id, {
-      protocolVersion: '2024-11-05',
-      capabilities,
-      serverInfo,
-    });
+  /** Resources and prompts need the read scope; tools check their own scopes. */
+  private checkMethodScope(request: McpRequest, client: McpClientContext): McpResponse | null {
+    const needsRead = request.method.startsWith('resources/') || request.method.startsWith('prompts/');
+    if (!needsRead || hasMcpScope(client, MCP_SCOPES.READ)) {
+      return null;
+    }
+
+    return this.errorHandler.createForbiddenError(
+      `Client ${client.name} may not call ${request.method}`,
+      [MCP_SCOPES.READ],
+      request.id,
+    );
   }
 
-  private async handleToolsList(request: McpRequest): Promise<McpResponse> {
-    const tools = this.getToolDefinitions();
+  private async handleToolsList(request: McpRequest, client: McpClientContext): Promise<McpResponse> {
+    const tools = this.getToolDefinitions(client);
     return this.protocolService.createResponse(request.id, { tools });
   }
 
-  private async handleToolCall(request: McpRequest): Promise<McpResponse> {
+  private async handleToolCall(request: McpRequest, client: McpClientContext): Promise<McpResponse> {
     const { name: toolName, arguments: args } = request.params;
 
     if (!toolName) {
@@ -103,38 +184,136 @@ export class McpService {
       );
     }
 
-    try {
-      const tool = this.getToolByName(toolName);
-      if (!tool) {
-        return this.errorHandler.createToolNotFoundError(toolName, request.id);
-      }
+    const audit = (outcome: McpAuditOutcome, error?: string) =>
+      this.auditService.record({ client, method: request.method, toolName, arguments: args, outcome, error });
 
-      const validation = this.protocolService.validateToolArguments(
-        toolName,
-        tool.inputSchema,
-        args || {},
+    const tool = this.registry.getTool(toolName);
+    if (!tool) {
+      await audit('invalid', 'Tool not found');
+      return this.errorHandler.createToolNotFoundError(toolName, request.id);
+    }
+
+    const missingScopes = this.getMissingScopes(toolName, args || {}, client);
+    if (missingScopes.length > 0) {
+      await audit('denied', `Missing scopes: ${missingScopes.join(', ')}`);
+      return this.errorHandler.createForbiddenError(
+        `Client ${client.name} may not call ${toolName} with these arguments`,
+        missingScopes,
+        request.id,
       );
+    }
 
-      if (!validation.isValid) {
-        return this.errorHandler.createValidationError(
-          validation.error,
-          request.id,
-          { toolName, arguments: args },
-        );
-      }
+    const validation = this.protocolService.validateToolArguments(
+      toolName,
+      tool.getDefinition().inputSchema,
+      args || {},
+    );
+
+    if (!validation.isValid) {
+      await audit('invalid', validation.error);
+      return this.errorHandler.createValidationError(
+        validation.error,
+        request.id,
+        { toolName, arguments: args },
+      );
+    }
 
-      const result = await this.executeToolByName(toolName, args || {});
+    try {
+      const result = await this.runTool(tool, args || {}, client, request.method);
       return this.protocolService.createResponse(request.id, result);
     } catch (error) {
       return this.errorHandler.handleToolError(error, toolName, request.id);
     }
   }
 
+  /** Executes a permitted, validated call and audits how it went. */
+  private async runTool(
+    tool: McpToolHandler,
+    args: Record<string, any>,
+    client: McpClientContext,
+    method: string,
+  ): Promise<McpToolResult> {
+    const { name: toolName, outputSchema } = tool.getDefinition();
+    const startedAt = Date.now();
+    const audit = (outcome: McpAuditOutcome, error?: string) =>
+      this.auditService.record({
+        client,
+        method,
+        toolName,
+        arguments: args,
+        outcome,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+
+    let result: McpToolResult;
+    try {
+      result = await tool.execute(args);
+    } catch (error) {
+      await audit('error', error.message);
+      throw error;
+    }
+
+    await audit(result.isError ? 'error' : 'success', result.isError ? result.content[0]?.text : undefined);
+
+    // A result that drifts from its schema is still useful as text, so flag it rather than fail the call
+    const output = this.protocolService.validateToolResult(toolName, outputSchema, result);
+    if (!output.isValid) {
+      this.logger.warn(output.error);
+    }
+
+    return result;
+  }
+
+  private getMissingScopes(toolName: string, args: Record<string, any>, client: McpClientContext): McpScope[] {
+    return this.registry.getRequiredScopes(toolName, args).filter((scope) => !hasMcpScope(client, scope));
+  }
+
   private async handleResourcesList(request: McpRequest): Promise<McpResponse> {
     const resources = this.getResourceDefinitions();
     return this.protocolService.createResponse(request.id, { resources });
   }
 
+  private async handleResourceTemplatesList(request: McpRequest): Promise<McpResponse> {
+    const resourceTemplates = this.registry.getResourceTemplates().map((resource) => resource.getTemplate());
+    return this.protocolService.createResponse(request.id, { resourceTemplates });
+  }
+
+  private async handleResourceSubscription(
+    request: McpRequest,
+    session: McpSession | undefined,
+    subscribe: boolean,
+  ): Promise<McpResponse> {
+    const { uri } = request.params ?? {};
+
+    if (!session) {
+      return this.protocolService.createErrorResponse(
+        request.id,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        'Resource subscriptions need a session; send initialize first and pass the Mcp-Session-Id header',
+      );
+    }
+
+    if (!uri) {
+      return this.errorHandler.createValidationError(
+        'Resource URI is required',
+        request.id,
+        { missingParameter: 'uri' },
+      );
+    }
+
+    if (subscribe) {
+      if (!this.isKnownResourceUri(uri)) {
+        return this.errorHandler.createResourceNotFoundError(uri, request.id);
+      }
+      this.sessionService.subscribe(session, uri);
+    } else {
+      this.sessionService.unsubscribe(session, uri);
+    }
+
+    return this.protocolService.createResponse(request.id, {});
+  }
+
   private async handleResourceRead(request: McpRequest): Promise<McpResponse> {
     const { uri } = request.params;
 
@@ -154,53 +333,117 @@ export class McpService {
     }
   }
 
-  private getToolDefinitions(): McpToolDefinition[] {
-    return [
-      this.drugSearchTool.getDefinition(),
-      this.drugDetailsTool.getDefinition(),
-      this.drugCategoriesTool.getDefinition(),
-    ];
+  private async handlePromptsList(request: McpRequest): Promise<McpResponse> {
+    const prompts = this.registry.getPrompts().map((prompt) => prompt.getDefinition());
+    return this.protocolService.createResponse(request.id, { prompts });
   }
 
-  private getResourceDefinitions(): McpResourceDefinition[] {
-    return [
-      this.drugListResource.getDefinition(),
-      this.drugSchemaResource.getDefinition(),
-    ];
+  private async handlePromptGet(request: McpRequest): Promise<McpResponse> {
+    const { name: promptName, arguments: args = {} } = request.params ?? {};
+
+    if (!promptName) {
+      return this.errorHandler.createValidationError(
+        'Prompt name is required',
+        request.id,
+        { missingParameter: 'name' },
+      );
+    }
+
+    const prompt = this.registry.getPrompt(promptName);
+    if (!prompt) {
+      return this.errorHandler.createPromptNotFoundError(promptName, request.id);
+    }
+
+    const missing = (prompt.getDefinition().arguments ?? [])
+      .filter((argument) => argument.required && typeof args[argument.name] !== 'string')
+      .map((argument) => argument.name);
+
+    if (missing.length > 0) {
+      return this.errorHandler.createValidationError(
+        `Missing required argument: ${missing.join(', ')}`,
+        request.id,
+        { promptName, missingArguments: missing },
+      );
+    }
+
+    try {
+      const result = await prompt.getPrompt(args);
+      return this.protocolService.createResponse(request.id, result);
+    } catch (error) {
+      return this.errorHandler.handlePromptError(error, promptName, request.id);
+    }
   }
 
-  private getToolByName(toolName: string): McpToolDefinition | null {
-    const tools = this.getToolDefinitions();
-    return tools.find(tool => tool.name === toolName) || null;
+  /** All enabled tools, or only those the client's scopes allow it to call. */
+  private getToolDefinitions(client?: McpClientContext): McpToolDefinition[] {
+    return this.registry
+      .getTools()
+      .map((tool) => tool.getDefinition())
+      .filter(({ name }) => !client || this.getMissingScopes(name, {}, client).length === 0);
   }
 
-  private async executeToolByName(toolName: string, args: any) {
-    switch (toolName) {
-      case 'search_drugs':
-        return await this.drugSearchTool.execute(args);
-      case 'get_drug_details':
-        return await this.drugDetailsTool.execute(args);
-      case 'get_drug_categories':
-        return await this.drugCategoriesTool.execute(args);
-      default:
-        throw new Error(`Unknown tool: ${toolName}`);
-    }
+  private getResourceDefinitions(): McpResourceDefinition[] {
+    return this.registry.getResources().map((resource) => resource.getDefinition());
   }
 
+  private isKnownResourceUri(uri: string): boolean {
+    return (
+      this.registry.getResource(uri) !== null ||
+      this.registry.getResourceTemplates().some((resource) => UriTemplate.match(resource.getTemplate().uriTemplate, uri))
+    );
+  }
+
+  /** Fixed URIs win over templates, so drugs://list is never read as a slug. */
   private async getResourceByUri(uri: string) {
-    switch (uri) {
-      case 'drugs://list':
-        return await this.drugListResource.getContent();
-      case 'drugs://schema':
-        return await this.drugSchemaResource.getContent();
-      default:
-        throw new Error(`Unknown resource: ${uri}`);
+    const resource = this.registry.getResource(uri);
+    if (resource) {
+      return await resource.getContent();
+    }
+
+    for (const template of this.registry.getResourceTemplates()) {
+      const params = UriTemplate.match(template.getTemplate().uriTemplate, uri);
+      if (params) {
+        return await template.getContent(uri, params);
+      }
     }
+
+    throw new NotFoundException(`Unknown resource: ${uri}`);
+  }
+
+  /**
+   * What initialize answers with. Only features that have something
+   * registered are advertised.
+   */
+  getServerDescription(): { protocolVersion: string; capabilities: McpCapabilities; serverInfo: McpServerInfo } {
+    const { tools, resources, prompts, ...capabilities } = this.protocolService.getServerCapabilities();
+    const hasResources = this.registry.getResources().length + this.registry.getResourceTemplates().length > 0;
+
+    return {
+      protocolVersion: '2024-11-05',
+      capabilities: {
+        ...(this.registry.getTools().length > 0 ? { tools } : {}),
+        ...(hasResources ? { resources } : {}),
+        ...(this.registry.getPrompts().length > 0 ? { prompts } : {}),
+        ...capabilities,
+      },
+      serverInfo: this.protocolService.getServerInfo(),
+    };
+  }
+
+  /** Names of everything registered, for the health endpoint. */
+  getRegistrySummary() {
+    return {
+      tools: this.getToolDefinitions().map((tool) => tool.name),
+      disabledTools: this.registry.getDisabledToolNames(),
+      resources: this.getResourceDefinitions().map((resource) => resource.uri),
+      resourceTemplates: this.registry.getResourceTemplates().map((resource) => resource.getTemplate().uriTemplate),
+      prompts: this.registry.getPrompts().map((prompt) => prompt.getDefinition().name),
+    };
   }
 
   // Legacy methods for backward compatibility
-  getTools(): McpTool[] {
-    return this.getToolDefinitions().map(tool => ({
+  getTools(client: McpClientContext): McpTool[] {
+    return this.getToolDefinitions(client).map(tool => ({
       name: tool.name,
       description: tool.description,
       inputSchema: tool.inputSchema,
@@ -216,12 +459,29 @@ export class McpService {
     }));
   }
 
-  async executeTool(toolName: string, args: any): Promise<any> {
-    const result = await this.executeToolByName(toolName, args);
+  async executeTool(toolName: string, args: any, client: McpClientContext): Promise<any> {
+    const method = 'tools/execute';
+    const tool = this.registry.getTool(toolName);
+    if (!tool) {
+      await this.auditService.record({ client, method, toolName, arguments: args, outcome: 'invalid' });
+      throw new Error(`Unknown tool: ${toolName}`);
+    }
+
+    const missingScopes = this.getMissingScopes(toolName, args || {}, client);
+    if (missingScopes.length > 0) {
+      await this.auditService.record({ client, method, toolName, arguments: args, outcome: 'denied' });
+      throw new ForbiddenException(`Client ${client.name} needs scopes: ${missingScopes.join(', ')}`);
+    }
+
+    const result = await this.runTool(tool, args || {}, client, method);
     return result.content?.[0]?.text || result;
   }
 
-  async getResource(uri: string): Promise<any> {
+  async getResource(uri: string, client: McpClientContext): Promise<any> {
+    if (!hasMcpScope(client, MCP_SCOPES.READ)) {
+      throw new ForbiddenException(`Client ${client.name} needs scope: ${MCP_SCOPES.READ}`);
+    }
+
     const content = await this.getResourceByUri(uri);
     return content.text ? JSON.parse(content.text) : content;
   }
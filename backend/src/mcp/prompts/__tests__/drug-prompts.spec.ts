@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DrugPromptContextService } from '../../services/drug-prompt-context.service';
+import { DrugSectionResource } from '../../resources/drug-section.resource';
+import { PatientLabelSummaryPrompt } from '../patient-label-summary.prompt';
+import { BoxedWarningPrompt } from '../boxed-warning.prompt';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('MCP drug prompts', () => {
+  let prisma: { drug: { findFirst: jest.Mock } };
+  let sections: Record<string, string>;
+  let patientPrompt: PatientLabelSummaryPrompt;
+  let boxedWarningPrompt: BoxedWarningPrompt;
+
+  beforeEach(async () => {
+    prisma = {
+      drug: { findFirst: jest.fn().mockResolvedValue({ name: 'Mounjaro', slug: 'mounjaro', genericName: 'tirzepatide' }) },
+    };
+    sections = {
+      indicationsAndUsage: '## 1 INDICATIONS AND USAGE\n\nType 2 diabetes mellitus',
+      boxedWarning: '## WARNING: RISK OF THYROID C-CELL TUMORS\n\nThyroid C-cell tumors in rats',
+    };
+
+    const drugSectionResource = {
+      getContent: jest.fn(async (uri: string, { section }: Record<string, string>) => {
+        if (!sections[section]) throw new NotFoundException(`Section ${section} not found`);
+        return { uri, mimeType: 'text/markdown', text: sections[section] };
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DrugPromptContextService,
+        PatientLabelSummaryPrompt,
+        BoxedWarningPrompt,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DrugSectionResource, useValue: drugSectionResource },
+      ],
+    }).compile();
+
+    patientPrompt = module.get(PatientLabelSummaryPrompt);
+    boxedWarningPrompt = module.get(BoxedWarningPrompt);
+  });
+
+  it('should embed the label sections found and point the instructions at them', async () => {
+    const result = await patientPrompt.getPrompt({ slug: 'mounjaro' });
+
+    expect(result.messages.slice(0, -1).map((message) => message.content.resource.uri)).toEqual([
+      'drugs://mounjaro/sections/indicationsAndUsage',
+      'drugs://mounjaro/sections/boxedWarning',
+    ]);
+
+    const instructions = result.messages[result.messages.length - 1].content.text;
+    expect(instructions).toContain('Create a patient-friendly description for the drug "Mounjaro"');
+    expect(instructions).toContain('- Generic name: tirzepatide');
+    expect(instructions).toContain('- Uses: see the attached label section drugs://mounjaro/sections/indicationsAndUsage');
+    expect(instructions).toContain('- Contraindications: Discuss with healthcare provider');
+  });
+
+  it('should build a boxed warning explanation for the requested audience', async () => {
+    const result = await boxedWarningPrompt.getPrompt({ slug: 'mounjaro', audience: 'prescriber' });
+
+    expect(result.description).toBe('Boxed warning explanation for Mounjaro (prescriber)');
+    expect(result.messages[0].content.resource.text).toContain('Thyroid C-cell tumors');
+    expect(result.messages[result.messages.length - 1].content.text).toContain(
+      'Summarize the risk, affected populations, and required monitoring',
+    );
+  });
+
+  it('should reject drugs without a boxed warning or that are not published', async () => {
+    delete sections.boxedWarning;
+    await expect(boxedWarningPrompt.getPrompt({ slug: 'mounjaro' })).rejects.toThrow(BadRequestException);
+
+    prisma.drug.findFirst.mockResolvedValue(null);
+    await expect(patientPrompt.getPrompt({ slug: 'unknown' })).rejects.toThrow(NotFoundException);
+  });
+});
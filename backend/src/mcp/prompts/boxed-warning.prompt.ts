@@ -0,0 +1,42 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { DrugPromptBuilder } from '../../ai-service/prompts/drug-prompt.builder';
+import { DrugPromptContextService } from '../services/drug-prompt-context.service';
+import { McpPromptDefinition, McpPromptResult } from '../interfaces/mcp-protocol.interface';
+import { McpPrompt } from '../services/mcp-registry.service';
+
+@McpPrompt()
+@Injectable()
+export class BoxedWarningPrompt {
+  constructor(private drugPromptContext: DrugPromptContextService) {}
+
+  getDefinition(): McpPromptDefinition {
+    return {
+      name: 'explain_boxed_warning',
+      description: "Explain a drug's boxed warning for patients or prescribers, with the warning text attached",
+      arguments: [
+        { name: 'slug', description: 'Slug of a drug with a boxed warning', required: true },
+        { name: 'audience', description: 'patient (default) or prescriber', required: false },
+      ],
+    };
+  }
+
+  async getPrompt(args: Record<string, string>): Promise<McpPromptResult> {
+    const audience = args.audience === 'prescriber' ? 'prescriber' : 'patient';
+    const { drug, context, messages } = await this.drugPromptContext.load(args.slug, [
+      'boxedWarning',
+      'indicationsAndUsage',
+    ]);
+
+    if (!context.boxedWarning) {
+      throw new BadRequestException(`Drug ${drug.name} has no boxed warning`);
+    }
+
+    return {
+      description: `Boxed warning explanation for ${drug.name} (${audience})`,
+      messages: [
+        ...messages,
+        { role: 'user', content: { type: 'text', text: DrugPromptBuilder.boxedWarningExplanation(context, audience) } },
+      ],
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { DrugPromptBuilder } from '../../ai-service/prompts/drug-prompt.builder';
+import { DrugPromptContextService } from '../services/drug-prompt-context.service';
+import { McpPromptDefinition, McpPromptResult } from '../interfaces/mcp-protocol.interface';
+import { McpPrompt } from '../services/mcp-registry.service';
+
+@McpPrompt()
+@Injectable()
+export class PatientLabelSummaryPrompt {
+  constructor(private drugPromptContext: DrugPromptContextService) {}
+
+  getDefinition(): McpPromptDefinition {
+    return {
+      name: 'summarize_label_for_patient',
+      description: 'Summarize a drug label in plain language for patients, with the key label sections attached',
+      arguments: [
+        { name: 'slug', description: 'Drug slug, e.g. from search_drugs or drugs://list', required: true },
+      ],
+    };
+  }
+
+  async getPrompt(args: Record<string, string>): Promise<McpPromptResult> {
+    const { drug, context, messages } = await this.drugPromptContext.load(args.slug, [
+      'indicationsAndUsage',
+      'boxedWarning',
+      'dosageAndAdministration',
+      'contraindications',
+      'warningsAndPrecautions',
+      'adverseReactions',
+    ]);
+
+    return {
+      description: `Patient-friendly summary of the ${drug.name} label`,
+      messages: [
+        ...messages,
+        { role: 'user', content: { type: 'text', text: DrugPromptBuilder.patientDescription(context) } },
+      ],
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { DrugPromptBuilder } from '../../ai-service/prompts/drug-prompt.builder';
+import { DrugPromptContextService, PromptSection } from '../services/drug-prompt-context.service';
+import { McpPromptDefinition, McpPromptResult } from '../interfaces/mcp-protocol.interface';
+import { McpPrompt } from '../services/mcp-registry.service';
+
+const COMPARED_SECTIONS: PromptSection[] = [
+  'indicationsAndUsage',
+  'boxedWarning',
+  'dosageAndAdministration',
+  'contraindications',
+  'warningsAndPrecautions',
+  'adverseReactions',
+  'drugInteractions',
+];
+
+@McpPrompt()
+@Injectable()
+export class PrescriberComparisonPrompt {
+  constructor(private drugPromptContext: DrugPromptContextService) {}
+
+  getDefinition(): McpPromptDefinition {
+    return {
+      name: 'compare_drugs_for_prescriber',
+      description: 'Compare two drugs for prescribers from their labels, with the relevant sections of both attached',
+      arguments: [
+        { name: 'slug', description: 'Slug of the first drug', required: true },
+        { name: 'otherSlug', description: 'Slug of the drug to compare it with', required: true },
+        {
+          name: 'audience',
+          description: 'primary_care, specialist, pharmacy or general_healthcare (default)',
+          required: false,
+        },
+      ],
+    };
+  }
+
+  async getPrompt(args: Record<string, string>): Promise<McpPromptResult> {
+    const [first, second] = await Promise.all([
+      this.drugPromptContext.load(args.slug, COMPARED_SECTIONS),
+      this.drugPromptContext.load(args.otherSlug, COMPARED_SECTIONS),
+    ]);
+
+    const prompt = DrugPromptBuilder.prescriberComparison(first.context, second.context, args.audience);
+
+    return {
+      description: `Prescriber comparison of ${first.drug.name} and ${second.drug.name}`,
+      messages: [
+        ...first.messages,
+        ...second.messages,
+        { role: 'user', content: { type: 'text', text: prompt } },
+      ],
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { DrugSectionResource } from '../drug-section.resource';
+import { PrismaService } from '../../../prisma/prisma.service';
+
+describe('DrugSectionResource', () => {
+  let resource: DrugSectionResource;
+  let prisma: { drug: { findFirst: jest.Mock } };
+
+  const section = (id: string, parentId: string | null, fields: Record<string, string | null>) => ({
+    id,
+    parentId,
+    code: '42229-5',
+    labelKey: null,
+    number: null,
+    title: null,
+    text: null,
+    ...fields,
+  });
+
+  const labelSections = [
+    section('bw', null, { code: '34066-1', labelKey: 'boxedWarning', title: 'WARNING: RISK OF THYROID C-CELL TUMORS', text: 'Boxed text' }),
+    section('s2', null, { code: '34068-7', labelKey: 'dosageAndAdministration', number: '2', title: 'DOSAGE AND ADMINISTRATION' }),
+    section('s21', 's2', { labelKey: 'dosageAndAdministration', number: '2.1', title: 'Recommended Dosage', text: '240 mg loading dose' }),
+    section('s22', 's2', { labelKey: 'dosageAndAdministration', number: '2.2', title: 'Important Administration Instructions', text: 'Inject subcutaneously' }),
+    section('s8', null, { code: '43684-0', labelKey: 'useInSpecificPopulations', number: '8', title: 'USE IN SPECIFIC POPULATIONS' }),
+    section('s84', 's8', { code: '34081-0', labelKey: 'useInSpecificPopulations', number: '8.4', title: 'Pediatric Use', text: 'Not established' }),
+  ];
+
+  beforeEach(async () => {
+    prisma = { drug: { findFirst: jest.fn().mockResolvedValue({ name: 'Emgality', labelSections }) } };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DrugSectionResource, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    resource = module.get<DrugSectionResource>(DrugSectionResource);
+  });
+
+  it('should render a section with its subsections as markdown', async () => {
+    const content = await resource.getContent('drugs://emgality/sections/2', { slug: 'emgality', section: '2' });
+
+    expect(content).toEqual({
+      uri: 'drugs://emgality/sections/2',
+      mimeType: 'text/markdown',
+      text: [
+        '# Emgality',
+        '## 2 DOSAGE AND ADMINISTRATION',
+        '### 2.1 Recommended Dosage',
+        '240 mg loading dose',
+        '### 2.2 Important Administration Instructions',
+        'Inject subcutaneously',
+      ].join('\n\n'),
+    });
+    expect(prisma.drug.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { slug: 'emgality', published: true } }),
+    );
+  });
+
+  it('should find sections by label key or LOINC code', async () => {
+    const boxed = await resource.getContent('uri', { slug: 'emgality', section: 'boxedWarning' });
+    const pediatric = await resource.getContent('uri', { slug: 'emgality', section: '34081-0' });
+
+    expect(boxed.text).toBe('# Emgality\n\n## WARNING: RISK OF THYROID C-CELL TUMORS\n\nBoxed text');
+    expect(pediatric.text).toBe('# Emgality\n\n## 8.4 Pediatric Use\n\nNot established');
+  });
+
+  it('should fall back to the drug text columns when no section tree is stored', async () => {
+    prisma.drug.findFirst.mockResolvedValue({ name: 'Taltz', labelSections: [], dosageInfo: '160 mg at week 0' });
+
+    const content = await resource.getContent('uri', { slug: 'taltz', section: 'dosageAndAdministration' });
+
+    expect(content.text).toBe('# Taltz\n\n## DOSAGE AND ADMINISTRATION\n\n160 mg at week 0');
+  });
+
+  it('should throw when the drug or section is missing', async () => {
+    await expect(resource.getContent('uri', { slug: 'emgality', section: '99' })).rejects.toThrow(NotFoundException);
+
+    prisma.drug.findFirst.mockResolvedValue(null);
+    await expect(resource.getContent('uri', { slug: 'unknown', section: '2' })).rejects.toThrow(NotFoundException);
+  });
+});
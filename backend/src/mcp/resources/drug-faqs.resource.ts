@@ -0,0 +1,49 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { McpResourceTemplateDefinition, McpResourceContent } from '../interfaces/mcp-protocol.interface';
+import { McpResource } from '../services/mcp-registry.service';
+
+export const DRUG_FAQS_URI_TEMPLATE = 'drugs://{slug}/faqs';
+
+@McpResource()
+@Injectable()
+export class DrugFaqsResource {
+  private readonly logger = new Logger(DrugFaqsResource.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  getTemplate(): McpResourceTemplateDefinition {
+    return {
+      uriTemplate: DRUG_FAQS_URI_TEMPLATE,
+      name: 'Drug FAQs',
+      description: 'Frequently asked questions and answers for one published drug',
+      mimeType: 'application/json',
+    };
+  }
+
+  async getContent(uri: string, params: Record<string, string>): Promise<McpResourceContent> {
+    this.logger.debug(`Generating FAQ resource for ${params.slug}`);
+
+    const drug = await this.prisma.drug.findFirst({
+      where: { slug: params.slug, published: true },
+      select: {
+        name: true,
+        slug: true,
+        faqs: {
+          select: { question: true, answer: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${params.slug} not found`);
+    }
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({ drug: drug.name, slug: drug.slug, total: drug.faqs.length, faqs: drug.faqs }, null, 2),
+    };
+  }
+}
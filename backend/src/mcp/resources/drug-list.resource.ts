@@ -1,7 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { McpResourceDefinition, McpResourceContent } from '../interfaces/mcp-protocol.interface';
+import { McpResource } from '../services/mcp-registry.service';
 
+@McpResource()
 @Injectable()
 export class DrugListResource {
   private readonly logger = new Logger(DrugListResource.name);
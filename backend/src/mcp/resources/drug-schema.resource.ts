@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { McpResourceDefinition, McpResourceContent } from '../interfaces/mcp-protocol.interface';
+import { McpResource } from '../services/mcp-registry.service';
 
+@McpResource()
 @Injectable()
 export class DrugSchemaResource {
   getDefinition(): McpResourceDefinition {
@@ -58,9 +60,37 @@ export class DrugSchemaResource {
           description: 'Drug manufacturer',
           nullable: true,
         },
+        productType: {
+          type: 'string',
+          description: 'Normalized product type (e.g., HUMAN PRESCRIPTION DRUG)',
+          nullable: true,
+        },
         route: {
           type: 'string',
-          description: 'Route of administration (e.g., oral, injection)',
+          description: 'Primary normalized route of administration (e.g., oral, subcutaneous)',
+          nullable: true,
+        },
+        routes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'All normalized routes named in the label, most frequent first',
+        },
+        dosageForms: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Normalized dosage forms (e.g., injection, tablet)',
+        },
+        strengths: {
+          type: 'array',
+          description: 'Strengths per dosage form from the Dosage Forms and Strengths section',
+          items: {
+            type: 'object',
+            properties: {
+              form: { type: 'string' },
+              strength: { type: 'string' },
+              presentation: { type: 'string', nullable: true },
+            },
+          },
           nullable: true,
         },
         published: {
@@ -102,6 +132,15 @@ export class DrugSchemaResource {
           description: 'Boxed warning (black box warning)',
           nullable: true,
         },
+        boxedWarningTitle: {
+          type: 'string',
+          description: 'Boxed warning heading, e.g. "WARNING: RISK OF THYROID C-CELL TUMORS"',
+          nullable: true,
+        },
+        hasBoxedWarning: {
+          type: 'boolean',
+          description: 'Whether the label carries a boxed warning',
+        },
         dosageInfo: {
           type: 'string',
           description: 'Dosage and administration information',
@@ -112,6 +151,66 @@ export class DrugSchemaResource {
           description: 'Adverse reactions information',
           nullable: true,
         },
+        drugInteractions: {
+          type: 'string',
+          description: 'Drug interactions',
+          nullable: true,
+        },
+        useInSpecificPopulations: {
+          type: 'string',
+          description: 'Use in specific populations (pregnancy, lactation, pediatric, geriatric)',
+          nullable: true,
+        },
+        pediatricUse: {
+          type: 'string',
+          description: 'Pediatric Use subsection (8.4) text',
+          nullable: true,
+        },
+        hasPediatricUse: {
+          type: 'boolean',
+          description: 'Whether the label establishes safety and effectiveness in pediatric patients',
+        },
+        description: {
+          type: 'string',
+          description: 'Label description section (composition and formulation)',
+          nullable: true,
+        },
+        clinicalPharmacology: {
+          type: 'string',
+          description: 'Clinical pharmacology',
+          nullable: true,
+        },
+        mechanismOfAction: {
+          type: 'string',
+          description: 'Mechanism of action',
+          nullable: true,
+        },
+        nonclinicalToxicology: {
+          type: 'string',
+          description: 'Nonclinical toxicology',
+          nullable: true,
+        },
+        clinicalStudies: {
+          type: 'string',
+          description: 'Clinical studies',
+          nullable: true,
+        },
+        howSupplied: {
+          type: 'string',
+          description: 'How supplied, storage and handling',
+          nullable: true,
+        },
+        instructionsForUse: {
+          type: 'string',
+          description: 'Patient instructions for use',
+          nullable: true,
+        },
+        highlights: {
+          type: 'object',
+          description: 'Highlights of prescribing information, keyed by highlight block',
+          additionalProperties: { type: 'string' },
+          nullable: true,
+        },
         aiEnhancedTitle: {
           type: 'string',
           description: 'AI-generated enhanced title',
@@ -171,7 +270,11 @@ export class DrugSchemaResource {
           brandNames: ['Bayer', 'Ecotrin'],
           slug: 'aspirin',
           manufacturer: 'Bayer',
-          route: 'Oral',
+          productType: 'HUMAN OTC DRUG',
+          route: 'oral',
+          routes: ['oral'],
+          dosageForms: ['tablet'],
+          strengths: [{ form: 'tablet', strength: '325 mg', presentation: null }],
           published: true,
           indications: 'Used for pain relief, fever reduction, and inflammation',
           warnings: 'May cause stomach bleeding when used long-term',
@@ -0,0 +1,123 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SPL_TEXT_FIELDS } from '../../common/utils/spl-section-parser.util';
+import { McpResourceTemplateDefinition, McpResourceContent } from '../interfaces/mcp-protocol.interface';
+import { McpResource } from '../services/mcp-registry.service';
+
+export const DRUG_SECTION_URI_TEMPLATE = 'drugs://{slug}/sections/{section}';
+
+interface SectionRow {
+  id: string;
+  parentId: string | null;
+  code: string;
+  labelKey: string | null;
+  number: string | null;
+  title: string | null;
+  text: string | null;
+}
+
+/**
+ * Drug text columns that stand in for a label section when the drug has no
+ * stored section tree (e.g. seeded from openFDA rather than Labels.json).
+ */
+export const SECTION_FALLBACK_COLUMNS: Record<string, { column: string; title: string }> = {
+  boxedWarning: { column: 'boxedWarning', title: 'BOXED WARNING' },
+  ...Object.fromEntries(
+    Object.entries(SPL_TEXT_FIELDS).map(([column, labelKeys]) => [
+      labelKeys[0],
+      { column, title: labelKeys[0].replace(/([A-Z])/g, ' $1').toUpperCase() },
+    ]),
+  ),
+};
+
+@McpResource()
+@Injectable()
+export class DrugSectionResource {
+  private readonly logger = new Logger(DrugSectionResource.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  getTemplate(): McpResourceTemplateDefinition {
+    return {
+      uriTemplate: DRUG_SECTION_URI_TEMPLATE,
+      name: 'Drug Label Section',
+      description:
+        'One prescribing information section of a published drug, with its subsections. ' +
+        '`section` is a section number ("2", "8.4"), a LOINC section code ("34066-1") ' +
+        'or a label key ("boxedWarning", "dosageAndAdministration")',
+      mimeType: 'text/markdown',
+    };
+  }
+
+  async getContent(uri: string, params: Record<string, string>): Promise<McpResourceContent> {
+    const { slug, section } = params;
+    this.logger.debug(`Generating section ${section} resource for ${slug}`);
+
+    const drug = await this.prisma.drug.findFirst({
+      where: { slug, published: true },
+      include: {
+        labelSections: {
+          select: { id: true, parentId: true, code: true, labelKey: true, number: true, title: true, text: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${slug} not found`);
+    }
+
+    const text =
+      drug.labelSections.length > 0
+        ? this.renderStoredSection(drug.labelSections, section)
+        : this.renderFallbackSection(drug, section);
+
+    if (!text) {
+      throw new NotFoundException(`Section ${section} not found for drug ${slug}`);
+    }
+
+    return {
+      uri,
+      mimeType: 'text/markdown',
+      text: `# ${drug.name}\n\n${text}`,
+    };
+  }
+
+  private renderStoredSection(sections: SectionRow[], key: string): string | null {
+    const wanted = key.toLowerCase();
+    const target = sections.find(
+      (section) =>
+        section.number === key || section.code === key || section.labelKey?.toLowerCase() === wanted,
+    );
+    if (!target) return null;
+
+    const children = new Map<string, SectionRow[]>();
+    for (const section of sections) {
+      if (!section.parentId) continue;
+      children.set(section.parentId, [...(children.get(section.parentId) ?? []), section]);
+    }
+
+    const render = (section: SectionRow, depth: number): string => {
+      const heading = [section.number, section.title].filter(Boolean).join(' ');
+      const parts = [
+        heading ? `${'#'.repeat(Math.min(depth, 6))} ${heading}` : null,
+        section.text,
+        ...(children.get(section.id) ?? []).map((child) => render(child, depth + 1)),
+      ];
+      return parts.filter(Boolean).join('\n\n');
+    };
+
+    return render(target, 2);
+  }
+
+  private renderFallbackSection(drug: Record<string, any>, key: string): string | null {
+    const fallback = Object.entries(SECTION_FALLBACK_COLUMNS).find(
+      ([labelKey]) => labelKey.toLowerCase() === key.toLowerCase(),
+    )?.[1];
+    const text = fallback ? drug[fallback.column] : null;
+    if (!text) return null;
+
+    const title = fallback.column === 'boxedWarning' && drug.boxedWarningTitle ? drug.boxedWarningTitle : fallback.title;
+    return `## ${title}\n\n${text}`;
+  }
+}
@@ -0,0 +1,97 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UriTemplate } from '../../common/utils/uri-template.util';
+import { McpResourceTemplateDefinition, McpResourceContent } from '../interfaces/mcp-protocol.interface';
+import { DRUG_SECTION_URI_TEMPLATE, SECTION_FALLBACK_COLUMNS } from './drug-section.resource';
+import { DRUG_FAQS_URI_TEMPLATE } from './drug-faqs.resource';
+import { McpResource } from '../services/mcp-registry.service';
+
+export const DRUG_URI_TEMPLATE = 'drugs://{slug}';
+
+@McpResource()
+@Injectable()
+export class DrugResource {
+  private readonly logger = new Logger(DrugResource.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  getTemplate(): McpResourceTemplateDefinition {
+    return {
+      uriTemplate: DRUG_URI_TEMPLATE,
+      name: 'Drug',
+      description: 'Overview of one published drug by slug, with the URIs of its label sections and FAQs',
+      mimeType: 'application/json',
+    };
+  }
+
+  async getContent(uri: string, params: Record<string, string>): Promise<McpResourceContent> {
+    this.logger.debug(`Generating drug resource for ${params.slug}`);
+
+    const drug = await this.prisma.drug.findFirst({
+      where: { slug: params.slug, published: true },
+      include: {
+        labelSections: {
+          select: { parentId: true, code: true, labelKey: true, number: true, title: true },
+          orderBy: { position: 'asc' },
+        },
+        _count: { select: { faqs: true } },
+      },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${params.slug} not found`);
+    }
+
+    const overview = {
+      id: drug.id,
+      name: drug.name,
+      slug: drug.slug,
+      genericName: drug.genericName || drug.fdaGenericName || null,
+      brandName: drug.fdaBrandName || null,
+      brandNames: drug.brandNames || [],
+      manufacturer: drug.manufacturer || null,
+      productType: drug.productType || null,
+      routes: drug.routes.length > 0 ? drug.routes : drug.route ? [drug.route] : [],
+      dosageForms: drug.dosageForms,
+      hasBoxedWarning: drug.hasBoxedWarning,
+      hasPediatricUse: drug.hasPediatricUse,
+      labelEffectiveTime: drug.effectiveTime?.toISOString() ?? null,
+      lastUpdated: drug.updatedAt.toISOString(),
+      sections: this.listSections(drug),
+      faqs: {
+        uri: UriTemplate.expand(DRUG_FAQS_URI_TEMPLATE, { slug: drug.slug }),
+        count: drug._count.faqs,
+      },
+    };
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(overview, null, 2),
+    };
+  }
+
+  /**
+   * Numbered sections (plus the boxed warning) from the stored label tree,
+   * or the populated fallback columns when the drug has none.
+   */
+  private listSections(drug: Record<string, any>) {
+    const sectionUri = (section: string) =>
+      UriTemplate.expand(DRUG_SECTION_URI_TEMPLATE, { slug: drug.slug, section });
+
+    if (drug.labelSections.length === 0) {
+      return Object.entries(SECTION_FALLBACK_COLUMNS)
+        .filter(([, { column }]) => drug[column])
+        .map(([labelKey, { title }]) => ({ uri: sectionUri(labelKey), number: null, title, code: null }));
+    }
+
+    return drug.labelSections
+      .filter((section) => section.number || (section.labelKey === 'boxedWarning' && !section.parentId))
+      .map((section) => ({
+        uri: sectionUri(section.number ?? section.labelKey),
+        number: section.number,
+        title: section.title,
+        code: section.code,
+      }));
+  }
+}
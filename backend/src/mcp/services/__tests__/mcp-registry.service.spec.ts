@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { McpPrompt, McpRegistryService, McpResource, McpTool } from '../mcp-registry.service';
+
+const toolClass = (name: string) => {
+  @McpTool()
+  @Injectable()
+  class TestTool {
+    getDefinition() {
+      return { name, description: name, inputSchema: { type: 'object' as const, properties: {} } };
+    }
+
+    async execute() {
+      return { content: [{ type: 'text' as const, text: name }] };
+    }
+  }
+  return TestTool;
+};
+
+@McpResource()
+@Injectable()
+class ListResource {
+  getDefinition() {
+    return { uri: 'drugs://list', name: 'Drug List' };
+  }
+
+  async getContent() {
+    return { uri: 'drugs://list', text: '[]' };
+  }
+}
+
+@McpResource()
+@Injectable()
+class DrugTemplateResource {
+  getTemplate() {
+    return { uriTemplate: 'drugs://{slug}', name: 'Drug' };
+  }
+
+  async getContent(uri: string) {
+    return { uri, text: '{}' };
+  }
+}
+
+@McpPrompt()
+@Injectable()
+class SummaryPrompt {
+  getDefinition() {
+    return { name: 'summarize_label_for_patient' };
+  }
+
+  async getPrompt() {
+    return { messages: [] };
+  }
+}
+
+@Injectable()
+class UndecoratedService {
+  getDefinition() {
+    return { name: 'not_a_tool' };
+  }
+}
+
+describe('McpRegistryService', () => {
+  const createRegistry = async (env: Record<string, string> = {}) => {
+    const module = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      providers: [
+        McpRegistryService,
+        toolClass('search_drugs'),
+        toolClass('compare_drugs'),
+        toolClass('find_label_mentions'),
+        ListResource,
+        DrugTemplateResource,
+        SummaryPrompt,
+        UndecoratedService,
+        { provide: ConfigService, useValue: { get: (key: string) => env[key] } },
+      ],
+    }).compile();
+    await module.init();
+
+    return module.get(McpRegistryService);
+  };
+
+  const toolNames = (registry: McpRegistryService) => registry.getTools().map((tool) => tool.getDefinition().name);
+
+  it('should discover decorated providers in registration order', async () => {
+    const registry = await createRegistry();
+
+    expect(toolNames(registry)).toEqual(['search_drugs', 'compare_drugs', 'find_label_mentions']);
+    expect(registry.getResource('drugs://list')).toBeInstanceOf(ListResource);
+    expect(registry.getResourceTemplates()).toEqual([expect.any(DrugTemplateResource)]);
+    expect(registry.getPrompt('summarize_label_for_patient')).toBeInstanceOf(SummaryPrompt);
+    expect(registry.getTool('not_a_tool')).toBeNull();
+  });
+
+  it('should hide tools disabled through the environment', async () => {
+    const registry = await createRegistry({ MCP_DISABLED_TOOLS: 'compare_drugs, find_label_mentions' });
+
+    expect(toolNames(registry)).toEqual(['search_drugs']);
+    expect(registry.getTool('compare_drugs')).toBeNull();
+    expect(registry.getDisabledToolNames()).toEqual(['compare_drugs', 'find_label_mentions']);
+  });
+
+  it('should limit tools to the enabled list when one is set', async () => {
+    const registry = await createRegistry({
+      MCP_ENABLED_TOOLS: 'search_drugs,compare_drugs',
+      MCP_DISABLED_TOOLS: 'compare_drugs',
+    });
+
+    expect(toolNames(registry)).toEqual(['search_drugs']);
+    expect(registry.getDisabledToolNames()).toEqual(['compare_drugs', 'find_label_mentions']);
+  });
+
+  it('should reject two tools with the same name', async () => {
+    const registry = await createRegistry();
+
+    expect(() => registry.registerTool(new (toolClass('search_drugs'))())).toThrow('Duplicate MCP tool: search_drugs');
+  });
+});
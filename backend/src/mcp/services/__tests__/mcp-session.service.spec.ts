@@ -0,0 +1,78 @@
+import { McpSessionService } from '../mcp-session.service';
+import { DrugEventsService } from '../../../events/drug-events.service';
+import { McpNotification } from '../../interfaces/mcp-protocol.interface';
+
+describe('McpSessionService', () => {
+  let drugEvents: DrugEventsService;
+  let service: McpSessionService;
+
+  const collect = () => {
+    const session = service.createSession();
+    const received: McpNotification[] = [];
+    service.stream(session).subscribe((notification) => received.push(notification));
+    return { session, received };
+  };
+
+  beforeEach(() => {
+    drugEvents = new DrugEventsService();
+    service = new McpSessionService(drugEvents);
+    service.onModuleInit();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('should send resources/updated for subscribed resources of the changed drug', () => {
+    const { session, received } = collect();
+    service.subscribe(session, 'drugs://taltz/sections/2');
+    service.subscribe(session, 'drugs://taltzy');
+    service.subscribe(session, 'drugs://list');
+
+    drugEvents.emit('label_processed', { id: 'd1', slug: 'taltz', published: true });
+
+    expect(received).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'drugs://taltz/sections/2' } },
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'drugs://list' } },
+    ]);
+  });
+
+  it('should send list_changed to every session when a drug is published', () => {
+    const first = collect();
+    const second = collect();
+
+    drugEvents.emit('published', { id: 'd1', slug: 'taltz', published: true });
+
+    expect(first.received).toEqual([{ jsonrpc: '2.0', method: 'notifications/resources/list_changed' }]);
+    expect(second.received).toEqual(first.received);
+  });
+
+  it('should ignore edits to unpublished drafts', () => {
+    const { session, received } = collect();
+    service.subscribe(session, 'drugs://list');
+
+    drugEvents.emit('updated', { id: 'd1', slug: 'taltz', published: false });
+    drugEvents.emit('created', { id: 'd2', slug: 'emgality', published: false });
+
+    expect(received).toEqual([]);
+  });
+
+  it('should complete the stream when the session closes', () => {
+    const session = service.createSession();
+    const complete = jest.fn();
+    service.stream(session).subscribe({ complete });
+
+    expect(service.closeSession(session.id)).toBe(true);
+    expect(complete).toHaveBeenCalled();
+    expect(service.getSession(session.id)).toBeNull();
+    expect(service.closeSession(session.id)).toBe(false);
+  });
+
+  it('should hide a session from clients other than the one that opened it', () => {
+    const session = service.createSession('client-1');
+
+    expect(service.getSession(session.id, 'client-2')).toBeNull();
+    expect(service.getSession(session.id)).toBeNull();
+    expect(service.closeSession(session.id, 'client-2')).toBe(false);
+    expect(service.getSession(session.id, 'client-1')).toBe(session);
+    expect(service.closeSession(session.id, 'client-1')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UriTemplate } from '../../common/utils/uri-template.util';
+import { DrugContentContext } from '../../ai-service/interfaces/ai-provider.interface';
+import { DrugSectionResource, DRUG_SECTION_URI_TEMPLATE } from '../resources/drug-section.resource';
+import { McpPromptMessage } from '../interfaces/mcp-protocol.interface';
+
+/** Label section embedded for each prompt context field. */
+const CONTEXT_SECTIONS = {
+  indications: 'indicationsAndUsage',
+  boxedWarning: 'boxedWarning',
+  dosageInfo: 'dosageAndAdministration',
+  contraindications: 'contraindications',
+  warnings: 'warningsAndPrecautions',
+  adverseReactions: 'adverseReactions',
+  drugInteractions: 'drugInteractions',
+} as const;
+
+export type PromptSection = (typeof CONTEXT_SECTIONS)[keyof typeof CONTEXT_SECTIONS];
+
+export interface DrugPromptContext {
+  drug: { name: string; slug: string };
+  /** Prompt builder context whose label fields point at the embedded sections. */
+  context: DrugContentContext;
+  /** One embedded resource message per label section found. */
+  messages: McpPromptMessage[];
+}
+
+@Injectable()
+export class DrugPromptContextService {
+  private readonly logger = new Logger(DrugPromptContextService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private drugSectionResource: DrugSectionResource,
+  ) {}
+
+  /**
+   * Loads a published drug and embeds the requested label sections as
+   * resource content, so prompts carry the label text itself rather than a
+   * summary of it. Sections are embedded in the order given; those the label
+   * lacks are left out.
+   */
+  async load(slug: string, sections: PromptSection[]): Promise<DrugPromptContext> {
+    const drug = await this.prisma.drug.findFirst({
+      where: { slug, published: true },
+      select: { name: true, slug: true, genericName: true, fdaGenericName: true },
+    });
+
+    if (!drug) {
+      throw new NotFoundException(`Drug with slug ${slug} not found`);
+    }
+
+    const context: DrugContentContext = {
+      drugName: drug.name,
+      genericName: drug.genericName || drug.fdaGenericName || undefined,
+    };
+    const messages: McpPromptMessage[] = [];
+
+    for (const section of sections) {
+      const field = Object.keys(CONTEXT_SECTIONS).find((key) => CONTEXT_SECTIONS[key] === section);
+      const uri = UriTemplate.expand(DRUG_SECTION_URI_TEMPLATE, { slug: drug.slug, section });
+      try {
+        const resource = await this.drugSectionResource.getContent(uri, { slug: drug.slug, section });
+        messages.push({ role: 'user', content: { type: 'resource', resource } });
+        context[field] = `see the attached label section ${uri}`;
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) throw error;
+        this.logger.debug(`No ${section} section to embed for ${drug.slug}`);
+      }
+    }
+
+    return { drug: { name: drug.name, slug: drug.slug }, context, messages };
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { McpClientContext } from '../interfaces/mcp-auth.interface';
+
+export type McpAuditOutcome = 'success' | 'error' | 'denied' | 'invalid';
+
+export interface McpAuditEntry {
+  client: McpClientContext;
+  method: string;
+  toolName?: string;
+  arguments?: Record<string, any>;
+  outcome: McpAuditOutcome;
+  durationMs?: number;
+  error?: string;
+}
+
+/** Which client called which tool with what arguments, and how it went. */
+@Injectable()
+export class McpAuditService {
+  private readonly logger = new Logger(McpAuditService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /** Never throws: a failed audit write is logged and the call goes on. */
+  async record(entry: McpAuditEntry): Promise<void> {
+    const { client, method, toolName, outcome, durationMs, error } = entry;
+
+    this.logger.log(
+      `${client.name} ${method}${toolName ? ` ${toolName}` : ''}: ${outcome}` +
+        (durationMs !== undefined ? ` in ${durationMs}ms` : ''),
+    );
+
+    try {
+      await this.prisma.mcpAuditLog.create({
+        data: {
+          clientId: client.id,
+          clientName: client.name,
+          method,
+          toolName,
+          arguments: (entry.arguments ?? undefined) as Prisma.InputJsonValue,
+          outcome,
+          durationMs,
+          error,
+        },
+      });
+    } catch (writeError) {
+      this.logger.error(`Failed to write MCP audit log: ${writeError.message}`);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { McpClient } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { McpClientContext, McpScope } from '../interfaces/mcp-auth.interface';
+
+const API_KEY_PREFIX = 'mcp_';
+
+/** Characters of the key kept in clear so admins can tell keys apart. */
+const VISIBLE_KEY_LENGTH = 12;
+
+/**
+ * MCP clients and their API keys. Only a SHA-256 hash of each key is stored;
+ * the key itself is shown once, when the client is created.
+ */
+@Injectable()
+export class McpClientService {
+  private readonly logger = new Logger(McpClientService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async createClient(
+    name: string,
+    scopes: McpScope[],
+    rateLimit?: number,
+  ): Promise<{ client: McpClient; apiKey: string }> {
+    const apiKey = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    const client = await this.prisma.mcpClient.create({
+      data: {
+        name,
+        scopes,
+        rateLimit: rateLimit ?? null,
+        keyHash: this.hashKey(apiKey),
+        keyPrefix: apiKey.slice(0, VISIBLE_KEY_LENGTH),
+      },
+    });
+
+    this.logger.log(`Created MCP client ${name} with scopes ${scopes.join(', ')}`);
+    return { client, apiKey };
+  }
+
+  /** The client owning an active key, or null for unknown and revoked keys. */
+  async authenticate(apiKey: string): Promise<McpClientContext | null> {
+    if (!apiKey.startsWith(API_KEY_PREFIX)) {
+      return null;
+    }
+
+    const client = await this.prisma.mcpClient.findUnique({
+      where: { keyHash: this.hashKey(apiKey) },
+    });
+    if (!client || client.revokedAt) {
+      return null;
+    }
+
+    // Bookkeeping only, so it must not hold up or fail the request
+    this.prisma.mcpClient
+      .update({ where: { id: client.id }, data: { lastUsedAt: new Date() } })
+      .catch((error) => this.logger.warn(`Failed to record MCP client use: ${error.message}`));
+
+    return {
+      id: client.id,
+      name: client.name,
+      scopes: client.scopes as McpScope[],
+      rateLimit: client.rateLimit,
+    };
+  }
+
+  async listClients(): Promise<McpClient[]> {
+    return this.prisma.mcpClient.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async revokeClient(name: string): Promise<McpClient> {
+    const client = await this.prisma.mcpClient.findUnique({ where: { name } });
+    if (!client) {
+      throw new NotFoundException(`MCP client not found: ${name}`);
+    }
+    if (client.revokedAt) {
+      return client;
+    }
+
+    this.logger.log(`Revoking MCP client ${name}`);
+    return this.prisma.mcpClient.update({ where: { id: client.id }, data: { revokedAt: new Date() } });
+  }
+
+  private hashKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+  }
+}
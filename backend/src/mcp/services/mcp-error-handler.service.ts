@@ -5,6 +5,7 @@ import {
   MCP_ERROR_CODES,
   McpErrorCode 
 } from '../interfaces/mcp-protocol.interface';
+import { McpRegistryService } from './mcp-registry.service';
 
 export interface McpErrorContext {
   method?: string;
@@ -18,6 +19,8 @@ export interface McpErrorContext {
 export class McpErrorHandlerService {
   private readonly logger = new Logger(McpErrorHandlerService.name);
 
+  constructor(private registry: McpRegistryService) {}
+
   handleToolError(
     error: any,
     toolName: string,
@@ -128,6 +131,76 @@ export class McpErrorHandlerService {
     };
   }
 
+  handlePromptError(
+    error: any,
+    promptName: string,
+    id: string | number | null,
+    context?: McpErrorContext,
+  ): McpResponse {
+    this.logger.error(`Prompt error for ${promptName}:`, {
+      error: error.message,
+      stack: error.stack,
+      context,
+    });
+
+    let mcpError: McpError;
+
+    if (this.isNotFoundError(error)) {
+      mcpError = {
+        code: MCP_ERROR_CODES.APPLICATION_ERROR,
+        message: error.message,
+        data: { promptName, errorType: 'not_found' },
+      };
+    } else if (error.status === 400 || this.isValidationError(error)) {
+      mcpError = {
+        code: MCP_ERROR_CODES.INVALID_PARAMS,
+        message: `Invalid arguments for prompt ${promptName}: ${error.message}`,
+        data: { promptName },
+      };
+    } else if (this.isDatabaseError(error)) {
+      mcpError = {
+        code: MCP_ERROR_CODES.SERVER_ERROR,
+        message: `Database error while building prompt ${promptName}`,
+        data: {
+          promptName,
+          errorType: 'database',
+          details: process.env.NODE_ENV === 'development' ? error.message : 'Internal database error',
+        },
+      };
+    } else {
+      mcpError = {
+        code: MCP_ERROR_CODES.INTERNAL_ERROR,
+        message: `Internal error building prompt ${promptName}`,
+        data: {
+          promptName,
+          errorType: 'internal',
+          details: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error',
+        },
+      };
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: mcpError,
+    };
+  }
+
+  createPromptNotFoundError(promptName: string, id: string | number | null): McpResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: MCP_ERROR_CODES.INVALID_PARAMS,
+        message: `Prompt not found: ${promptName}`,
+        data: {
+          promptName,
+          availablePrompts: this.registry.getPrompts().map((prompt) => prompt.getDefinition().name),
+        },
+      },
+    };
+  }
+
   handleProtocolError(
     error: any,
     method: string,
@@ -178,10 +251,16 @@ export class McpErrorHandlerService {
           method,
           availableMethods: [
             'initialize',
+            'ping',
             'tools/list',
             'tools/call',
             'resources/list',
             'resources/read',
+            'resources/templates/list',
+            'resources/subscribe',
+            'resources/unsubscribe',
+            'prompts/list',
+            'prompts/get',
           ],
         },
       },
@@ -197,11 +276,7 @@ export class McpErrorHandlerService {
         message: `Tool not found: ${toolName}`,
         data: { 
           toolName,
-          availableTools: [
-            'search_drugs',
-            'get_drug_details',
-            'get_drug_categories',
-          ],
+          availableTools: this.registry.getTools().map((tool) => tool.getDefinition().name),
         },
       },
     };
@@ -217,14 +292,29 @@ export class McpErrorHandlerService {
         data: { 
           resourceUri,
           availableResources: [
-            'drugs://list',
-            'drugs://schema',
+            ...this.registry.getResources().map((resource) => resource.getDefinition().uri),
+            ...this.registry.getResourceTemplates().map((resource) => resource.getTemplate().uriTemplate),
           ],
         },
       },
     };
   }
 
+  createForbiddenError(message: string, requiredScopes: string[], id: string | number | null): McpResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code: MCP_ERROR_CODES.APPLICATION_ERROR,
+        message,
+        data: {
+          errorType: 'forbidden',
+          requiredScopes,
+        },
+      },
+    };
+  }
+
   createValidationError(message: string, id: string | number | null, details?: any): McpResponse {
     return {
       jsonrpc: '2.0',
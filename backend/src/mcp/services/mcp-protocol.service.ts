@@ -1,10 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import {
   McpRequest,
+  McpNotification,
   McpResponse,
   McpError,
   McpCapabilities,
   McpServerInfo,
+  McpToolResult,
   MCP_ERROR_CODES,
   McpErrorCode,
 } from '../interfaces/mcp-protocol.interface';
@@ -43,7 +45,7 @@ export class McpProtocolService {
       return {
         isValid: false,
         error: {
-          code: MCP_ERROR_CODES.PARSE_ERROR,
+          code: MCP_ERROR_CODES.INVALID_REQUEST,
           message: 'Invalid JSON-RPC request',
         },
       };
@@ -82,6 +84,11 @@ export class McpProtocolService {
     return { isValid: true };
   }
 
+  /** A request without an `id`; the sender expects no response. */
+  isNotification(request: any): request is McpNotification {
+    return this.validateRequest(request).isValid && request.id === undefined;
+  }
+
   handleProtocolError(error: any, id: string | number | null = null): McpResponse {
     this.logger.error('MCP Protocol Error:', error);
 
@@ -103,7 +110,10 @@ export class McpProtocolService {
         listChanged: true,
       },
       resources: {
-        subscribe: false,
+        subscribe: true,
+        listChanged: true,
+      },
+      prompts: {
         listChanged: true,
       },
       logging: {
@@ -169,17 +179,56 @@ export class McpProtocolService {
     }
   }
 
+  /**
+   * Checks a tool's `structuredContent` against its `outputSchema`. Tools
+   * without an output schema, and error results, pass.
+   */
+  validateToolResult(
+    toolName: string,
+    outputSchema: any,
+    result: McpToolResult,
+  ): { isValid: boolean; error?: string } {
+    if (!outputSchema || result.isError) {
+      return { isValid: true };
+    }
+
+    if (result.structuredContent === undefined) {
+      return { isValid: false, error: `Tool ${toolName} returned no structuredContent` };
+    }
+
+    const validation = this.validatePropertyType(result.structuredContent, outputSchema);
+    return validation.isValid
+      ? validation
+      : { isValid: false, error: `Invalid structuredContent from ${toolName}: ${validation.error}` };
+  }
+
   private validatePropertyType(
     value: any,
     schema: any,
   ): { isValid: boolean; error?: string } {
     const { type } = schema;
 
+    // Union types such as ['string', 'null'] are checked against the member matching the value's type
+    if (Array.isArray(type)) {
+      const member = type.find((candidate) => this.isJsonType(value, candidate));
+      return member
+        ? this.validatePropertyType(value, { ...schema, type: member })
+        : { isValid: false, error: `Expected ${type.join(' or ')}` };
+    }
+
     switch (type) {
+      case 'null':
+        if (value !== null) {
+          return { isValid: false, error: 'Expected null' };
+        }
+        break;
       case 'string':
         if (typeof value !== 'string') {
           return { isValid: false, error: 'Expected string' };
         }
+        if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+          return { isValid: false, error: `Expected at least ${schema.minLength} characters` };
+        }
         break;
       case 'number':
         if (typeof value !== 'number') {
@@ -200,17 +249,72 @@ export class McpProtocolService {
         if (!Array.isArray(value)) {
           return { isValid: false, error: 'Expected array' };
         }
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          return { isValid: false, error: `Expected at least ${schema.minItems} items` };
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+          return { isValid: false, error: `Expected at most ${schema.maxItems} items` };
+        }
+        if (schema.items) {
+          for (const [index, item] of value.entries()) {
+            const itemValid = this.validatePropertyType(item, schema.items);
+            if (!itemValid.isValid) {
+              return { isValid: false, error: `Item ${index}: ${itemValid.error}` };
+            }
+          }
+        }
         break;
       case 'object':
         if (typeof value !== 'object' || value === null || Array.isArray(value)) {
           return { isValid: false, error: 'Expected object' };
         }
+        for (const prop of schema.required ?? []) {
+          if (!(prop in value)) {
+            return { isValid: false, error: `Missing property ${prop}` };
+          }
+        }
+        for (const [prop, propSchema] of Object.entries<any>(schema.properties ?? {})) {
+          if (value[prop] === undefined) continue;
+
+          const propValid = this.validatePropertyType(value[prop], propSchema);
+          if (!propValid.isValid) {
+            return { isValid: false, error: `${prop}: ${propValid.error}` };
+          }
+        }
         break;
     }
 
+    if (schema.enum && !schema.enum.includes(value)) {
+      return { isValid: false, error: `Expected one of ${schema.enum.join(', ')}` };
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return { isValid: false, error: `Expected a value of at least ${schema.minimum}` };
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return { isValid: false, error: `Expected a value of at most ${schema.maximum}` };
+      }
+    }
+
     return { isValid: true };
   }
 
+  private isJsonType(value: any, type: string): boolean {
+    switch (type) {
+      case 'null':
+        return value === null;
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
   createToolNotFoundError(toolName: string): McpError {
     return {
       code: MCP_ERROR_CODES.METHOD_NOT_FOUND,
@@ -0,0 +1,194 @@
+import { Injectable, Logger, OnModuleInit, SetMetadata } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import {
+  McpToolDefinition,
+  McpToolResult,
+  McpResourceDefinition,
+  McpResourceTemplateDefinition,
+  McpResourceContent,
+  McpPromptDefinition,
+  McpPromptResult,
+} from '../interfaces/mcp-protocol.interface';
+import { MCP_SCOPES, McpScope } from '../interfaces/mcp-auth.interface';
+
+export const MCP_TOOL_KEY = 'mcp:tool';
+export const MCP_RESOURCE_KEY = 'mcp:resource';
+export const MCP_PROMPT_KEY = 'mcp:prompt';
+
+export interface McpToolOptions {
+  /** Scope needed to list and call the tool (default: read). */
+  scope?: McpScope;
+  /** Scopes needed when an argument is set, e.g. `{ includeRawFDAData: 'mcp:fda-raw' }`. */
+  argumentScopes?: Record<string, McpScope>;
+}
+
+/** Registers a provider as an MCP tool; it must implement {@link McpToolHandler}. */
+export const McpTool = (options: McpToolOptions = {}) => SetMetadata(MCP_TOOL_KEY, options);
+
+/**
+ * Registers a provider as an MCP resource: a fixed URI when it implements
+ * {@link McpResourceHandler}, or a URI template when it implements
+ * {@link McpResourceTemplateHandler}.
+ */
+export const McpResource = () => SetMetadata(MCP_RESOURCE_KEY, true);
+
+/** Registers a provider as an MCP prompt; it must implement {@link McpPromptHandler}. */
+export const McpPrompt = () => SetMetadata(MCP_PROMPT_KEY, true);
+
+export interface McpToolHandler {
+  getDefinition(): McpToolDefinition;
+  execute(args: Record<string, any>): Promise<McpToolResult>;
+}
+
+export interface McpResourceHandler {
+  getDefinition(): McpResourceDefinition;
+  getContent(): Promise<McpResourceContent>;
+}
+
+/** Resource served for every URI matching its template. */
+export interface McpResourceTemplateHandler {
+  getTemplate(): McpResourceTemplateDefinition;
+  getContent(uri: string, params: Record<string, string>): Promise<McpResourceContent>;
+}
+
+export interface McpPromptHandler {
+  getDefinition(): McpPromptDefinition;
+  getPrompt(args: Record<string, string>): Promise<McpPromptResult>;
+}
+
+/**
+ * Tools, resources and prompts discovered from providers carrying the
+ * decorators above, in module registration order. Tools can be switched off
+ * with MCP_DISABLED_TOOLS, or limited to an allowlist with MCP_ENABLED_TOOLS
+ * (both comma-separated tool names).
+ */
+@Injectable()
+export class McpRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(McpRegistryService.name);
+  private readonly tools = new Map<string, McpToolHandler>();
+  private readonly toolOptions = new Map<string, McpToolOptions>();
+  private readonly resources = new Map<string, McpResourceHandler>();
+  private readonly resourceTemplates = new Map<string, McpResourceTemplateHandler>();
+  private readonly prompts = new Map<string, McpPromptHandler>();
+  private readonly enabledTools: Set<string> | null;
+  private readonly disabledTools: Set<string>;
+
+  constructor(
+    private discoveryService: DiscoveryService,
+    private reflector: Reflector,
+    private configService: ConfigService,
+  ) {
+    const enabled = this.parseNames(this.configService.get<string>('MCP_ENABLED_TOOLS'));
+    this.enabledTools = enabled.length > 0 ? new Set(enabled) : null;
+    this.disabledTools = new Set(this.parseNames(this.configService.get<string>('MCP_DISABLED_TOOLS')));
+  }
+
+  onModuleInit() {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance, metatype } = wrapper;
+      if (!instance || !metatype) continue;
+
+      const toolOptions = this.reflector.get<McpToolOptions>(MCP_TOOL_KEY, metatype);
+      if (toolOptions) {
+        this.registerTool(instance, toolOptions);
+      }
+      if (this.reflector.get(MCP_RESOURCE_KEY, metatype)) {
+        this.registerResource(instance);
+      }
+      if (this.reflector.get(MCP_PROMPT_KEY, metatype)) {
+        this.registerPrompt(instance);
+      }
+    }
+
+    const unknown = [...(this.enabledTools ?? []), ...this.disabledTools].filter((name) => !this.tools.has(name));
+    if (unknown.length > 0) {
+      this.logger.warn(`MCP tool settings name unknown tools: ${unknown.join(', ')}`);
+    }
+
+    this.logger.log(
+      `Registered ${this.getTools().length}/${this.tools.size} MCP tools, ` +
+        `${this.resources.size + this.resourceTemplates.size} resources and ${this.prompts.size} prompts`,
+    );
+  }
+
+  registerTool(tool: McpToolHandler, options: McpToolOptions = {}): void {
+    const { name } = tool.getDefinition();
+    this.add(this.tools, name, tool, 'tool');
+    this.toolOptions.set(name, options);
+  }
+
+  registerResource(resource: McpResourceHandler | McpResourceTemplateHandler): void {
+    if ('getTemplate' in resource) {
+      this.add(this.resourceTemplates, resource.getTemplate().uriTemplate, resource, 'resource template');
+    } else {
+      this.add(this.resources, resource.getDefinition().uri, resource, 'resource');
+    }
+  }
+
+  registerPrompt(prompt: McpPromptHandler): void {
+    this.add(this.prompts, prompt.getDefinition().name, prompt, 'prompt');
+  }
+
+  /** Enabled tools only; disabled tools are neither listed nor callable. */
+  getTools(): McpToolHandler[] {
+    return [...this.tools.entries()].filter(([name]) => this.isToolEnabled(name)).map(([, tool]) => tool);
+  }
+
+  getTool(name: string): McpToolHandler | null {
+    return this.isToolEnabled(name) ? this.tools.get(name) ?? null : null;
+  }
+
+  /**
+   * Scopes a call needs: the tool's own scope plus one for each scoped
+   * argument the call sets.
+   */
+  getRequiredScopes(name: string, args: Record<string, any> = {}): McpScope[] {
+    const { scope = MCP_SCOPES.READ, argumentScopes = {} } = this.toolOptions.get(name) ?? {};
+    const argumentsSet = Object.entries(argumentScopes).filter(([argument]) => args[argument]);
+
+    return [...new Set([scope, ...argumentsSet.map(([, argumentScope]) => argumentScope)])];
+  }
+
+  getDisabledToolNames(): string[] {
+    return [...this.tools.keys()].filter((name) => !this.isToolEnabled(name));
+  }
+
+  getResources(): McpResourceHandler[] {
+    return [...this.resources.values()];
+  }
+
+  getResource(uri: string): McpResourceHandler | null {
+    return this.resources.get(uri) ?? null;
+  }
+
+  getResourceTemplates(): McpResourceTemplateHandler[] {
+    return [...this.resourceTemplates.values()];
+  }
+
+  getPrompts(): McpPromptHandler[] {
+    return [...this.prompts.values()];
+  }
+
+  getPrompt(name: string): McpPromptHandler | null {
+    return this.prompts.get(name) ?? null;
+  }
+
+  private isToolEnabled(name: string): boolean {
+    return this.tools.has(name) && !this.disabledTools.has(name) && (!this.enabledTools || this.enabledTools.has(name));
+  }
+
+  private add<T>(registry: Map<string, T>, key: string, handler: T, kind: string) {
+    if (registry.has(key)) {
+      throw new Error(`Duplicate MCP ${kind}: ${key}`);
+    }
+    registry.set(key, handler);
+  }
+
+  private parseNames(value?: string): string[] {
+    return (value ?? '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+  }
+}
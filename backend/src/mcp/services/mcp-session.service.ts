@@ -0,0 +1,140 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { defer, finalize, Observable, Subject, Subscription } from 'rxjs';
+import { DrugChangeEvent, DrugChangeType, DrugEventsService } from '../../events/drug-events.service';
+import { UriTemplate } from '../../common/utils/uri-template.util';
+import { DRUG_URI_TEMPLATE } from '../resources/drug.resource';
+import { McpNotification } from '../interfaces/mcp-protocol.interface';
+
+export interface McpSession {
+  id: string;
+  /** The McpClient that opened the session; only it may use the session. */
+  clientId: string | null;
+  subscriptions: Set<string>;
+  notifications: Subject<McpNotification>;
+  /** Open notification streams; a session with none may be pruned once idle. */
+  streams: number;
+  lastSeenAt: number;
+}
+
+/** Sessions without an open stream are dropped after this long unused. */
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** Changes that add or remove a drug from what the resources can serve. */
+const LIST_CHANGES: DrugChangeType[] = ['created', 'published', 'unpublished', 'deleted'];
+
+@Injectable()
+export class McpSessionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(McpSessionService.name);
+  private readonly sessions = new Map<string, McpSession>();
+  private changes: Subscription;
+
+  constructor(private drugEvents: DrugEventsService) {}
+
+  onModuleInit() {
+    this.changes = this.drugEvents.changes$.subscribe((event) => this.notifyDrugChange(event));
+  }
+
+  onModuleDestroy() {
+    this.changes?.unsubscribe();
+    for (const session of this.sessions.values()) {
+      session.notifications.complete();
+    }
+    this.sessions.clear();
+  }
+
+  createSession(clientId: string | null = null): McpSession {
+    this.pruneIdleSessions();
+
+    const session: McpSession = {
+      id: randomUUID(),
+      clientId,
+      subscriptions: new Set(),
+      notifications: new Subject(),
+      streams: 0,
+      lastSeenAt: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+
+    this.logger.debug(`Opened MCP session ${session.id}`);
+    return session;
+  }
+
+  /** The session, unless it is unknown, expired or belongs to another client. */
+  getSession(id: string, clientId: string | null = null): McpSession | null {
+    const session = this.sessions.get(id);
+    if (!session || session.clientId !== clientId) return null;
+
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  closeSession(id: string, clientId: string | null = null): boolean {
+    const session = this.sessions.get(id);
+    if (!session || session.clientId !== clientId) return false;
+
+    session.notifications.complete();
+    this.sessions.delete(id);
+    this.logger.debug(`Closed MCP session ${id}`);
+    return true;
+  }
+
+  /**
+   * Server-to-client notifications for a session. Notifications raised while
+   * no stream is open are not replayed.
+   */
+  stream(session: McpSession): Observable<McpNotification> {
+    return defer(() => {
+      session.streams++;
+      return session.notifications.asObservable();
+    }).pipe(
+      finalize(() => {
+        session.streams--;
+        session.lastSeenAt = Date.now();
+      }),
+    );
+  }
+
+  subscribe(session: McpSession, uri: string): void {
+    session.subscriptions.add(uri);
+  }
+
+  unsubscribe(session: McpSession, uri: string): void {
+    session.subscriptions.delete(uri);
+  }
+
+  /**
+   * Sends `resources/updated` for every subscribed URI the change affects:
+   * the drug list and the drug's own resources. Changes that add or remove a
+   * servable drug also send `resources/list_changed` to every session.
+   */
+  private notifyDrugChange(event: DrugChangeEvent) {
+    // Drafts are never served, so their edits change nothing a client has seen
+    if (!event.published && event.type !== 'unpublished' && event.type !== 'deleted') return;
+
+    const drugUri = UriTemplate.expand(DRUG_URI_TEMPLATE, { slug: event.slug });
+    const isAffected = (uri: string) => uri === 'drugs://list' || uri === drugUri || uri.startsWith(`${drugUri}/`);
+    const listChanged = LIST_CHANGES.includes(event.type);
+
+    for (const session of this.sessions.values()) {
+      for (const uri of session.subscriptions) {
+        if (isAffected(uri)) {
+          session.notifications.next({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+        }
+      }
+
+      if (listChanged) {
+        session.notifications.next({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+      }
+    }
+  }
+
+  private pruneIdleSessions() {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const session of this.sessions.values()) {
+      if (session.streams === 0 && session.lastSeenAt < cutoff) {
+        this.closeSession(session.id, session.clientId);
+      }
+    }
+  }
+}
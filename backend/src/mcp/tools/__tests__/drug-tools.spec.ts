@@ -0,0 +1,143 @@
+import { DrugSearchTool } from '../drug-search.tool';
+import { DrugDetailsTool } from '../drug-details.tool';
+import { DrugCategoriesTool } from '../drug-categories.tool';
+import { McpProtocolService } from '../../services/mcp-protocol.service';
+import { McpToolResult } from '../../interfaces/mcp-protocol.interface';
+
+describe('drug tools structured output', () => {
+  const prisma = {
+    drug: { findMany: jest.fn(), findUnique: jest.fn(), count: jest.fn(), groupBy: jest.fn() },
+    drugFAQ: { count: jest.fn() },
+  };
+  const protocol = new McpProtocolService();
+
+  const expectValid = (tool: { getDefinition(): any }, result: McpToolResult) => {
+    const { name, outputSchema } = tool.getDefinition();
+
+    expect(outputSchema).toBeDefined();
+    expect(result.structuredContent).toBeDefined();
+    expect(protocol.validateToolResult(name, outputSchema, result)).toEqual({ isValid: true });
+  };
+
+  const taltz = {
+    id: 'drug-1',
+    slug: 'taltz',
+    name: 'Taltz',
+    genericName: null,
+    fdaGenericName: 'ixekizumab',
+    fdaBrandName: 'Taltz',
+    brandNames: [],
+    manufacturer: 'Eli Lilly and Company',
+    route: null,
+    published: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-06-01T00:00:00Z'),
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should return the matching drugs with ids and slugs from search_drugs', async () => {
+    const tool = new DrugSearchTool(prisma as any);
+    prisma.drug.findMany.mockResolvedValue([taltz]);
+
+    const result = await tool.execute({ query: 'taltz' });
+
+    expectValid(tool, result);
+    expect(result.structuredContent).toEqual({
+      query: 'taltz',
+      count: 1,
+      drugs: [
+        expect.objectContaining({
+          id: 'drug-1',
+          slug: 'taltz',
+          genericName: 'ixekizumab',
+          route: null,
+          updatedAt: '2024-06-01T00:00:00.000Z',
+        }),
+      ],
+    });
+  });
+
+  it('should return typed label sections, boxed warning and FAQs from get_drug_details', async () => {
+    const tool = new DrugDetailsTool(prisma as any);
+    prisma.drug.findUnique.mockResolvedValue({
+      ...taltz,
+      indications: 'Plaque psoriasis.',
+      warnings: 'Infections.',
+      boxedWarning: null,
+      aiEnhancedTitle: 'Taltz for psoriasis',
+      faqs: [{ id: 'faq-1', question: 'How is Taltz given?', answer: 'By injection.' }],
+      fdaLabelData: { set_id: 'abc' },
+    });
+
+    const result = await tool.execute({ drugId: 'drug-1', includeRawFDAData: true });
+
+    expectValid(tool, result);
+    expect(result.structuredContent).toMatchObject({
+      boxedWarning: null,
+      sections: [
+        { key: 'indications', title: 'Indications and Usage', text: 'Plaque psoriasis.' },
+        { key: 'warnings', title: 'Warnings and Precautions', text: 'Infections.' },
+      ],
+      aiContent: { title: 'Taltz for psoriasis', description: null },
+      faqs: [{ question: 'How is Taltz given?', answer: 'By injection.' }],
+      fdaLabelData: { set_id: 'abc' },
+    });
+  });
+
+  it('should leave structuredContent out when get_drug_details finds nothing', async () => {
+    const tool = new DrugDetailsTool(prisma as any);
+    prisma.drug.findUnique.mockResolvedValue(null);
+
+    const result = await tool.execute({ drugId: 'missing' });
+
+    expect(result).toMatchObject({ isError: true });
+    expect(result.structuredContent).toBeUndefined();
+    expect(protocol.validateToolResult('get_drug_details', tool.getDefinition().outputSchema, result).isValid).toBe(true);
+  });
+
+  it('should return category counts and optional stats from get_drug_categories', async () => {
+    const tool = new DrugCategoriesTool(prisma as any);
+    prisma.drug.count.mockResolvedValue(3);
+    prisma.drugFAQ.count.mockResolvedValue(12);
+    prisma.drug.groupBy
+      .mockResolvedValueOnce([{ manufacturer: 'Eli Lilly and Company', _count: { manufacturer: 3 } }])
+      .mockResolvedValueOnce([{ route: 'SUBCUTANEOUS', _count: { route: 2 } }]);
+
+    const result = await tool.execute({ includeStats: true });
+
+    expectValid(tool, result);
+    expect(result.structuredContent).toEqual({
+      stats: expect.objectContaining({ totalDrugs: 3, totalFAQs: 12 }),
+      manufacturers: [{ name: 'Eli Lilly and Company', count: 3 }],
+      routes: [{ name: 'SUBCUTANEOUS', count: 2 }],
+      boxedWarningsCount: 3,
+    });
+
+    prisma.drug.groupBy.mockResolvedValue([]);
+    const withoutStats = await tool.execute({ includeStats: false });
+
+    expectValid(tool, withoutStats);
+    expect(withoutStats.structuredContent.stats).toBeNull();
+  });
+
+  it('should reject structured content that does not match the schema', () => {
+    const { outputSchema } = new DrugSearchTool(prisma as any).getDefinition();
+    const content = (drugs: any[]) => ({ content: [], structuredContent: { query: 'x', count: drugs.length, drugs } });
+
+    expect(protocol.validateToolResult('search_drugs', outputSchema, { content: [] })).toMatchObject({ isValid: false });
+    expect(
+      protocol.validateToolResult('search_drugs', outputSchema, content([{ id: 'drug-1', slug: 'taltz', name: 'Taltz' }])),
+    ).toEqual({
+      isValid: false,
+      error: 'Invalid structuredContent from search_drugs: drugs: Item 0: Missing property published',
+    });
+    expect(
+      protocol.validateToolResult(
+        'search_drugs',
+        outputSchema,
+        content([{ id: 'drug-1', slug: 'taltz', name: 'Taltz', published: true, updatedAt: 'now', route: 4 }]),
+      ),
+    ).toMatchObject({ isValid: false, error: expect.stringContaining('route: Expected string or null') });
+  });
+});
@@ -0,0 +1,135 @@
+import { CompareDrugsTool } from '../compare-drugs.tool';
+import { FindLabelMentionsTool } from '../find-label-mentions.tool';
+import { McpProtocolService } from '../../services/mcp-protocol.service';
+
+describe('label tools', () => {
+  const prisma = { drug: { findMany: jest.fn() } };
+  const protocol = new McpProtocolService();
+
+  const drug = (overrides: Record<string, any>) => ({
+    id: `id-${overrides.slug}`,
+    genericName: null,
+    fdaGenericName: null,
+    fdaBrandName: null,
+    brandNames: [],
+    manufacturer: null,
+    route: null,
+    routes: [],
+    dosageForms: [],
+    hasBoxedWarning: false,
+    effectiveTime: null,
+    ...overrides,
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('CompareDrugsTool', () => {
+    const tool = new CompareDrugsTool(prisma as any);
+    const validate = (args: Record<string, any>) =>
+      protocol.validateToolArguments('compare_drugs', tool.getDefinition().inputSchema, args);
+
+    it('should validate drug counts and field names against the input schema', () => {
+      expect(validate({ drugs: ['taltz', 'emgality'], fields: ['routes'] })).toEqual({ isValid: true });
+      expect(validate({ drugs: ['taltz'] })).toMatchObject({ isValid: false, error: expect.stringContaining('at least 2') });
+      expect(validate({ drugs: ['a', 'b', 'c', 'd', 'e'] })).toMatchObject({ isValid: false });
+      expect(validate({ drugs: ['taltz', 'emgality'], fields: ['price'] })).toMatchObject({
+        isValid: false,
+        error: expect.stringContaining('Expected one of'),
+      });
+    });
+
+    it('should render one column per drug in the requested order, by slug or id', async () => {
+      prisma.drug.findMany.mockResolvedValue([
+        drug({ name: 'Emgality', slug: 'emgality', routes: ['SUBCUTANEOUS'], indications: 'Migraine | cluster\nheadache' }),
+        drug({ name: 'Taltz', slug: 'taltz', route: 'SUBCUTANEOUS', hasBoxedWarning: true }),
+      ]);
+
+      const result = await tool.execute({ drugs: ['taltz', 'id-emgality'], fields: ['routes', 'hasBoxedWarning', 'indications'] });
+      const lines = result.content[0].text.split('\n');
+
+      expect(result.isError).toBeUndefined();
+      expect(protocol.validateToolResult('compare_drugs', tool.getDefinition().outputSchema, result)).toEqual({
+        isValid: true,
+      });
+      expect(result.structuredContent.drugs.map((entry) => entry.values)).toEqual([
+        { routes: ['SUBCUTANEOUS'], hasBoxedWarning: true, indications: null },
+        { routes: ['SUBCUTANEOUS'], hasBoxedWarning: false, indications: 'Migraine | cluster\nheadache' },
+      ]);
+      expect(lines).toContain('| Field | Taltz (`taltz`) | Emgality (`emgality`) |');
+      expect(lines).toContain('| **Boxed Warning** | Yes | No |');
+      expect(lines).toContain('| **Indications** | — | Migraine \\| cluster headache |');
+    });
+
+    it('should report drugs that are missing or unpublished', async () => {
+      prisma.drug.findMany.mockResolvedValue([drug({ name: 'Taltz', slug: 'taltz' })]);
+
+      const result = await tool.execute({ drugs: ['taltz', 'draft-drug'] });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('draft-drug');
+    });
+  });
+
+  describe('FindLabelMentionsTool', () => {
+    const tool = new FindLabelMentionsTool(prisma as any);
+
+    it('should reject unknown sections and short terms', () => {
+      const schema = tool.getDefinition().inputSchema;
+
+      expect(protocol.validateToolArguments('find_label_mentions', schema, { term: 'warfarin' })).toEqual({ isValid: true });
+      expect(protocol.validateToolArguments('find_label_mentions', schema, { term: ' a ' })).toMatchObject({ isValid: false });
+      expect(
+        protocol.validateToolArguments('find_label_mentions', schema, { term: 'warfarin', sections: ['indications'] }),
+      ).toMatchObject({ isValid: false });
+    });
+
+    it('should search only the requested sections of published drugs', async () => {
+      prisma.drug.findMany.mockResolvedValue([]);
+
+      const result = await tool.execute({ term: ' warfarin ', sections: ['drugInteractions'] });
+
+      expect(prisma.drug.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { published: true, OR: [{ drugInteractions: { contains: 'warfarin', mode: 'insensitive' } }] },
+          take: 21,
+        }),
+      );
+      expect(result.content[0].text).toContain('No published drug labels mention "warfarin"');
+    });
+
+    it('should show highlighted excerpts with links to the full section', async () => {
+      prisma.drug.findMany.mockResolvedValue([
+        {
+          name: 'Mounjaro',
+          slug: 'mounjaro',
+          genericName: 'tirzepatide',
+          boxedWarning: null,
+          warnings: 'Monitor INR when starting.',
+          drugInteractions: 'Delayed gastric emptying may affect Warfarin absorption. Monitor warfarin levels.',
+        },
+      ]);
+
+      const result = await tool.execute({ term: 'warfarin' });
+      const text = result.content[0].text;
+
+      expect(protocol.validateToolResult('find_label_mentions', tool.getDefinition().outputSchema, result)).toEqual({
+        isValid: true,
+      });
+      expect(result.structuredContent.drugs[0].mentions).toEqual([
+        {
+          section: 'drugInteractions',
+          title: 'DRUG INTERACTIONS',
+          uri: 'drugs://mounjaro/sections/drugInteractions',
+          count: 2,
+          excerpts: ['Delayed gastric emptying may affect Warfarin absorption. Monitor warfarin levels.'],
+        },
+      ]);
+
+      expect(text).toContain('## Mounjaro (tirzepatide)');
+      expect(text).toContain('### DRUG INTERACTIONS — 2 mentions');
+      expect(text).toContain('> Delayed gastric emptying may affect **Warfarin** absorption.');
+      expect(text).toContain('Full section: drugs://mounjaro/sections/drugInteractions');
+      expect(text).not.toContain('WARNINGS AND PRECAUTIONS');
+    });
+  });
+});
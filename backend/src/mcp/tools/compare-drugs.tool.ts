@@ -0,0 +1,206 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { McpToolDefinition, McpToolResult } from '../interfaces/mcp-protocol.interface';
+import { McpTool } from '../services/mcp-registry.service';
+
+type DrugRow = Record<string, any>;
+
+/** Comparable fields, in table row order. */
+const COMPARE_FIELDS: Record<string, { label: string; value: (drug: DrugRow) => unknown }> = {
+  genericName: { label: 'Generic Name', value: (drug) => drug.genericName || drug.fdaGenericName },
+  brandNames: {
+    label: 'Brand Names',
+    value: (drug) => (drug.brandNames.length > 0 ? drug.brandNames : drug.fdaBrandName ? [drug.fdaBrandName] : []),
+  },
+  manufacturer: { label: 'Manufacturer', value: (drug) => drug.manufacturer },
+  productType: { label: 'Product Type', value: (drug) => drug.productType },
+  routes: { label: 'Routes', value: (drug) => (drug.routes.length > 0 ? drug.routes : drug.route ? [drug.route] : []) },
+  dosageForms: { label: 'Dosage Forms', value: (drug) => drug.dosageForms },
+  hasBoxedWarning: { label: 'Boxed Warning', value: (drug) => drug.hasBoxedWarning },
+  hasPediatricUse: { label: 'Pediatric Use Labeled', value: (drug) => drug.hasPediatricUse },
+  indications: { label: 'Indications', value: (drug) => drug.indications },
+  boxedWarning: { label: 'Boxed Warning Text', value: (drug) => drug.boxedWarning },
+  contraindications: { label: 'Contraindications', value: (drug) => drug.contraindications },
+  warnings: { label: 'Warnings and Precautions', value: (drug) => drug.warnings },
+  dosageInfo: { label: 'Dosage and Administration', value: (drug) => drug.dosageInfo },
+  adverseReactions: { label: 'Adverse Reactions', value: (drug) => drug.adverseReactions },
+  drugInteractions: { label: 'Drug Interactions', value: (drug) => drug.drugInteractions },
+  mechanismOfAction: { label: 'Mechanism of Action', value: (drug) => drug.mechanismOfAction },
+  labelEffectiveTime: {
+    label: 'Label Effective Date',
+    value: (drug) => drug.effectiveTime?.toISOString().split('T')[0] ?? null,
+  },
+};
+
+const DEFAULT_FIELDS = [
+  'genericName',
+  'manufacturer',
+  'routes',
+  'dosageForms',
+  'hasBoxedWarning',
+  'indications',
+  'contraindications',
+];
+
+/** Label text is cut to this many characters per cell to keep the table readable. */
+const MAX_CELL_LENGTH = 300;
+
+@McpTool()
+@Injectable()
+export class CompareDrugsTool {
+  private readonly logger = new Logger(CompareDrugsTool.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  getDefinition(): McpToolDefinition {
+    return {
+      name: 'compare_drugs',
+      description:
+        'Compare 2 to 4 published drugs side by side. Returns a table with one column per drug and one row per ' +
+        'requested field. Long label text is truncated; read drugs://{slug}/sections/{section} for the full text.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          drugs: {
+            type: 'array',
+            description: 'Slugs or IDs of the drugs to compare, in column order',
+            items: { type: 'string', minLength: 1 },
+            minItems: 2,
+            maxItems: 4,
+          },
+          fields: {
+            type: 'array',
+            description: `Fields to compare, in row order (default: ${DEFAULT_FIELDS.join(', ')})`,
+            items: { type: 'string', enum: Object.keys(COMPARE_FIELDS) },
+            minItems: 1,
+          },
+        },
+        required: ['drugs'],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          fields: { type: 'array', items: { type: 'string', enum: Object.keys(COMPARE_FIELDS) } },
+          drugs: {
+            type: 'array',
+            description: 'One entry per requested drug, in request order, with the full untruncated values',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                slug: { type: 'string' },
+                name: { type: 'string' },
+                values: {
+                  type: 'object',
+                  properties: Object.fromEntries(
+                    Object.keys(COMPARE_FIELDS).map((field) => [
+                      field,
+                      { type: ['string', 'array', 'boolean', 'null'], items: { type: 'string' } },
+                    ]),
+                  ),
+                },
+              },
+              required: ['id', 'slug', 'name', 'values'],
+            },
+          },
+        },
+        required: ['fields', 'drugs'],
+      },
+    };
+  }
+
+  async execute(args: { drugs: string[]; fields?: string[] }): Promise<McpToolResult> {
+    try {
+      const identifiers = [...new Set(args.drugs)];
+      const fields = args.fields ? [...new Set(args.fields)] : DEFAULT_FIELDS;
+
+      this.logger.debug(`Comparing drugs: ${identifiers.join(', ')}`);
+
+      const found = await this.prisma.drug.findMany({
+        where: {
+          published: true,
+          OR: [{ id: { in: identifiers } }, { slug: { in: identifiers } }],
+        },
+      });
+
+      const drugs = identifiers.map((identifier) =>
+        found.find((drug) => drug.id === identifier || drug.slug === identifier),
+      );
+      const missing = identifiers.filter((_, index) => !drugs[index]);
+
+      if (missing.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `No published drug found for: ${missing.join(', ')}. Use search_drugs to look up slugs.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatComparison(drugs, fields),
+          },
+        ],
+        structuredContent: {
+          fields,
+          drugs: drugs.map((drug) => ({
+            id: drug.id,
+            slug: drug.slug,
+            name: drug.name,
+            values: Object.fromEntries(fields.map((field) => [field, COMPARE_FIELDS[field].value(drug) ?? null])),
+          })),
+        },
+      };
+    } catch (error) {
+      this.logger.error('Error executing drug comparison:', error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error comparing drugs: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private formatComparison(drugs: DrugRow[], fields: string[]): string {
+    let result = `# Drug Comparison: ${drugs.map((drug) => drug.name).join(' vs ')}\n\n`;
+
+    result += `| Field | ${drugs.map((drug) => `${drug.name} (\`${drug.slug}\`)`).join(' | ')} |\n`;
+    result += `|${' --- |'.repeat(drugs.length + 1)}\n`;
+
+    for (const field of fields) {
+      const { label, value } = COMPARE_FIELDS[field];
+      result += `| **${label}** | ${drugs.map((drug) => this.formatCell(value(drug))).join(' | ')} |\n`;
+    }
+
+    result += `\n---\n\n`;
+    result += `**Note**: This comparison is for educational purposes only and should not replace professional medical advice. Always consult with a healthcare provider before making any decisions about medications.\n`;
+
+    return result;
+  }
+
+  private formatCell(value: unknown): string {
+    if (Array.isArray(value)) {
+      value = value.join(', ');
+    }
+    if (typeof value === 'boolean') {
+      value = value ? 'Yes' : 'No';
+    }
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+
+    const text = String(value).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+    return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH).trimEnd()}…` : text;
+  }
+}
@@ -1,7 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { McpToolDefinition, McpToolResult } from '../interfaces/mcp-protocol.interface';
+import { McpTool } from '../services/mcp-registry.service';
 
+const STAT_KEYS = [
+  'totalDrugs',
+  'publishedDrugs',
+  'drugsWithFDAData',
+  'drugsWithAIContent',
+  'drugsWithFAQs',
+  'totalFAQs',
+] as const;
+
+/** Top published manufacturers or routes with their drug counts. */
+const countedNamesSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { name: { type: 'string' }, count: { type: 'integer' } },
+    required: ['name', 'count'],
+  },
+};
+
+@McpTool()
 @Injectable()
 export class DrugCategoriesTool {
   private readonly logger = new Logger(DrugCategoriesTool.name);
@@ -21,6 +42,21 @@ export class DrugCategoriesTool {
           },
         },
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          stats: {
+            type: ['object', 'null'],
+            description: 'Database statistics, or null when includeStats is false',
+            properties: Object.fromEntries(STAT_KEYS.map((key) => [key, { type: 'integer' }])),
+            required: [...STAT_KEYS],
+          },
+          manufacturers: countedNamesSchema,
+          routes: countedNamesSchema,
+          boxedWarningsCount: { type: 'integer' },
+        },
+        required: ['stats', 'manufacturers', 'routes', 'boxedWarningsCount'],
+      },
     };
   }
 
@@ -32,8 +68,8 @@ export class DrugCategoriesTool {
 
       let resultText = '# Drug Database Overview\n\n';
 
-      if (includeStats) {
-        const stats = await this.getDatabaseStats();
+      const stats = includeStats ? await this.getDatabaseStats() : null;
+      if (stats) {
         resultText += this.formatStats(stats);
       }
 
@@ -47,6 +83,7 @@ export class DrugCategoriesTool {
             text: resultText,
           },
         ],
+        structuredContent: { stats, ...categories },
       };
     } catch (error) {
       this.logger.error('Error executing drug categories retrieval:', error);
@@ -153,7 +190,7 @@ export class DrugCategoriesTool {
     // Get drugs with boxed warnings
     const boxedWarningsCount = await this.prisma.drug.count({
       where: {
-        boxedWarning: { not: null },
+        hasBoxedWarning: true,
         published: true,
       },
     });
@@ -1,7 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { McpToolDefinition, McpToolResult } from '../interfaces/mcp-protocol.interface';
+import { McpTool } from '../services/mcp-registry.service';
+import { MCP_SCOPES } from '../interfaces/mcp-auth.interface';
 
+/** Label text columns returned as typed sections, in label order. */
+const DETAIL_SECTIONS = {
+  indications: 'Indications and Usage',
+  contraindications: 'Contraindications',
+  warnings: 'Warnings and Precautions',
+  dosageInfo: 'Dosage and Administration',
+  adverseReactions: 'Adverse Reactions',
+} as const;
+
+const nullableString = { type: ['string', 'null'] };
+
+@McpTool({ argumentScopes: { includeRawFDAData: MCP_SCOPES.RAW_FDA_DATA } })
 @Injectable()
 export class DrugDetailsTool {
   private readonly logger = new Logger(DrugDetailsTool.name);
@@ -21,11 +35,68 @@ export class DrugDetailsTool {
           },
           includeRawFDAData: {
             type: 'boolean',
-            description: 'Whether to include raw FDA label JSON data (default: false)',
+            description: 'Whether to include raw FDA label JSON data (default: false); needs the mcp:fda-raw scope',
           },
         },
         required: ['drugId'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          slug: { type: 'string' },
+          name: { type: 'string' },
+          genericName: nullableString,
+          brandName: nullableString,
+          brandNames: { type: 'array', items: { type: 'string' } },
+          manufacturer: nullableString,
+          route: nullableString,
+          published: { type: 'boolean' },
+          createdAt: { type: 'string' },
+          updatedAt: { type: 'string' },
+          boxedWarning: {
+            type: ['object', 'null'],
+            properties: { title: nullableString, text: { type: 'string' } },
+            required: ['title', 'text'],
+          },
+          sections: {
+            type: 'array',
+            description: 'FDA label sections that have text, in label order',
+            items: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', enum: Object.keys(DETAIL_SECTIONS) },
+                title: { type: 'string' },
+                text: { type: 'string' },
+              },
+              required: ['key', 'title', 'text'],
+            },
+          },
+          aiContent: {
+            type: 'object',
+            properties: {
+              title: nullableString,
+              description: nullableString,
+              seoTitle: nullableString,
+              seoDescription: nullableString,
+            },
+            required: ['title', 'description', 'seoTitle', 'seoDescription'],
+          },
+          faqs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { question: { type: 'string' }, answer: { type: 'string' } },
+              required: ['question', 'answer'],
+            },
+          },
+          fdaLabelData: {
+            type: ['object', 'array', 'null'],
+            description: 'Raw openFDA label JSON, only when includeRawFDAData is true',
+          },
+        },
+        required: ['id', 'slug', 'name', 'published', 'boxedWarning', 'sections', 'aiContent', 'faqs'],
+      },
     };
   }
 
@@ -68,6 +139,7 @@ export class DrugDetailsTool {
             text: resultText,
           },
         ],
+        structuredContent: this.structureDrugDetails(drug, includeRawFDAData),
       };
     } catch (error) {
       this.logger.error('Error executing drug details retrieval:', error);
@@ -84,6 +156,34 @@ export class DrugDetailsTool {
     }
   }
 
+  private structureDrugDetails(drug: any, includeRawFDAData: boolean) {
+    return {
+      id: drug.id,
+      slug: drug.slug,
+      name: drug.name,
+      genericName: drug.genericName || drug.fdaGenericName || null,
+      brandName: drug.fdaBrandName || null,
+      brandNames: drug.brandNames || [],
+      manufacturer: drug.manufacturer || null,
+      route: drug.route || null,
+      published: drug.published,
+      createdAt: drug.createdAt.toISOString(),
+      updatedAt: drug.updatedAt.toISOString(),
+      boxedWarning: drug.boxedWarning ? { title: drug.boxedWarningTitle || null, text: drug.boxedWarning } : null,
+      sections: Object.entries(DETAIL_SECTIONS)
+        .filter(([key]) => drug[key])
+        .map(([key, title]) => ({ key, title, text: drug[key] })),
+      aiContent: {
+        title: drug.aiEnhancedTitle || null,
+        description: drug.aiEnhancedDescription || null,
+        seoTitle: drug.seoMetaTitle || null,
+        seoDescription: drug.seoMetaDescription || null,
+      },
+      faqs: (drug.faqs || []).map((faq) => ({ question: faq.question, answer: faq.answer })),
+      ...(includeRawFDAData ? { fdaLabelData: drug.fdaLabelData ?? null } : {}),
+    };
+  }
+
   private formatDrugDetails(drug: any, includeRawFDAData: boolean): string {
     let result = `# ${drug.name}\n\n`;
 
@@ -134,7 +234,9 @@ export class DrugDetailsTool {
       }
       
       if (drug.boxedWarning) {
-        result += `### ⚠️ Boxed Warning\n${drug.boxedWarning}\n\n`;
+        result += `### ⚠️ Boxed Warning\n`;
+        if (drug.boxedWarningTitle) result += `**${drug.boxedWarningTitle}**\n\n`;
+        result += `${drug.boxedWarning}\n\n`;
       }
       
       if (drug.warnings) {
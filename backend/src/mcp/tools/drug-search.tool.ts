@@ -1,7 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { McpToolDefinition, McpToolResult } from '../interfaces/mcp-protocol.interface';
+import { McpTool } from '../services/mcp-registry.service';
 
+@McpTool()
 @Injectable()
 export class DrugSearchTool {
   private readonly logger = new Logger(DrugSearchTool.name);
@@ -32,6 +34,33 @@ export class DrugSearchTool {
         },
         required: ['query'],
       },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          count: { type: 'integer' },
+          drugs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                slug: { type: 'string' },
+                name: { type: 'string' },
+                genericName: { type: ['string', 'null'] },
+                brandName: { type: ['string', 'null'] },
+                brandNames: { type: 'array', items: { type: 'string' } },
+                manufacturer: { type: ['string', 'null'] },
+                route: { type: ['string', 'null'] },
+                published: { type: 'boolean' },
+                updatedAt: { type: 'string', description: 'ISO 8601 timestamp' },
+              },
+              required: ['id', 'slug', 'name', 'published', 'updatedAt'],
+            },
+          },
+        },
+        required: ['query', 'count', 'drugs'],
+      },
     };
   }
 
@@ -116,6 +145,22 @@ export class DrugSearchTool {
             text: resultText,
           },
         ],
+        structuredContent: {
+          query,
+          count: drugs.length,
+          drugs: drugs.map((drug) => ({
+            id: drug.id,
+            slug: drug.slug,
+            name: drug.name,
+            genericName: drug.genericName || drug.fdaGenericName || null,
+            brandName: drug.fdaBrandName || null,
+            brandNames: drug.brandNames || [],
+            manufacturer: drug.manufacturer || null,
+            route: drug.route || null,
+            published: drug.published,
+            updatedAt: drug.updatedAt.toISOString(),
+          })),
+        },
       };
     } catch (error) {
       this.logger.error('Error executing drug search:', error);
@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UriTemplate } from '../../common/utils/uri-template.util';
+import { DRUG_SECTION_URI_TEMPLATE, SECTION_FALLBACK_COLUMNS } from '../resources/drug-section.resource';
+import { McpToolDefinition, McpToolResult } from '../interfaces/mcp-protocol.interface';
+import { McpTool } from '../services/mcp-registry.service';
+
+/** Safety-related label columns that can be searched, in output order. */
+const MENTION_SECTIONS = ['boxedWarning', 'contraindications', 'warnings', 'drugInteractions'] as const;
+
+type MentionSection = (typeof MENTION_SECTIONS)[number];
+
+/** Characters of label text kept on each side of a match. */
+const EXCERPT_CONTEXT = 120;
+
+/** Excerpts shown per section; the match count covers the rest. */
+const MAX_EXCERPTS = 2;
+
+interface LabelMention {
+  section: MentionSection;
+  title: string;
+  uri: string;
+  count: number;
+  excerpts: string[];
+}
+
+@McpTool()
+@Injectable()
+export class FindLabelMentionsTool {
+  private readonly logger = new Logger(FindLabelMentionsTool.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  getDefinition(): McpToolDefinition {
+    return {
+      name: 'find_label_mentions',
+      description:
+        'Find published drug labels whose warnings or interaction sections mention another drug or drug class ' +
+        '(e.g. "warfarin", "CYP3A4 inhibitors", "MAO inhibitors"). Returns matching excerpts per section.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          term: {
+            type: 'string',
+            description: 'Drug name or class to look for, matched case-insensitively',
+            minLength: 3,
+          },
+          sections: {
+            type: 'array',
+            description: `Label sections to search (default: all of ${MENTION_SECTIONS.join(', ')})`,
+            items: { type: 'string', enum: [...MENTION_SECTIONS] },
+            minItems: 1,
+          },
+          limit: {
+            type: 'integer',
+            description: 'Maximum number of drugs to return (default: 20, max: 50)',
+            minimum: 1,
+            maximum: 50,
+          },
+        },
+        required: ['term'],
+      },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          sections: { type: 'array', items: { type: 'string', enum: [...MENTION_SECTIONS] } },
+          truncated: { type: 'boolean', description: 'More drugs matched than `limit`' },
+          drugs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                slug: { type: 'string' },
+                name: { type: 'string' },
+                genericName: { type: ['string', 'null'] },
+                mentions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      section: { type: 'string', enum: [...MENTION_SECTIONS] },
+                      title: { type: 'string' },
+                      uri: { type: 'string', description: 'Resource URI of the full label section' },
+                      count: { type: 'integer', minimum: 1 },
+                      excerpts: { type: 'array', items: { type: 'string' } },
+                    },
+                    required: ['section', 'title', 'uri', 'count', 'excerpts'],
+                  },
+                },
+              },
+              required: ['id', 'slug', 'name', 'genericName', 'mentions'],
+            },
+          },
+        },
+        required: ['term', 'sections', 'truncated', 'drugs'],
+      },
+    };
+  }
+
+  async execute(args: { term: string; sections?: MentionSection[]; limit?: number }): Promise<McpToolResult> {
+    try {
+      const term = args.term.trim();
+      const sections = args.sections
+        ? MENTION_SECTIONS.filter((section) => args.sections.includes(section))
+        : [...MENTION_SECTIONS];
+      const limit = args.limit ?? 20;
+
+      this.logger.debug(`Finding label mentions of "${term}" in ${sections.join(', ')}`);
+
+      const drugs = await this.prisma.drug.findMany({
+        where: {
+          published: true,
+          OR: sections.map((section) => ({ [section]: { contains: term, mode: 'insensitive' } })),
+        },
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          genericName: true,
+          ...Object.fromEntries(sections.map((section) => [section, true])),
+        },
+        orderBy: { name: 'asc' },
+        take: limit + 1,
+      });
+
+      const structured = {
+        term,
+        sections,
+        truncated: drugs.length > limit,
+        drugs: drugs.slice(0, limit).map((drug) => ({
+          id: drug.id,
+          slug: drug.slug,
+          name: drug.name,
+          genericName: drug.genericName ?? null,
+          mentions: this.findMentions(drug, sections, term),
+        })),
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: this.formatMentions(structured),
+          },
+        ],
+        structuredContent: structured,
+      };
+    } catch (error) {
+      this.logger.error('Error executing label mention search:', error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error finding label mentions: ${error.message}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private formatMentions({ term, sections, truncated, drugs }: {
+    term: string;
+    sections: MentionSection[];
+    truncated: boolean;
+    drugs: Array<{ name: string; slug: string; genericName: string | null; mentions: LabelMention[] }>;
+  }): string {
+    if (drugs.length === 0) {
+      return `No published drug labels mention "${term}" in ${sections.join(', ')}.`;
+    }
+
+    const highlight = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+
+    let result = `# Labels mentioning "${term}"\n\n`;
+    result += `Found ${drugs.length}${truncated ? '+' : ''} drug${drugs.length === 1 ? '' : 's'}`;
+    result += truncated ? ' (raise `limit` to see more)' : '';
+    result += `.\n\n`;
+
+    for (const drug of drugs) {
+      result += `## ${drug.name}${drug.genericName ? ` (${drug.genericName})` : ''}\n`;
+      result += `- **Slug**: ${drug.slug}\n\n`;
+
+      for (const mention of drug.mentions) {
+        result += `### ${mention.title} — ${mention.count} mention${mention.count === 1 ? '' : 's'}\n`;
+        result += mention.excerpts.map((excerpt) => `> ${excerpt.replace(highlight, '**$&**')}\n`).join('>\n');
+        result += `\nFull section: ${mention.uri}\n\n`;
+      }
+    }
+
+    return result;
+  }
+
+  private findMentions(drug: Record<string, any>, sections: MentionSection[], term: string): LabelMention[] {
+    return sections.flatMap((section) => {
+      const { total, items } = this.findExcerpts(drug[section], term);
+      if (total === 0) return [];
+
+      const { labelKey, title } = this.describeSection(section);
+      const uri = UriTemplate.expand(DRUG_SECTION_URI_TEMPLATE, { slug: drug.slug, section: labelKey });
+      return [{ section, title, uri, count: total, excerpts: items }];
+    });
+  }
+
+  private findExcerpts(text: string | null, term: string): { total: number; items: string[] } {
+    if (!text) return { total: 0, items: [] };
+
+    const flat = text.replace(/\s+/g, ' ');
+    const haystack = flat.toLowerCase();
+    const needle = term.toLowerCase();
+    const items: string[] = [];
+    let total = 0;
+    let coveredUntil = -1;
+
+    for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+      total++;
+      // Matches inside the previous excerpt are counted but not repeated
+      if (items.length >= MAX_EXCERPTS || index < coveredUntil) continue;
+
+      const start = Math.max(0, index - EXCERPT_CONTEXT);
+      const end = Math.min(flat.length, index + needle.length + EXCERPT_CONTEXT);
+      coveredUntil = end;
+      items.push(`${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`);
+    }
+
+    return { total, items };
+  }
+
+  private describeSection(section: MentionSection): { labelKey: string; title: string } {
+    const [labelKey, { title }] = Object.entries(SECTION_FALLBACK_COLUMNS).find(([, { column }]) => column === section);
+    return { labelKey, title };
+  }
+}
@@ -0,0 +1,78 @@
+import { PassThrough } from 'stream';
+import { McpStdioTransport } from '../mcp-stdio.transport';
+import { McpService } from '../../mcp.service';
+import { McpProtocolService } from '../../services/mcp-protocol.service';
+import { McpSessionService } from '../../services/mcp-session.service';
+import { DrugEventsService } from '../../../events/drug-events.service';
+import { MCP_ERROR_CODES } from '../../interfaces/mcp-protocol.interface';
+import { STDIO_MCP_CLIENT } from '../../interfaces/mcp-auth.interface';
+
+describe('McpStdioTransport', () => {
+  let mcpService: { handleMessage: jest.Mock };
+  let transport: McpStdioTransport;
+  let drugEvents: DrugEventsService;
+
+  // Feeds the lines to the transport and returns every line it wrote back
+  const exchange = async (lines: string[], whileOpen?: () => void) => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const written: string[] = [];
+    output.on('data', (chunk) => written.push(chunk.toString()));
+
+    const listening = transport.listen(input, output);
+    input.write(lines.map((line) => `${line}\n`).join(''));
+    await new Promise((resolve) => setImmediate(resolve));
+    whileOpen?.();
+    input.end();
+    await listening;
+
+    return written.join('').split('\n').filter(Boolean).map((line) => JSON.parse(line));
+  };
+
+  beforeEach(() => {
+    mcpService = {
+      handleMessage: jest.fn(async (message) =>
+        message.id === undefined ? null : { jsonrpc: '2.0', id: message.id, result: {} },
+      ),
+    };
+    drugEvents = new DrugEventsService();
+    const sessionService = new McpSessionService(drugEvents);
+    sessionService.onModuleInit();
+    transport = new McpStdioTransport(mcpService as unknown as McpService, new McpProtocolService(), sessionService);
+  });
+
+  it('should write one response line per request and none for notifications', async () => {
+    const responses = await exchange([
+      '{"jsonrpc":"2.0","id":1,"method":"initialize"}',
+      '',
+      '{"jsonrpc":"2.0","method":"notifications/initialized"}',
+      '{"jsonrpc":"2.0","id":2,"method":"tools/list"}',
+    ]);
+
+    expect(mcpService.handleMessage).toHaveBeenCalledTimes(3);
+    expect(responses.map((response) => response.id).sort()).toEqual([1, 2]);
+  });
+
+  it('should answer unparseable lines with a parse error and keep reading', async () => {
+    const responses = await exchange(['{"jsonrpc":', '{"jsonrpc":"2.0","id":3,"method":"ping"}']);
+
+    expect(responses).toEqual(
+      expect.arrayContaining([
+        { jsonrpc: '2.0', id: null, error: expect.objectContaining({ code: MCP_ERROR_CODES.PARSE_ERROR }) },
+        { jsonrpc: '2.0', id: 3, result: {} },
+      ]),
+    );
+  });
+
+  it('should pass the stdio client and its session along and write server notifications while open', async () => {
+    const responses = await exchange(['{"jsonrpc":"2.0","id":4,"method":"resources/subscribe"}'], () =>
+      drugEvents.emit('created', { id: 'd1', slug: 'taltz', published: true }),
+    );
+
+    expect(mcpService.handleMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 4 }),
+      { client: STDIO_MCP_CLIENT, session: expect.objectContaining({ id: expect.any(String) }) },
+    );
+    expect(responses).toContainEqual({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+  });
+});
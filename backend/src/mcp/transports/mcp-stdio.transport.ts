@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { McpService } from '../mcp.service';
+import { McpProtocolService } from '../services/mcp-protocol.service';
+import { McpSession, McpSessionService } from '../services/mcp-session.service';
+import { McpNotification, McpResponse, MCP_ERROR_CODES } from '../interfaces/mcp-protocol.interface';
+import { STDIO_MCP_CLIENT } from '../interfaces/mcp-auth.interface';
+
+/**
+ * MCP over stdio: one JSON-RPC message or batch per line on the input, one
+ * response line per message on the output. The output carries nothing else,
+ * so logs must go to stderr. The connection is one session, so server
+ * notifications are written to the output as they happen. Whoever can start
+ * the process already has the database, so it runs as the all-scopes stdio
+ * client without an API key.
+ */
+@Injectable()
+export class McpStdioTransport {
+  private readonly logger = new Logger(McpStdioTransport.name);
+
+  constructor(
+    private mcpService: McpService,
+    private protocolService: McpProtocolService,
+    private sessionService: McpSessionService,
+  ) {}
+
+  /**
+   * Serves messages until the input closes, then waits for requests still in
+   * flight. Lines are handled concurrently, so responses may come back out of
+   * order; clients match them by id.
+   */
+  async listen(input: Readable = process.stdin, output: Writable = process.stdout): Promise<void> {
+    const pending = new Set<Promise<void>>();
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    const session = this.sessionService.createSession();
+    const notifications = this.sessionService
+      .stream(session)
+      .subscribe((notification) => this.send(output, notification));
+
+    this.logger.log('MCP stdio transport listening');
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+
+        const task = this.handleLine(line, output, session).finally(() => pending.delete(task));
+        pending.add(task);
+      }
+
+      await Promise.all(pending);
+    } finally {
+      notifications.unsubscribe();
+      this.sessionService.closeSession(session.id);
+    }
+
+    this.logger.log('MCP stdio input closed');
+  }
+
+  private async handleLine(line: string, output: Writable, session: McpSession): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.send(
+        output,
+        this.protocolService.createErrorResponse(null, MCP_ERROR_CODES.PARSE_ERROR, 'Parse error'),
+      );
+      return;
+    }
+
+    try {
+      const response = await this.mcpService.handleMessage(message, { client: STDIO_MCP_CLIENT, session });
+      if (response !== null) {
+        this.send(output, response);
+      }
+    } catch (error) {
+      this.logger.error(`Unhandled MCP stdio error: ${error.message}`, error.stack);
+      if (!Array.isArray(message) && message?.id !== undefined) {
+        this.send(output, this.protocolService.handleProtocolError(error, message.id));
+      }
+    }
+  }
+
+  private send(output: Writable, message: McpResponse | McpResponse[] | McpNotification): void {
+    output.write(`${JSON.stringify(message)}\n`);
+  }
+}
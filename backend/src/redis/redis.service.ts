@@ -93,6 +93,19 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  async incr(key: string): Promise<number> {
+    if (!this.client || !this.isConnected) {
+      this.logger.warn('Redis not available for incr operation')
+      return 0
+    }
+    try {
+      return await this.client.incr(key)
+    } catch (error) {
+      this.logger.warn('Redis incr failed:', error.message)
+      return 0
+    }
+  }
+
   async exists(key: string): Promise<number> {
     if (!this.client || !this.isConnected) {
       this.logger.warn('Redis not available for exists operation')
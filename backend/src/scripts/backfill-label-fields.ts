@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { SplSectionParser } from '../common/utils/spl-section-parser.util'
+import { DosageFormExtractor } from '../common/utils/dosage-form-extractor.util'
+import { BoxedWarningDetector } from '../common/utils/boxed-warning-detector.util'
+import { LabelFacetExtractor } from '../common/utils/label-facet-extractor.util'
+
+const prisma = new PrismaClient()
+
+// Usage: ts-node src/scripts/backfill-label-fields.ts [--dry-run]
+// Re-derives the fields extracted from label text (route, routes, dosage forms,
+// strengths, the boxed warning, product type and pediatric use) for every
+// stored drug, falling back to the stored text for drugs without a Labels.json
+// label. Values set by demo seeds are kept when nothing is found.
+
+async function backfillLabelFields(dryRun: boolean) {
+  console.log(`💊 Backfilling label-derived fields${dryRun ? ' (dry run)' : ''}...`)
+
+  const drugs = await prisma.drug.findMany({
+    select: {
+      id: true,
+      name: true,
+      route: true,
+      productType: true,
+      fdaLabelData: true,
+      dosageInfo: true,
+      boxedWarning: true,
+      useInSpecificPopulations: true,
+    },
+    orderBy: { name: 'asc' },
+  })
+
+  let updated = 0
+
+  for (const drug of drugs) {
+    const label = SplSectionParser.resolveLabel(drug.fdaLabelData)
+    const extraction = label
+      ? DosageFormExtractor.fromLabel(label)
+      : DosageFormExtractor.extract({ administration: drug.dosageInfo })
+
+    const route = extraction.route ?? drug.route
+    const routes = extraction.routes.length > 0 ? extraction.routes : route ? [route] : []
+    const forms = extraction.dosageForms.join(', ') || 'no forms'
+    const boxedWarning = label ? BoxedWarningDetector.detect(label) : BoxedWarningDetector.fromText(drug.boxedWarning)
+    const pediatricUse =
+      LabelFacetExtractor.pediatricUse(label) ?? LabelFacetExtractor.pediatricUseFromText(drug.useInSpecificPopulations)
+    const hasPediatricUse = LabelFacetExtractor.isPediatricUseEstablished(pediatricUse)
+    const labelData = drug.fdaLabelData as { product_type?: unknown; openfda?: { product_type?: unknown } } | null
+    const productType =
+      LabelFacetExtractor.productType(label?.productType ?? labelData?.product_type ?? labelData?.openfda?.product_type) ??
+      drug.productType
+
+    console.log(`   ${drug.name}: ${routes.join(', ') || 'no route'} / ${forms}${boxedWarning ? ' / boxed warning' : ''}${hasPediatricUse ? ' / pediatric use' : ''}`)
+
+    if (!dryRun) {
+      await prisma.drug.update({
+        where: { id: drug.id },
+        data: {
+          route,
+          routes,
+          dosageForms: extraction.dosageForms,
+          strengths: extraction.strengths as unknown as Prisma.InputJsonValue,
+          boxedWarning: boxedWarning?.body ?? null,
+          boxedWarningTitle: boxedWarning?.title ?? null,
+          hasBoxedWarning: !!boxedWarning,
+          productType,
+          pediatricUse,
+          hasPediatricUse,
+        },
+      })
+    }
+
+    updated++
+  }
+
+  console.log(`\n✅ ${dryRun ? 'Checked' : 'Updated'} ${updated} drugs`)
+}
+
+// Run if called directly
+if (require.main === module) {
+  backfillLabelFields(process.argv.includes('--dry-run'))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error)
+      process.exitCode = 1
+    })
+    .finally(() => prisma.$disconnect())
+}
+
+export { backfillLabelFields }
@@ -1,20 +1,20 @@
 #!/usr/bin/env node
 
-import { PrismaClient } from '@prisma/client'
+import { Prisma } from '@prisma/client'
 import { readFileSync } from 'fs'
 import { join } from 'path'
+import { PrismaService } from '../prisma/prisma.service'
+import { LabelSectionsService } from '../drugs/services/label-sections.service'
+import { LabelVersionsService } from '../drugs/services/label-versions.service'
+import { SplSectionParser } from '../common/utils/spl-section-parser.util'
+import { DosageFormExtractor } from '../common/utils/dosage-form-extractor.util'
+import { BoxedWarningDetector } from '../common/utils/boxed-warning-detector.util'
+import { LabelFacetExtractor } from '../common/utils/label-facet-extractor.util'
 
-const prisma = new PrismaClient()
-
-// Extract text content from HTML
-function extractTextFromHtml(html: string): string {
-  if (!html) return ''
-  // Remove HTML tags and clean up text
-  return html
-    .replace(/<[^>]*>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
-}
+const prisma = new PrismaService()
+// Sections and versions are stored exactly as the API stores them
+const labelSections = new LabelSectionsService(prisma)
+const labelVersions = new LabelVersionsService(prisma)
 
 // Create URL-friendly slug
 function createSlug(name: string): string {
@@ -27,6 +27,10 @@ function createSlug(name: string): string {
 // Extract key data from FDA label
 function processFDALabel(drugData: any) {
   const label = drugData.label || {}
+  const sections = SplSectionParser.extractTextFields(label)
+  const { route, routes, dosageForms, strengths } = DosageFormExtractor.fromLabel(label)
+  const boxedWarning = BoxedWarningDetector.detect(label)
+  const pediatricUse = LabelFacetExtractor.pediatricUse(label)
   
   return {
     name: drugData.drugName || 'Unknown Drug',
@@ -34,16 +38,23 @@ function processFDALabel(drugData: any) {
     brandNames: drugData.drugName ? [drugData.drugName] : [],
     slug: drugData.slug || createSlug(drugData.drugName || 'unknown'),
     fdaLabelData: drugData,
+    setId: drugData.setId || null,
+    effectiveTime: SplSectionParser.parseEffectiveTime(label.effectiveTime),
     fdaGenericName: label.genericName || null,
     fdaBrandName: drugData.drugName || null,
     manufacturer: drugData.labeler || label.labelerName || null,
-    route: null, // This would need to be extracted from dosage info
-    indications: extractTextFromHtml(label.indicationsAndUsage || ''),
-    contraindications: null, // Would need to be extracted from other sections
-    warnings: extractTextFromHtml(label.warningsAndPrecautions || ''),
-    boxedWarning: null, // Would need to be extracted from warnings
-    dosageInfo: extractTextFromHtml(label.dosageAndAdministration || ''),
-    adverseReactions: extractTextFromHtml(label.adverseReactions || ''),
+    productType: LabelFacetExtractor.productType(label.productType),
+    route,
+    routes,
+    dosageForms,
+    strengths: strengths as unknown as Prisma.InputJsonValue,
+    ...sections,
+    boxedWarning: boxedWarning?.body ?? null,
+    boxedWarningTitle: boxedWarning?.title ?? null,
+    hasBoxedWarning: !!boxedWarning,
+    pediatricUse,
+    hasPediatricUse: LabelFacetExtractor.isPediatricUseEstablished(pediatricUse),
+    highlights: SplSectionParser.extractHighlights(label) ?? undefined,
     published: true
   }
 }
@@ -78,6 +89,12 @@ async function seedFDAData() {
         })
         
         console.log(`✅ Created drug: ${drug.name} (${drug.id})`)
+
+        const sectionCount = await labelSections.replaceForDrug(drug.id, drugData.label)
+        console.log(`📑 Stored ${sectionCount} label sections for ${drug.name}`)
+
+        // Record the seeded label as version 1 of its history
+        await labelVersions.recordVersion(drug.id, drugData)
         
         // Create sample FAQs for each drug
         const sampleFAQs = [
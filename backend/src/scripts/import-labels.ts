@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+
+import { NestFactory } from '@nestjs/core'
+import { readFileSync } from 'fs'
+import { AppModule } from '../app.module'
+import { LabelImportService } from '../drugs/services/label-import.service'
+
+// Usage: ts-node src/scripts/import-labels.ts [file|-] [--dry-run] [--json]
+// Reads a Labels.json array or NDJSON (one record per line) from the file, or
+// from stdin when the file is "-" or omitted, and upserts drugs by setId.
+
+function parseArgs(argv: string[]) {
+  const flags = new Set(argv.filter((arg) => arg.startsWith('--')))
+  const [file] = argv.filter((arg) => !arg.startsWith('--'))
+
+  return {
+    file: file && file !== '-' ? file : null,
+    dryRun: flags.has('--dry-run'),
+    json: flags.has('--json'),
+  }
+}
+
+function readInput(file: string | null): string {
+  return readFileSync(file ?? 0, 'utf8')
+}
+
+async function main() {
+  const { file, dryRun, json } = parseArgs(process.argv.slice(2))
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] })
+
+  try {
+    const importService = app.get(LabelImportService)
+    const records = importService.parseRecords(readInput(file))
+
+    // Keep stdout pure JSON with --json; progress goes to stderr there
+    const log = json ? console.error : console.log
+    log(`📥 Importing ${records.length} label records from ${file ?? 'stdin'}${dryRun ? ' (dry run)' : ''}`)
+
+    const report = await importService.importLabels(records, { dryRun })
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2))
+    } else {
+      for (const result of report.results) {
+        const target = result.drugName ?? `record ${result.index}`
+        const detail = result.error ? ` - ${result.error}` : ''
+        console.log(`   ${result.status.padEnd(7)} ${target} (${result.setId ?? 'no setId'})${detail}`)
+      }
+
+      const { summary } = report
+      console.log(
+        `\n📊 ${summary.total} records: ${summary.created} created, ${summary.updated} updated, ` +
+          `${summary.skipped} skipped, ${summary.failed} failed`,
+      )
+    }
+
+    process.exitCode = report.summary.failed > 0 ? 1 : 0
+  } catch (error) {
+    console.error('❌ Label import failed:', error.message)
+    process.exitCode = 1
+  } finally {
+    await app.close()
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main()
+}
@@ -0,0 +1,91 @@
+#!/usr/bin/env ts-node
+
+import { NestFactory } from '@nestjs/core'
+import { AppModule } from '../app.module'
+import { McpClientService } from '../mcp/services/mcp-client.service'
+import { ALL_MCP_SCOPES, isMcpScope, MCP_SCOPES, McpScope } from '../mcp/interfaces/mcp-auth.interface'
+
+// Usage:
+//   ts-node src/scripts/mcp-clients.ts create <name> [--scopes=mcp:read,mcp:fda-raw] [--rate-limit=60]
+//   ts-node src/scripts/mcp-clients.ts list
+//   ts-node src/scripts/mcp-clients.ts revoke <name>
+// Manages the API keys MCP clients authenticate with. A new key is printed
+// once; only its hash is stored.
+
+function parseArgs(argv: string[]) {
+  const options = new Map(
+    argv
+      .filter((arg) => arg.startsWith('--'))
+      .map((arg) => {
+        const [key, value = ''] = arg.slice(2).split('=')
+        return [key, value] as const
+      }),
+  )
+  const [command, name] = argv.filter((arg) => !arg.startsWith('--'))
+
+  return {
+    command,
+    name,
+    scopes: (options.get('scopes') ?? MCP_SCOPES.READ).split(',').map((scope) => scope.trim()),
+    rateLimit: options.has('rate-limit') ? Number(options.get('rate-limit')) : undefined,
+  }
+}
+
+function validateScopes(scopes: string[]): McpScope[] {
+  const unknown = scopes.filter((scope) => !isMcpScope(scope))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scopes: ${unknown.join(', ')} (expected ${ALL_MCP_SCOPES.join(', ')})`)
+  }
+  return scopes as McpScope[]
+}
+
+async function main() {
+  const { command, name, scopes, rateLimit } = parseArgs(process.argv.slice(2))
+
+  if (!['create', 'list', 'revoke'].includes(command) || (command !== 'list' && !name)) {
+    console.error('Usage: mcp-clients.ts create <name> [--scopes=...] [--rate-limit=N] | list | revoke <name>')
+    process.exitCode = 1
+    return
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] })
+
+  try {
+    const clientService = app.get(McpClientService)
+
+    if (command === 'create') {
+      if (rateLimit !== undefined && !(Number.isInteger(rateLimit) && rateLimit > 0)) {
+        throw new Error('--rate-limit must be a positive number of requests per minute')
+      }
+
+      const { client, apiKey } = await clientService.createClient(name, validateScopes(scopes), rateLimit)
+      console.log(`🔑 Created MCP client ${client.name} (${client.scopes.join(', ')})`)
+      console.log(`   API key: ${apiKey}`)
+      console.log('   Store it now; it cannot be shown again.')
+    } else if (command === 'list') {
+      const clients = await clientService.listClients()
+      for (const client of clients) {
+        const status = client.revokedAt ? `revoked ${client.revokedAt.toISOString()}` : 'active'
+        const lastUsed = client.lastUsedAt ? client.lastUsedAt.toISOString() : 'never'
+        console.log(
+          `   ${client.name.padEnd(24)} ${client.keyPrefix}…  ${client.scopes.join(',')}  ` +
+            `${client.rateLimit ?? 'default'}/min  last used ${lastUsed}  ${status}`,
+        )
+      }
+      console.log(`\n📊 ${clients.length} MCP clients`)
+    } else {
+      await clientService.revokeClient(name)
+      console.log(`🚫 Revoked MCP client ${name}`)
+    }
+  } catch (error) {
+    console.error('❌ MCP client command failed:', error.message)
+    process.exitCode = 1
+  } finally {
+    await app.close()
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main()
+}
@@ -6,6 +6,7 @@ import { AppModule } from '../app.module'
 import { PrismaService } from '../prisma/prisma.service'
 import { DrugsService } from '../drugs/drugs.service'
 import { AiServiceService } from '../ai-service/ai-service.service'
+import { LabelFacetExtractor } from '../common/utils/label-facet-extractor.util'
 import * as fs from 'fs'
 import * as path from 'path'
 
@@ -147,6 +148,7 @@ class DataSeeder {
       fdaBrandName: this.getFirstValue(fdaResult.brand_name),
       brandNames: fdaResult.brand_name?.slice(1) || [],
       manufacturer: this.getFirstValue(fdaResult.manufacturer_name),
+      productType: LabelFacetExtractor.productType(fdaResult.product_type),
       route: this.getFirstValue(fdaResult.route)?.toLowerCase(),
       indications: this.getFirstValue(fdaResult.indications_and_usage),
       contraindications: this.getFirstValue(fdaResult.contraindications),
@@ -154,6 +156,8 @@ class DataSeeder {
       boxedWarning: this.getFirstValue(fdaResult.boxed_warning),
       dosageInfo: this.getFirstValue(fdaResult.dosage_and_administration),
       adverseReactions: this.getFirstValue(fdaResult.adverse_reactions),
+      pediatricUse: this.getFirstValue(fdaResult.pediatric_use),
+      hasPediatricUse: LabelFacetExtractor.isPediatricUseEstablished(this.getFirstValue(fdaResult.pediatric_use)),
       fdaLabelData: fdaResult,
       published: true,
       slug: this.generateSlug(drugName),
@@ -0,0 +1,82 @@
+#!/usr/bin/env ts-node
+
+import { NestFactory } from '@nestjs/core'
+import { UserRole } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { AppModule } from '../app.module'
+import { UsersService } from '../users/users.service'
+
+// Usage:
+//   ts-node src/scripts/users.ts create <email> [--role=admin] [--name="Jane Doe"]
+//   ts-node src/scripts/users.ts list
+// Creates the first admin, who can then manage users through /users. The
+// password is read from USER_PASSWORD, or generated and printed once.
+
+function parseArgs(argv: string[]) {
+  const options = new Map(
+    argv
+      .filter((arg) => arg.startsWith('--'))
+      .map((arg) => {
+        const [key, ...value] = arg.slice(2).split('=')
+        return [key, value.join('=')] as const
+      }),
+  )
+  const [command, email] = argv.filter((arg) => !arg.startsWith('--'))
+
+  return {
+    command,
+    email,
+    name: options.get('name'),
+    role: (options.get('role') ?? 'viewer').toUpperCase().replace(/[\s-]/g, '_'),
+  }
+}
+
+async function main() {
+  const { command, email, name, role } = parseArgs(process.argv.slice(2))
+
+  if (!['create', 'list'].includes(command) || (command === 'create' && !email)) {
+    console.error('Usage: users.ts create <email> [--role=viewer|editor|medical-reviewer|admin] [--name=...] | list')
+    process.exitCode = 1
+    return
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn'] })
+
+  try {
+    const usersService = app.get(UsersService)
+
+    if (command === 'create') {
+      if (!(role in UserRole)) {
+        throw new Error(`Unknown role ${role}; expected one of ${Object.keys(UserRole).join(', ')}`)
+      }
+
+      const generated = !process.env.USER_PASSWORD
+      const password = process.env.USER_PASSWORD || randomBytes(18).toString('base64url')
+      const user = await usersService.create({ email, name, password, role: role as UserRole })
+
+      console.log(`👤 Created ${user.role} ${user.email}`)
+      if (generated) {
+        console.log(`   Password: ${password}`)
+        console.log('   Store it now; it cannot be shown again.')
+      }
+    } else {
+      const users = await usersService.findAll()
+      for (const user of users) {
+        const lastLogin = user.lastLoginAt ? user.lastLoginAt.toISOString() : 'never'
+        const status = user.disabledAt ? 'disabled' : 'active'
+        console.log(`   ${user.email.padEnd(32)} ${user.role.padEnd(16)} last sign-in ${lastLogin}  ${status}`)
+      }
+      console.log(`\n📊 ${users.length} users`)
+    }
+  } catch (error) {
+    console.error('❌ User command failed:', error.message)
+    process.exitCode = 1
+  } finally {
+    await app.close()
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main()
+}
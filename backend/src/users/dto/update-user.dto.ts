@@ -0,0 +1,10 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+export class UpdateUserDto extends PartialType(OmitType(CreateUserDto, ['email'] as const)) {
+  @ApiPropertyOptional({ description: 'Disable to end the user\'s sessions and block sign-in' })
+  @IsBoolean()
+  @IsOptional()
+  disabled?: boolean;
+}
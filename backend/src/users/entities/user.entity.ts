@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+
+/** A user as the API returns it; the password hash never leaves the service. */
+export class User {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  email: string;
+
+  @ApiPropertyOptional({ nullable: true })
+  name: string | null;
+
+  @ApiProperty({ enum: UserRole })
+  role: UserRole;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  lastLoginAt: Date | null;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Set when the user can no longer sign in' })
+  disabledAt: Date | null;
+}
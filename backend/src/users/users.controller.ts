@@ -0,0 +1,40 @@
+import { Body, Controller, Get, Param, Patch, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { UsersService } from './users.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { User } from './entities/user.entity';
+import { Auth } from '../auth/decorators/auth.decorator';
+
+@ApiTags('users')
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Post()
+  @Auth(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a user with a role' })
+  @ApiResponse({ status: 201, description: 'User created', type: User })
+  @ApiResponse({ status: 409, description: 'Email already in use' })
+  create(@Body() createUserDto: CreateUserDto) {
+    return this.usersService.create(createUserDto);
+  }
+
+  @Get()
+  @Auth(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List users' })
+  @ApiResponse({ status: 200, description: 'Users retrieved', type: [User] })
+  findAll() {
+    return this.usersService.findAll();
+  }
+
+  @Patch(':id')
+  @Auth(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Change a user\'s name, role or password, or disable them' })
+  @ApiResponse({ status: 200, description: 'User updated', type: User })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
+    return this.usersService.update(id, updateUserDto);
+  }
+}
@@ -0,0 +1,102 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PasswordHasher } from '../auth/utils/password.util';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { User } from './entities/user.entity';
+
+/** Every column but the password hash. */
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLoginAt: true,
+  disabledAt: true,
+} satisfies Prisma.UserSelect;
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async create(createUserDto: CreateUserDto): Promise<User> {
+    const email = this.normalizeEmail(createUserDto.email);
+
+    const existing = await this.prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new ConflictException(`User ${email} already exists`);
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email,
+        name: createUserDto.name,
+        role: createUserDto.role,
+        passwordHash: await PasswordHasher.hash(createUserDto.password),
+      },
+      select: USER_SELECT,
+    });
+
+    this.logger.log(`Created user ${email} with role ${user.role}`);
+    return user;
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.prisma.user.findMany({ select: USER_SELECT, orderBy: { createdAt: 'asc' } });
+  }
+
+  async findOne(id: string): Promise<User> {
+    const user = await this.prisma.user.findUnique({ where: { id }, select: USER_SELECT });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  /** The user behind a session, or null once they are deleted or disabled. */
+  async findActive(id: string): Promise<User | null> {
+    const user = await this.prisma.user.findUnique({ where: { id }, select: USER_SELECT });
+    return user && !user.disabledAt ? user : null;
+  }
+
+  /** Checks a sign-in; unknown emails, wrong passwords and disabled users all fail alike. */
+  async verifyCredentials(email: string, password: string): Promise<User | null> {
+    const user = await this.prisma.user.findUnique({ where: { email: this.normalizeEmail(email) } });
+    if (!user || user.disabledAt || !(await PasswordHasher.verify(password, user.passwordHash))) {
+      return null;
+    }
+
+    return this.prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+      select: USER_SELECT,
+    });
+  }
+
+  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
+    const { password, disabled, ...fields } = updateUserDto;
+    await this.findOne(id);
+
+    const user = await this.prisma.user.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(password ? { passwordHash: await PasswordHasher.hash(password) } : {}),
+        ...(disabled !== undefined ? { disabledAt: disabled ? new Date() : null } : {}),
+      },
+      select: USER_SELECT,
+    });
+
+    this.logger.log(`Updated user ${user.email}`);
+    return user;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -1,9 +1,9 @@
 import { Metadata } from 'next'
 import Link from 'next/link'
 import { drugAPI } from '@/lib/api'
-import { Drug } from '@/types/drug'
+import { Drug, DrugPage, DrugSortField } from '@/types/drug'
 import { formatDate } from '@/lib/utils'
-import { Pill, Calendar, Factory } from 'lucide-react'
+import { Pill, Calendar, Factory, ChevronRight } from 'lucide-react'
 
 export const metadata: Metadata = {
   title: 'Browse All Drugs - Drug Information Platform',
@@ -14,12 +14,50 @@ export const metadata: Metadata = {
   },
 }
 
-export default async function DrugsPage() {
-  let drugs: Drug[] = []
+const PAGE_SIZE = 24
+
+const SORT_OPTIONS: Array<{ value: DrugSortField; label: string }> = [
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'updatedAt', label: 'Recently updated' },
+  { value: 'effectiveTime', label: 'Newest label' },
+]
+
+// Only the columns the cards render; the full label data stays on the detail page
+const CARD_FIELDS: Array<keyof Drug> = [
+  'slug',
+  'name',
+  'genericName',
+  'manufacturer',
+  'brandNames',
+  'aiEnhancedDescription',
+  'updatedAt',
+  'hasBoxedWarning',
+  'faqs',
+]
+
+interface DrugsPageProps {
+  searchParams: Promise<{
+    sort?: string
+    cursor?: string
+  }>
+}
+
+const pageHref = (sort: DrugSortField, cursor?: string) => {
+  const params = new URLSearchParams()
+  if (sort !== 'name') params.set('sort', sort)
+  if (cursor) params.set('cursor', cursor)
+  return params.toString() ? `/drugs?${params.toString()}` : '/drugs'
+}
+
+export default async function DrugsPage({ searchParams }: DrugsPageProps) {
+  const { sort: requestedSort, cursor } = await searchParams
+  const sort = SORT_OPTIONS.find(option => option.value === requestedSort)?.value ?? 'name'
+
+  let page: DrugPage | null = null
   let error: string | null = null
 
   try {
-    drugs = await drugAPI.getDrugs({ published: true })
+    page = await drugAPI.getDrugs({ published: true, limit: PAGE_SIZE, sort, cursor, fields: CARD_FIELDS })
   } catch (err) {
     console.error('Error fetching drugs:', err)
     error = 'Failed to load drug information. Please try again later.'
@@ -55,7 +93,7 @@ export default async function DrugsPage() {
                 <div className="flex items-center justify-between">
                   <div>
                     <p className="text-sm font-medium text-secondary-600">Total Medications</p>
-                    <p className="text-2xl font-bold text-secondary-900">{drugs.length}</p>
+                    <p className="text-2xl font-bold text-secondary-900">{page?.total ?? 0}</p>
                   </div>
                   <div className="text-right">
                     <p className="text-sm text-secondary-500">
@@ -66,8 +104,23 @@ export default async function DrugsPage() {
               </div>
             </div>
 
+            {/* Sort */}
+            <nav aria-label="Sort drugs" className="flex flex-wrap items-center gap-2 mb-6">
+              <span className="text-sm text-secondary-600">Sort by:</span>
+              {SORT_OPTIONS.map(option => (
+                <Link
+                  key={option.value}
+                  href={pageHref(option.value)}
+                  aria-current={option.value === sort ? 'page' : undefined}
+                  className={option.value === sort ? 'badge-primary text-sm' : 'badge-secondary text-sm hover:bg-secondary-200'}
+                >
+                  {option.label}
+                </Link>
+              ))}
+            </nav>
+
             {/* Drug Grid */}
-            {drugs.length === 0 ? (
+            {!page || page.drugs.length === 0 ? (
               <div className="text-center py-12">
                 <div className="bg-white rounded-lg shadow-sm border border-secondary-200 p-12">
                   <Pill className="w-12 h-12 text-secondary-400 mx-auto mb-4" />
@@ -81,7 +134,7 @@ export default async function DrugsPage() {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {drugs.map((drug) => (
+                {page.drugs.map((drug) => (
                   <Link key={drug.id} href={`/drugs/${drug.slug}`}>
                     <div className="card hover:shadow-lg transition-shadow duration-200 cursor-pointer h-full">
                       <div className="card-body flex flex-col h-full">
@@ -139,7 +192,7 @@ export default async function DrugsPage() {
                           </div>
                           
                           <div className="flex gap-2">
-                            {drug.boxedWarning && (
+                            {drug.hasBoxedWarning && (
                               <span className="badge-danger text-xs">
                                 Boxed Warning
                               </span>
@@ -157,6 +210,25 @@ export default async function DrugsPage() {
                 ))}
               </div>
             )}
+
+            {/* Pagination */}
+            {page && (cursor || page.nextCursor) && (
+              <nav aria-label="Pagination" className="flex items-center justify-between mt-8">
+                {cursor ? (
+                  <Link href={pageHref(sort)} className="btn-outline">
+                    First page
+                  </Link>
+                ) : (
+                  <span />
+                )}
+                {page.nextCursor && (
+                  <Link href={pageHref(sort, page.nextCursor)} className="btn-outline inline-flex items-center gap-1">
+                    Next page
+                    <ChevronRight className="w-4 h-4" />
+                  </Link>
+                )}
+              </nav>
+            )}
           </>
         )}
 
@@ -1,23 +1,22 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Stethoscope, BookOpen, Pill, Brain, Loader2 } from 'lucide-react'
+import { aiAPI } from '@/lib/api'
+import { ProviderExplanation } from '@/types/ai'
 
-interface ProviderExplanation {
-  explanation: string
-  keyPoints: string[]
-  clinicalContext: string
-  practiceConsiderations: string[]
-  relatedInformation?: string[]
-}
+// Sections arrive one by one while the explanation streams in
+type PartialExplanation = Partial<ProviderExplanation>
+
+const textField = (value: unknown) => (typeof value === 'string' ? value : undefined)
+const listField = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined
 
 export default function ProviderExplanationsPage() {
-  const [explanation, setExplanation] = useState<ProviderExplanation | null>(null)
+  const [explanation, setExplanation] = useState<PartialExplanation | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
-  const [progress, setProgress] = useState(0)
-  const [progressMessage, setProgressMessage] = useState('')
-  const [backgroundMode, setBackgroundMode] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
   const [formData, setFormData] = useState({
     topic: '',
     type: 'medical_condition' as 'medical_condition' | 'drug_mechanism' | 'treatment_approach' | 'pharmacology',
@@ -26,83 +25,51 @@ export default function ProviderExplanationsPage() {
     targetAudience: 'primary_care' as 'primary_care' | 'specialist' | 'pharmacy' | 'general_healthcare'
   })
 
+  // Stop an unfinished generation when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), [])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!formData.topic.trim()) return
 
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+
     setLoading(true)
     setError('')
-    setExplanation(null)
-    setProgress(0)
-    setProgressMessage('Initializing AI generation...')
-
-    // Progress simulation for better UX during slow AI generation
-    const progressInterval = setInterval(() => {
-      setProgress(prev => {
-        const newProgress = prev + Math.random() * 10
-        if (newProgress < 85) return newProgress
-        return prev
-      })
-    }, 2000)
-
-    // Update progress messages
-    setTimeout(() => setProgressMessage('Connecting to HuggingFace AI...'), 2000)
-    
-    // Show background option after 10 seconds if still loading
-    setTimeout(() => {
-      if (loading) {
-        setProgressMessage('Loading AI model (this may take 1-2 minutes)...')
-        // Offer background mode after 15 seconds
-        setTimeout(() => {
-          if (loading && !backgroundMode) {
-            setProgressMessage('This is taking longer than usual. You can continue in background mode.')
-          }
-        }, 5000)
-      }
-    }, 8000)
-    
-    setTimeout(() => setProgressMessage('Generating professional medical content...'), 20000)
-    setTimeout(() => setProgressMessage('Finalizing explanation and formatting...'), 60000)
+    setExplanation({})
 
     try {
-      const response = await fetch('http://localhost:3001/ai-service/generate-provider-explanation', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      const result = await aiAPI.streamProviderExplanation(
+        {
           topic: formData.topic,
           type: formData.type,
           drugName: formData.drugName || undefined,
           indication: formData.indication || undefined,
           targetAudience: formData.targetAudience,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
+        },
+        event => {
+          if (event.type !== 'field') return
+          const value = textField(event.value) ?? listField(event.value)
+          if (value !== undefined) {
+            setExplanation(previous => ({ ...previous, [event.field]: value }))
+          }
+        },
+        controller.signal
+      )
 
-      const data = await response.json()
-      
-      // Complete progress
-      setProgress(100)
-      setProgressMessage('Complete! AI explanation generated successfully.')
-      clearInterval(progressInterval)
-      
-      setTimeout(() => {
-        setExplanation(data)
-      }, 500)
+      // The final result is validated server-side and replaces the partial sections
+      setExplanation(result)
     } catch (err: any) {
+      if (controller.signal.aborted) return
       console.error('Error:', err)
       setError(err.message || 'Failed to generate explanation')
-      clearInterval(progressInterval)
+      setExplanation(null)
     } finally {
-      setTimeout(() => {
+      if (abortRef.current === controller) {
         setLoading(false)
-        setProgress(0)
-        setProgressMessage('')
-      }, 1000)
+      }
     }
   }
 
@@ -294,62 +261,14 @@ export default function ProviderExplanationsPage() {
             </button>
           </form>
 
-          {/* Progress Indicator */}
+          {/* Streaming Status */}
           {loading && (
-            <div className="mt-4 p-6 bg-blue-50 border border-blue-200 rounded-md">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-blue-700 font-medium">AI Processing Progress</span>
-                <span className="text-blue-600 text-sm">{Math.round(progress)}%</span>
-              </div>
-              
-              {/* Progress Bar */}
-              <div className="w-full bg-blue-200 rounded-full h-2 mb-3">
-                <div 
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-500 ease-out"
-                  style={{ width: `${progress}%` }}
-                ></div>
-              </div>
-              
-              <div className="flex items-center gap-2">
-                <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
-                <p className="text-blue-700 text-sm">
-                  {progressMessage}
-                </p>
-              </div>
-              
-              {loading && progressMessage.includes('background mode') && (
-                <button
-                  onClick={() => {
-                    setBackgroundMode(true)
-                    setLoading(false)
-                    setProgressMessage('')
-                    setProgress(0)
-                  }}
-                  className="mt-3 bg-yellow-500 text-white px-4 py-2 rounded-md text-sm hover:bg-yellow-600 transition-colors"
-                >
-                  Continue in Background ⏰
-                </button>
-              )}
-              
-              <p className="text-xs text-blue-600 mt-2">
-                💡 Free AI models take 1-2 minutes due to cold start times - this proves it's real AI generation!
-              </p>
-            </div>
-          )}
-
-          {/* Background Mode Status */}
-          {backgroundMode && (
-            <div className="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
-              <div className="flex items-center gap-2 mb-2">
-                <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></div>
-                <span className="text-yellow-700 font-medium">Background Processing Active</span>
-              </div>
-              <p className="text-yellow-600 text-sm">
-                Your AI explanation for "{formData.topic}" is being generated in the background. 
-                You can continue using the application - results will appear when ready.
-              </p>
-              <p className="text-xs text-yellow-600 mt-1">
-                ⏰ Estimated completion: 30-90 seconds
+            <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-md flex items-center gap-2" role="status">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-600" />
+              <p className="text-blue-700 text-sm">
+                {explanation && Object.keys(explanation).length > 0
+                  ? 'Writing the explanation; sections appear below as they are generated...'
+                  : 'Waiting for the AI provider to start writing...'}
               </p>
             </div>
           )}
@@ -378,48 +297,56 @@ export default function ProviderExplanationsPage() {
               </h2>
             </div>
 
-            <div className="space-y-6">
+            <div className="space-y-6" aria-busy={loading}>
               {/* Main Explanation */}
-              <div>
-                <h3 className="text-lg font-semibold text-gray-800 mb-2">Clinical Overview</h3>
-                <p className="text-gray-700 leading-relaxed bg-gray-50 p-4 rounded-lg">
-                  {explanation.explanation}
-                </p>
-              </div>
+              {explanation.explanation !== undefined && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-2">Clinical Overview</h3>
+                  <p className="text-gray-700 leading-relaxed bg-gray-50 p-4 rounded-lg">
+                    {explanation.explanation}
+                  </p>
+                </div>
+              )}
 
               {/* Key Points */}
-              <div>
-                <h3 className="text-lg font-semibold text-gray-800 mb-2">Key Clinical Points</h3>
-                <ul className="space-y-2">
-                  {explanation.keyPoints.map((point, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
-                      <span className="text-gray-700">{point}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
+              {explanation.keyPoints && explanation.keyPoints.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-2">Key Clinical Points</h3>
+                  <ul className="space-y-2">
+                    {explanation.keyPoints.map((point, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
+                        <span className="text-gray-700">{point}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
               {/* Clinical Context */}
-              <div>
-                <h3 className="text-lg font-semibold text-gray-800 mb-2">Clinical Context</h3>
-                <p className="text-gray-700 leading-relaxed bg-blue-50 p-4 rounded-lg">
-                  {explanation.clinicalContext}
-                </p>
-              </div>
+              {explanation.clinicalContext !== undefined && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-2">Clinical Context</h3>
+                  <p className="text-gray-700 leading-relaxed bg-blue-50 p-4 rounded-lg">
+                    {explanation.clinicalContext}
+                  </p>
+                </div>
+              )}
 
               {/* Practice Considerations */}
-              <div>
-                <h3 className="text-lg font-semibold text-gray-800 mb-2">Practice Considerations</h3>
-                <ul className="space-y-2">
-                  {explanation.practiceConsiderations.map((consideration, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></div>
-                      <span className="text-gray-700">{consideration}</span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
+              {explanation.practiceConsiderations && explanation.practiceConsiderations.length > 0 && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800 mb-2">Practice Considerations</h3>
+                  <ul className="space-y-2">
+                    {explanation.practiceConsiderations.map((consideration, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0"></div>
+                        <span className="text-gray-700">{consideration}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
               {/* Related Information */}
               {explanation.relatedInformation && explanation.relatedInformation.length > 0 && (
@@ -8,8 +8,8 @@ export async function GET(): Promise<Response> {
   const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://druginfo.example.com'
   
   try {
-    // Get all published drugs
-    const drugs = await drugAPI.getDrugs({ published: true })
+    // Page through published drugs, fetching only what the sitemap needs
+    const drugs = await drugAPI.getAllDrugs({ published: true, fields: ['slug', 'updatedAt'] })
     
     // Generate sitemap entries
     const sitemap: MetadataRoute.Sitemap = [
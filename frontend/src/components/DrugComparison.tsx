@@ -28,6 +28,7 @@ const COMPARISON_FIELDS: ComparisonField[] = [
   { label: 'Dosage Information', key: 'dosageInfo', type: 'text', description: 'How should this medication be taken?' },
   { label: 'Contraindications', key: 'contraindications', type: 'text', description: 'When should this medication not be used?' },
   { label: 'Warnings', key: 'warnings', type: 'warning', icon: AlertTriangle, description: 'Important safety information' },
+  { label: 'Has Boxed Warning', key: 'hasBoxedWarning', type: 'boolean', icon: AlertTriangle, description: 'Does the label carry FDA\'s strongest warning?' },
   { label: 'Boxed Warning', key: 'boxedWarning', type: 'warning', icon: AlertTriangle, description: 'FDA\'s strongest warning' },
   { label: 'Adverse Reactions', key: 'adverseReactions', type: 'text', description: 'Common side effects' },
 ]
@@ -84,6 +85,20 @@ export default function DrugComparison({ drugs, onRemoveDrug }: DrugComparisonPr
 
   const renderFieldValue = (drug: Drug, field: ComparisonField) => {
     const value = drug[field.key]
+
+    if (field.type === 'boolean') {
+      return value ? (
+        <div className="flex items-center text-danger-700 text-sm font-medium">
+          <AlertTriangle className="w-4 h-4 mr-1 flex-shrink-0" />
+          <span>Yes</span>
+        </div>
+      ) : (
+        <div className="flex items-center text-success-700 text-sm">
+          <Check className="w-4 h-4 mr-1 flex-shrink-0" />
+          <span>No</span>
+        </div>
+      )
+    }
     
     if (!value) {
       return (
@@ -100,7 +115,12 @@ export default function DrugComparison({ drugs, onRemoveDrug }: DrugComparisonPr
           <div className={`p-3 rounded-lg text-sm ${field.key === 'boxedWarning' ? 'bg-danger-50 border border-danger-200 text-danger-800' : 'bg-warning-50 border border-warning-200 text-warning-800'}`}>
             <div className="flex items-start gap-2">
               {field.icon && <field.icon className="w-4 h-4 mt-0.5 flex-shrink-0" />}
-              <span>{value as string}</span>
+              <span>
+                {field.key === 'boxedWarning' && drug.boxedWarningTitle && (
+                  <span className="block font-semibold mb-1">{drug.boxedWarningTitle}</span>
+                )}
+                {value as string}
+              </span>
             </div>
           </div>
         )
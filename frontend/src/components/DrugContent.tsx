@@ -11,6 +11,30 @@ interface DrugContentProps {
 
 const LazyFAQSection = lazy(() => import('./sections/FAQSection'))
 
+type AdditionalLabelSectionKey =
+  | 'drugInteractions'
+  | 'useInSpecificPopulations'
+  | 'description'
+  | 'clinicalPharmacology'
+  | 'mechanismOfAction'
+  | 'nonclinicalToxicology'
+  | 'clinicalStudies'
+  | 'howSupplied'
+  | 'instructionsForUse'
+
+// Remaining prescribing information sections, in label order
+const additionalLabelSections: Array<{ key: AdditionalLabelSectionKey; id: string; title: string }> = [
+  { key: 'drugInteractions', id: 'drug-interactions', title: 'Drug Interactions' },
+  { key: 'useInSpecificPopulations', id: 'specific-populations', title: 'Use in Specific Populations' },
+  { key: 'description', id: 'description', title: 'Description' },
+  { key: 'clinicalPharmacology', id: 'clinical-pharmacology', title: 'Clinical Pharmacology' },
+  { key: 'mechanismOfAction', id: 'mechanism-of-action', title: 'Mechanism of Action' },
+  { key: 'nonclinicalToxicology', id: 'nonclinical-toxicology', title: 'Nonclinical Toxicology' },
+  { key: 'clinicalStudies', id: 'clinical-studies', title: 'Clinical Studies' },
+  { key: 'howSupplied', id: 'how-supplied', title: 'How Supplied, Storage and Handling' },
+  { key: 'instructionsForUse', id: 'instructions-for-use', title: 'Instructions for Use' },
+]
+
 export default function DrugContent({ drug }: DrugContentProps) {
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -116,6 +140,25 @@ export default function DrugContent({ drug }: DrugContentProps) {
             </div>
           </section>
         )}
+
+        {additionalLabelSections.map(({ key, id, title }) =>
+          drug[key] ? (
+            <section key={key} aria-labelledby={`${id}-heading`}>
+              <div className="card">
+                <div className="card-header">
+                  <h2 id={`${id}-heading`} className="text-xl font-semibold text-secondary-900">
+                    {title}
+                  </h2>
+                </div>
+                <div className="card-body">
+                  <div className="prose max-w-none">
+                    <p className="text-secondary-700">{drug[key]}</p>
+                  </div>
+                </div>
+              </div>
+            </section>
+          ) : null
+        )}
       </div>
 
       {/* Sidebar */}
@@ -164,7 +207,25 @@ export default function DrugContent({ drug }: DrugContentProps) {
                   <div>
                     <dt className="text-sm font-medium text-secondary-700">Route:</dt>
                     <dd className="text-sm text-secondary-900" itemProp="administrationRoute">
-                      {drug.route}
+                      {drug.routes && drug.routes.length > 1 ? drug.routes.join(', ') : drug.route}
+                    </dd>
+                  </div>
+                )}
+
+                {drug.strengths && drug.strengths.length > 0 && (
+                  <div>
+                    <dt className="text-sm font-medium text-secondary-700">Dosage Forms:</dt>
+                    <dd className="text-sm text-secondary-900">
+                      <ul className="space-y-1">
+                        {drug.strengths.map((item) => (
+                          <li key={`${item.form}-${item.strength}-${item.presentation}`}>
+                            <span className="capitalize">{item.form}</span> {item.strength}
+                            {item.presentation && (
+                              <span className="text-secondary-600"> ({item.presentation})</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
                     </dd>
                   </div>
                 )}
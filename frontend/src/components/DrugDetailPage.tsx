@@ -5,6 +5,7 @@ import { AlertTriangle, Calendar, Factory, Pill, Route, Users } from 'lucide-rea
 import { formatDate } from '@/lib/utils'
 import DrugContent from './DrugContent'
 import RelatedContentSuggestions from './RelatedContentSuggestions'
+import LabelCitations from './LabelCitations'
 
 interface DrugDetailPageProps {
   drug: Drug
@@ -98,8 +99,21 @@ export default function DrugDetailPage({ drug }: DrugDetailPageProps) {
               <div className="card-body">
                 <div className="prose max-w-none">
                   <p className="text-secondary-700 leading-relaxed">
-                    {drug.aiEnhancedDescription}
+                    {drug.aiDescriptionCitations && drug.aiDescriptionCitations.length > 0
+                      ? drug.aiDescriptionCitations.map((sentence, index) => (
+                          <span key={index}>
+                            {index > 0 && ' '}
+                            {sentence.text}
+                            <LabelCitations citations={sentence.citations} />
+                          </span>
+                        ))
+                      : drug.aiEnhancedDescription}
                   </p>
+                  {drug.aiDescriptionCitations && drug.aiDescriptionCitations.length > 0 && (
+                    <p className="text-xs text-secondary-500 mt-2">
+                      Bracketed references link to the FDA prescribing information sections each sentence is based on.
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -113,10 +127,13 @@ export default function DrugDetailPage({ drug }: DrugDetailPageProps) {
               <div className="flex items-start gap-3">
                 <AlertTriangle className="w-6 h-6 text-danger-600 mt-1 flex-shrink-0" />
                 <div>
-                  <h2 className="text-lg font-bold text-danger-900 mb-2">
+                  <h2 id="boxed-warning-heading" className="text-lg font-bold text-danger-900 mb-2">
                     ⚠️ BLACK BOX WARNING
                   </h2>
                   <div className="prose prose-sm max-w-none text-danger-800">
+                    {drug.boxedWarningTitle && (
+                      <p className="font-semibold text-danger-900">{drug.boxedWarningTitle}</p>
+                    )}
                     <p>{drug.boxedWarning}</p>
                   </div>
                 </div>
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { Drug } from '@/types/drug'
+import { Drug, DrugSuggestion } from '@/types/drug'
 import { drugAPI } from '@/lib/api'
 import { Search, Check, Plus, Loader2, AlertCircle } from 'lucide-react'
 // Custom debounce utility
@@ -28,6 +28,22 @@ function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T &
   return debounced
 }
 
+// Browsing lists full drugs; typing lists lightweight name suggestions
+type DrugOption = Pick<Drug, 'id' | 'name' | 'aiEnhancedTitle' | 'aiEnhancedDescription'> & {
+  genericName?: string | null
+  fdaBrandName?: string | null
+  manufacturer?: string | null
+  matchedField?: DrugSuggestion['matchedField']
+  matchedValue?: string
+}
+
+const MATCHED_FIELD_LABELS: Record<DrugSuggestion['matchedField'], string> = {
+  name: 'name',
+  brandNames: 'brand name',
+  genericName: 'generic name',
+  fdaBrandName: 'FDA brand name',
+}
+
 interface DrugSelectorProps {
   onSelectDrug: (drug: Drug) => void
   selectedDrugIds: string[]
@@ -37,7 +53,9 @@ interface DrugSelectorProps {
 
 export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelections }: DrugSelectorProps) {
   const [searchQuery, setSearchQuery] = useState('')
-  const [filteredDrugs, setFilteredDrugs] = useState<Drug[]>([])
+  const [filteredDrugs, setFilteredDrugs] = useState<DrugOption[]>([])
+  const [loadedDrugs, setLoadedDrugs] = useState<Drug[]>([])
+  const [selectingId, setSelectingId] = useState<string | null>(null)
   const [isSearching, setIsSearching] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const [searchError, setSearchError] = useState<string | null>(null)
@@ -47,7 +65,8 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
     const loadAllDrugs = async () => {
       setIsSearching(true)
       try {
-        const allDrugs = await drugAPI.getDrugs({ published: true, limit: 50 })
+        const { drugs: allDrugs } = await drugAPI.getDrugs({ published: true, limit: 50 })
+        setLoadedDrugs(allDrugs)
         setFilteredDrugs(allDrugs)
         setSearchError(null)
       } catch (error) {
@@ -71,12 +90,13 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
       try {
         if (!query.trim()) {
           // Load all drugs when query is empty
-          const allDrugs = await drugAPI.getDrugs({ published: true, limit: 50 })
+          const { drugs: allDrugs } = await drugAPI.getDrugs({ published: true, limit: 50 })
+          setLoadedDrugs(allDrugs)
           setFilteredDrugs(allDrugs)
         } else {
-          // Search for drugs
-          const searchResults = await drugAPI.searchDrugs(query, {}, 50)
-          setFilteredDrugs(searchResults)
+          // Typo-tolerant name suggestions
+          const { suggestions } = await drugAPI.suggestDrugs(query, 20)
+          setFilteredDrugs(suggestions)
         }
       } catch (error) {
         console.error('Search error:', error)
@@ -99,9 +119,26 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
   const isSelected = (drugId: string) => selectedDrugIds.includes(drugId)
   const canSelect = selectedDrugIds.length < maxSelections
 
-  const handleDrugSelect = (drug: Drug) => {
-    if (!isSelected(drug.id) && canSelect) {
+  const handleDrugSelect = async (option: DrugOption) => {
+    if (isSelected(option.id) || !canSelect) return
+
+    const loaded = loadedDrugs.find((drug) => drug.id === option.id)
+    if (loaded) {
+      onSelectDrug(loaded)
+      return
+    }
+
+    // Suggestions only carry names, so fetch the full drug for comparison
+    setSelectingId(option.id)
+    try {
+      const drug = await drugAPI.getDrugById(option.id)
+      setLoadedDrugs((prev) => [...prev, drug])
       onSelectDrug(drug)
+    } catch (error) {
+      console.error('Error loading drug:', error)
+      setSearchError('Failed to load drug details')
+    } finally {
+      setSelectingId(null)
     }
   }
 
@@ -180,7 +217,7 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
           <div className="space-y-1">
             {filteredDrugs.map((drug) => {
               const selected = isSelected(drug.id)
-              const disabled = !canSelect && !selected
+              const disabled = (!canSelect && !selected) || selectingId !== null
 
               return (
                 <button
@@ -201,6 +238,8 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
                         }`}>
                           {selected ? (
                             <Check className="w-4 h-4" />
+                          ) : selectingId === drug.id ? (
+                            <Loader2 className="w-4 h-4 text-secondary-400 animate-spin" />
                           ) : (
                             !disabled && <Plus className="w-4 h-4 text-secondary-400" />
                           )}
@@ -219,6 +258,11 @@ export default function DrugSelector({ onSelectDrug, selectedDrugIds, maxSelecti
                               <span>Mfg: {drug.manufacturer}</span>
                             )}
                           </div>
+                          {drug.matchedField && drug.matchedField !== 'name' && (
+                            <p className="text-sm text-secondary-500 mt-1">
+                              Matched {MATCHED_FIELD_LABELS[drug.matchedField]}: {drug.matchedValue}
+                            </p>
+                          )}
                           {drug.aiEnhancedDescription && (
                             <p className="text-sm text-secondary-600 mt-1 line-clamp-2">
                               {drug.aiEnhancedDescription}
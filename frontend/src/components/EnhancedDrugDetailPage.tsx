@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { Drug } from '@/types/drug'
 import { drugAPI } from '@/lib/api'
 import DrugDetailPage from './DrugDetailPage'
+import LabelQuestionPanel from './LabelQuestionPanel'
 import { PageLoading, ErrorState } from './LoadingStates'
 import { AlertTriangle, ArrowLeft } from 'lucide-react'
 import Link from 'next/link'
@@ -121,7 +122,16 @@ export default function EnhancedDrugDetailPage({ slug }: EnhancedDrugDetailPageP
     )
   }
 
-  return <DrugDetailPage drug={drug} />
+  return (
+    <>
+      <DrugDetailPage drug={drug} />
+      <div className="bg-secondary-50">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 pb-12">
+          <LabelQuestionPanel slug={drug.slug} drugName={drug.name} />
+        </div>
+      </div>
+    </>
+  )
 }
 
 // Loading skeleton specifically for drug detail page
@@ -0,0 +1,57 @@
+import { LabelCitation } from '@/types/drug'
+
+// Headings rendered for each label section on the drug page, by label key
+const sectionHeadingIds: Record<string, string> = {
+  boxedWarning: 'boxed-warning-heading',
+  indicationsAndUsage: 'indications-heading',
+  dosageAndAdministration: 'dosage-heading',
+  warningsAndPrecautions: 'warnings-heading',
+  contraindications: 'contraindications-heading',
+  adverseReactions: 'adverse-reactions-heading',
+  drugInteractions: 'drug-interactions-heading',
+  useInSpecificPopulations: 'specific-populations-heading',
+  description: 'description-heading',
+  clinicalPharmacology: 'clinical-pharmacology-heading',
+  mechanismOfAction: 'mechanism-of-action-heading',
+  nonclinicalToxicology: 'nonclinical-toxicology-heading',
+  clinicalStudies: 'clinical-studies-heading',
+  howSupplied: 'how-supplied-heading',
+  instructionsForUse: 'instructions-for-use-heading',
+}
+
+interface LabelCitationsProps {
+  citations?: LabelCitation[] | null
+  className?: string
+}
+
+function citationLabel(citation: LabelCitation): string {
+  if (citation.section) return `§${citation.section}`
+  if (citation.labelKey === 'boxedWarning') return 'Boxed Warning'
+  return citation.title ?? 'Label'
+}
+
+/** Links from AI-generated text to the label sections it was drawn from. */
+export default function LabelCitations({ citations, className = '' }: LabelCitationsProps) {
+  if (!citations || citations.length === 0) return null
+
+  return (
+    <span className={`text-xs text-secondary-500 ${className}`}>
+      {citations.map((citation, index) => {
+        const headingId = citation.labelKey ? sectionHeadingIds[citation.labelKey] : undefined
+        const title = `FDA label${citation.title ? `: ${citation.title}` : ''}`
+
+        return (
+          <sup key={`${citation.code}-${citation.section}-${index}`} className="ml-0.5">
+            {headingId ? (
+              <a href={`#${headingId}`} title={title} className="text-primary-600 hover:underline">
+                [{citationLabel(citation)}]
+              </a>
+            ) : (
+              <span title={title}>[{citationLabel(citation)}]</span>
+            )}
+          </sup>
+        )
+      })}
+    </span>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { MessageCircleQuestion, Send } from 'lucide-react'
+import { LabelAnswer } from '@/types/drug'
+import { APIError, drugAPI } from '@/lib/api'
+import LabelCitations from './LabelCitations'
+
+interface LabelQuestionPanelProps {
+  slug: string
+  drugName: string
+}
+
+const MIN_QUESTION_LENGTH = 3
+const MAX_QUESTION_LENGTH = 500
+
+/** Free-form questions answered from the drug's FDA label, with section links. */
+export default function LabelQuestionPanel({ slug, drugName }: LabelQuestionPanelProps) {
+  const [question, setQuestion] = useState('')
+  const [answers, setAnswers] = useState<LabelAnswer[]>([])
+  const [asking, setAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = question.trim()
+    if (trimmed.length < MIN_QUESTION_LENGTH || asking) return
+
+    setAsking(true)
+    setError(null)
+
+    try {
+      const answer = await drugAPI.askLabelQuestion(slug, trimmed)
+      setAnswers(previous => [...previous, answer])
+      setQuestion('')
+    } catch (err) {
+      console.error('Error asking label question:', err)
+      setError(
+        err instanceof APIError && err.status === 429
+          ? 'Too many questions. Please wait a minute and try again.'
+          : 'Your question could not be answered right now. Please try again.'
+      )
+    } finally {
+      setAsking(false)
+    }
+  }
+
+  return (
+    <section aria-labelledby="label-questions-heading" className="card">
+      <div className="card-header">
+        <h2 id="label-questions-heading" className="text-lg font-semibold text-secondary-900 flex items-center gap-2">
+          <MessageCircleQuestion className="w-5 h-5 text-primary-600" />
+          Ask About {drugName}
+        </h2>
+        <p className="text-sm text-secondary-500 mt-1">
+          Answers come only from the FDA prescribing information for {drugName}.
+        </p>
+      </div>
+
+      <div className="card-body space-y-4">
+        {answers.length > 0 && (
+          <ol className="space-y-4" aria-live="polite">
+            {answers.map((answer, index) => (
+              <li key={index} className="space-y-2">
+                <p className="ml-auto w-fit max-w-[85%] rounded-lg bg-primary-50 px-3 py-2 text-sm text-primary-900">
+                  {answer.question}
+                </p>
+                <div
+                  className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+                    answer.answered
+                      ? 'bg-secondary-100 text-secondary-800'
+                      : 'border border-warning-200 bg-warning-50 text-warning-900'
+                  }`}
+                >
+                  <p className="leading-relaxed">
+                    {answer.sentences.length > 0
+                      ? answer.sentences.map((sentence, sentenceIndex) => (
+                          <span key={sentenceIndex}>
+                            {sentenceIndex > 0 && ' '}
+                            {sentence.text}
+                            <LabelCitations citations={sentence.citations} />
+                          </span>
+                        ))
+                      : answer.answer}
+                  </p>
+                  <p className="mt-2 text-xs text-secondary-500">{answer.disclaimer}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {error && (
+          <p role="alert" className="text-sm text-danger-600">
+            {error}
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <label htmlFor="label-question" className="sr-only">
+            Your question about {drugName}
+          </label>
+          <input
+            id="label-question"
+            type="text"
+            value={question}
+            onChange={event => setQuestion(event.target.value)}
+            maxLength={MAX_QUESTION_LENGTH}
+            placeholder="e.g. Can I take this while pregnant?"
+            className="input flex-1"
+            disabled={asking}
+          />
+          <button
+            type="submit"
+            className="btn-primary inline-flex items-center gap-2"
+            disabled={asking || question.trim().length < MIN_QUESTION_LENGTH}
+          >
+            <Send className="w-4 h-4" />
+            {asking ? 'Asking...' : 'Ask'}
+          </button>
+        </form>
+      </div>
+    </section>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useMemo, Suspense } from 'react'
 import { Search, Filter, Loader2 } from 'lucide-react'
-import { Drug } from '@/types/drug'
+import { DrugSearchFacetBucket, DrugSearchFacets, DrugSearchHit, DrugSearchSnippets } from '@/types/drug'
 import { drugAPI } from '@/lib/api'
 import Link from 'next/link'
 import { APIErrorBoundary, SearchErrorBoundary } from './ErrorBoundary'
@@ -21,7 +21,162 @@ const SearchResultsSkeleton = () => (
   </div>
 )
 
-const SearchResults = ({ results, loading, query }: { results: Drug[], loading: boolean, query: string }) => {
+const PAGE_SIZE = 20
+
+const SNIPPET_LABELS: Record<keyof DrugSearchSnippets, string> = {
+  indications: 'Indications',
+  warnings: 'Warnings',
+  adverseReactions: 'Adverse reactions',
+}
+
+// Snippets come back HTML-escaped from the API with <mark> around matched terms
+const SearchSnippets = ({ snippets }: { snippets?: DrugSearchSnippets }) => {
+  const entries = Object.entries(snippets ?? {}).filter(([, snippet]) => snippet) as Array<
+    [keyof DrugSearchSnippets, string]
+  >
+  if (entries.length === 0) return null
+
+  return (
+    <dl className="space-y-1 mb-3 text-sm">
+      {entries.map(([field, snippet]) => (
+        <div key={field}>
+          <dt className="inline font-medium text-secondary-700">{SNIPPET_LABELS[field]}: </dt>
+          <dd
+            className="inline text-secondary-600 [&_mark]:bg-warning-100 [&_mark]:text-secondary-900"
+            dangerouslySetInnerHTML={{ __html: snippet }}
+          />
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+interface SearchFilters {
+  manufacturer: string
+  route: string
+  productType: string
+  hasWarning: boolean
+  hasPediatricUse: boolean
+}
+
+const ROUTE_OPTIONS = [
+  { value: 'oral', label: 'Oral' },
+  { value: 'injection', label: 'Injection (any)' },
+  { value: 'subcutaneous', label: 'Subcutaneous' },
+  { value: 'intravenous', label: 'Intravenous' },
+  { value: 'intramuscular', label: 'Intramuscular' },
+  { value: 'topical', label: 'Topical' },
+  { value: 'inhalation', label: 'Inhalation' },
+]
+
+type TextFacet = 'manufacturer' | 'route' | 'productType'
+
+const TEXT_FACETS: Array<{ key: TextFacet; label: string }> = [
+  { key: 'manufacturer', label: 'Manufacturer' },
+  { key: 'route', label: 'Route' },
+  { key: 'productType', label: 'Product Type' },
+]
+
+const formatFacetValue = (key: TextFacet, value: string) => {
+  if (key === 'manufacturer') return value
+  return value.toLowerCase().replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+const trueCount = (buckets: DrugSearchFacetBucket<boolean>[]) =>
+  buckets.find((bucket) => bucket.value)?.count ?? 0
+
+const FacetChip = ({ label, count, selected, onClick }: {
+  label: string
+  count: number
+  selected: boolean
+  onClick: () => void
+}) => (
+  <button
+    type="button"
+    aria-pressed={selected}
+    onClick={onClick}
+    className={`inline-flex items-center gap-1 px-3 py-1 rounded-full border text-sm transition-colors ${
+      selected
+        ? 'bg-primary-600 border-primary-600 text-white'
+        : 'bg-white border-secondary-300 text-secondary-700 hover:border-primary-400'
+    }`}
+  >
+    {label}
+    <span className={selected ? 'text-primary-100' : 'text-secondary-400'}>({count})</span>
+  </button>
+)
+
+// Selecting a chip sets the matching filter; selecting it again clears it
+const SearchFacets = ({ facets, filters, onFilterChange }: {
+  facets: DrugSearchFacets
+  filters: SearchFilters
+  onFilterChange: (filterKey: keyof SearchFilters, value: string | boolean) => void
+}) => {
+  const boxedWarnings = trueCount(facets.hasBoxedWarning)
+  const pediatricUse = trueCount(facets.hasPediatricUse)
+
+  const groups = TEXT_FACETS.filter(({ key }) => facets[key].length > 0)
+  if (groups.length === 0 && !boxedWarnings && !pediatricUse && !filters.hasWarning && !filters.hasPediatricUse) {
+    return null
+  }
+
+  return (
+    <section aria-label="Refine results" className="card mb-6">
+      <div className="card-body space-y-4">
+        {groups.map(({ key, label }) => (
+          <div key={key}>
+            <h2 className="text-sm font-medium text-secondary-700 mb-2">{label}</h2>
+            <div className="flex flex-wrap gap-2">
+              {facets[key].map(({ value, count }) => (
+                <FacetChip
+                  key={value}
+                  label={formatFacetValue(key, value)}
+                  count={count}
+                  selected={filters[key].toLowerCase() === value.toLowerCase()}
+                  onClick={() => onFilterChange(key, filters[key].toLowerCase() === value.toLowerCase() ? '' : value)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        {(boxedWarnings > 0 || pediatricUse > 0 || filters.hasWarning || filters.hasPediatricUse) && (
+          <div>
+            <h2 className="text-sm font-medium text-secondary-700 mb-2">Safety &amp; Populations</h2>
+            <div className="flex flex-wrap gap-2">
+              {(boxedWarnings > 0 || filters.hasWarning) && (
+                <FacetChip
+                  label="Boxed warning"
+                  count={boxedWarnings}
+                  selected={filters.hasWarning}
+                  onClick={() => onFilterChange('hasWarning', !filters.hasWarning)}
+                />
+              )}
+              {(pediatricUse > 0 || filters.hasPediatricUse) && (
+                <FacetChip
+                  label="Pediatric use established"
+                  count={pediatricUse}
+                  selected={filters.hasPediatricUse}
+                  onClick={() => onFilterChange('hasPediatricUse', !filters.hasPediatricUse)}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
+
+interface SearchResultsProps {
+  results: DrugSearchHit[]
+  total: number
+  loading: boolean
+  loadingMore: boolean
+  query: string
+  onLoadMore: () => void
+}
+
+const SearchResults = ({ results, total, loading, loadingMore, query, onLoadMore }: SearchResultsProps) => {
   if (loading) return <SearchResultsSkeleton />
   
   if (!query) {
@@ -49,7 +204,7 @@ const SearchResults = ({ results, loading, query }: { results: Drug[], loading:
   return (
     <div className="space-y-4">
       <p className="text-secondary-600 mb-6">
-        Found {results.length} result{results.length !== 1 ? 's' : ''} for "{query}"
+        Found {total} result{total !== 1 ? 's' : ''} for "{query}"
       </p>
       {results.map((drug) => (
         <article key={drug.id} className="card hover:shadow-md transition-shadow">
@@ -86,6 +241,8 @@ const SearchResults = ({ results, loading, query }: { results: Drug[], loading:
                 {drug.aiEnhancedDescription}
               </p>
             )}
+
+            <SearchSnippets snippets={drug.snippets} />
             
                 <div className="flex flex-wrap gap-2">
                   {drug.brandNames?.map((brand) => (
@@ -104,18 +261,36 @@ const SearchResults = ({ results, loading, query }: { results: Drug[], loading:
           </div>
         </article>
       ))}
+      {results.length < total && (
+        <div className="text-center pt-2">
+          <button
+            type="button"
+            className="btn-outline inline-flex items-center gap-2"
+            onClick={onLoadMore}
+            disabled={loadingMore}
+          >
+            {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+            Load more results
+          </button>
+        </div>
+      )}
     </div>
   )
 }
 
 export default function SearchPage() {
   const [query, setQuery] = useState('')
-  const [results, setResults] = useState<Drug[]>([])
+  const [results, setResults] = useState<DrugSearchHit[]>([])
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(false)
-  const [filters, setFilters] = useState({
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [facets, setFacets] = useState<DrugSearchFacets | null>(null)
+  const [filters, setFilters] = useState<SearchFilters>({
     manufacturer: '',
     route: '',
-    hasWarning: false
+    productType: '',
+    hasWarning: false,
+    hasPediatricUse: false
   })
 
   // Debounced search
@@ -125,6 +300,8 @@ export default function SearchPage() {
         performSearch(query.trim())
       } else {
         setResults([])
+        setTotal(0)
+        setFacets(null)
       }
     }, 300)
 
@@ -135,16 +312,33 @@ export default function SearchPage() {
     setLoading(true)
     try {
       const searchResults = await drugAPI.searchDrugs(searchQuery, filters)
-      setResults(searchResults)
+      setResults(searchResults.drugs)
+      setTotal(searchResults.total)
+      setFacets(searchResults.facets ?? null)
     } catch (error) {
       console.error('Search error:', error)
       setResults([])
+      setTotal(0)
+      setFacets(null)
     } finally {
       setLoading(false)
     }
   }
 
-  const handleFilterChange = (filterKey: string, value: string | boolean) => {
+  const loadMore = async () => {
+    setLoadingMore(true)
+    try {
+      const nextPage = await drugAPI.searchDrugs(query.trim(), filters, PAGE_SIZE, results.length)
+      setResults(prev => [...prev, ...nextPage.drugs])
+      setTotal(nextPage.total)
+    } catch (error) {
+      console.error('Search error:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const handleFilterChange = (filterKey: keyof SearchFilters, value: string | boolean) => {
     setFilters(prev => ({
       ...prev,
       [filterKey]: value
@@ -226,10 +420,12 @@ export default function SearchPage() {
                   onChange={(e) => handleFilterChange('route', e.target.value)}
                 >
                   <option value="">All routes</option>
-                  <option value="oral">Oral</option>
-                  <option value="injection">Injection</option>
-                  <option value="topical">Topical</option>
-                  <option value="inhalation">Inhalation</option>
+                  {ROUTE_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                  {filters.route && !ROUTE_OPTIONS.some(({ value }) => value === filters.route) && (
+                    <option value={filters.route}>{formatFacetValue('route', filters.route)}</option>
+                  )}
                 </select>
               </div>
               <div className="flex items-center mt-6">
@@ -244,6 +440,18 @@ export default function SearchPage() {
                   Has boxed warning
                 </label>
               </div>
+              <div className="flex items-center sm:mt-6">
+                <input
+                  id="hasPediatricUse"
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-secondary-300 rounded"
+                  checked={filters.hasPediatricUse}
+                  onChange={(e) => handleFilterChange('hasPediatricUse', e.target.checked)}
+                />
+                <label htmlFor="hasPediatricUse" className="ml-2 block text-sm text-secondary-700">
+                  Pediatric use established
+                </label>
+              </div>
             </div>
           </details>
         </div>
@@ -253,7 +461,17 @@ export default function SearchPage() {
         <SearchErrorBoundary>
           <Suspense fallback={<SearchResultsSkeleton />}>
             <APIErrorBoundary>
-              <SearchResults results={results} loading={loading} query={query} />
+              {facets && query.trim() && !loading && (
+                <SearchFacets facets={facets} filters={filters} onFilterChange={handleFilterChange} />
+              )}
+              <SearchResults
+                results={results}
+                total={total}
+                loading={loading}
+                loadingMore={loadingMore}
+                query={query}
+                onLoadMore={loadMore}
+              />
             </APIErrorBoundary>
           </Suspense>
         </SearchErrorBoundary>
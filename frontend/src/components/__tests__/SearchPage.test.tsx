@@ -1,8 +1,9 @@
 import React from 'react'
-import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import SearchPage from '../SearchPage'
 import { drugAPI } from '@/lib/api'
+import { DrugSearchResponse } from '@/types/drug'
 
 // Mock the API
 jest.mock('@/lib/api', () => ({
@@ -51,7 +52,7 @@ describe('SearchPage', () => {
       }
     ]
 
-    mockedDrugAPI.searchDrugs.mockResolvedValue(mockResults)
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: mockResults, total: mockResults.length, offset: 0 })
 
     render(<SearchPage />)
     
@@ -63,7 +64,9 @@ describe('SearchPage', () => {
       expect(mockedDrugAPI.searchDrugs).toHaveBeenCalledWith('lisinopril', {
         manufacturer: '',
         route: '',
-        hasWarning: false
+        productType: '',
+        hasWarning: false,
+        hasPediatricUse: false
       })
     }, { timeout: 1000 })
 
@@ -74,7 +77,7 @@ describe('SearchPage', () => {
   })
 
   it('displays no results message when search returns empty', async () => {
-    mockedDrugAPI.searchDrugs.mockResolvedValue([])
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: [], total: 0, offset: 0 })
 
     render(<SearchPage />)
     
@@ -89,8 +92,8 @@ describe('SearchPage', () => {
 
   it('shows loading state during search', async () => {
     // Create a promise that doesn't resolve immediately
-    let resolveSearch: (value: any) => void
-    const searchPromise = new Promise((resolve) => {
+    let resolveSearch: (value: DrugSearchResponse) => void
+    const searchPromise = new Promise<DrugSearchResponse>((resolve) => {
       resolveSearch = resolve
     })
     
@@ -108,7 +111,7 @@ describe('SearchPage', () => {
     }, { timeout: 1000 })
 
     // Resolve the search
-    resolveSearch!([])
+    resolveSearch!({ drugs: [], total: 0, offset: 0 })
     
     await waitFor(() => {
       expect(document.querySelector('.animate-pulse')).not.toBeInTheDocument()
@@ -158,7 +161,9 @@ describe('SearchPage', () => {
       expect(mockedDrugAPI.searchDrugs).toHaveBeenCalledWith('test drug', {
         manufacturer: 'Pfizer',
         route: 'oral',
-        hasWarning: true
+        productType: '',
+        hasWarning: true,
+        hasPediatricUse: false
       })
     }, { timeout: 1000 })
   })
@@ -181,7 +186,7 @@ describe('SearchPage', () => {
       }
     ]
 
-    mockedDrugAPI.searchDrugs.mockResolvedValue(mockResults)
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: mockResults, total: mockResults.length, offset: 0 })
 
     render(<SearchPage />)
     
@@ -216,7 +221,7 @@ describe('SearchPage', () => {
       }
     ]
 
-    mockedDrugAPI.searchDrugs.mockResolvedValue(mockResults)
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: mockResults, total: mockResults.length, offset: 0 })
 
     render(<SearchPage />)
     
@@ -243,7 +248,7 @@ describe('SearchPage', () => {
       }
     ]
 
-    mockedDrugAPI.searchDrugs.mockResolvedValue(mockResults)
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: mockResults, total: mockResults.length, offset: 0 })
 
     render(<SearchPage />)
     
@@ -290,7 +295,7 @@ describe('SearchPage', () => {
       faqs: []
     }))
 
-    mockedDrugAPI.searchDrugs.mockResolvedValue(mockResults)
+    mockedDrugAPI.searchDrugs.mockResolvedValue({ drugs: mockResults, total: mockResults.length, offset: 0 })
 
     render(<SearchPage />)
     
@@ -301,4 +306,99 @@ describe('SearchPage', () => {
       expect(screen.getByText('Found 3 results for "drug"')).toBeInTheDocument()
     })
   })
-})
\ No newline at end of file
+
+  it('renders highlighted snippets and loads the next page', async () => {
+    const hit = (i: number) => ({
+      id: `${i}`,
+      name: `Drug ${i}`,
+      slug: `drug-${i}`,
+      published: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      faqs: [],
+      searchRank: 1 / i,
+      snippets: { indications: `treatment of <mark>migraine</mark> ${i}` }
+    })
+
+    mockedDrugAPI.searchDrugs
+      .mockResolvedValueOnce({ drugs: [hit(1)], total: 2, offset: 0 })
+      .mockResolvedValueOnce({ drugs: [hit(2)], total: 2, offset: 1 })
+
+    render(<SearchPage />)
+
+    await userEvent.type(screen.getByRole('searchbox'), 'migraine')
+
+    await waitFor(() => {
+      expect(screen.getByText('Found 2 results for "migraine"')).toBeInTheDocument()
+    })
+    expect(screen.getAllByText('migraine', { selector: 'mark' })).toHaveLength(1)
+
+    await userEvent.click(screen.getByRole('button', { name: /load more results/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText('Drug 2')).toBeInTheDocument()
+    })
+    expect(mockedDrugAPI.searchDrugs).toHaveBeenLastCalledWith(
+      'migraine',
+      { manufacturer: '', route: '', productType: '', hasWarning: false, hasPediatricUse: false },
+      20,
+      1
+    )
+    expect(screen.queryByRole('button', { name: /load more results/i })).not.toBeInTheDocument()
+  })
+
+  it('renders facet counts and refines results when a facet is selected', async () => {
+    const facets = {
+      manufacturer: [{ value: 'Eli Lilly and Company', count: 2 }],
+      route: [
+        { value: 'subcutaneous', count: 2 },
+        { value: 'oral', count: 1 }
+      ],
+      productType: [{ value: 'HUMAN PRESCRIPTION DRUG', count: 2 }],
+      hasBoxedWarning: [
+        { value: false, count: 1 },
+        { value: true, count: 1 }
+      ],
+      hasPediatricUse: [{ value: false, count: 2 }]
+    }
+
+    mockedDrugAPI.searchDrugs.mockResolvedValue({
+      drugs: [{
+        id: '1',
+        name: 'Taltz',
+        slug: 'taltz',
+        published: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        faqs: []
+      }],
+      total: 2,
+      offset: 0,
+      facets
+    })
+
+    render(<SearchPage />)
+
+    await userEvent.type(screen.getByRole('searchbox'), 'lilly')
+
+    const facetPanel = await screen.findByRole('region', { name: 'Refine results' })
+    expect(within(facetPanel).getByRole('button', { name: /Human Prescription Drug/ })).toHaveTextContent('(2)')
+    expect(within(facetPanel).getByRole('button', { name: /Boxed warning/ })).toHaveTextContent('(1)')
+    expect(within(facetPanel).queryByRole('button', { name: /Pediatric use/ })).not.toBeInTheDocument()
+
+    await userEvent.click(within(facetPanel).getByRole('button', { name: /Subcutaneous/ }))
+
+    await waitFor(() => {
+      expect(mockedDrugAPI.searchDrugs).toHaveBeenLastCalledWith('lilly', {
+        manufacturer: '',
+        route: 'subcutaneous',
+        productType: '',
+        hasWarning: false,
+        hasPediatricUse: false
+      })
+    })
+    expect(
+      await screen.findByRole('button', { name: /Subcutaneous/, pressed: true })
+    ).toBeInTheDocument()
+  })
+})
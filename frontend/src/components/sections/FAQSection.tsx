@@ -1,6 +1,7 @@
 'use client'
 
 import { DrugFAQ } from '@/types/drug'
+import LabelCitations from '../LabelCitations'
 
 interface FAQSectionProps {
   faqs: DrugFAQ[]
@@ -30,6 +31,12 @@ export default function FAQSection({ faqs }: FAQSectionProps) {
                 <p className="text-sm text-secondary-600 leading-relaxed" itemProp="text">
                   {faq.answer}
                 </p>
+                {faq.citations && faq.citations.length > 0 && (
+                  <p className="mt-1 text-xs text-secondary-500">
+                    Source: FDA label
+                    <LabelCitations citations={faq.citations} />
+                  </p>
+                )}
               </div>
               {index < faqs.length - 1 && (
                 <hr className="mt-4 border-secondary-200" aria-hidden="true" />
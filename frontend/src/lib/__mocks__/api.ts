@@ -1,5 +1,6 @@
 export const drugAPI = {
-  searchDrugs: jest.fn().mockResolvedValue([]),
+  searchDrugs: jest.fn().mockResolvedValue({ drugs: [], total: 0, offset: 0 }),
+  suggestDrugs: jest.fn().mockResolvedValue({ query: '', suggestions: [] }),
   getDrug: jest.fn().mockResolvedValue(null),
   getAllDrugs: jest.fn().mockResolvedValue([])
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { createEventStreamParser } from '../event-stream'
+
+describe('createEventStreamParser', () => {
+  it('should parse events split across chunks', () => {
+    const parser = createEventStreamParser()
+
+    expect(parser.push('\nevent: token\nid: 1\ndata: {"type":"token",')).toEqual([])
+    expect(parser.push('"text":"ACE"}\n\nevent: done\r\ndata: {"type":"done"}\r\n\r\n')).toEqual([
+      { event: 'token', data: '{"type":"token","text":"ACE"}' },
+      { event: 'done', data: '{"type":"done"}' },
+    ])
+  })
+
+  it('should join multi-line data, default the event name and skip comments', () => {
+    const parser = createEventStreamParser()
+
+    expect(parser.push(': keep-alive\n\ndata: first\ndata: second\n\nevent: error\ndata: Drug not found\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+      { event: 'error', data: 'Drug not found' },
+    ])
+  })
+})
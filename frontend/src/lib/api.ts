@@ -1,4 +1,14 @@
-import { Drug, DrugSearchParams } from '@/types/drug'
+import {
+  Drug,
+  DrugListParams,
+  DrugPage,
+  DrugSearchFilters,
+  DrugSearchResponse,
+  DrugSuggestResponse,
+  LabelAnswer,
+} from '@/types/drug'
+import { AIStreamEvent, ProviderExplanation, ProviderExplanationRequest } from '@/types/ai'
+import { createEventStreamParser } from './event-stream'
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:3001'
 
@@ -45,9 +55,67 @@ async function fetchAPI<T>(
   return response.json()
 }
 
+// POST to a server-sent events endpoint, passing each event to onEvent as it
+// arrives. Resolves with the result of the final `done` event.
+async function streamAPI<T>(
+  endpoint: string,
+  body: unknown,
+  onEvent: (event: AIStreamEvent<T>) => void,
+  options: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    ...options,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok || !response.body) {
+    let errorData
+    try {
+      errorData = await response.json()
+    } catch {
+      errorData = { message: 'An error occurred' }
+    }
+
+    throw new APIError(errorData.message || `HTTP ${response.status}`, response.status, errorData)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  const parser = createEventStreamParser()
+
+  while (true) {
+    const { done, value } = await reader.read()
+    const events = parser.push(done ? decoder.decode() + '\n\n' : decoder.decode(value, { stream: true }))
+
+    for (const { event, data } of events) {
+      // The server reports failures as an `error` event with a plain-text message
+      if (event === 'error') {
+        throw new APIError(data || 'Streaming failed', response.status)
+      }
+
+      const parsed = JSON.parse(data) as AIStreamEvent<T>
+      onEvent(parsed)
+      if (parsed.type === 'done') {
+        reader.cancel().catch(() => undefined)
+        return parsed.result
+      }
+    }
+
+    if (done) {
+      throw new APIError('Stream ended before the result was sent', response.status)
+    }
+  }
+}
+
 export const drugAPI = {
-  // Get all drugs with optional filtering
-  async getDrugs(params?: DrugSearchParams): Promise<Drug[]> {
+  // Get one page of drugs; pass the returned nextCursor to get the next page
+  async getDrugs(params?: DrugListParams): Promise<DrugPage> {
     const searchParams = new URLSearchParams()
     
     if (params?.published !== undefined) {
@@ -56,9 +124,35 @@ export const drugAPI = {
     if (params?.limit) {
       searchParams.set('limit', params.limit.toString())
     }
+    if (params?.cursor) {
+      searchParams.set('cursor', params.cursor)
+    }
+    if (params?.sort) {
+      searchParams.set('sort', params.sort)
+    }
+    if (params?.order) {
+      searchParams.set('order', params.order)
+    }
+    if (params?.fields?.length) {
+      searchParams.set('fields', params.fields.join(','))
+    }
 
     const endpoint = `/drugs${searchParams.toString() ? `?${searchParams.toString()}` : ''}`
-    return fetchAPI<Drug[]>(endpoint)
+    return fetchAPI<DrugPage>(endpoint)
+  },
+
+  // Walk every page of drugs; select only the fields you need
+  async getAllDrugs(params?: Omit<DrugListParams, 'cursor'>): Promise<Drug[]> {
+    const drugs: Drug[] = []
+    let cursor: string | undefined
+
+    do {
+      const page = await drugAPI.getDrugs({ limit: 200, ...params, cursor })
+      drugs.push(...page.drugs)
+      cursor = page.nextCursor ?? undefined
+    } while (cursor)
+
+    return drugs
   },
 
   // Get drug by ID
@@ -71,13 +165,30 @@ export const drugAPI = {
     return fetchAPI<Drug>(`/drugs/slug/${slug}`)
   },
 
+  // Ask a free-form question answered from the drug's label
+  async askLabelQuestion(slug: string, question: string): Promise<LabelAnswer> {
+    return fetchAPI<LabelAnswer>(`/drugs/${slug}/ask`, {
+      method: 'POST',
+      body: JSON.stringify({ question }),
+    })
+  },
+
   // Search drugs
-  async searchDrugs(query: string, filters?: { manufacturer?: string; route?: string; hasWarning?: boolean }, limit = 20): Promise<Drug[]> {
+  async searchDrugs(
+    query: string,
+    filters?: DrugSearchFilters,
+    limit = 20,
+    offset = 0
+  ): Promise<DrugSearchResponse> {
     const searchParams = new URLSearchParams({
       query,
       limit: limit.toString(),
       published: 'true',
     })
+
+    if (offset > 0) {
+      searchParams.set('offset', offset.toString())
+    }
     
     if (filters?.manufacturer) {
       searchParams.set('manufacturer', filters.manufacturer)
@@ -85,11 +196,23 @@ export const drugAPI = {
     if (filters?.route) {
       searchParams.set('route', filters.route)
     }
+    if (filters?.productType) {
+      searchParams.set('productType', filters.productType)
+    }
     if (filters?.hasWarning) {
-      searchParams.set('hasWarning', 'true')
+      searchParams.set('hasBoxedWarning', 'true')
+    }
+    if (filters?.hasPediatricUse) {
+      searchParams.set('hasPediatricUse', 'true')
     }
     
-    return fetchAPI<Drug[]>(`/drugs/search?${searchParams.toString()}`)
+    return fetchAPI<DrugSearchResponse>(`/drugs/search?${searchParams.toString()}`)
+  },
+
+  // Typo-tolerant name suggestions for autocomplete
+  async suggestDrugs(query: string, limit = 8): Promise<DrugSuggestResponse> {
+    const searchParams = new URLSearchParams({ query, limit: limit.toString() })
+    return fetchAPI<DrugSuggestResponse>(`/drugs/suggest?${searchParams.toString()}`)
   },
 
   // Compare multiple drugs by IDs
@@ -101,12 +224,25 @@ export const drugAPI = {
   },
 }
 
+export const aiAPI = {
+  // Generate a provider explanation, reporting sections as they are written
+  async streamProviderExplanation(
+    request: ProviderExplanationRequest,
+    onEvent: (event: AIStreamEvent<ProviderExplanation>) => void,
+    signal?: AbortSignal
+  ): Promise<ProviderExplanation> {
+    return streamAPI<ProviderExplanation>('/ai-service/generate-provider-explanation/stream', request, onEvent, {
+      signal,
+    })
+  },
+}
+
 // Cache for static generation
 export const drugCache = {
   // Get all published drug slugs for static generation
   async getAllDrugSlugs(): Promise<string[]> {
     try {
-      const drugs = await drugAPI.getDrugs({ published: true })
+      const drugs = await drugAPI.getAllDrugs({ published: true, fields: ['slug'] })
       return drugs.map(drug => drug.slug)
     } catch (error) {
       console.error('Error fetching drug slugs:', error)
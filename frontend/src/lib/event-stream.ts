@@ -0,0 +1,35 @@
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+// Incremental parser for a text/event-stream body. Push decoded chunks as they
+// arrive; complete events are returned, and a partial one is kept for the next chunk.
+export function createEventStreamParser() {
+  let buffer = ''
+
+  return {
+    push(chunk: string): ServerSentEvent[] {
+      buffer += chunk.replace(/\r\n?/g, '\n')
+      const blocks = buffer.split('\n\n')
+      buffer = blocks.pop() ?? ''
+
+      return blocks.flatMap(block => {
+        let event = 'message'
+        const data: string[] = []
+
+        for (const line of block.split('\n')) {
+          const separator = line.indexOf(':')
+          if (separator === 0) continue
+          const field = separator < 0 ? line : line.slice(0, separator)
+          const value = separator < 0 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+          if (field === 'event') event = value
+          if (field === 'data') data.push(value)
+        }
+
+        return data.length > 0 ? [{ event, data: data.join('\n') }] : []
+      })
+    },
+  }
+}
@@ -0,0 +1,31 @@
+export interface ProviderExplanation {
+  explanation: string
+  keyPoints: string[]
+  clinicalContext: string
+  practiceConsiderations: string[]
+  relatedInformation?: string[]
+}
+
+export type ProviderExplanationType =
+  | 'medical_condition'
+  | 'drug_mechanism'
+  | 'treatment_approach'
+  | 'pharmacology'
+
+export type ProviderAudience = 'primary_care' | 'specialist' | 'pharmacy' | 'general_healthcare'
+
+export interface ProviderExplanationRequest {
+  topic: string
+  type: ProviderExplanationType
+  drugName?: string
+  indication?: string
+  targetAudience?: ProviderAudience
+}
+
+// Progress of a streamed generation: raw text, the latest (possibly partial)
+// value of one field, or the final validated result
+export type AIStreamEvent<T> =
+  | { type: 'token'; text: string }
+  | { type: 'field'; field: string; value: unknown }
+  | { type: 'done'; result: T }
+  | { type: 'error'; message: string }
@@ -1,3 +1,9 @@
+export interface DosageFormStrength {
+  form: string
+  strength: string
+  presentation: string | null
+}
+
 export interface Drug {
   id: string
   name: string
@@ -7,7 +13,11 @@ export interface Drug {
   brandNames?: string[]
   slug: string
   manufacturer?: string
+  productType?: string
   route?: string
+  routes?: string[]
+  dosageForms?: string[]
+  strengths?: DosageFormStrength[]
   published: boolean
   createdAt: string
   updatedAt: string
@@ -18,12 +28,27 @@ export interface Drug {
   contraindications?: string
   warnings?: string
   boxedWarning?: string
+  boxedWarningTitle?: string
+  hasBoxedWarning?: boolean
   dosageInfo?: string
   adverseReactions?: string
+  drugInteractions?: string
+  useInSpecificPopulations?: string
+  pediatricUse?: string
+  hasPediatricUse?: boolean
+  description?: string
+  clinicalPharmacology?: string
+  mechanismOfAction?: string
+  nonclinicalToxicology?: string
+  clinicalStudies?: string
+  howSupplied?: string
+  instructionsForUse?: string
+  highlights?: Record<string, string>
   
   // AI-Enhanced Content
   aiEnhancedTitle?: string
   aiEnhancedDescription?: string
+  aiDescriptionCitations?: CitedSentence[] | null
   seoMetaTitle?: string
   seoMetaDescription?: string
   
@@ -31,26 +56,117 @@ export interface Drug {
   faqs?: DrugFAQ[]
 }
 
+// Label section a piece of AI-generated content was drawn from
+export interface LabelCitation {
+  section: string | null
+  title: string | null
+  code: string
+  labelKey: string | null
+}
+
+export interface CitedSentence {
+  text: string
+  citations: LabelCitation[]
+}
+
+// Answer to a free-form question, drawn from the drug's label sections
+export interface LabelAnswer {
+  question: string
+  // False when the label doesn't cover the question and it was declined
+  answered: boolean
+  answer: string
+  sentences: CitedSentence[]
+  citations: LabelCitation[]
+  disclaimer: string
+}
+
 export interface DrugFAQ {
   id: string
   question: string
   answer: string
+  citations?: LabelCitation[] | null
   createdAt: string
   updatedAt: string
   drugId: string
 }
 
-export interface DrugSearchParams {
-  query?: string
-  limit?: number
+export type DrugSortField = 'name' | 'updatedAt' | 'effectiveTime'
+
+export interface DrugListParams {
   published?: boolean
+  limit?: number
+  cursor?: string
+  sort?: DrugSortField
+  order?: 'asc' | 'desc'
+  // Drug fields to return; heavy columns such as fdaLabelData are omitted by default
+  fields?: Array<keyof Drug>
+}
+
+export interface DrugPage<T = Drug> {
+  drugs: T[]
+  total: number
+  limit: number
+  nextCursor: string | null
+}
+
+// Label excerpts around matched terms; HTML-escaped except for <mark> tags
+export interface DrugSearchSnippets {
+  indications?: string
+  warnings?: string
+  adverseReactions?: string
+}
+
+export interface DrugSearchHit extends Drug {
+  searchRank?: number
+  snippets?: DrugSearchSnippets
+}
+
+export interface DrugSearchFacetBucket<T = string> {
+  value: T
+  count: number
+}
+
+// Counts over the query's matches; each facet ignores its own filter
+export interface DrugSearchFacets {
+  manufacturer: DrugSearchFacetBucket[]
+  route: DrugSearchFacetBucket[]
+  productType: DrugSearchFacetBucket[]
+  hasBoxedWarning: DrugSearchFacetBucket<boolean>[]
+  hasPediatricUse: DrugSearchFacetBucket<boolean>[]
+}
+
+export interface DrugSearchFilters {
+  manufacturer?: string
+  route?: string
+  productType?: string
+  hasWarning?: boolean
+  hasPediatricUse?: boolean
 }
 
 export interface DrugSearchResponse {
-  drugs: Drug[]
+  drugs: DrugSearchHit[]
   total: number
+  offset: number
   query?: string
   limit?: number
+  facets?: DrugSearchFacets
+}
+
+export interface DrugSuggestion {
+  id: string
+  name: string
+  slug: string
+  genericName: string | null
+  fdaBrandName: string | null
+  manufacturer: string | null
+  matchedField: 'name' | 'brandNames' | 'genericName' | 'fdaBrandName'
+  matchedValue: string
+  score: number
+}
+
+export interface DrugSuggestResponse {
+  query: string
+  suggestions: DrugSuggestion[]
 }
 
 export interface APIResponse<T> {